@@ -9,7 +9,13 @@ import {
   agentInfoCommand,
   agentListCommand,
   agentRegisterCommand,
+  agentSearchCommand,
 } from './commands/agent.js';
+import {
+  approvalApproveCommand,
+  approvalListCommand,
+  approvalRejectCommand,
+} from './commands/approval.js';
 import {
   checkVerificationCommand,
   deployContractCommand,
@@ -27,6 +33,21 @@ import {
   multicallBatchCommand,
 } from './commands/multicall.js';
 import { networkContractsCommand, networkInfoCommand } from './commands/network.js';
+import {
+  sessionCreateCommand,
+  sessionListCommand,
+  sessionRevokeCommand,
+} from './commands/session.js';
+import { storageMigrateCommand } from './commands/storage.js';
+import {
+  vaultCreateCommand,
+  vaultInfoCommand,
+  vaultDepositCommand,
+  vaultWithdrawCommand,
+  vaultLimitCommand,
+  vaultAllowTokenCommand,
+  vaultDisallowTokenCommand,
+} from './commands/vault.js';
 import { taskCreateCommand, taskStatusCommand } from './commands/task.js';
 import {
   nftMetadataCommand,
@@ -37,7 +58,12 @@ import {
   tokenInfoCommand,
   tokenTransferCommand,
 } from './commands/token.js';
-import { walletBalanceCommand, walletInfoCommand } from './commands/wallet.js';
+import {
+  walletBalanceCommand,
+  walletCreateCommand,
+  walletImportCommand,
+  walletInfoCommand,
+} from './commands/wallet.js';
 
 // Read version from package.json
 let packageVersion = '3.0.12'; // fallback
@@ -235,11 +261,17 @@ Usage: somnia-agent <command> [options]
     agent:register              Register a new agent on-chain
     agent:list                  List all agents
     agent:info <id>             Get agent information
+    agent:search [capability]   Search agents by capability and track record
 
   Task Management:
     task:create <agent-id>      Create a new task
     task:status <task-id>       Get task status
 
+  Approvals:
+    approval:list               List actions awaiting approval
+    approval:approve <id>       Approve and execute an action
+    approval:reject <id>        Reject an action
+
   Token Management:
     token:balance <address>     Check token balance
     token:transfer <to> <amt>   Transfer tokens
@@ -269,6 +301,25 @@ Usage: somnia-agent <command> [options]
   Wallet:
     wallet:balance              Show wallet balance
     wallet:info                 Show wallet information
+    wallet:create               Create a wallet in an encrypted keystore
+    wallet:import               Import a key into an encrypted keystore
+
+  Session Keys:
+    session:create <agent>      Issue a scoped session key
+    session:list                List session keys
+    session:revoke <address>    Revoke a session key
+
+  Vault:
+    vault:create <agent>        Create an AgentVault vault
+    vault:info <agent>          Show vault balance and daily limit
+    vault:deposit <agent> <amt> Deposit STT or tokens
+    vault:withdraw <agent> <amt> Withdraw within the daily limit
+    vault:limit <agent> <limit> Update the daily limit
+    vault:allow-token <agent> <token>    Allow a token
+    vault:disallow-token <agent> <token> Disallow a token
+
+  Storage:
+    storage:migrate <data-dir>  Import JSON storage and memory into SQLite
 
   Network:
     network:info                Show network information
@@ -470,6 +521,52 @@ Usage: somnia-agent <command> [options]
       action: agentInfoCommand,
     });
 
+    this.register({
+      name: 'agent:search',
+      description: 'Search agents by capability and track record',
+      usage:
+        'somnia-agent agent:search [capability] [options]\n       sak agent:search [capability] [options]',
+      options: [
+        {
+          name: 'capability',
+          shortName: 'c',
+          description: 'Required capabilities (comma-separated)',
+        },
+        {
+          name: 'owner',
+          shortName: 'o',
+          description: 'Filter by owner address',
+        },
+        {
+          name: 'active',
+          shortName: 'a',
+          description: 'Show only active agents',
+        },
+        {
+          name: 'min-success',
+          description: 'Minimum success rate in percent',
+        },
+        {
+          name: 'text',
+          shortName: 't',
+          description: 'Search name and description',
+        },
+        {
+          name: 'limit',
+          shortName: 'l',
+          description: 'Limit results',
+          default: '20',
+        },
+        {
+          name: 'format',
+          shortName: 'f',
+          description: 'Output format (table/json)',
+          default: 'table',
+        },
+      ],
+      action: agentSearchCommand,
+    });
+
     // Task commands
     this.register({
       name: 'task:create',
@@ -513,6 +610,95 @@ Usage: somnia-agent <command> [options]
       action: taskStatusCommand,
     });
 
+    // Approval commands
+    this.register({
+      name: 'approval:list',
+      description: 'List actions awaiting approval',
+      usage: 'somnia-agent approval:list [options]\n       sak approval:list [options]',
+      options: [
+        {
+          name: 'url',
+          shortName: 'u',
+          description: 'Agent dashboard URL',
+          default: 'http://localhost:3001',
+        },
+        {
+          name: 'token',
+          shortName: 't',
+          description: 'Dashboard auth token (default: $DASHBOARD_TOKEN)',
+        },
+        {
+          name: 'status',
+          shortName: 's',
+          description: 'Status filter (pending/approved/rejected/expired/all)',
+          default: 'pending',
+        },
+        {
+          name: 'format',
+          shortName: 'f',
+          description: 'Output format (table/json)',
+          default: 'table',
+        },
+      ],
+      action: approvalListCommand,
+    });
+
+    this.register({
+      name: 'approval:approve',
+      description: 'Approve and execute an action',
+      usage:
+        'somnia-agent approval:approve <id> [options]\n       sak approval:approve <id> [options]',
+      options: [
+        {
+          name: 'url',
+          shortName: 'u',
+          description: 'Agent dashboard URL',
+          default: 'http://localhost:3001',
+        },
+        {
+          name: 'token',
+          shortName: 't',
+          description: 'Dashboard auth token (default: $DASHBOARD_TOKEN)',
+        },
+        {
+          name: 'by',
+          description: 'Approver name (default: $USER)',
+        },
+      ],
+      action: approvalApproveCommand,
+    });
+
+    this.register({
+      name: 'approval:reject',
+      description: 'Reject an action',
+      usage:
+        'somnia-agent approval:reject <id> --reason <text>\n       sak approval:reject <id> --reason <text>',
+      options: [
+        {
+          name: 'reason',
+          shortName: 'r',
+          description: 'Rejection reason',
+          required: true,
+        },
+        {
+          name: 'url',
+          shortName: 'u',
+          description: 'Agent dashboard URL',
+          default: 'http://localhost:3001',
+        },
+        {
+          name: 'token',
+          shortName: 't',
+          description: 'Dashboard auth token (default: $DASHBOARD_TOKEN)',
+        },
+        {
+          name: 'by',
+          description: 'Approver name (default: $USER)',
+        },
+      ],
+      action: approvalRejectCommand,
+    });
+
     // Wallet commands
     this.register({
       name: 'wallet:balance',
@@ -530,6 +716,233 @@ Usage: somnia-agent <command> [options]
       action: walletInfoCommand,
     });
 
+    this.register({
+      name: 'wallet:create',
+      description: 'Create a new wallet in an encrypted keystore',
+      usage: 'somnia-agent wallet:create [options]\n       sak wallet:create [options]',
+      options: [
+        {
+          name: 'dir',
+          shortName: 'd',
+          description: 'Keystore directory (default: ~/.somnia-agent/keystore)',
+        },
+      ],
+      action: walletCreateCommand,
+    });
+
+    this.register({
+      name: 'wallet:import',
+      description: 'Import a private key or recovery phrase into an encrypted keystore',
+      usage: 'somnia-agent wallet:import [options]\n       sak wallet:import [options]',
+      options: [
+        {
+          name: 'private-key',
+          shortName: 'k',
+          description: 'Private key to import (prompted when omitted)',
+        },
+        {
+          name: 'mnemonic',
+          shortName: 'm',
+          description: 'Recovery phrase to import (prompted when omitted)',
+        },
+        {
+          name: 'dir',
+          shortName: 'd',
+          description: 'Keystore directory (default: ~/.somnia-agent/keystore)',
+        },
+      ],
+      action: walletImportCommand,
+    });
+
+    // Session key commands
+    this.register({
+      name: 'session:create',
+      description: 'Issue a scoped session key for an agent',
+      usage:
+        'somnia-agent session:create <agent> [options]\n       sak session:create <agent> [options]',
+      options: [
+        {
+          name: 'contracts',
+          shortName: 'c',
+          description: 'Allowed contract addresses (comma-separated, default: any)',
+        },
+        {
+          name: 'selectors',
+          shortName: 's',
+          description: 'Allowed functions, as selectors or signatures (comma-separated)',
+        },
+        {
+          name: 'max-tx',
+          description: 'Max value per transaction in STT',
+        },
+        {
+          name: 'max-day',
+          description: 'Max value per day in STT',
+        },
+        {
+          name: 'ttl',
+          shortName: 't',
+          description: 'Key lifetime (e.g. 30m, 12h, 7d)',
+          default: '24h',
+        },
+        {
+          name: 'vault',
+          description: 'Also enforce --max-day on-chain with an AgentVault vault',
+        },
+        {
+          name: 'generate',
+          description: 'Use a random key (shown once) instead of a derived one',
+        },
+      ],
+      action: sessionCreateCommand,
+    });
+
+    this.register({
+      name: 'session:list',
+      description: 'List session keys',
+      usage: 'somnia-agent session:list [options]\n       sak session:list [options]',
+      options: [
+        {
+          name: 'agent',
+          shortName: 'a',
+          description: 'Only keys issued to this agent',
+        },
+        {
+          name: 'format',
+          shortName: 'f',
+          description: 'Output format (table/json)',
+          default: 'table',
+        },
+      ],
+      action: sessionListCommand,
+    });
+
+    this.register({
+      name: 'session:revoke',
+      description: 'Revoke a session key (and deactivate its AgentVault vault)',
+      usage:
+        'somnia-agent session:revoke <address>\n       sak session:revoke <address>',
+      options: [],
+      action: sessionRevokeCommand,
+    });
+
+    // Vault commands
+    this.register({
+      name: 'vault:create',
+      description: 'Create an AgentVault vault for an agent (vault owner only)',
+      usage:
+        'somnia-agent vault:create <agent> [options]\n       sak vault:create <agent> [options]',
+      options: [
+        {
+          name: 'limit',
+          shortName: 'l',
+          description: 'Daily withdrawal limit in STT (0.01 - 100)',
+          default: '1',
+        },
+      ],
+      action: vaultCreateCommand,
+    });
+
+    this.register({
+      name: 'vault:info',
+      description: 'Show vault balance, daily limit and remaining allowance',
+      usage: 'somnia-agent vault:info <agent> [options]\n       sak vault:info <agent> [options]',
+      options: [
+        {
+          name: 'format',
+          shortName: 'f',
+          description: 'Output format (table/json)',
+          default: 'table',
+        },
+      ],
+      action: vaultInfoCommand,
+    });
+
+    this.register({
+      name: 'vault:deposit',
+      description: 'Deposit STT or ERC20 tokens into a vault',
+      usage:
+        'somnia-agent vault:deposit <agent> <amount> [options]\n       sak vault:deposit <agent> <amount> [options]',
+      options: [
+        {
+          name: 'token',
+          shortName: 't',
+          description: 'ERC20 token address (default: native STT)',
+        },
+      ],
+      action: vaultDepositCommand,
+    });
+
+    this.register({
+      name: 'vault:withdraw',
+      description: 'Withdraw from a vault (STT withdrawals count towards the daily limit)',
+      usage:
+        'somnia-agent vault:withdraw <agent> <amount> --to <address> [options]\n       sak vault:withdraw <agent> <amount> --to <address> [options]',
+      options: [
+        {
+          name: 'to',
+          description: 'Recipient address',
+          required: true,
+        },
+        {
+          name: 'token',
+          shortName: 't',
+          description: 'ERC20 token address (default: native STT)',
+        },
+      ],
+      action: vaultWithdrawCommand,
+    });
+
+    this.register({
+      name: 'vault:limit',
+      description: 'Update the daily limit of a vault (vault owner only)',
+      usage: 'somnia-agent vault:limit <agent> <limit>\n       sak vault:limit <agent> <limit>',
+      options: [],
+      action: vaultLimitCommand,
+    });
+
+    this.register({
+      name: 'vault:allow-token',
+      description: 'Allow an ERC20 token in a vault (vault owner only)',
+      usage:
+        'somnia-agent vault:allow-token <agent> <token>\n       sak vault:allow-token <agent> <token>',
+      options: [],
+      action: vaultAllowTokenCommand,
+    });
+
+    this.register({
+      name: 'vault:disallow-token',
+      description: 'Disallow an ERC20 token in a vault (vault owner only)',
+      usage:
+        'somnia-agent vault:disallow-token <agent> <token>\n       sak vault:disallow-token <agent> <token>',
+      options: [],
+      action: vaultDisallowTokenCommand,
+    });
+
+    // Storage commands
+    this.register({
+      name: 'storage:migrate',
+      description: 'Import JSON storage and memory into SQLite',
+      usage:
+        'somnia-agent storage:migrate <data-dir> [options]\n       sak storage:migrate <data-dir> [options]',
+      options: [
+        {
+          name: 'db',
+          description: 'Target database for events and actions [default: <data-dir>/agent.db]',
+        },
+        {
+          name: 'memory',
+          shortName: 'm',
+          description: 'Memory directory to import (one JSON file per session)',
+        },
+        {
+          name: 'memory-db',
+          description: 'Target database for memory [default: <memory>/memory.db]',
+        },
+      ],
+      action: storageMigrateCommand,
+    });
+
     // Network commands
     this.register({
       name: 'network:info',
@@ -4,8 +4,10 @@
  */
 
 import * as fs from 'fs';
+import * as path from 'path';
 import { SomniaAgentKit } from '../..';
-import { loadConfig } from './init';
+import { getConfigPath, loadConfig } from './init';
+import { unlockKeystore } from './wallet';
 
 export interface AgentRegisterOptions {
   name?: string;
@@ -29,11 +31,23 @@ export interface AgentInfoOptions {
   _positional?: string[];
 }
 
+export interface AgentSearchOptions {
+  capability?: string;
+  owner?: string;
+  active?: boolean;
+  'min-success'?: string;
+  text?: string;
+  limit?: string;
+  format?: string;
+  _positional?: string[];
+}
+
 /**
  * Initialize SDK from config
  */
 async function initSDK(): Promise<SomniaAgentKit> {
   const config = loadConfig();
+  await unlockKeystore();
 
   const kit = new SomniaAgentKit({
     network: {
@@ -294,3 +308,79 @@ export async function agentInfoCommand(options: AgentInfoOptions): Promise<void>
     console.log();
   }
 }
+
+/**
+ * Search agents command
+ */
+export async function agentSearchCommand(options: AgentSearchOptions): Promise<void> {
+  const capability = options.capability || options._positional?.[0];
+
+  console.log('🔍 Searching agents...\n');
+
+  // Initialize SDK
+  const kit = await initSDK();
+
+  // Sync the local index (cached next to the CLI config)
+  const discovery = kit.getAgentDiscovery({
+    cachePath: path.join(path.dirname(getConfigPath()), 'agents.json'),
+  });
+  const { updated, total } = await discovery.sync();
+  console.log(`Indexed ${total} agents (${updated} updated)\n`);
+
+  const agents = await discovery.find({
+    capability: capability?.split(',').map((c) => c.trim()),
+    owner: options.owner,
+    active: options.active ? true : undefined,
+    minSuccessRate: options['min-success']
+      ? parseFloat(options['min-success'])
+      : undefined,
+    text: options.text,
+    sortBy: 'successRate',
+    limit: parseInt(options.limit || '20'),
+  });
+
+  if (agents.length === 0) {
+    console.log('No agents found matching criteria.\n');
+    return;
+  }
+
+  // Output format
+  if (options.format === 'json') {
+    console.log(
+      JSON.stringify(
+        { agents: agents.map((agent) => ({ ...agent, id: agent.id.toString() })) },
+        null,
+        2
+      )
+    );
+  } else {
+    // Table format
+    console.log(
+      '┌──────┬─────────────────────┬─────────────────────────────┬─────────┬────────┐'
+    );
+    console.log(
+      '│ ID   │ Name                │ Capabilities                │ Success │ Active │'
+    );
+    console.log(
+      '├──────┼─────────────────────┼─────────────────────────────┼─────────┼────────┤'
+    );
+
+    for (const agent of agents) {
+      const id = agent.id.toString().padEnd(4);
+      const name = agent.name.substring(0, 19).padEnd(19);
+      const capabilities = agent.capabilities.join(', ').substring(0, 27).padEnd(27);
+      const success =
+        agent.totalExecutions > 0 ? `${agent.successRate.toFixed(1)}%` : 'n/a';
+      const active = agent.isActive ? '✓' : '✗';
+
+      console.log(
+        `│ ${id} │ ${name} │ ${capabilities} │ ${success.padEnd(7)} │ ${active.padEnd(6)} │`
+      );
+    }
+
+    console.log(
+      '└──────┴─────────────────────┴─────────────────────────────┴─────────┴────────┘'
+    );
+    console.log();
+  }
+}
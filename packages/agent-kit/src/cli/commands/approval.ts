@@ -0,0 +1,195 @@
+/**
+ * Approval Commands
+ * List and decide actions waiting for human approval
+ * Talks to a running agent through its Dashboard API
+ */
+
+export interface ApprovalListOptions {
+  url?: string;
+  token?: string;
+  status?: string;
+  format?: string;
+  _positional?: string[];
+}
+
+export interface ApprovalDecisionOptions {
+  url?: string;
+  token?: string;
+  reason?: string;
+  by?: string;
+  _positional?: string[];
+}
+
+const DEFAULT_DASHBOARD_URL = 'http://localhost:3001';
+
+/**
+ * Call the dashboard approvals API
+ * Authenticates with --token, or DASHBOARD_TOKEN
+ */
+async function requestApprovals(
+  options: { url?: string; token?: string },
+  path: string,
+  body?: Record<string, any>
+): Promise<any> {
+  const baseUrl = options.url || DEFAULT_DASHBOARD_URL;
+  const url = `${baseUrl.replace(/\/$/, '')}/approvals${path}`;
+  const token =
+    typeof options.token === 'string' ? options.token : process.env.DASHBOARD_TOKEN;
+  if (!token) {
+    throw new Error('Dashboard token required. Use --token or set DASHBOARD_TOKEN');
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: body ? 'POST' : 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+  } catch (error) {
+    throw new Error(
+      `Cannot reach dashboard at ${baseUrl}: ${(error as Error).message}. Is the agent dashboard running?`
+    );
+  }
+
+  const data: any = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Dashboard returned HTTP ${response.status}`);
+  }
+
+  return data;
+}
+
+/**
+ * Format remaining time until expiry
+ */
+function formatExpiry(expiresAt: number): string {
+  const remaining = Math.max(0, expiresAt - Date.now());
+  const minutes = Math.floor(remaining / 60000);
+  if (minutes >= 60) {
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  }
+  return `${minutes}m ${Math.floor((remaining % 60000) / 1000)}s`;
+}
+
+/**
+ * List approvals command
+ */
+export async function approvalListCommand(options: ApprovalListOptions): Promise<void> {
+  const status = options.status || 'pending';
+  const query = status === 'all' ? '' : `?status=${encodeURIComponent(status)}`;
+
+  const { approvals } = await requestApprovals(options, query);
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify({ approvals }, null, 2));
+    return;
+  }
+
+  if (approvals.length === 0) {
+    console.log(`📭 No ${status === 'all' ? '' : status + ' '}approvals\n`);
+    return;
+  }
+
+  console.log(
+    '┌────────────────────────────────────┬──────────────────┬──────────┬───────────┬──────────────────────┐'
+  );
+  console.log(
+    '│ ID                                 │ Action           │ Status   │ Expires   │ Requested By         │'
+  );
+  console.log(
+    '├────────────────────────────────────┼──────────────────┼──────────┼───────────┼──────────────────────┤'
+  );
+
+  for (const approval of approvals) {
+    const id = approval.id.substring(0, 34).padEnd(34);
+    const type = String(approval.action?.type || 'unknown').substring(0, 16).padEnd(16);
+    const state = approval.status.padEnd(8);
+    const expires = (
+      approval.status === 'pending' ? formatExpiry(approval.expiresAt) : '-'
+    ).padEnd(9);
+    const requester = String(
+      approval.requestedBy?.agentName || approval.requestedBy?.agentId || '-'
+    )
+      .substring(0, 20)
+      .padEnd(20);
+
+    console.log(`│ ${id} │ ${type} │ ${state} │ ${expires} │ ${requester} │`);
+  }
+
+  console.log(
+    '└────────────────────────────────────┴──────────────────┴──────────┴───────────┴──────────────────────┘'
+  );
+  console.log();
+
+  if (status === 'pending') {
+    console.log('💡 Next steps:');
+    console.log('   - Approve: sak approval:approve <id>');
+    console.log('   - Reject:  sak approval:reject <id> --reason "..."\n');
+  }
+}
+
+/**
+ * Approve action command
+ */
+export async function approvalApproveCommand(
+  options: ApprovalDecisionOptions
+): Promise<void> {
+  const approvalId = options._positional?.[0];
+
+  if (!approvalId) {
+    throw new Error('Approval ID is required. Usage: somnia-agent approval:approve <id>');
+  }
+
+  console.log(`⏳ Approving ${approvalId}...\n`);
+
+  const approval = await requestApprovals(
+    options,
+    `/${encodeURIComponent(approvalId)}/approve`,
+    { decidedBy: options.by || process.env.USER }
+  );
+
+  console.log(`✅ Approved: ${approval.action?.type}`);
+  if (approval.result) {
+    if (approval.result.success) {
+      console.log('🎉 Action executed successfully');
+      if (approval.result.txHash) {
+        console.log(`📤 Transaction hash: ${approval.result.txHash}`);
+      }
+    } else {
+      console.log(`❌ Action failed: ${approval.result.error}`);
+    }
+  }
+  console.log();
+}
+
+/**
+ * Reject action command
+ */
+export async function approvalRejectCommand(
+  options: ApprovalDecisionOptions
+): Promise<void> {
+  const approvalId = options._positional?.[0];
+
+  if (!approvalId) {
+    throw new Error(
+      'Approval ID is required. Usage: somnia-agent approval:reject <id> --reason <text>'
+    );
+  }
+
+  if (typeof options.reason !== 'string' || !options.reason) {
+    throw new Error('Rejection reason is required. Use --reason');
+  }
+
+  const approval = await requestApprovals(
+    options,
+    `/${encodeURIComponent(approvalId)}/reject`,
+    { reason: options.reason, decidedBy: options.by || process.env.USER }
+  );
+
+  console.log(`🚫 Rejected: ${approval.action?.type}`);
+  console.log(`   Reason: ${approval.rejectReason}\n`);
+}
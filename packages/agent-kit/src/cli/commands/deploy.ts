@@ -7,6 +7,7 @@ import { ethers } from 'ethers';
 import * as fs from 'fs';
 import { SomniaAgentKit } from '../..';
 import { loadConfig } from './init';
+import { unlockKeystore } from './wallet';
 
 export interface DeployContractOptions {
   abi?: string;
@@ -35,6 +36,7 @@ export interface CheckVerificationOptions {
  */
 async function initSDK(): Promise<SomniaAgentKit> {
   const config = loadConfig();
+  await unlockKeystore();
 
   const kit = new SomniaAgentKit({
     network: {
@@ -7,6 +7,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { SomniaAgentKit } from '../..';
 import { loadConfig } from './init';
+import { unlockKeystore } from './wallet';
 
 export interface IPFSUploadOptions {
   name?: string;
@@ -31,6 +32,7 @@ export interface IPFSMetadataOptions {
  */
 async function initSDK(): Promise<SomniaAgentKit> {
   const config = loadConfig();
+  await unlockKeystore();
 
   const kit = new SomniaAgentKit({
     network: {
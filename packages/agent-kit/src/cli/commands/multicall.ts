@@ -6,6 +6,7 @@
 import * as fs from 'fs';
 import { SomniaAgentKit } from '../..';
 import { loadConfig } from './init';
+import { unlockKeystore } from './wallet';
 
 export interface MulticallBatchOptions {
   _positional?: string[];
@@ -20,6 +21,7 @@ export interface MulticallAggregateOptions {
  */
 async function initSDK(): Promise<SomniaAgentKit> {
   const config = loadConfig();
+  await unlockKeystore();
 
   const kit = new SomniaAgentKit({
     network: {
@@ -5,6 +5,7 @@
 
 import { SomniaAgentKit } from '../..';
 import { loadConfig } from './init';
+import { unlockKeystore } from './wallet';
 
 export interface NetworkInfoOptions {
   _positional?: string[];
@@ -19,6 +20,7 @@ export interface NetworkContractsOptions {
  */
 async function initSDK(): Promise<SomniaAgentKit> {
   const config = loadConfig();
+  await unlockKeystore();
 
   const kit = new SomniaAgentKit({
     network: {
@@ -0,0 +1,233 @@
+/**
+ * Session Key Commands
+ * Issue, list and revoke scoped session keys for agents
+ */
+
+import { ethers } from 'ethers';
+import { SomniaAgentKit } from '../..';
+import type { SessionKeyRecord, SessionPermissions } from '../../core/sessionKeys';
+import { loadConfig } from './init';
+import { unlockKeystore } from './wallet';
+
+export interface SessionCreateOptions {
+  contracts?: string;
+  selectors?: string;
+  'max-tx'?: string;
+  'max-day'?: string;
+  ttl?: string;
+  vault?: boolean;
+  generate?: boolean;
+  _positional?: string[];
+}
+
+export interface SessionListOptions {
+  agent?: string;
+  format?: string;
+  _positional?: string[];
+}
+
+export interface SessionRevokeOptions {
+  _positional?: string[];
+}
+
+/**
+ * Initialize SDK from config
+ */
+async function initSDK(): Promise<SomniaAgentKit> {
+  const config = loadConfig();
+  await unlockKeystore();
+
+  const kit = new SomniaAgentKit({
+    network: {
+      rpcUrl: config.rpcUrl,
+      chainId: config.chainId,
+      name: config.network,
+    },
+    contracts: {
+      agentRegistry: config.contracts.agentRegistry,
+      agentManager: config.contracts.agentManager,
+      agentExecutor: config.contracts.agentExecutor,
+      agentVault: config.contracts.agentVault,
+    },
+    privateKey: config.privateKey || process.env.PRIVATE_KEY,
+  });
+
+  await kit.initialize();
+  return kit;
+}
+
+/**
+ * Parse a duration like 30m, 12h or 7d into milliseconds
+ */
+function parseDuration(value: string): number {
+  const match = /^(\d+)([smhd])$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration: ${value}. Use e.g. 30m, 12h or 7d`);
+  }
+  const units = { s: 1000, m: 60000, h: 3600000, d: 86400000 };
+  return Number(match[1]) * units[match[2] as keyof typeof units];
+}
+
+/**
+ * Split a comma-separated option into a list
+ */
+function parseList(value?: string): string[] | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Describe a session key's state
+ */
+function sessionStatus(record: SessionKeyRecord): string {
+  if (record.revokedAt !== undefined) {
+    return 'revoked';
+  }
+  return Date.now() >= record.permissions.expiresAt ? 'expired' : 'active';
+}
+
+/**
+ * Create session key command
+ */
+export async function sessionCreateCommand(options: SessionCreateOptions): Promise<void> {
+  const agent = options._positional?.[0];
+
+  if (!agent) {
+    throw new Error('Agent name is required. Usage: somnia-agent session:create <agent>');
+  }
+
+  const permissions: SessionPermissions = {
+    allowedContracts: parseList(options.contracts),
+    allowedSelectors: parseList(options.selectors),
+    maxValuePerTx: options['max-tx'] ? ethers.parseEther(options['max-tx']) : undefined,
+    maxValuePerDay: options['max-day']
+      ? ethers.parseEther(options['max-day'])
+      : undefined,
+    expiresAt: Date.now() + parseDuration(options.ttl || '24h'),
+  };
+
+  const kit = await initSDK();
+  const sessions = kit.getSignerManager().getSessionKeyManager();
+
+  console.log(`🔑 Creating session key for ${agent}...\n`);
+
+  const { record, privateKey } = await sessions.create(agent, permissions, {
+    generate: options.generate === true,
+    vault: options.vault ? kit.contracts.AgentVault : undefined,
+  });
+
+  console.log('✅ Session key created!');
+  console.log(`   Address:   ${record.address}`);
+  console.log(`   Expires:   ${new Date(record.permissions.expiresAt).toISOString()}`);
+  console.log(
+    `   Contracts: ${record.permissions.allowedContracts?.join(', ') || 'any'}`
+  );
+  console.log(
+    `   Functions: ${record.permissions.allowedSelectors?.join(', ') || 'any'}`
+  );
+  if (record.permissions.maxValuePerTx !== undefined) {
+    console.log(
+      `   Max/tx:    ${ethers.formatEther(record.permissions.maxValuePerTx)} STT`
+    );
+  }
+  if (record.permissions.maxValuePerDay !== undefined) {
+    console.log(
+      `   Max/day:   ${ethers.formatEther(record.permissions.maxValuePerDay)} STT${
+        record.vaultEnforced ? ' (enforced by AgentVault)' : ''
+      }`
+    );
+  }
+  if (privateKey) {
+    console.log(`\n⚠️  Private key (shown once, not stored): ${privateKey}`);
+  }
+
+  console.log('\n💡 Next steps:');
+  console.log('   - Fund the key with gas, then use it in your agent');
+  console.log(`   - Revoke: sak session:revoke ${record.address}\n`);
+}
+
+/**
+ * List session keys command
+ */
+export async function sessionListCommand(options: SessionListOptions): Promise<void> {
+  const kit = await initSDK();
+  const records = await kit
+    .getSignerManager()
+    .getSessionKeyManager()
+    .list(typeof options.agent === 'string' ? options.agent : undefined);
+
+  if (options.format === 'json') {
+    console.log(
+      JSON.stringify(
+        { sessions: records },
+        (_key, value) => (typeof value === 'bigint' ? value.toString() : value),
+        2
+      )
+    );
+    return;
+  }
+
+  if (records.length === 0) {
+    console.log('📭 No session keys\n');
+    return;
+  }
+
+  console.log(
+    '┌────────────────────────────────────────────┬──────────────────┬──────────┬──────────────────────┐'
+  );
+  console.log(
+    '│ Address                                    │ Agent            │ Status   │ Expires              │'
+  );
+  console.log(
+    '├────────────────────────────────────────────┼──────────────────┼──────────┼──────────────────────┤'
+  );
+
+  for (const record of records) {
+    const agent = record.agent.substring(0, 16).padEnd(16);
+    const status = sessionStatus(record).padEnd(8);
+    const expires = new Date(record.permissions.expiresAt)
+      .toISOString()
+      .substring(0, 19)
+      .padEnd(20);
+
+    console.log(`│ ${record.address} │ ${agent} │ ${status} │ ${expires} │`);
+  }
+
+  console.log(
+    '└────────────────────────────────────────────┴──────────────────┴──────────┴──────────────────────┘'
+  );
+  console.log();
+}
+
+/**
+ * Revoke session key command
+ */
+export async function sessionRevokeCommand(options: SessionRevokeOptions): Promise<void> {
+  const address = options._positional?.[0];
+
+  if (!address) {
+    throw new Error(
+      'Session key address is required. Usage: somnia-agent session:revoke <address>'
+    );
+  }
+
+  const kit = await initSDK();
+  const sessions = kit.getSignerManager().getSessionKeyManager();
+
+  console.log(`⏳ Revoking session key ${address}...\n`);
+
+  // Revoke locally first, so the key is revoked even if the vault is unreachable
+  const record = await sessions.revoke(address);
+  console.log(`🚫 Revoked session key for ${record.agent}`);
+
+  if (record.vaultEnforced) {
+    await sessions.revoke(address, kit.contracts.AgentVault);
+    console.log('   AgentVault vault deactivated');
+  }
+  console.log();
+}
@@ -0,0 +1,58 @@
+/**
+ * Storage Commands
+ * Manage local agent storage
+ */
+
+import * as fs from 'fs';
+import { migrateJsonStorage } from '../../runtime/sqlite';
+
+export interface StorageMigrateOptions {
+  db?: string;
+  memory?: string;
+  'memory-db'?: string;
+  _positional?: string[];
+}
+
+/**
+ * Import JSON file storage into SQLite
+ */
+export async function storageMigrateCommand(
+  options: StorageMigrateOptions
+): Promise<void> {
+  const dataPath = options._positional?.[0];
+
+  if (!dataPath && !options.memory) {
+    throw new Error(
+      'Usage: sak storage:migrate <data-dir> [--db <file>] [--memory <dir>] [--memory-db <file>]'
+    );
+  }
+  for (const dir of [dataPath, options.memory]) {
+    if (dir && !fs.existsSync(dir)) {
+      throw new Error(`Directory not found: ${dir}`);
+    }
+  }
+
+  console.log('📦 Importing JSON storage into SQLite...\n');
+
+  const result = await migrateJsonStorage({
+    dataPath,
+    dbPath: options.db,
+    memoryPath: options.memory,
+    memoryDbPath: options['memory-db'],
+  });
+
+  console.log('✅ Migration complete!\n');
+  if (dataPath) {
+    console.log(`   Events:         ${result.events}`);
+    console.log(`   Actions:        ${result.actions}`);
+  }
+  if (options.memory) {
+    console.log(
+      `   Memory entries: ${result.memoryEntries} (${result.sessions} sessions)`
+    );
+  }
+  console.log('\n   Entries already in the database were skipped.');
+  console.log(
+    "💡 Use storageBackend: 'sqlite' / memoryBackend: 'sqlite' in agent options.\n"
+  );
+}
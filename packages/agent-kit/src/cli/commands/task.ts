@@ -7,6 +7,7 @@ import { ethers } from 'ethers';
 import * as fs from 'fs';
 import { SomniaAgentKit } from '../..';
 import { loadConfig } from './init';
+import { unlockKeystore } from './wallet';
 
 export interface TaskCreateOptions {
   data?: string;
@@ -25,6 +26,7 @@ export interface TaskStatusOptions {
  */
 async function initSDK(): Promise<SomniaAgentKit> {
   const config = loadConfig();
+  await unlockKeystore();
 
   const kit = new SomniaAgentKit({
     network: {
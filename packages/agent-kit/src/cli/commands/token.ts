@@ -6,6 +6,7 @@
 import { ethers } from 'ethers';
 import { SomniaAgentKit } from '../..';
 import { loadConfig } from './init';
+import { unlockKeystore } from './wallet';
 
 export interface TokenBalanceOptions {
   token?: string;
@@ -49,6 +50,7 @@ export interface NFTMetadataOptions {
  */
 async function initSDK(): Promise<SomniaAgentKit> {
   const config = loadConfig();
+  await unlockKeystore();
 
   const kit = new SomniaAgentKit({
     network: {
@@ -0,0 +1,295 @@
+/**
+ * Vault Commands
+ * Create, fund and withdraw from AgentVault vaults
+ */
+
+import { ethers } from 'ethers';
+import { SomniaAgentKit } from '../..';
+import { ERC20Manager } from '../../tokens/erc20';
+import { loadConfig } from './init';
+import { unlockKeystore } from './wallet';
+
+export interface VaultCreateOptions {
+  limit?: string;
+  _positional?: string[];
+}
+
+export interface VaultInfoOptions {
+  format?: string;
+  _positional?: string[];
+}
+
+export interface VaultDepositOptions {
+  token?: string;
+  _positional?: string[];
+}
+
+export interface VaultWithdrawOptions {
+  to?: string;
+  token?: string;
+  _positional?: string[];
+}
+
+export interface VaultLimitOptions {
+  _positional?: string[];
+}
+
+export interface VaultTokenOptions {
+  _positional?: string[];
+}
+
+/**
+ * Initialize SDK from config
+ */
+async function initSDK(): Promise<SomniaAgentKit> {
+  const config = loadConfig();
+  await unlockKeystore();
+
+  const kit = new SomniaAgentKit({
+    network: {
+      rpcUrl: config.rpcUrl,
+      chainId: config.chainId,
+      name: config.network,
+    },
+    contracts: {
+      agentRegistry: config.contracts.agentRegistry,
+      agentManager: config.contracts.agentManager,
+      agentExecutor: config.contracts.agentExecutor,
+      agentVault: config.contracts.agentVault,
+    },
+    privateKey: config.privateKey || process.env.PRIVATE_KEY,
+  });
+
+  await kit.initialize();
+  return kit;
+}
+
+/**
+ * Parse an STT or token amount (token amounts use the token's decimals)
+ */
+async function parseAmount(
+  kit: SomniaAgentKit,
+  amount: string,
+  token?: string
+): Promise<{ value: bigint; unit: string }> {
+  if (!token) {
+    return { value: ethers.parseEther(amount), unit: 'STT' };
+  }
+
+  const erc20 = new ERC20Manager(kit.getChainClient());
+  const [decimals, symbol] = await Promise.all([
+    erc20.decimals(token),
+    erc20.symbol(token),
+  ]);
+  return { value: ERC20Manager.parseAmount(amount, decimals), unit: symbol };
+}
+
+/**
+ * Create vault command
+ */
+export async function vaultCreateCommand(options: VaultCreateOptions): Promise<void> {
+  const agent = options._positional?.[0];
+
+  if (!agent) {
+    throw new Error(
+      'Agent address is required. Usage: somnia-agent vault:create <agent>'
+    );
+  }
+
+  const kit = await initSDK();
+  const limit = ethers.parseEther(options.limit || '1');
+
+  console.log(`🏦 Creating vault for ${agent}...\n`);
+
+  const receipt = await kit.getVaultManager().createVault(agent, limit);
+
+  console.log('✅ Vault created!');
+  console.log(`   Agent:       ${agent}`);
+  console.log(`   Daily limit: ${ethers.formatEther(limit)} STT`);
+  console.log(`   TX Hash:     ${receipt.hash}`);
+
+  console.log('\n💡 Next steps:');
+  console.log(`   - Fund it: sak vault:deposit ${agent} <amount>`);
+  console.log(`   - Allow a token: sak vault:allow-token ${agent} <token>\n`);
+}
+
+/**
+ * Vault info command
+ */
+export async function vaultInfoCommand(options: VaultInfoOptions): Promise<void> {
+  const agent = options._positional?.[0];
+
+  if (!agent) {
+    throw new Error('Agent address is required. Usage: somnia-agent vault:info <agent>');
+  }
+
+  const kit = await initSDK();
+  const vault = kit.getVaultManager();
+
+  if (!(await vault.hasVault(agent))) {
+    throw new Error(`No vault for agent ${agent}`);
+  }
+
+  const info = await vault.getVault(agent);
+
+  if (options.format === 'json') {
+    console.log(
+      JSON.stringify(
+        info,
+        (_key, value) => (typeof value === 'bigint' ? value.toString() : value),
+        2
+      )
+    );
+    return;
+  }
+
+  const resetsAt = info.dailyLimit.resetsAt
+    ? new Date(info.dailyLimit.resetsAt).toISOString()
+    : 'on next withdrawal';
+
+  console.log('🏦 Vault Information:\n');
+  console.log(`   Agent:          ${info.agent}`);
+  console.log(`   Status:         ${info.active ? '✅ Active' : '⏸️  Inactive'}`);
+  console.log(`   Balance:        ${ethers.formatEther(info.nativeBalance)} STT`);
+  console.log(`   Daily limit:    ${ethers.formatEther(info.dailyLimit.limit)} STT`);
+  console.log(`   Spent today:    ${ethers.formatEther(info.dailyLimit.spent)} STT`);
+  console.log(`   Remaining:      ${ethers.formatEther(info.dailyLimit.remaining)} STT`);
+  console.log(`   Withdrawable:   ${ethers.formatEther(info.withdrawable)} STT`);
+  console.log(`   Window resets:  ${resetsAt}`);
+  console.log(
+    `   Allowed tokens: ${info.allowedTokens.length > 0 ? info.allowedTokens.join(', ') : 'none'}`
+  );
+  console.log();
+}
+
+/**
+ * Deposit into vault command
+ */
+export async function vaultDepositCommand(options: VaultDepositOptions): Promise<void> {
+  const [agent, amount] = options._positional || [];
+
+  if (!agent || !amount) {
+    throw new Error(
+      'Agent and amount are required. Usage: somnia-agent vault:deposit <agent> <amount>'
+    );
+  }
+
+  const kit = await initSDK();
+  const vault = kit.getVaultManager();
+  const { value, unit } = await parseAmount(kit, amount, options.token);
+
+  console.log(`⏳ Depositing ${amount} ${unit} into the vault of ${agent}...\n`);
+
+  const receipt = options.token
+    ? await vault.depositToken(agent, options.token, value)
+    : await vault.depositNative(agent, value);
+
+  console.log('✅ Deposit confirmed!');
+  console.log(`   TX Hash: ${receipt.hash}\n`);
+}
+
+/**
+ * Withdraw from vault command
+ */
+export async function vaultWithdrawCommand(options: VaultWithdrawOptions): Promise<void> {
+  const [agent, amount] = options._positional || [];
+
+  if (!agent || !amount) {
+    throw new Error(
+      'Agent and amount are required. Usage: somnia-agent vault:withdraw <agent> <amount> --to <address>'
+    );
+  }
+  if (!options.to) {
+    throw new Error('Recipient is required. Use --to <address>');
+  }
+
+  const kit = await initSDK();
+  const vault = kit.getVaultManager();
+  const { value, unit } = await parseAmount(kit, amount, options.token);
+
+  console.log(`⏳ Withdrawing ${amount} ${unit} from the vault of ${agent}...\n`);
+
+  const receipt = options.token
+    ? await vault.withdrawToken(agent, options.token, options.to, value)
+    : await vault.withdrawNative(agent, options.to, value);
+
+  console.log('✅ Withdrawal confirmed!');
+  console.log(`   To:      ${options.to}`);
+  console.log(`   TX Hash: ${receipt.hash}`);
+
+  if (!options.token) {
+    const { remaining } = await vault.getDailyLimitInfo(agent);
+    console.log(`   Remaining today: ${ethers.formatEther(remaining)} STT`);
+  }
+  console.log();
+}
+
+/**
+ * Update vault daily limit command
+ */
+export async function vaultLimitCommand(options: VaultLimitOptions): Promise<void> {
+  const [agent, limit] = options._positional || [];
+
+  if (!agent || !limit) {
+    throw new Error(
+      'Agent and limit are required. Usage: somnia-agent vault:limit <agent> <limit>'
+    );
+  }
+
+  const kit = await initSDK();
+
+  console.log(`⏳ Setting daily limit of ${agent} to ${limit} STT...\n`);
+
+  const receipt = await kit
+    .getVaultManager()
+    .updateDailyLimit(agent, ethers.parseEther(limit));
+
+  console.log('✅ Daily limit updated!');
+  console.log(`   TX Hash: ${receipt.hash}\n`);
+}
+
+/**
+ * Allow token command
+ */
+export async function vaultAllowTokenCommand(options: VaultTokenOptions): Promise<void> {
+  const [agent, token] = options._positional || [];
+
+  if (!agent || !token) {
+    throw new Error(
+      'Agent and token are required. Usage: somnia-agent vault:allow-token <agent> <token>'
+    );
+  }
+
+  const kit = await initSDK();
+
+  console.log(`⏳ Allowing ${token} for the vault of ${agent}...\n`);
+
+  const receipt = await kit.getVaultManager().allowToken(agent, token);
+
+  console.log('✅ Token allowed!');
+  console.log(`   TX Hash: ${receipt.hash}\n`);
+}
+
+/**
+ * Disallow token command
+ */
+export async function vaultDisallowTokenCommand(
+  options: VaultTokenOptions
+): Promise<void> {
+  const [agent, token] = options._positional || [];
+
+  if (!agent || !token) {
+    throw new Error(
+      'Agent and token are required. Usage: somnia-agent vault:disallow-token <agent> <token>'
+    );
+  }
+
+  const kit = await initSDK();
+
+  console.log(`⏳ Disallowing ${token} for the vault of ${agent}...\n`);
+
+  const receipt = await kit.getVaultManager().disallowToken(agent, token);
+
+  console.log('🚫 Token disallowed!');
+  console.log(`   TX Hash: ${receipt.hash}\n`);
+}
@@ -1,10 +1,13 @@
 /**
  * Wallet Commands
- * View wallet information and balance
+ * View wallet information and balance, create and import encrypted keystores
  */
 
+import * as readline from 'readline';
+import { Writable } from 'stream';
 import { ethers } from 'ethers';
 import { SomniaAgentKit } from '../..';
+import { saveKeystore } from '../../core/keystore';
 import { loadConfig } from './init';
 
 export interface WalletBalanceOptions {
@@ -15,11 +18,24 @@ export interface WalletInfoOptions {
   _positional?: string[];
 }
 
+export interface WalletCreateOptions {
+  dir?: string;
+  _positional?: string[];
+}
+
+export interface WalletImportOptions {
+  'private-key'?: string;
+  mnemonic?: string;
+  dir?: string;
+  _positional?: string[];
+}
+
 /**
  * Initialize SDK from config
  */
 async function initSDK(): Promise<SomniaAgentKit> {
   const config = loadConfig();
+  await unlockKeystore();
 
   const kit = new SomniaAgentKit({
     network: {
@@ -40,6 +56,141 @@ async function initSDK(): Promise<SomniaAgentKit> {
   return kit;
 }
 
+/**
+ * Ask a question on the terminal, optionally without echoing the answer
+ */
+async function prompt(question: string, hidden: boolean = false): Promise<string> {
+  // Typed characters go to a muted stream once the question is shown
+  let muted = false;
+  const output = new Writable({
+    write(chunk, encoding, callback) {
+      if (!muted) {
+        process.stdout.write(chunk, encoding);
+      }
+      callback();
+    },
+  });
+
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output,
+    terminal: true,
+  });
+
+  try {
+    const answer = new Promise<string>((resolve) => rl.question(question, resolve));
+    muted = hidden;
+    return await answer;
+  } finally {
+    rl.close();
+    if (hidden) {
+      process.stdout.write('\n');
+    }
+  }
+}
+
+/**
+ * Ask for the password of the KEYSTORE_PATH keystore when KEYSTORE_PASSWORD is not set
+ * Only on a terminal; otherwise connecting fails and asks for KEYSTORE_PASSWORD.
+ */
+export async function unlockKeystore(): Promise<void> {
+  const { KEYSTORE_PATH, KEYSTORE_PASSWORD, REMOTE_SIGNER_URL } = process.env;
+  if (!KEYSTORE_PATH || KEYSTORE_PASSWORD || REMOTE_SIGNER_URL || !process.stdin.isTTY) {
+    return;
+  }
+
+  process.env.KEYSTORE_PASSWORD = await prompt(
+    `🔒 Password for ${KEYSTORE_PATH}: `,
+    true
+  );
+}
+
+/**
+ * Get the keystore password from KEYSTORE_PASSWORD or ask for it twice
+ */
+async function resolveNewPassword(): Promise<string> {
+  if (process.env.KEYSTORE_PASSWORD) {
+    return process.env.KEYSTORE_PASSWORD;
+  }
+
+  const password = await prompt('🔒 Keystore password: ', true);
+  if (!password) {
+    throw new Error('Keystore password must not be empty');
+  }
+  if ((await prompt('🔒 Repeat password: ', true)) !== password) {
+    throw new Error('Passwords do not match');
+  }
+  return password;
+}
+
+/**
+ * Encrypt a wallet into a keystore and print how to use it
+ */
+async function writeKeystore(
+  wallet: ethers.Wallet | ethers.HDNodeWallet,
+  dir?: string
+): Promise<void> {
+  const password = await resolveNewPassword();
+
+  console.log('\n⏳ Encrypting keystore...\n');
+  const filePath = await saveKeystore(wallet, password, {
+    dir: typeof dir === 'string' ? dir : undefined,
+  });
+
+  console.log('✅ Keystore saved!');
+  console.log(`   Address:  ${wallet.address}`);
+  console.log(`   Keystore: ${filePath}\n`);
+
+  console.log('💡 Next steps:');
+  console.log(`   - export KEYSTORE_PATH=${filePath}`);
+  console.log('   - Provide the password via KEYSTORE_PASSWORD when running agents');
+  console.log('   - Remove any plaintext PRIVATE_KEY from config and environment\n');
+}
+
+/**
+ * Create wallet command
+ */
+export async function walletCreateCommand(options: WalletCreateOptions): Promise<void> {
+  const wallet = ethers.Wallet.createRandom();
+
+  console.log('🔑 Creating new wallet...\n');
+  await writeKeystore(wallet, options.dir);
+
+  console.log('⚠️  Recovery phrase (shown once, write it down):');
+  console.log(`   ${wallet.mnemonic!.phrase}\n`);
+}
+
+/**
+ * Import wallet command
+ */
+export async function walletImportCommand(options: WalletImportOptions): Promise<void> {
+  let secret =
+    typeof options['private-key'] === 'string'
+      ? options['private-key']
+      : typeof options.mnemonic === 'string'
+        ? options.mnemonic
+        : undefined;
+
+  if (!secret) {
+    secret = await prompt('🔑 Private key or recovery phrase: ', true);
+  }
+  secret = secret.trim();
+
+  let wallet: ethers.Wallet | ethers.HDNodeWallet;
+  if (ethers.Mnemonic.isValidMnemonic(secret)) {
+    wallet = ethers.Wallet.fromPhrase(secret);
+  } else {
+    try {
+      wallet = new ethers.Wallet(secret.startsWith('0x') ? secret : `0x${secret}`);
+    } catch {
+      throw new Error('Invalid private key or recovery phrase');
+    }
+  }
+
+  console.log(`📥 Importing wallet ${wallet.address}...\n`);
+  await writeKeystore(wallet, options.dir);
+}
+
 /**
  * Wallet balance command
  */
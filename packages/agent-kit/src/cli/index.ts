@@ -8,6 +8,7 @@ export * from './cli';
 
 // Export commands
 export * from './commands/agent';
+export * from './commands/approval';
 export * from './commands/init';
 export * from './commands/network';
 export * from './commands/task';
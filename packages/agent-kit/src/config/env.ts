@@ -38,6 +38,13 @@ export function loadAgentConfigFromEnv(): Partial<AgentKitConfig> {
         : 50311,
       name: process.env.SOMNIA_NETWORK_NAME || 'Somnia Network',
     };
+
+    // Fallback endpoints: SOMNIA_RPC_URLS=https://rpc1,https://rpc2
+    if (process.env.SOMNIA_RPC_URLS) {
+      config.network.rpcUrls = process.env.SOMNIA_RPC_URLS.split(',')
+        .map((url) => url.trim())
+        .filter(Boolean);
+    }
   }
 
   // Load contract addresses from env
@@ -64,6 +71,25 @@ export function loadAgentConfigFromEnv(): Partial<AgentKitConfig> {
     config.privateKey = process.env.PRIVATE_KEY;
   }
 
+  // Load encrypted keystore from env (password stays in env, never in config files)
+  if (process.env.KEYSTORE_PATH) {
+    config.keystore = {
+      path: process.env.KEYSTORE_PATH,
+      password: process.env.KEYSTORE_PASSWORD,
+    };
+  }
+
+  // Load remote signer from env
+  if (process.env.REMOTE_SIGNER_URL) {
+    config.remoteSigner = {
+      url: process.env.REMOTE_SIGNER_URL,
+      address: process.env.REMOTE_SIGNER_ADDRESS,
+      headers: process.env.REMOTE_SIGNER_TOKEN
+        ? { Authorization: `Bearer ${process.env.REMOTE_SIGNER_TOKEN}` }
+        : undefined,
+    };
+  }
+
   // Load LLM provider config from env
   const llmProvider: Partial<LLMProviderConfig> = {};
   if (process.env.OPENAI_API_KEY) {
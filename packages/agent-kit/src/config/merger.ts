@@ -89,6 +89,12 @@ export function mergeConfig(
   if (envConfig.privateKey) {
     config.privateKey = envConfig.privateKey;
   }
+  if (envConfig.keystore) {
+    config.keystore = envConfig.keystore;
+  }
+  if (envConfig.remoteSigner) {
+    config.remoteSigner = envConfig.remoteSigner;
+  }
   if (envConfig.llmProvider) {
     config.llmProvider = envConfig.llmProvider;
   }
@@ -113,6 +119,15 @@ export function mergeConfig(
     if (userConfig.privateKey !== undefined) {
       config.privateKey = userConfig.privateKey;
     }
+    if (userConfig.keystore) {
+      config.keystore = {
+        password: config.keystore?.password,
+        ...userConfig.keystore,
+      };
+    }
+    if (userConfig.remoteSigner) {
+      config.remoteSigner = userConfig.remoteSigner;
+    }
     if (userConfig.llmProvider) {
       config.llmProvider = {
         ...config.llmProvider,
@@ -122,6 +137,12 @@ export function mergeConfig(
     if (userConfig.defaultGasLimit !== undefined) {
       config.defaultGasLimit = userConfig.defaultGasLimit;
     }
+    if (userConfig.fees) {
+      config.fees = { ...config.fees, ...userConfig.fees };
+    }
+    if (userConfig.smartAccount) {
+      config.smartAccount = userConfig.smartAccount;
+    }
     if (userConfig.logLevel) {
       config.logLevel = userConfig.logLevel;
     }
@@ -31,6 +31,12 @@ export function validateAgentConfig(config: AgentKitConfig): void {
     throw new Error(`Invalid RPC URL: ${config.network.rpcUrl}`);
   }
 
+  for (const url of config.network.rpcUrls || []) {
+    if (!isValidUrl(url)) {
+      throw new Error(`Invalid RPC URL: ${url}`);
+    }
+  }
+
   if (!config.network.chainId || config.network.chainId < 1) {
     throw new Error('Valid chain ID is required');
   }
@@ -72,6 +78,32 @@ export function validateAgentConfig(config: AgentKitConfig): void {
   if (config.privateKey && !isValidPrivateKey(config.privateKey)) {
     throw new Error('Invalid private key format');
   }
+
+  // Validate keystore and remote signer if provided
+  if (config.keystore && !config.keystore.path) {
+    throw new Error('Keystore path is required');
+  }
+
+  if (config.remoteSigner) {
+    if (!isValidUrl(config.remoteSigner.url)) {
+      throw new Error(`Invalid remote signer URL: ${config.remoteSigner.url}`);
+    }
+    if (config.remoteSigner.address && !isValidAddress(config.remoteSigner.address)) {
+      throw new Error(`Invalid remote signer address: ${config.remoteSigner.address}`);
+    }
+  }
+
+  // Validate smart account if provided
+  if (config.smartAccount) {
+    if (!isValidUrl(config.smartAccount.bundlerUrl)) {
+      throw new Error(`Invalid bundler URL: ${config.smartAccount.bundlerUrl}`);
+    }
+
+    const entryPoint = config.smartAccount.entryPoint ?? config.network.entryPoint;
+    if (!entryPoint || !isValidAddress(entryPoint)) {
+      throw new Error('Smart account requires a valid EntryPoint address');
+    }
+  }
 }
 
 /**
@@ -0,0 +1,483 @@
+/**
+ * Agent Discovery
+ *
+ * Local index of every agent in AgentRegistry, for finding peers by capability,
+ * owner, status or track record. The first sync reads all agents (getAgent,
+ * getAgentCapabilities and agentMetrics, batched through Multicall3 when the
+ * network has one); later syncs only re-read agents named in registry events
+ * since the last synced block, plus newly registered IDs. The index can be
+ * cached to a JSON file so restarts resume incrementally.
+ *
+ * @example
+ * ```typescript
+ * const discovery = kit.getAgentDiscovery({ cachePath: './data/agents.json' });
+ * await discovery.sync();
+ *
+ * const peer = await discovery.findPeer('price-oracle', { minSuccessRate: 90 });
+ * const traders = await discovery.find({ capability: ['trading', 'defi'], active: true });
+ * ```
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import type { ChainClient } from './chainClient';
+import { MultiCall } from './multicall';
+import type { IPFSManager } from '../storage/ipfs';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+
+/**
+ * Registry entry of an agent, with its on-chain metrics
+ */
+export interface DiscoveredAgent {
+  id: bigint;
+  name: string;
+  description: string;
+  /** Metadata URI or IPFS hash as registered */
+  metadataUri: string;
+  owner: string;
+  isActive: boolean;
+  /** Registration time (ms) */
+  registeredAt: number;
+  capabilities: string[];
+  totalExecutions: number;
+  successfulExecutions: number;
+  failedExecutions: number;
+  /** Success rate in percent (0 when there are no executions) */
+  successRate: number;
+  /** Rolling average execution time in ms */
+  averageExecutionTime: number;
+  /** Resolved IPFS metadata (when resolved) */
+  metadata?: any;
+}
+
+/**
+ * Agent search criteria (all given criteria must match)
+ */
+export interface AgentQuery {
+  /** Required capabilities, case-insensitive (an array requires all of them) */
+  capability?: string | string[];
+
+  /** Owner address */
+  owner?: string;
+
+  /** Active status */
+  active?: boolean;
+
+  /** Minimum success rate in percent */
+  minSuccessRate?: number;
+
+  /** Minimum number of recorded executions */
+  minExecutions?: number;
+
+  /** Text to look for in name or description (case-insensitive) */
+  text?: string;
+
+  /** Sort order (default: 'id') */
+  sortBy?: 'id' | 'successRate' | 'executions' | 'registeredAt';
+
+  /** Max results */
+  limit?: number;
+}
+
+/**
+ * Options for AgentDiscovery
+ */
+export interface AgentDiscoveryConfig {
+  /** Cache file; the index is kept in memory only when unset */
+  cachePath?: string;
+
+  /** Agents read per multicall batch (default: 50) */
+  batchSize?: number;
+
+  /** Max blocks per event log query (default: 5000) */
+  maxBlockRange?: number;
+
+  /** Multicall instance (default: one for the network's Multicall3, if configured) */
+  multicall?: MultiCall;
+
+  /** IPFS manager for metadata resolution */
+  ipfs?: IPFSManager;
+
+  /** Resolve IPFS metadata of new and changed agents during sync (default: false) */
+  resolveMetadata?: boolean;
+}
+
+/**
+ * Result of a sync
+ */
+export interface AgentSyncResult {
+  /** Agents read (new or changed) */
+  updated: number;
+  /** Agents in the index */
+  total: number;
+  /** Block the index is synced to */
+  blockNumber: number;
+}
+
+interface AgentIndex {
+  registry: string;
+  chainId: number;
+  blockNumber: number | null;
+  agents: Map<string, DiscoveredAgent>;
+}
+
+// =============================================================================
+// AgentRegistry ABI
+// =============================================================================
+
+const AGENT_REGISTRY_ABI = [
+  'function getTotalAgents() view returns (uint256)',
+  'function getAgent(uint256 agentId) view returns (string name, string description, string ipfsMetadata, address owner, bool isActive, uint256 registeredAt, uint256 executionCount)',
+  'function getAgentCapabilities(uint256 agentId) view returns (string[])',
+  'function agentMetrics(uint256 agentId) view returns (uint256 totalExecutions, uint256 successfulExecutions, uint256 failedExecutions, uint256 averageExecutionTime, uint256 lastExecutionTime)',
+
+  // Events that change an agent (agentId is the first indexed topic of each)
+  'event AgentRegistered(uint256 indexed agentId, address indexed owner, string name, uint256 timestamp)',
+  'event AgentUpdated(uint256 indexed agentId, string name, uint256 timestamp)',
+  'event AgentDeactivated(uint256 indexed agentId, uint256 timestamp)',
+  'event AgentActivated(uint256 indexed agentId, uint256 timestamp)',
+  'event AgentExecuted(uint256 indexed agentId, bool success, uint256 executionTime, uint256 timestamp)',
+];
+
+const registryInterface = new ethers.Interface(AGENT_REGISTRY_ABI);
+
+const AGENT_EVENT_TOPICS = [
+  'AgentRegistered',
+  'AgentUpdated',
+  'AgentDeactivated',
+  'AgentActivated',
+  'AgentExecuted',
+].map((name) => registryInterface.getEvent(name)!.topicHash);
+
+// =============================================================================
+// AgentDiscovery Class
+// =============================================================================
+
+export class AgentDiscovery {
+  readonly address: string;
+  private chainClient: ChainClient;
+  private config: AgentDiscoveryConfig;
+  private multicall: MultiCall | null;
+  private index: AgentIndex | null = null;
+  private syncing: Promise<AgentSyncResult> | null = null;
+
+  /**
+   * @param chainClient - ChainClient instance for blockchain interaction
+   * @param address - AgentRegistry contract address
+   * @param config - Discovery options
+   */
+  constructor(
+    chainClient: ChainClient,
+    address: string,
+    config: AgentDiscoveryConfig = {}
+  ) {
+    this.chainClient = chainClient;
+    this.address = ethers.getAddress(address);
+    this.config = config;
+    this.multicall =
+      config.multicall ??
+      (chainClient.getNetworkConfig().multicall ? new MultiCall(chainClient) : null);
+  }
+
+  /**
+   * Bring the index up to date with the registry
+   * Concurrent calls share one sync.
+   */
+  async sync(): Promise<AgentSyncResult> {
+    if (!this.syncing) {
+      this.syncing = this.syncIndex().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return await this.syncing;
+  }
+
+  /**
+   * Search the index (synced first if it was never loaded)
+   */
+  async find(query: AgentQuery = {}): Promise<DiscoveredAgent[]> {
+    const index = await this.getIndex();
+    const capabilities = (
+      Array.isArray(query.capability)
+        ? query.capability
+        : query.capability
+          ? [query.capability]
+          : []
+    ).map((capability) => capability.toLowerCase());
+    const text = query.text?.toLowerCase();
+
+    const matches = [...index.agents.values()].filter((agent) => {
+      const own = agent.capabilities.map((capability) => capability.toLowerCase());
+      return (
+        capabilities.every((capability) => own.includes(capability)) &&
+        (!query.owner || agent.owner.toLowerCase() === query.owner.toLowerCase()) &&
+        (query.active === undefined || agent.isActive === query.active) &&
+        (query.minSuccessRate === undefined ||
+          agent.successRate >= query.minSuccessRate) &&
+        (query.minExecutions === undefined ||
+          agent.totalExecutions >= query.minExecutions) &&
+        (!text ||
+          agent.name.toLowerCase().includes(text) ||
+          agent.description.toLowerCase().includes(text))
+      );
+    });
+
+    matches.sort(compareBy(query.sortBy ?? 'id'));
+    return query.limit !== undefined ? matches.slice(0, query.limit) : matches;
+  }
+
+  /**
+   * Find the best active agent with a capability: highest success rate, then most
+   * executions
+   * @returns The agent, or null if none matches
+   */
+  async findPeer(
+    capability: string,
+    query: Omit<AgentQuery, 'capability' | 'sortBy' | 'limit'> = {}
+  ): Promise<DiscoveredAgent | null> {
+    const [peer] = await this.find({
+      active: true,
+      ...query,
+      capability,
+      sortBy: 'successRate',
+      limit: 1,
+    });
+    return peer ?? null;
+  }
+
+  /**
+   * Get an indexed agent
+   */
+  async getAgent(
+    agentId: bigint | number | string
+  ): Promise<DiscoveredAgent | undefined> {
+    return (await this.getIndex()).agents.get(BigInt(agentId).toString());
+  }
+
+  /**
+   * Fetch an agent's IPFS metadata and keep it in the index
+   * @throws If no IPFS manager is configured or the metadata cannot be fetched
+   */
+  async resolveMetadata(agentId: bigint | number | string): Promise<any> {
+    const agent = await this.getAgent(agentId);
+    if (!agent) {
+      throw new Error(`Agent #${agentId} is not indexed`);
+    }
+    if (!this.config.ipfs) {
+      throw new Error('IPFS manager not configured for metadata resolution');
+    }
+
+    agent.metadata = await this.config.ipfs.fetchJSON(agent.metadataUri);
+    await this.saveCache();
+    return agent.metadata;
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  private async getIndex(): Promise<AgentIndex> {
+    if (!this.index) {
+      this.index = await this.loadCache();
+    }
+    if (this.index.blockNumber === null) {
+      await this.sync();
+    }
+    return this.index!;
+  }
+
+  private async syncIndex(): Promise<AgentSyncResult> {
+    if (!this.index) {
+      this.index = await this.loadCache();
+    }
+    const index = this.index;
+    const provider = this.chainClient.getProvider();
+    const contract = this.chainClient.getContract(this.address, AGENT_REGISTRY_ABI);
+
+    const latest = await provider.getBlockNumber();
+    const total = Number(await contract.getTotalAgents());
+
+    // Agents changed since the last sync, plus any the index has not seen
+    const changed = new Set<string>();
+    if (index.blockNumber !== null) {
+      const maxRange = this.config.maxBlockRange ?? 5000;
+      for (let from = index.blockNumber + 1; from <= latest; from += maxRange) {
+        const logs = await provider.getLogs({
+          address: this.address,
+          topics: [AGENT_EVENT_TOPICS],
+          fromBlock: from,
+          toBlock: Math.min(from + maxRange - 1, latest),
+        });
+        for (const log of logs) {
+          changed.add(BigInt(log.topics[1]).toString());
+        }
+      }
+    }
+    for (let id = 1; id <= total; id++) {
+      if (!index.agents.has(String(id))) {
+        changed.add(String(id));
+      }
+    }
+
+    const ids = [...changed].map((id) => BigInt(id)).filter((id) => id <= total);
+    const batchSize = this.config.batchSize ?? 50;
+    for (let i = 0; i < ids.length; i += batchSize) {
+      for (const agent of await this.readAgents(ids.slice(i, i + batchSize))) {
+        const previous = index.agents.get(agent.id.toString());
+        if (previous?.metadataUri === agent.metadataUri) {
+          agent.metadata = previous.metadata;
+        } else if (this.config.resolveMetadata && this.config.ipfs) {
+          agent.metadata = await this.config.ipfs
+            .fetchJSON(agent.metadataUri)
+            .catch(() => undefined);
+        }
+        index.agents.set(agent.id.toString(), agent);
+      }
+    }
+
+    index.blockNumber = latest;
+    await this.saveCache();
+
+    return { updated: ids.length, total: index.agents.size, blockNumber: latest };
+  }
+
+  /**
+   * Read agents, through Multicall3 when available
+   */
+  private async readAgents(ids: bigint[]): Promise<DiscoveredAgent[]> {
+    const methods = ['getAgent', 'getAgentCapabilities', 'agentMetrics'];
+
+    let results: ethers.Result[];
+    if (this.multicall) {
+      const calls = ids.flatMap((id) =>
+        methods.map((method) => ({
+          target: this.address,
+          callData: registryInterface.encodeFunctionData(method, [id]),
+        }))
+      );
+      const returned = await this.multicall.aggregate(calls);
+      results = returned.map((data, i) =>
+        registryInterface.decodeFunctionResult(methods[i % methods.length], data)
+      );
+    } else {
+      const contract = this.chainClient.getContract(this.address, AGENT_REGISTRY_ABI);
+      results = await Promise.all(
+        ids.flatMap((id) =>
+          methods.map((method) => contract.getFunction(method).staticCallResult(id))
+        )
+      );
+    }
+
+    return ids.map((id, i) => {
+      const [agent, [capabilities], metrics] = results.slice(
+        i * methods.length,
+        (i + 1) * methods.length
+      );
+      const total = Number(metrics.totalExecutions);
+      const successful = Number(metrics.successfulExecutions);
+
+      return {
+        id,
+        name: agent.name,
+        description: agent.description,
+        metadataUri: agent.ipfsMetadata,
+        owner: agent.owner,
+        isActive: agent.isActive,
+        registeredAt: Number(agent.registeredAt) * 1000,
+        capabilities: [...capabilities],
+        totalExecutions: total,
+        successfulExecutions: successful,
+        failedExecutions: Number(metrics.failedExecutions),
+        successRate: total > 0 ? (successful / total) * 100 : 0,
+        averageExecutionTime: Number(metrics.averageExecutionTime),
+      };
+    });
+  }
+
+  /**
+   * Load the cache file; it is ignored if it belongs to another registry or chain
+   */
+  private async loadCache(): Promise<AgentIndex> {
+    const chainId = this.chainClient.getNetworkConfig().chainId;
+    const empty: AgentIndex = {
+      registry: this.address,
+      chainId,
+      blockNumber: null,
+      agents: new Map(),
+    };
+    if (!this.config.cachePath) {
+      return empty;
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.config.cachePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return empty;
+      }
+      throw error;
+    }
+
+    const cache = JSON.parse(content);
+    if (cache.registry !== this.address || cache.chainId !== chainId) {
+      return empty;
+    }
+
+    return {
+      ...empty,
+      blockNumber: cache.blockNumber,
+      agents: new Map(
+        cache.agents.map((agent: any) => [agent.id, { ...agent, id: BigInt(agent.id) }])
+      ),
+    };
+  }
+
+  private async saveCache(): Promise<void> {
+    if (!this.config.cachePath || !this.index) {
+      return;
+    }
+
+    const cache = {
+      registry: this.index.registry,
+      chainId: this.index.chainId,
+      blockNumber: this.index.blockNumber,
+      agents: [...this.index.agents.values()].map((agent) => ({
+        ...agent,
+        id: agent.id.toString(),
+      })),
+    };
+    await fs.mkdir(path.dirname(this.config.cachePath), { recursive: true });
+    await fs.writeFile(this.config.cachePath, JSON.stringify(cache, null, 2));
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function compareBy(
+  sortBy: NonNullable<AgentQuery['sortBy']>
+): (a: DiscoveredAgent, b: DiscoveredAgent) => number {
+  const byId = (a: DiscoveredAgent, b: DiscoveredAgent) => (a.id < b.id ? -1 : 1);
+
+  switch (sortBy) {
+    case 'successRate':
+      return (a, b) =>
+        b.successRate - a.successRate ||
+        b.totalExecutions - a.totalExecutions ||
+        byId(a, b);
+    case 'executions':
+      return (a, b) => b.totalExecutions - a.totalExecutions || byId(a, b);
+    case 'registeredAt':
+      return (a, b) => b.registeredAt - a.registeredAt || byId(a, b);
+    default:
+      return byId;
+  }
+}
+
+export { AgentDiscovery as default };
@@ -0,0 +1,301 @@
+/**
+ * Bundler Client
+ *
+ * JSON-RPC clients for ERC-4337 bundlers (`eth_sendUserOperation`,
+ * `eth_estimateUserOperationGas`, `eth_getUserOperationReceipt`) and
+ * ERC-7677 paymaster services (`pm_getPaymasterStubData`, `pm_getPaymasterData`).
+ * UserOperations use the EntryPoint v0.7 (unpacked) RPC format.
+ *
+ * @example
+ * ```typescript
+ * const bundler = new BundlerClient('https://bundler.example/rpc');
+ *
+ * const gas = await bundler.estimateUserOperationGas(userOp, entryPoint);
+ * const userOpHash = await bundler.sendUserOperation(signedUserOp, entryPoint);
+ * const receipt = await bundler.getUserOperationReceipt(userOpHash);
+ * ```
+ */
+
+import { ethers } from 'ethers';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+
+/**
+ * ERC-4337 UserOperation (EntryPoint v0.7)
+ */
+export interface UserOperation {
+  sender: string;
+  nonce: bigint;
+  /** Account factory (only for the first operation of an undeployed account) */
+  factory?: string;
+  factoryData?: string;
+  callData: string;
+  callGasLimit: bigint;
+  verificationGasLimit: bigint;
+  preVerificationGas: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  /** Paymaster sponsoring the operation (optional) */
+  paymaster?: string;
+  paymasterVerificationGasLimit?: bigint;
+  paymasterPostOpGasLimit?: bigint;
+  paymasterData?: string;
+  signature: string;
+}
+
+/**
+ * Gas limits returned by eth_estimateUserOperationGas
+ */
+export interface UserOperationGasEstimate {
+  preVerificationGas: bigint;
+  verificationGasLimit: bigint;
+  callGasLimit: bigint;
+  paymasterVerificationGasLimit?: bigint;
+  paymasterPostOpGasLimit?: bigint;
+}
+
+/**
+ * Result of eth_getUserOperationReceipt
+ */
+export interface UserOperationReceipt {
+  userOpHash: string;
+  sender: string;
+  nonce: bigint;
+  /** Whether the account's call succeeded */
+  success: boolean;
+  /** Revert reason when the call failed */
+  reason?: string;
+  actualGasCost: bigint;
+  actualGasUsed: bigint;
+  /** Hash of the bundle transaction that included the operation */
+  transactionHash: string;
+  blockNumber: number;
+}
+
+/**
+ * Paymaster fields returned by an ERC-7677 paymaster service
+ */
+export interface PaymasterResult {
+  paymaster: string;
+  paymasterData: string;
+  paymasterVerificationGasLimit?: bigint;
+  paymasterPostOpGasLimit?: bigint;
+}
+
+// =============================================================================
+// BundlerClient Class
+// =============================================================================
+
+/**
+ * ERC-4337 bundler RPC client
+ */
+export class BundlerClient {
+  readonly url: string;
+  private timeout: number;
+
+  /**
+   * @param url Bundler RPC URL
+   * @param timeout Request timeout in milliseconds (default: 30000)
+   */
+  constructor(url: string, timeout: number = 30000) {
+    this.url = url;
+    this.timeout = timeout;
+  }
+
+  /**
+   * Submit a signed UserOperation
+   * @returns UserOperation hash
+   */
+  async sendUserOperation(userOp: UserOperation, entryPoint: string): Promise<string> {
+    return await rpcRequest(this.url, this.timeout, 'eth_sendUserOperation', [
+      serializeUserOperation(userOp),
+      entryPoint,
+    ]);
+  }
+
+  /**
+   * Estimate gas limits for a UserOperation (signature may be a dummy)
+   */
+  async estimateUserOperationGas(
+    userOp: UserOperation,
+    entryPoint: string
+  ): Promise<UserOperationGasEstimate> {
+    const result = await rpcRequest(
+      this.url,
+      this.timeout,
+      'eth_estimateUserOperationGas',
+      [serializeUserOperation(userOp), entryPoint]
+    );
+
+    return {
+      preVerificationGas: BigInt(result.preVerificationGas),
+      verificationGasLimit: BigInt(result.verificationGasLimit),
+      callGasLimit: BigInt(result.callGasLimit),
+      paymasterVerificationGasLimit: optionalBigInt(result.paymasterVerificationGasLimit),
+      paymasterPostOpGasLimit: optionalBigInt(result.paymasterPostOpGasLimit),
+    };
+  }
+
+  /**
+   * Get the receipt of an included UserOperation
+   * @returns Receipt, or null while the operation is not included yet
+   */
+  async getUserOperationReceipt(
+    userOpHash: string
+  ): Promise<UserOperationReceipt | null> {
+    const result = await rpcRequest(
+      this.url,
+      this.timeout,
+      'eth_getUserOperationReceipt',
+      [userOpHash]
+    );
+    if (!result) {
+      return null;
+    }
+
+    return {
+      userOpHash: result.userOpHash,
+      sender: result.sender,
+      nonce: BigInt(result.nonce),
+      success: Boolean(result.success),
+      reason: result.reason || undefined,
+      actualGasCost: BigInt(result.actualGasCost),
+      actualGasUsed: BigInt(result.actualGasUsed),
+      transactionHash: result.receipt.transactionHash,
+      blockNumber: Number(result.receipt.blockNumber),
+    };
+  }
+
+  /**
+   * Get the EntryPoint addresses supported by the bundler
+   */
+  async supportedEntryPoints(): Promise<string[]> {
+    return await rpcRequest(this.url, this.timeout, 'eth_supportedEntryPoints', []);
+  }
+}
+
+// =============================================================================
+// PaymasterClient Class
+// =============================================================================
+
+/**
+ * ERC-7677 paymaster service client
+ */
+export class PaymasterClient {
+  readonly url: string;
+  private context?: Record<string, any>;
+  private timeout: number;
+
+  /**
+   * @param url Paymaster service URL
+   * @param context Service-specific context (e.g. a sponsorship policy id)
+   * @param timeout Request timeout in milliseconds (default: 30000)
+   */
+  constructor(url: string, context?: Record<string, any>, timeout: number = 30000) {
+    this.url = url;
+    this.context = context;
+    this.timeout = timeout;
+  }
+
+  /**
+   * Get placeholder paymaster fields for gas estimation
+   */
+  async getPaymasterStubData(
+    userOp: UserOperation,
+    entryPoint: string,
+    chainId: bigint
+  ): Promise<PaymasterResult> {
+    return await this.request('pm_getPaymasterStubData', userOp, entryPoint, chainId);
+  }
+
+  /**
+   * Get the final paymaster fields for a fully estimated UserOperation
+   */
+  async getPaymasterData(
+    userOp: UserOperation,
+    entryPoint: string,
+    chainId: bigint
+  ): Promise<PaymasterResult> {
+    return await this.request('pm_getPaymasterData', userOp, entryPoint, chainId);
+  }
+
+  private async request(
+    method: string,
+    userOp: UserOperation,
+    entryPoint: string,
+    chainId: bigint
+  ): Promise<PaymasterResult> {
+    const result = await rpcRequest(this.url, this.timeout, method, [
+      serializeUserOperation(userOp),
+      entryPoint,
+      ethers.toQuantity(chainId),
+      this.context ?? {},
+    ]);
+
+    return {
+      paymaster: result.paymaster,
+      paymasterData: result.paymasterData ?? '0x',
+      paymasterVerificationGasLimit: optionalBigInt(result.paymasterVerificationGasLimit),
+      paymasterPostOpGasLimit: optionalBigInt(result.paymasterPostOpGasLimit),
+    };
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Convert a UserOperation to its JSON-RPC form (hex quantities, unset fields omitted)
+ */
+export function serializeUserOperation(userOp: UserOperation): Record<string, string> {
+  const serialized: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(userOp)) {
+    if (value === undefined) {
+      continue;
+    }
+    serialized[key] = typeof value === 'bigint' ? ethers.toQuantity(value) : value;
+  }
+
+  return serialized;
+}
+
+async function rpcRequest(
+  url: string,
+  timeout: number,
+  method: string,
+  params: any[]
+): Promise<any> {
+  const request = new ethers.FetchRequest(url);
+  request.timeout = timeout;
+  request.setHeader('content-type', 'application/json');
+  request.body = JSON.stringify({ jsonrpc: '2.0', id: 1, method, params });
+
+  const response = await request.send();
+
+  // JSON-RPC errors may come with a non-2xx status; report them over the HTTP status
+  let body: any;
+  try {
+    body = response.bodyJson;
+  } catch {
+    response.assertOk();
+    throw new Error(`${method} failed: invalid JSON-RPC response`);
+  }
+
+  if (body.error) {
+    throw new Error(
+      `${method} failed: ${body.error.message || JSON.stringify(body.error)}`
+    );
+  }
+  response.assertOk();
+  return body.result;
+}
+
+function optionalBigInt(value: string | undefined | null): bigint | undefined {
+  return value == null ? undefined : BigInt(value);
+}
+
+export { BundlerClient as default };
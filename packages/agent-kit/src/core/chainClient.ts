@@ -5,9 +5,12 @@
 import { ethers } from 'ethers';
 import { AgentKitConfig, validateConfig } from './config';
 import { SignerManager } from './signerManager';
+import { RPCLoadBalancer, FailoverProvider, type ProviderStatus } from './rpcProvider';
+import type { FeeEstimate, FeeSpeed } from './feeStrategy';
 
 export class ChainClient {
   private provider: ethers.JsonRpcProvider;
+  private loadBalancer?: RPCLoadBalancer;
   private signerManager: SignerManager;
   private config: AgentKitConfig;
   private connected: boolean = false;
@@ -20,14 +23,46 @@ export class ChainClient {
   constructor(config: AgentKitConfig) {
     validateConfig(config);
     this.config = config;
-    this.provider = new ethers.JsonRpcProvider(config.network.rpcUrl);
-    this.signerManager = new SignerManager(this.provider, config.privateKey);
+
+    // Multiple endpoints: route every request through the load balancer with failover
+    const urls = Array.from(
+      new Set([config.network.rpcUrl, ...(config.network.rpcUrls || [])])
+    );
+    if (urls.length > 1) {
+      this.loadBalancer = new RPCLoadBalancer({ urls, strategy: config.network.rpcStrategy });
+      this.provider = new FailoverProvider(this.loadBalancer);
+    } else {
+      this.provider = new ethers.JsonRpcProvider(config.network.rpcUrl);
+    }
+
+    this.signerManager = new SignerManager(this.provider, config.privateKey, config.fees);
+    if (config.remoteSigner) {
+      this.signerManager.useRemoteSigner(config.remoteSigner);
+    }
+    if (config.smartAccount) {
+      this.signerManager.useSmartAccount({
+        ...config.smartAccount,
+        entryPoint: config.smartAccount.entryPoint ?? config.network.entryPoint,
+      });
+    }
   }
 
   /**
    * Connect to the blockchain network
+   * Also decrypts the configured keystore, if any
    */
   async connect(): Promise<void> {
+    // Keystore decryption is async, so the key is loaded on connect
+    const { keystore, remoteSigner } = this.config;
+    if (keystore && !remoteSigner && !this.connected) {
+      if (!keystore.password) {
+        throw new Error(
+          'Keystore password required. Set keystore.password or KEYSTORE_PASSWORD'
+        );
+      }
+      await this.signerManager.loadKeystore(keystore.path, keystore.password);
+    }
+
     try {
       const network = await this.provider.getNetwork();
       if (Number(network.chainId) !== this.config.network.chainId) {
@@ -57,6 +92,21 @@ export class ChainClient {
     return this.provider;
   }
 
+  /**
+   * Get the RPC load balancer (only when the network has multiple rpcUrls)
+   */
+  getLoadBalancer(): RPCLoadBalancer | undefined {
+    return this.loadBalancer;
+  }
+
+  /**
+   * Get per-endpoint health, latency and failure counts
+   * @returns One status per RPC endpoint (empty with a single endpoint)
+   */
+  getRpcStatus(): ProviderStatus[] {
+    return this.loadBalancer?.getProviderStatuses() ?? [];
+  }
+
   /**
    * Get signer manager
    */
@@ -108,12 +158,20 @@ export class ChainClient {
   }
 
   /**
-   * Get gas price
+   * Get gas price (max fee per gas from the fee strategy)
    */
   async getGasPrice(): Promise<bigint> {
     this.ensureConnected();
-    const feeData = await this.provider.getFeeData();
-    return feeData.gasPrice || 0n;
+    return await this.signerManager.getGasPrice();
+  }
+
+  /**
+   * Get current EIP-1559 fees for a preset
+   * @param speed Fee preset: 'slow', 'normal' or 'fast' (default: config.fees.speed)
+   */
+  async getFees(speed?: FeeSpeed): Promise<FeeEstimate> {
+    this.ensureConnected();
+    return await this.signerManager.getFees(speed);
   }
 
   /**
@@ -271,6 +329,7 @@ export class ChainClient {
   disconnect(): void {
     // Remove all event listeners before disconnecting
     this.removeAllListeners();
+    this.loadBalancer?.stopHealthCheck();
     this.connected = false;
   }
 
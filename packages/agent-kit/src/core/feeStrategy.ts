@@ -0,0 +1,318 @@
+/**
+ * Fee Strategy
+ *
+ * Central EIP-1559 fee calculation for every transaction the kit sends.
+ * Priority fees come from `eth_feeHistory` reward percentiles (slow/normal/fast),
+ * the max fee adds headroom over the next block's base fee, and both are bounded
+ * by hard caps. Chains without EIP-1559 get a capped legacy gas price.
+ *
+ * @example
+ * ```typescript
+ * const fees = new FeeStrategy(provider, {
+ *   speed: 'fast',
+ *   maxFeePerGas: ethers.parseUnits('50', 'gwei'),
+ * });
+ *
+ * const { maxFeePerGas, maxPriorityFeePerGas } = await fees.getFees();
+ * const tx = await fees.applyFees({ to, value });
+ * ```
+ */
+
+import { ethers } from 'ethers';
+import type { GasPricing } from '../types/chain';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+
+/**
+ * Fee presets: which feeHistory reward percentile sets the priority fee
+ */
+export type FeeSpeed = 'slow' | 'normal' | 'fast';
+
+/**
+ * Fees for a transaction (EIP-1559 fields, or gasPrice on legacy chains)
+ */
+export interface FeeEstimate extends GasPricing {
+  /** Preset used */
+  speed: FeeSpeed;
+}
+
+/**
+ * Configuration for FeeStrategy
+ */
+export interface FeeStrategyConfig {
+  /** Default preset (default: 'normal') */
+  speed?: FeeSpeed;
+
+  /** Reward percentile per preset (default: slow 10, normal 50, fast 90) */
+  percentiles?: Partial<Record<FeeSpeed, number>>;
+
+  /** Blocks of fee history to sample (default: 10) */
+  blockCount?: number;
+
+  /** Max fee = base fee × multiplier + priority fee (default: 2) */
+  baseFeeMultiplier?: number;
+
+  /** Hard cap on maxFeePerGas / gasPrice in wei */
+  maxFeePerGas?: bigint;
+
+  /** Hard cap on maxPriorityFeePerGas in wei */
+  maxPriorityFeePerGas?: bigint;
+
+  /** How long fee history is reused, in milliseconds (default: 3000) */
+  cacheTtl?: number;
+}
+
+const DEFAULT_PERCENTILES: Record<FeeSpeed, number> = { slow: 10, normal: 50, fast: 90 };
+const SPEEDS: FeeSpeed[] = ['slow', 'normal', 'fast'];
+
+interface FeeSnapshot {
+  /** Base fee of the next block (undefined on legacy chains) */
+  baseFeePerGas?: bigint;
+  /** Median priority fee per preset */
+  priorityFees: Record<FeeSpeed, bigint>;
+  /** Legacy gas price */
+  gasPrice: bigint;
+  fetchedAt: number;
+}
+
+// =============================================================================
+// FeeStrategy Class
+// =============================================================================
+
+/**
+ * EIP-1559 fee strategy with presets and hard caps
+ */
+export class FeeStrategy {
+  private provider: ethers.Provider;
+  private config: FeeStrategyConfig;
+  private snapshot?: FeeSnapshot;
+  private pending?: Promise<FeeSnapshot>;
+
+  constructor(provider: ethers.Provider, config: FeeStrategyConfig = {}) {
+    this.provider = provider;
+    this.config = config;
+  }
+
+  /**
+   * Update configuration (merged into the current one)
+   */
+  updateConfig(config: FeeStrategyConfig): void {
+    this.config = { ...this.config, ...config };
+    this.snapshot = undefined;
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): FeeStrategyConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Calculate fees for a preset
+   *
+   * @param speed - Preset (default: config.speed or 'normal')
+   * @returns Capped fees: maxFeePerGas/maxPriorityFeePerGas, or gasPrice on legacy chains
+   */
+  async getFees(speed: FeeSpeed = this.config.speed || 'normal'): Promise<FeeEstimate> {
+    const snapshot = await this.getSnapshot();
+
+    if (snapshot.baseFeePerGas === undefined) {
+      return {
+        speed,
+        gasPrice: min(snapshot.gasPrice, this.config.maxFeePerGas),
+      };
+    }
+
+    const multiplier = BigInt(Math.round((this.config.baseFeeMultiplier ?? 2) * 100));
+    let maxPriorityFeePerGas = min(
+      snapshot.priorityFees[speed],
+      this.config.maxPriorityFeePerGas
+    );
+    const maxFeePerGas = min(
+      (snapshot.baseFeePerGas * multiplier) / 100n + maxPriorityFeePerGas,
+      this.config.maxFeePerGas
+    );
+    if (maxPriorityFeePerGas > maxFeePerGas) {
+      maxPriorityFeePerGas = maxFeePerGas;
+    }
+
+    return {
+      speed,
+      baseFeePerGas: snapshot.baseFeePerGas,
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+    };
+  }
+
+  /**
+   * Fill in fees for a transaction
+   * Fees already set on the transaction are kept but must be within the caps.
+   *
+   * @param tx - Transaction request
+   * @param speed - Preset (default: config.speed or 'normal')
+   * @returns Transaction with fees
+   * @throws If explicit fees exceed the caps
+   */
+  async applyFees(
+    tx: ethers.TransactionRequest,
+    speed?: FeeSpeed
+  ): Promise<ethers.TransactionRequest> {
+    if (tx.gasPrice != null || tx.maxFeePerGas != null) {
+      this.assertWithinCaps(tx);
+      return tx;
+    }
+
+    const fees = await this.getFees(speed);
+    const legacyType = tx.type === 0 || tx.type === 1;
+
+    if (fees.gasPrice !== undefined || legacyType) {
+      return { ...tx, gasPrice: fees.gasPrice ?? fees.maxFeePerGas };
+    }
+    return {
+      ...tx,
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+    };
+  }
+
+  /**
+   * Worst-case cost of a transaction (gas limit × max fee per gas)
+   *
+   * @param gasLimit - Gas limit
+   * @param speed - Preset (default: config.speed or 'normal')
+   * @returns Cost in wei
+   */
+  async estimateCost(gasLimit: bigint, speed?: FeeSpeed): Promise<bigint> {
+    return gasLimit * (await this.getMaxFeePerGas(speed));
+  }
+
+  /**
+   * Highest price per gas a transaction may pay (maxFeePerGas, or gasPrice)
+   *
+   * @param speed - Preset (default: config.speed or 'normal')
+   */
+  async getMaxFeePerGas(speed?: FeeSpeed): Promise<bigint> {
+    const fees = await this.getFees(speed);
+    return fees.maxFeePerGas ?? fees.gasPrice ?? 0n;
+  }
+
+  /**
+   * Check fees against the hard caps
+   * @throws If any fee exceeds its cap
+   */
+  assertWithinCaps(
+    fees: Pick<
+      ethers.TransactionRequest,
+      'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas'
+    >
+  ): void {
+    const { maxFeePerGas, maxPriorityFeePerGas } = this.config;
+    const priorityFee = toBigInt(fees.maxPriorityFeePerGas);
+
+    for (const [name, value] of [
+      ['maxFeePerGas', toBigInt(fees.maxFeePerGas)],
+      ['gasPrice', toBigInt(fees.gasPrice)],
+    ] as const) {
+      if (maxFeePerGas !== undefined && value !== undefined && value > maxFeePerGas) {
+        throw new Error(`${name} ${value} exceeds the fee cap of ${maxFeePerGas} wei`);
+      }
+    }
+
+    if (
+      maxPriorityFeePerGas !== undefined &&
+      priorityFee !== undefined &&
+      priorityFee > maxPriorityFeePerGas
+    ) {
+      throw new Error(
+        `maxPriorityFeePerGas ${priorityFee} exceeds the fee cap of ${maxPriorityFeePerGas} wei`
+      );
+    }
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  /**
+   * Cached fee snapshot, shared between concurrent callers
+   */
+  private async getSnapshot(): Promise<FeeSnapshot> {
+    const ttl = this.config.cacheTtl ?? 3000;
+    if (this.snapshot && Date.now() - this.snapshot.fetchedAt < ttl) {
+      return this.snapshot;
+    }
+
+    if (!this.pending) {
+      this.pending = this.fetchSnapshot().finally(() => {
+        this.pending = undefined;
+      });
+    }
+    this.snapshot = await this.pending;
+    return this.snapshot;
+  }
+
+  /**
+   * Read eth_feeHistory (falls back to eth_gasPrice/getFeeData when unsupported)
+   */
+  private async fetchSnapshot(): Promise<FeeSnapshot> {
+    const percentiles = { ...DEFAULT_PERCENTILES, ...this.config.percentiles };
+    const feeData = await this.provider.getFeeData();
+    const gasPrice = feeData.gasPrice ?? 0n;
+    const fallbackPriority = feeData.maxPriorityFeePerGas ?? 0n;
+
+    let history: { baseFeePerGas?: string[]; reward?: string[][] } | undefined;
+    if (feeData.maxFeePerGas != null && 'send' in this.provider) {
+      try {
+        history = await (this.provider as ethers.JsonRpcProvider).send('eth_feeHistory', [
+          ethers.toQuantity(this.config.blockCount ?? 10),
+          'latest',
+          SPEEDS.map((speed) => percentiles[speed]),
+        ]);
+      } catch {
+        history = undefined;
+      }
+    }
+
+    const baseFees = history?.baseFeePerGas;
+    const baseFeePerGas =
+      baseFees && baseFees.length > 0
+        ? BigInt(baseFees[baseFees.length - 1])
+        : feeData.maxFeePerGas != null
+          ? (feeData.maxFeePerGas - fallbackPriority) / 2n
+          : undefined;
+
+    const rewards = history?.reward ?? [];
+    const priorityFees = Object.fromEntries(
+      SPEEDS.map((speed, index) => [
+        speed,
+        rewards.length > 0
+          ? median(rewards.map((block) => BigInt(block[index] ?? 0)))
+          : fallbackPriority,
+      ])
+    ) as Record<FeeSpeed, bigint>;
+
+    return { baseFeePerGas, priorityFees, gasPrice, fetchedAt: Date.now() };
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function min(value: bigint, cap?: bigint): bigint {
+  return cap !== undefined && value > cap ? cap : value;
+}
+
+function median(values: bigint[]): bigint {
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function toBigInt(value: ethers.BigNumberish | null | undefined): bigint | undefined {
+  return value == null ? undefined : ethers.toBigInt(value);
+}
+
+export { FeeStrategy as default };
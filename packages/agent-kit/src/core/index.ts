@@ -9,3 +9,11 @@ export { SomniaContracts, type ContractInstances } from './contracts';
 export * from './multicall';
 export * from './rpcProvider';
 export * from './signerManager';
+export * from './nonceManager';
+export * from './feeStrategy';
+export * from './bundler';
+export * from './smartAccount';
+export * from './sessionKeys';
+export * from './keystore';
+export * from './remoteSigner';
+export * from './agentDiscovery';
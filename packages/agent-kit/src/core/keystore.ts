@@ -0,0 +1,179 @@
+/**
+ * Keystore
+ *
+ * Encrypted JSON keystore files (Web3 Secret Storage v3, as written by geth and
+ * ethers) so private keys never have to be stored in plaintext config or env.
+ *
+ * @example
+ * ```typescript
+ * const wallet = ethers.Wallet.createRandom();
+ * const file = await saveKeystore(wallet, password);
+ *
+ * const kit = new SomniaAgentKit({
+ *   network: SOMNIA_NETWORKS.testnet,
+ *   contracts: { ... },
+ *   keystore: { path: file, password },
+ * });
+ * await kit.initialize(); // decrypts the keystore
+ * ```
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+
+/**
+ * Keystore to sign with
+ */
+export interface KeystoreConfig {
+  /** Keystore file path */
+  path: string;
+
+  /** Keystore password (default: KEYSTORE_PASSWORD environment variable) */
+  password?: string;
+}
+
+/**
+ * Options for saveKeystore
+ */
+export interface SaveKeystoreOptions {
+  /** Directory to write to (default: ~/.somnia-agent/keystore) */
+  dir?: string;
+
+  /** File name (default: UTC--<timestamp>--<address>) */
+  name?: string;
+
+  /** scrypt cost parameter (default: 131072; lower only for tests) */
+  scryptN?: number;
+}
+
+/**
+ * Keystore file found by listKeystores
+ */
+export interface KeystoreEntry {
+  address: string;
+  path: string;
+}
+
+export const DEFAULT_KEYSTORE_DIR = path.join(os.homedir(), '.somnia-agent', 'keystore');
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Encrypt a wallet into a new keystore file
+ * @param wallet Wallet to encrypt (the mnemonic is kept for HD wallets)
+ * @param password Encryption password
+ * @returns Path of the keystore file
+ * @throws If the file already exists
+ */
+export async function saveKeystore(
+  wallet: ethers.Wallet | ethers.HDNodeWallet,
+  password: string,
+  options: SaveKeystoreOptions = {}
+): Promise<string> {
+  if (!password) {
+    throw new Error('Keystore password must not be empty');
+  }
+
+  const dir = options.dir ?? DEFAULT_KEYSTORE_DIR;
+  const name =
+    options.name ??
+    `UTC--${new Date().toISOString().replace(/:/g, '-')}--${wallet.address.slice(2).toLowerCase()}`;
+  const filePath = path.join(dir, name);
+
+  const account: ethers.KeystoreAccount = {
+    address: wallet.address,
+    privateKey: wallet.privateKey,
+  };
+  if (wallet instanceof ethers.HDNodeWallet && wallet.mnemonic) {
+    account.mnemonic = {
+      path: wallet.path ?? undefined,
+      locale: wallet.mnemonic.wordlist.locale,
+      entropy: wallet.mnemonic.entropy,
+    };
+  }
+
+  const json = await ethers.encryptKeystoreJson(
+    account,
+    password,
+    options.scryptN ? { scrypt: { N: options.scryptN } } : undefined
+  );
+
+  await fs.mkdir(dir, { recursive: true, mode: 0o700 });
+  await fs.writeFile(filePath, json, { mode: 0o600, flag: 'wx' }).catch((error) => {
+    if (error.code === 'EEXIST') {
+      throw new Error(`Keystore already exists: ${filePath}`);
+    }
+    throw error;
+  });
+
+  return filePath;
+}
+
+/**
+ * Decrypt a keystore file
+ * @param filePath Keystore file path
+ * @param password Keystore password
+ * @param provider Provider to connect the wallet to (optional)
+ * @throws If the file is not a keystore or the password is wrong
+ */
+export async function loadKeystore(
+  filePath: string,
+  password: string,
+  provider?: ethers.Provider
+): Promise<ethers.Wallet> {
+  const json = await fs.readFile(filePath, 'utf-8');
+  if (!ethers.isKeystoreJson(json)) {
+    throw new Error(`Not a keystore file: ${filePath}`);
+  }
+
+  let account: ethers.KeystoreAccount;
+  try {
+    account = await ethers.decryptKeystoreJson(json, password);
+  } catch (error) {
+    throw new Error(
+      `Failed to decrypt keystore ${filePath}: ${(error as Error).message}`
+    );
+  }
+
+  return new ethers.Wallet(account.privateKey, provider);
+}
+
+/**
+ * List keystore files in a directory
+ * @param dir Directory to search (default: ~/.somnia-agent/keystore)
+ */
+export async function listKeystores(
+  dir: string = DEFAULT_KEYSTORE_DIR
+): Promise<KeystoreEntry[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const entries: KeystoreEntry[] = [];
+  for (const name of names.sort()) {
+    const filePath = path.join(dir, name);
+    const json = await fs.readFile(filePath, 'utf-8').catch(() => '');
+    if (ethers.isKeystoreJson(json)) {
+      entries.push({
+        address: ethers.getAddress(JSON.parse(json).address),
+        path: filePath,
+      });
+    }
+  }
+
+  return entries;
+}
@@ -182,8 +182,8 @@ export class MultiCall {
       callData: call.callData,
     }));
 
-    // Execute multicall
-    const [blockNumber, results] = await contract.aggregate(formattedCalls);
+    // Execute multicall (eth_call; Multicall3 methods are not marked view)
+    const [blockNumber, results] = await contract.aggregate.staticCall(formattedCalls);
 
     return results;
   }
@@ -223,8 +223,8 @@ export class MultiCall {
       callData: call.callData,
     }));
 
-    // Execute multicall
-    const results = await contract.tryAggregate(requireSuccess, formattedCalls);
+    // Execute multicall (eth_call; Multicall3 methods are not marked view)
+    const results = await contract.tryAggregate.staticCall(requireSuccess, formattedCalls);
 
     return results.map((result: any) => ({
       success: result.success,
@@ -265,9 +265,9 @@ export class MultiCall {
       callData: call.callData,
     }));
 
-    // Execute multicall
+    // Execute multicall (eth_call; Multicall3 methods are not marked view)
     const [blockNumber, blockHash, results] =
-      await contract.blockAndAggregate(formattedCalls);
+      await contract.blockAndAggregate.staticCall(formattedCalls);
 
     return {
       blockNumber,
@@ -308,8 +308,8 @@ export class MultiCall {
       callData: call.callData,
     }));
 
-    // Execute multicall
-    const results = await contract.aggregate3(formattedCalls);
+    // Execute multicall (eth_call; Multicall3 methods are not marked view)
+    const results = await contract.aggregate3.staticCall(formattedCalls);
 
     return results.map((result: any) => ({
       success: result.success,
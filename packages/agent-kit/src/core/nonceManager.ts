@@ -0,0 +1,438 @@
+/**
+ * Nonce Manager
+ *
+ * Signer wrapper that reserves nonces locally so concurrent sends from one account
+ * don't collide. The next nonce is read once from the `pending` tag and then
+ * incremented in memory; any send error resyncs from the node.
+ *
+ * Sent transactions are tracked until they are mined, replaced or dropped (settled
+ * when their wait() resolves, and checked against the confirmed nonce before each
+ * send), and stuck ones can be replaced with higher fees (speed-up or cancel). With a
+ * fee strategy, every send gets its fees from the strategy and replacements stay
+ * within its caps.
+ *
+ * @example
+ * ```typescript
+ * const signer = new NonceManager(wallet);
+ *
+ * // Both get distinct nonces
+ * const [a, b] = await Promise.all([
+ *   signer.sendTransaction({ to, value: 1n }),
+ *   signer.sendTransaction({ to, value: 2n }),
+ * ]);
+ *
+ * // Still pending after a while: resend with 15% higher fees
+ * const faster = await signer.speedUp(a.hash);
+ * ```
+ */
+
+import { ethers } from 'ethers';
+import type { FeeStrategy } from './feeStrategy';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+
+/**
+ * State of a tracked transaction
+ * - pending: not mined yet (and still known to the node)
+ * - mined: included in a block
+ * - replaced: another transaction with the same nonce was mined (or sent by speedUp/cancel)
+ * - dropped: no longer known to the node and its nonce is still free
+ */
+export type TrackedTransactionStatus = 'pending' | 'mined' | 'replaced' | 'dropped';
+
+/**
+ * Transaction sent through the nonce manager
+ */
+export interface TrackedTransaction {
+  /** Transaction hash */
+  hash: string;
+  /** Nonce used */
+  nonce: number;
+  /** Transaction response from the signer */
+  response: ethers.TransactionResponse;
+  /** Send timestamp */
+  sentAt: number;
+  /** Current state */
+  status: TrackedTransactionStatus;
+  /** Hash of the transaction that replaced this one (speedUp/cancel) */
+  replacedBy?: string;
+}
+
+/**
+ * Configuration for NonceManager
+ */
+export interface NonceManagerConfig {
+  /** Fee increase for replacements in percent (default: 15; nodes require at least 10) */
+  bumpPercent?: number;
+
+  /** Fills in fees for sends and caps replacement fees */
+  feeStrategy?: FeeStrategy;
+}
+
+// =============================================================================
+// NonceManager Class
+// =============================================================================
+
+/**
+ * Nonce-managing signer
+ */
+export class NonceManager extends ethers.AbstractSigner {
+  readonly signer: ethers.Signer;
+  private config: NonceManagerConfig & { bumpPercent: number };
+  private nextNonce?: number;
+  private syncing?: Promise<number>;
+  private tracked: Map<string, TrackedTransaction> = new Map();
+
+  constructor(signer: ethers.Signer, config: NonceManagerConfig = {}) {
+    super(signer.provider);
+    this.signer = signer;
+    this.config = {
+      ...config,
+      bumpPercent: config.bumpPercent ?? 15,
+    };
+  }
+
+  async getAddress(): Promise<string> {
+    return await this.signer.getAddress();
+  }
+
+  connect(provider: ethers.Provider | null): NonceManager {
+    return new NonceManager(this.signer.connect(provider), this.config);
+  }
+
+  /**
+   * Get the nonce for a block tag
+   * For 'pending', returns the next nonce that would be reserved (without reserving it)
+   */
+  async getNonce(blockTag?: ethers.BlockTag): Promise<number> {
+    if (blockTag === 'pending') {
+      if (this.nextNonce === undefined) {
+        this.nextNonce = await this.fetchPendingNonce();
+      }
+      return this.nextNonce;
+    }
+    return await this.signer.getNonce(blockTag);
+  }
+
+  /**
+   * Reserve the next nonce
+   * Only the first reservation (and the first after a resync) queries the node
+   * @returns Reserved nonce
+   */
+  async reserveNonce(): Promise<number> {
+    if (this.nextNonce === undefined) {
+      const fetched = await this.fetchPendingNonce();
+      if (this.nextNonce === undefined) {
+        this.nextNonce = fetched;
+      }
+    }
+    return this.nextNonce++;
+  }
+
+  /**
+   * Forget the local nonce; the next reservation reads the `pending` tag again
+   */
+  resync(): void {
+    this.nextNonce = undefined;
+  }
+
+  async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    return await this.signer.signTransaction(tx);
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    return await this.signer.signMessage(message);
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, Array<ethers.TypedDataField>>,
+    value: Record<string, any>
+  ): Promise<string> {
+    return await this.signer.signTypedData(domain, types, value);
+  }
+
+  /**
+   * Send a transaction with a reserved nonce
+   * An explicit tx.nonce is used as-is. On error the nonce is resynced from the node.
+   * Missing fees are filled in by the fee strategy (if configured).
+   */
+  async sendTransaction(
+    tx: ethers.TransactionRequest
+  ): Promise<ethers.TransactionResponse> {
+    const request = this.config.feeStrategy
+      ? await this.config.feeStrategy.applyFees(tx)
+      : tx;
+    await this.pruneSettled().catch(() => undefined);
+    const nonce = request.nonce ?? (await this.reserveNonce());
+
+    try {
+      const response = await this.signer.sendTransaction({ ...request, nonce });
+      this.track(response);
+      return response;
+    } catch (error) {
+      this.resync();
+      throw error;
+    }
+  }
+
+  /**
+   * Get transactions sent through this manager that are not settled yet
+   */
+  getPendingTransactions(): TrackedTransaction[] {
+    return Array.from(this.tracked.values());
+  }
+
+  /**
+   * Check a tracked transaction against the node
+   * Settled transactions (mined, replaced, dropped) stop being tracked;
+   * a dropped transaction resyncs the nonce so it can be reused.
+   * @param hash Transaction hash
+   * @returns Updated transaction record
+   */
+  async checkTransaction(hash: string): Promise<TrackedTransaction> {
+    const tracked = this.getTracked(hash);
+    const provider = this.requireProvider();
+
+    const receipt = await provider.getTransactionReceipt(hash);
+    if (receipt) {
+      return this.settle(tracked, 'mined');
+    }
+
+    const address = await this.getAddress();
+    const confirmedNonce = await provider.getTransactionCount(address, 'latest');
+    if (confirmedNonce > tracked.nonce) {
+      return this.settle(tracked, 'replaced');
+    }
+
+    if (!(await provider.getTransaction(hash))) {
+      this.resync();
+      return this.settle(tracked, 'dropped');
+    }
+
+    return tracked;
+  }
+
+  /**
+   * Check all tracked transactions
+   * @returns Updated records (including those that just settled)
+   */
+  async checkPending(): Promise<TrackedTransaction[]> {
+    const results: TrackedTransaction[] = [];
+    for (const hash of Array.from(this.tracked.keys())) {
+      results.push(await this.checkTransaction(hash));
+    }
+    return results;
+  }
+
+  /**
+   * Resend a pending transaction with the same nonce and higher fees
+   * @param hash Hash of the pending transaction
+   * @param bumpPercent Fee increase in percent (default: config.bumpPercent)
+   * @returns Replacement transaction
+   */
+  async speedUp(hash: string, bumpPercent?: number): Promise<ethers.TransactionResponse> {
+    const tracked = this.getTracked(hash);
+    const { response } = tracked;
+
+    return await this.replace(tracked, {
+      to: response.to,
+      data: response.data,
+      value: response.value,
+      gasLimit: response.gasLimit,
+      chainId: response.chainId,
+      ...(await this.bumpFees(response, bumpPercent)),
+    });
+  }
+
+  /**
+   * Cancel a pending transaction by sending 0 to self with the same nonce and higher fees
+   * @param hash Hash of the pending transaction
+   * @param bumpPercent Fee increase in percent (default: config.bumpPercent)
+   * @returns Replacement transaction
+   */
+  async cancel(hash: string, bumpPercent?: number): Promise<ethers.TransactionResponse> {
+    const tracked = this.getTracked(hash);
+
+    return await this.replace(tracked, {
+      to: await this.getAddress(),
+      data: '0x',
+      value: 0n,
+      gasLimit: 21000n,
+      chainId: tracked.response.chainId,
+      ...(await this.bumpFees(tracked.response, bumpPercent)),
+    });
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  /**
+   * Read the pending nonce, sharing one request between concurrent callers
+   */
+  private async fetchPendingNonce(): Promise<number> {
+    if (!this.syncing) {
+      this.syncing = this.signer.getNonce('pending').finally(() => {
+        this.syncing = undefined;
+      });
+    }
+    return await this.syncing;
+  }
+
+  /**
+   * Track a sent transaction; it settles when a caller's wait() sees its receipt
+   * or its replacement
+   */
+  private track(response: ethers.TransactionResponse): void {
+    const tracked: TrackedTransaction = {
+      hash: response.hash,
+      nonce: response.nonce,
+      response,
+      sentAt: Date.now(),
+      status: 'pending',
+    };
+    this.tracked.set(response.hash, tracked);
+
+    const wait = response.wait?.bind(response);
+    if (!wait) {
+      return;
+    }
+    response.wait = async (confirms?: number, timeout?: number) => {
+      try {
+        const receipt = await wait(confirms, timeout);
+        if (receipt && this.tracked.get(tracked.hash) === tracked) {
+          this.settle(tracked, 'mined');
+        }
+        return receipt;
+      } catch (error) {
+        if (this.tracked.get(tracked.hash) === tracked) {
+          if (ethers.isError(error, 'TRANSACTION_REPLACED')) {
+            this.settle(tracked, 'replaced').replacedBy = error.replacement?.hash;
+          } else if (ethers.isError(error, 'CALL_EXCEPTION') && error.receipt) {
+            this.settle(tracked, 'mined');
+          }
+        }
+        throw error;
+      }
+    };
+  }
+
+  /**
+   * Settle tracked transactions whose nonce is confirmed (mined or replaced),
+   * and the oldest pending one if the node no longer knows it (dropped)
+   */
+  private async pruneSettled(): Promise<void> {
+    if (this.tracked.size === 0 || !this.provider) {
+      return;
+    }
+
+    const provider = this.provider;
+    const confirmedNonce = await provider.getTransactionCount(
+      await this.getAddress(),
+      'latest'
+    );
+    for (const tracked of Array.from(this.tracked.values())) {
+      if (tracked.nonce < confirmedNonce) {
+        const receipt = await provider.getTransactionReceipt(tracked.hash);
+        this.settle(tracked, receipt ? 'mined' : 'replaced');
+      } else if (
+        tracked.nonce === confirmedNonce &&
+        !(await provider.getTransaction(tracked.hash))
+      ) {
+        this.resync();
+        this.settle(tracked, 'dropped');
+      }
+    }
+  }
+
+  private settle(
+    tracked: TrackedTransaction,
+    status: TrackedTransactionStatus
+  ): TrackedTransaction {
+    this.tracked.delete(tracked.hash);
+    tracked.status = status;
+    return tracked;
+  }
+
+  private getTracked(hash: string): TrackedTransaction {
+    const tracked = this.tracked.get(hash);
+    if (!tracked) {
+      throw new Error(`No pending transaction ${hash} sent through this signer`);
+    }
+    return tracked;
+  }
+
+  private requireProvider(): ethers.Provider {
+    if (!this.provider) {
+      throw new Error('NonceManager signer has no provider');
+    }
+    return this.provider;
+  }
+
+  /**
+   * Send a replacement for a tracked transaction (same nonce)
+   * @throws If the bumped fees exceed the fee strategy's caps
+   */
+  private async replace(
+    tracked: TrackedTransaction,
+    tx: ethers.TransactionRequest
+  ): Promise<ethers.TransactionResponse> {
+    this.config.feeStrategy?.assertWithinCaps(tx);
+
+    const replacement = await this.signer.sendTransaction({
+      ...tx,
+      nonce: tracked.nonce,
+    });
+    this.settle(tracked, 'replaced').replacedBy = replacement.hash;
+    this.track(replacement);
+    return replacement;
+  }
+
+  /**
+   * Fees for a replacement: the original fees bumped by bumpPercent,
+   * or the current network fees (from the fee strategy, if any) if those are higher
+   */
+  private async bumpFees(
+    original: ethers.TransactionResponse,
+    bumpPercent: number = this.config.bumpPercent
+  ): Promise<
+    Pick<
+      ethers.TransactionRequest,
+      'type' | 'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas'
+    >
+  > {
+    const feeData = this.config.feeStrategy
+      ? await this.config.feeStrategy.getFees()
+      : await this.requireProvider().getFeeData();
+    const bump = (value: bigint | null | undefined): bigint =>
+      ((value ?? 0n) * BigInt(100 + Math.ceil(bumpPercent))) / 100n;
+    const max = (...values: Array<bigint | null | undefined>): bigint =>
+      values.reduce<bigint>((a, b) => (b != null && b > a ? b : a), 0n);
+
+    if (original.maxFeePerGas != null) {
+      const maxPriorityFeePerGas = max(
+        bump(original.maxPriorityFeePerGas),
+        feeData.maxPriorityFeePerGas
+      );
+      return {
+        type: 2,
+        maxPriorityFeePerGas,
+        maxFeePerGas: max(
+          bump(original.maxFeePerGas),
+          feeData.maxFeePerGas,
+          maxPriorityFeePerGas
+        ),
+      };
+    }
+
+    return {
+      type: original.type,
+      gasPrice: max(bump(original.gasPrice), feeData.gasPrice),
+    };
+  }
+}
+
+export { NonceManager as default };
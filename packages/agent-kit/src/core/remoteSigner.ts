@@ -0,0 +1,256 @@
+/**
+ * Remote Signer
+ *
+ * Signer backed by an HTTP signing service, so the agent process never holds a
+ * raw private key. The service speaks a JSON-RPC subset of the EIP-1193 wallet
+ * methods:
+ *
+ * - `eth_accounts` → `[address]`
+ * - `eth_signTransaction` `[tx]` → signed raw transaction
+ * - `personal_sign` `[message, address]` → signature
+ * - `eth_signTypedData_v4` `[address, typedData]` → signature
+ *
+ * Every signature is checked against the signer address before it is used, and
+ * transactions are broadcast through the agent's own provider.
+ *
+ * @example
+ * ```typescript
+ * const kit = new SomniaAgentKit({
+ *   network: SOMNIA_NETWORKS.testnet,
+ *   contracts: { ... },
+ *   remoteSigner: {
+ *     url: 'https://signer.internal/rpc',
+ *     headers: { Authorization: `Bearer ${process.env.REMOTE_SIGNER_TOKEN}` },
+ *   },
+ * });
+ * ```
+ */
+
+import { ethers } from 'ethers';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+
+/**
+ * Configuration for RemoteSigner
+ */
+export interface RemoteSignerConfig {
+  /** Signing service URL */
+  url: string;
+
+  /** Account to sign with (default: first account from eth_accounts) */
+  address?: string;
+
+  /** Extra HTTP headers, e.g. for authentication */
+  headers?: Record<string, string>;
+
+  /** Request timeout in milliseconds (default: 30000) */
+  timeout?: number;
+}
+
+// =============================================================================
+// RemoteSigner Class
+// =============================================================================
+
+/**
+ * Signer that delegates signing to a remote signing service
+ */
+export class RemoteSigner extends ethers.AbstractSigner {
+  readonly url: string;
+  private config: RemoteSignerConfig;
+  private address?: Promise<string>;
+
+  /**
+   * @param config Signing service configuration
+   * @param provider Provider for nonces, gas estimation and broadcasting
+   */
+  constructor(config: RemoteSignerConfig, provider?: ethers.Provider | null) {
+    super(provider);
+    this.url = config.url;
+    this.config = config;
+  }
+
+  /**
+   * Get the signer address (asks the service once when not configured)
+   */
+  async getAddress(): Promise<string> {
+    if (!this.address) {
+      this.address = this.resolveAddress();
+      this.address.catch(() => (this.address = undefined));
+    }
+    return await this.address;
+  }
+
+  connect(provider: ethers.Provider | null): RemoteSigner {
+    return new RemoteSigner(this.config, provider);
+  }
+
+  /**
+   * Sign a populated transaction with the remote key
+   * @returns Serialized signed transaction
+   */
+  async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    const address = await this.getAddress();
+    const { to, from } = await ethers.resolveProperties({
+      to: tx.to ? ethers.resolveAddress(tx.to, this.provider) : undefined,
+      from: tx.from ? ethers.resolveAddress(tx.from, this.provider) : undefined,
+    });
+    if (from && from.toLowerCase() !== address.toLowerCase()) {
+      throw new Error(`Transaction from ${from} does not match remote signer ${address}`);
+    }
+
+    const request = ethers.Transaction.from({
+      ...ethers.copyRequest(tx),
+      to,
+      from: undefined,
+    } as ethers.TransactionLike);
+    const raw: string = await this.request('eth_signTransaction', [
+      serializeTransaction(request, address),
+    ]);
+
+    const signed = ethers.Transaction.from(raw);
+    if (signed.unsignedHash !== request.unsignedHash) {
+      throw new Error('Remote signer returned a different transaction than requested');
+    }
+    assertSigner('transaction', signed.from ?? ethers.ZeroAddress, address);
+    return raw;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const address = await this.getAddress();
+    const data = typeof message === 'string' ? ethers.toUtf8Bytes(message) : message;
+
+    const signature: string = await this.request('personal_sign', [
+      ethers.hexlify(data),
+      address,
+    ]);
+
+    assertSigner('message', ethers.verifyMessage(data, signature), address);
+    return signature;
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, Array<ethers.TypedDataField>>,
+    value: Record<string, any>
+  ): Promise<string> {
+    const address = await this.getAddress();
+    const resolved = await ethers.TypedDataEncoder.resolveNames(
+      domain,
+      types,
+      value,
+      async (name) => await ethers.resolveAddress(name, this.provider)
+    );
+
+    const signature: string = await this.request('eth_signTypedData_v4', [
+      address,
+      JSON.stringify(
+        ethers.TypedDataEncoder.getPayload(resolved.domain, types, resolved.value)
+      ),
+    ]);
+
+    assertSigner(
+      'typed data',
+      ethers.verifyTypedData(resolved.domain, types, resolved.value, signature),
+      address
+    );
+    return signature;
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  private async resolveAddress(): Promise<string> {
+    const accounts: string[] = await this.request('eth_accounts', []);
+
+    if (this.config.address) {
+      const address = ethers.getAddress(this.config.address);
+      if (!accounts.some((account) => account.toLowerCase() === address.toLowerCase())) {
+        throw new Error(`Remote signer at ${this.url} does not manage ${address}`);
+      }
+      return address;
+    }
+
+    if (accounts.length === 0) {
+      throw new Error(`Remote signer at ${this.url} has no accounts`);
+    }
+    return ethers.getAddress(accounts[0]);
+  }
+
+  private async request(method: string, params: any[]): Promise<any> {
+    const request = new ethers.FetchRequest(this.url);
+    request.timeout = this.config.timeout ?? 30000;
+    request.setHeader('content-type', 'application/json');
+    for (const [name, value] of Object.entries(this.config.headers ?? {})) {
+      request.setHeader(name, value);
+    }
+    request.body = JSON.stringify({ jsonrpc: '2.0', id: 1, method, params });
+
+    const response = await request.send();
+
+    let body: any;
+    try {
+      body = response.bodyJson;
+    } catch {
+      response.assertOk();
+      throw new Error(`${method} failed: invalid JSON-RPC response`);
+    }
+
+    if (body.error) {
+      throw new Error(
+        `${method} failed: ${body.error.message || JSON.stringify(body.error)}`
+      );
+    }
+    response.assertOk();
+    return body.result;
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Convert a transaction to the JSON-RPC form used by eth_signTransaction
+ */
+function serializeTransaction(tx: ethers.Transaction, from: string): Record<string, any> {
+  const serialized: Record<string, any> = {
+    from,
+    type: ethers.toQuantity(tx.type ?? tx.inferType()),
+    chainId: ethers.toQuantity(tx.chainId),
+    nonce: ethers.toQuantity(tx.nonce),
+    gas: ethers.toQuantity(tx.gasLimit),
+    value: ethers.toQuantity(tx.value),
+    data: tx.data,
+  };
+
+  if (tx.to) {
+    serialized.to = tx.to;
+  }
+  if (tx.gasPrice !== null) {
+    serialized.gasPrice = ethers.toQuantity(tx.gasPrice);
+  }
+  if (tx.maxFeePerGas !== null) {
+    serialized.maxFeePerGas = ethers.toQuantity(tx.maxFeePerGas);
+  }
+  if (tx.maxPriorityFeePerGas !== null) {
+    serialized.maxPriorityFeePerGas = ethers.toQuantity(tx.maxPriorityFeePerGas);
+  }
+  if (tx.accessList) {
+    serialized.accessList = tx.accessList;
+  }
+
+  return serialized;
+}
+
+function assertSigner(what: string, signer: string, expected: string): void {
+  if (signer.toLowerCase() !== expected.toLowerCase()) {
+    throw new Error(
+      `Remote signer signed the ${what} with ${signer} instead of ${expected}`
+    );
+  }
+}
+
+export { RemoteSigner as default };
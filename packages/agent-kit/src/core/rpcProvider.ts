@@ -18,6 +18,9 @@
  *
  * const provider = await balancer.getProvider();
  * const blockNumber = await provider.getBlockNumber();
+ *
+ * // Or one provider that fails over between endpoints on every request
+ * const failover = new FailoverProvider(balancer);
  * ```
  */
 
@@ -73,6 +76,11 @@ export interface RPCLoadBalancerConfig {
   enableHealthCheck?: boolean;
 }
 
+/**
+ * JSON-RPC methods that are never retried on another endpoint (not idempotent)
+ */
+const NON_IDEMPOTENT_METHODS = new Set(['eth_sendRawTransaction', 'eth_sendTransaction']);
+
 // =============================================================================
 // RPCLoadBalancer Class
 // =============================================================================
@@ -154,17 +162,67 @@ export class RPCLoadBalancer {
    */
   async getProvider(): Promise<ethers.JsonRpcProvider> {
     const url = await this.selectProvider();
+    return this.providerFor(url);
+  }
 
-    // Return cached provider if exists
-    if (this.providers.has(url)) {
-      return this.providers.get(url)!;
-    }
+  /**
+   * Send a JSON-RPC payload with automatic failover
+   *
+   * The first endpoint is picked by the strategy. If the request fails (network
+   * error, HTTP error or timeout) the endpoint is marked unhealthy and the request is
+   * retried on the next healthy endpoint, up to `retries` times. Payloads containing
+   * non-idempotent methods (eth_sendRawTransaction) are sent once and never retried.
+   * JSON-RPC error responses (e.g. reverts) are returned as-is.
+   * Latency and failures are recorded in the endpoint's ProviderStatus.
+   *
+   * @param payload - Single or batched JSON-RPC payload
+   * @returns JSON-RPC results from the endpoint that answered
+   */
+  async send(
+    payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]
+  ): Promise<Array<ethers.JsonRpcResult>> {
+    const methods = (Array.isArray(payload) ? payload : [payload]).map((p) => p.method);
+    const retryable = !methods.some((method) => NON_IDEMPOTENT_METHODS.has(method));
+    const maxAttempts = retryable ? Math.min(this.retries + 1, this.urls.length) : 1;
+
+    const tried: string[] = [];
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      // Start with the strategy's pick; fall back to unhealthy endpoints if none is healthy
+      const url =
+        attempt === 0 && this.getHealthyProviders().length > 0
+          ? await this.selectProvider()
+          : this.nextProvider(tried);
+      if (!url) {
+        break;
+      }
+      tried.push(url);
 
-    // Create new provider
-    const provider = new ethers.JsonRpcProvider(url);
-    this.providers.set(url, provider);
+      const status = this.providerStatus.get(url);
+      const startTime = Date.now();
+      try {
+        const result = await this.withTimeout(this.providerFor(url)._send(payload));
+        if (status) {
+          status.requestCount++;
+          status.healthy = true;
+          status.avgResponseTime = status.avgResponseTime
+            ? (status.avgResponseTime + (Date.now() - startTime)) / 2
+            : Date.now() - startTime;
+        }
+        return result;
+      } catch (error) {
+        lastError = error;
+        if (status) {
+          status.requestCount++;
+          status.failureCount++;
+          status.healthy = false;
+          status.lastCheck = Date.now();
+        }
+      }
+    }
 
-    return provider;
+    throw lastError ?? new Error('No healthy RPC providers available');
   }
 
   /**
@@ -205,6 +263,38 @@ export class RPCLoadBalancer {
     }
   }
 
+  /**
+   * Next endpoint to retry on: the first untried healthy one,
+   * or an untried unhealthy one when no healthy endpoint is left
+   */
+  private nextProvider(tried: string[]): string | undefined {
+    const untried = this.urls.filter((url) => !tried.includes(url));
+    return untried.find((url) => this.providerStatus.get(url)?.healthy) ?? untried[0];
+  }
+
+  /**
+   * Get (or create) the provider for an endpoint
+   */
+  private providerFor(url: string): ethers.JsonRpcProvider {
+    let provider = this.providers.get(url);
+    if (!provider) {
+      provider = new ethers.JsonRpcProvider(url);
+      this.providers.set(url, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * Reject if a request takes longer than the configured timeout
+   */
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error('RPC request timeout')), this.timeout);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+
   /**
    * Round-robin strategy: Distribute requests evenly across providers
    */
@@ -313,6 +403,9 @@ export class RPCLoadBalancer {
     this.healthCheckTimer = setInterval(async () => {
       await this.checkAllHealth();
     }, this.healthCheckInterval);
+
+    // Don't keep the process alive just for health checks
+    this.healthCheckTimer.unref?.();
   }
 
   /**
@@ -421,11 +514,52 @@ export class RPCLoadBalancer {
    */
   destroy(): void {
     this.stopHealthCheck();
+    this.providers.forEach((provider) => provider.destroy());
     this.providers.clear();
     this.providerStatus.clear();
   }
 }
 
+// =============================================================================
+// FailoverProvider Class
+// =============================================================================
+
+/**
+ * JsonRpcProvider that sends every request through an RPCLoadBalancer
+ *
+ * Drop-in replacement for ethers.JsonRpcProvider: contracts, signers and
+ * ChainClient use it unchanged, and each request fails over to the next healthy
+ * endpoint (see RPCLoadBalancer.send).
+ */
+export class FailoverProvider extends ethers.JsonRpcProvider {
+  readonly balancer: RPCLoadBalancer;
+
+  /**
+   * @param balancer - Load balancer holding the endpoints
+   * @param network - Network (detected from the endpoints if omitted)
+   * @param options - ethers JsonRpcProvider options
+   */
+  constructor(
+    balancer: RPCLoadBalancer,
+    network?: ethers.Networkish,
+    options?: ethers.JsonRpcApiProviderOptions
+  ) {
+    super(balancer.getHealthyProviders()[0], network, options);
+    this.balancer = balancer;
+  }
+
+  async _send(
+    payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>
+  ): Promise<Array<ethers.JsonRpcResult>> {
+    return await this.balancer.send(payload);
+  }
+
+  destroy(): void {
+    this.balancer.destroy();
+    super.destroy();
+  }
+}
+
 // =============================================================================
 // Exports
 // =============================================================================
@@ -0,0 +1,717 @@
+/**
+ * Session Keys
+ *
+ * Short-lived keys that let an agent transact without holding the owner key.
+ * Each key carries permission scopes (allowed contracts and function selectors,
+ * per-transaction and per-day value caps, expiry) that are checked before every
+ * transaction it sends. Daily caps can also be enforced on-chain through
+ * AgentVault, which limits what the key can withdraw from its vault per day.
+ *
+ * Keys are derived from an owner signature (`keccak256(sign("...agent #index"))`),
+ * so only their metadata is stored and the owner can re-open them later.
+ * Generated (random) keys are returned once and never stored.
+ *
+ * @example
+ * ```typescript
+ * const sessions = kit.getSignerManager().getSessionKeyManager();
+ *
+ * const { signer } = await sessions.create('trading-bot', {
+ *   allowedContracts: [routerAddress],
+ *   allowedSelectors: ['swapExactTokensForTokens(uint256,uint256,address[],address,uint256)'],
+ *   maxValuePerTx: ethers.parseEther('1'),
+ *   maxValuePerDay: ethers.parseEther('5'),
+ *   expiresAt: Date.now() + 24 * 60 * 60 * 1000,
+ * });
+ *
+ * kit.getSignerManager().useSessionKey(signer);
+ * ```
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { NonceManager } from './nonceManager';
+import { sleep } from '../utils/retry';
+import type { FeeStrategy } from './feeStrategy';
+import type { SomniaContracts } from './contracts';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+
+/**
+ * What a session key may do
+ */
+export interface SessionPermissions {
+  /** Contracts (or recipients) the key may send to (default: any) */
+  allowedContracts?: string[];
+
+  /**
+   * Functions the key may call, as selectors ('0xa9059cbb') or signatures
+   * ('transfer(address,uint256)') (default: any). Plain value transfers are not affected.
+   */
+  allowedSelectors?: string[];
+
+  /** Max value per transaction in wei */
+  maxValuePerTx?: bigint;
+
+  /** Max value per UTC day in wei */
+  maxValuePerDay?: bigint;
+
+  /** Expiry timestamp in milliseconds */
+  expiresAt: number;
+}
+
+/**
+ * Stored session key (no private key)
+ */
+export interface SessionKeyRecord {
+  /** Session key address */
+  address: string;
+  /** Agent the key was issued to */
+  agent: string;
+  permissions: SessionPermissions;
+  /** Derivation index (derived keys only) */
+  index?: number;
+  createdAt: number;
+  revokedAt?: number;
+  /** Value sent on the current UTC day */
+  spent: { day: string; amount: bigint };
+  /** Whether maxValuePerDay is also enforced by an AgentVault vault for the key */
+  vaultEnforced?: boolean;
+}
+
+/**
+ * Result of checking a transaction against a session key's permissions
+ */
+export interface SessionCheck {
+  allowed: boolean;
+  reason?: string;
+}
+
+/**
+ * Options for SessionKeyManager.create
+ */
+export interface CreateSessionKeyOptions {
+  /** Use a random key instead of a derived one; it is returned once and not stored */
+  generate?: boolean;
+
+  /** Create (or update) an AgentVault vault with maxValuePerDay as its daily limit */
+  vault?: AgentVault;
+}
+
+/**
+ * A newly created session key
+ */
+export interface SessionKey {
+  record: SessionKeyRecord;
+  signer: SessionKeySigner;
+  /** Private key (generated keys only) */
+  privateKey?: string;
+}
+
+/**
+ * Configuration for SessionKeyManager
+ */
+export interface SessionKeyManagerConfig {
+  /** Where session keys are stored (default: ~/.somnia-agent/sessions.json) */
+  store?: SessionKeyStore;
+
+  /** Fee strategy for transactions sent by session keys */
+  feeStrategy?: FeeStrategy;
+}
+
+type AgentVault = SomniaContracts['AgentVault'];
+
+const DEFAULT_SESSION_FILE = path.join(os.homedir(), '.somnia-agent', 'sessions.json');
+const PERMISSION_DENIED = 'SESSION_PERMISSION_DENIED';
+const LOCK_STALE_MS = 10000;
+const LOCK_RETRY_MS = 20;
+
+// =============================================================================
+// SessionKeyStore Class
+// =============================================================================
+
+/**
+ * JSON file store for session key records
+ * The file is re-read on every access so revocations from other processes
+ * (e.g. the CLI) take effect immediately. Updates hold a lock file, so processes
+ * sharing the store do not overwrite each other's changes.
+ */
+export class SessionKeyStore {
+  readonly filePath: string;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string = DEFAULT_SESSION_FILE) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * List stored session keys
+   * @param agent Only keys issued to this agent (optional)
+   */
+  async list(agent?: string): Promise<SessionKeyRecord[]> {
+    const records = await this.read();
+    return agent ? records.filter((record) => record.agent === agent) : records;
+  }
+
+  /**
+   * Get a session key by address
+   */
+  async get(address: string): Promise<SessionKeyRecord | undefined> {
+    const key = address.toLowerCase();
+    return (await this.read()).find((record) => record.address.toLowerCase() === key);
+  }
+
+  /**
+   * Insert or replace a session key
+   */
+  async save(record: SessionKeyRecord): Promise<void> {
+    await this.update(record.address, () => record, true);
+  }
+
+  /**
+   * Update a session key atomically
+   * A revocation already stored is kept, whatever the change returns.
+   * @returns Updated record
+   * @throws If the key is not stored
+   */
+  async update(
+    address: string,
+    change: (record: SessionKeyRecord) => SessionKeyRecord,
+    create: boolean = false
+  ): Promise<SessionKeyRecord> {
+    const run = this.queue.then(() =>
+      this.withLock(() => this.apply(address, change, create))
+    );
+
+    this.queue = run.catch(() => undefined);
+    return await run;
+  }
+
+  private async apply(
+    address: string,
+    change: (record: SessionKeyRecord) => SessionKeyRecord,
+    create: boolean
+  ): Promise<SessionKeyRecord> {
+    const records = await this.read();
+    const index = records.findIndex(
+      (record) => record.address.toLowerCase() === address.toLowerCase()
+    );
+    if (index === -1 && !create) {
+      throw new Error(`Unknown session key: ${address}`);
+    }
+
+    let updated = change(records[index]);
+    if (index === -1) {
+      records.push(updated);
+    } else {
+      // Revocation always wins over a change made from an older copy
+      updated = { ...updated, revokedAt: records[index].revokedAt ?? updated.revokedAt };
+      records[index] = updated;
+    }
+    await this.write(records);
+    return updated;
+  }
+
+  /**
+   * Run a read-modify-write while holding the store's lock file
+   * Locks left by a crashed process are taken over after LOCK_STALE_MS.
+   */
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const lockPath = `${this.filePath}.lock`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    for (;;) {
+      try {
+        await (await fs.open(lockPath, 'wx')).close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const stat = await fs.stat(lockPath).catch(() => undefined);
+      if (stat && Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+        await fs.rm(lockPath, { force: true });
+      } else {
+        await sleep(LOCK_RETRY_MS);
+      }
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await fs.rm(lockPath, { force: true });
+    }
+  }
+
+  private async read(): Promise<SessionKeyRecord[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return JSON.parse(content).map(deserializeRecord);
+  }
+
+  private async write(records: SessionKeyRecord[]): Promise<void> {
+    // Replace the file in one step so readers never see a partial write
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(records.map(serializeRecord), null, 2), {
+      mode: 0o600,
+    });
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
+
+// =============================================================================
+// SessionKeySigner Class
+// =============================================================================
+
+/**
+ * Signer for a session key
+ * Every transaction is checked against the key's permissions (re-read from the
+ * store, so revocation applies immediately) and counted towards its daily cap.
+ */
+export class SessionKeySigner extends ethers.AbstractSigner {
+  readonly signer: ethers.Signer;
+  readonly address: string;
+  readonly store: SessionKeyStore;
+
+  /**
+   * @param signer Signer holding the session key
+   * @param store Store with the key's record
+   */
+  constructor(signer: ethers.Signer, store: SessionKeyStore, address: string) {
+    super(signer.provider);
+    this.signer = signer;
+    this.store = store;
+    this.address = ethers.getAddress(address);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  connect(provider: ethers.Provider | null): SessionKeySigner {
+    return new SessionKeySigner(this.signer.connect(provider), this.store, this.address);
+  }
+
+  /**
+   * Get the stored record for this key
+   * @throws If the key is not stored
+   */
+  async getRecord(): Promise<SessionKeyRecord> {
+    const record = await this.store.get(this.address);
+    if (!record) {
+      throw new Error(`Unknown session key: ${this.address}`);
+    }
+    return record;
+  }
+
+  /**
+   * Check a transaction against the key's permissions (without sending it)
+   */
+  async checkTransaction(tx: ethers.TransactionRequest): Promise<SessionCheck> {
+    return checkSessionPermissions(await this.getRecord(), await this.describe(tx));
+  }
+
+  /**
+   * Send a transaction if the key's permissions allow it
+   * @throws If the transaction is outside the key's permissions (error.code: SESSION_PERMISSION_DENIED)
+   */
+  async sendTransaction(
+    tx: ethers.TransactionRequest
+  ): Promise<ethers.TransactionResponse> {
+    const call = await this.describe(tx);
+
+    // Check and reserve the value against the daily cap in one store update
+    let denied: string | undefined;
+    await this.store.update(this.address, (record) => {
+      const check = checkSessionPermissions(record, call);
+      if (!check.allowed) {
+        denied = check.reason;
+        return record;
+      }
+      return addSpend(record, call.value);
+    });
+    if (denied) {
+      throw permissionError(this.address, denied);
+    }
+
+    try {
+      return await this.signer.sendTransaction(tx);
+    } catch (error) {
+      await this.store.update(this.address, (record) => addSpend(record, -call.value));
+      throw error;
+    }
+  }
+
+  async signTransaction(): Promise<string> {
+    throw permissionError(
+      this.address,
+      'raw transaction signing is not allowed; use sendTransaction'
+    );
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    await this.assertActive();
+    return await this.signer.signMessage(message);
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, Array<ethers.TypedDataField>>,
+    value: Record<string, any>
+  ): Promise<string> {
+    await this.assertActive();
+    return await this.signer.signTypedData(domain, types, value);
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  private async assertActive(): Promise<void> {
+    const check = checkSessionPermissions(await this.getRecord(), {
+      to: null,
+      data: '0x',
+      value: 0n,
+    });
+    if (!check.allowed && check.reason !== CONTRACT_CREATION) {
+      throw permissionError(this.address, check.reason!);
+    }
+  }
+
+  private async describe(tx: ethers.TransactionRequest): Promise<SessionCall> {
+    return {
+      to: tx.to ? await ethers.resolveAddress(tx.to, this.provider) : null,
+      data: tx.data ? ethers.hexlify(tx.data) : '0x',
+      value: tx.value != null ? ethers.toBigInt(tx.value) : 0n,
+    };
+  }
+}
+
+// =============================================================================
+// SessionKeyManager Class
+// =============================================================================
+
+/**
+ * Issues, re-opens and revokes session keys for an owner
+ */
+export class SessionKeyManager {
+  private owner: ethers.Signer;
+  private provider: ethers.Provider;
+  private store: SessionKeyStore;
+  private feeStrategy?: FeeStrategy;
+
+  /**
+   * @param owner Owner signer (derives session keys; must be the AgentVault owner for vault limits)
+   * @param provider Provider for session key transactions
+   */
+  constructor(
+    owner: ethers.Signer,
+    provider: ethers.Provider,
+    config: SessionKeyManagerConfig = {}
+  ) {
+    this.owner = owner;
+    this.provider = provider;
+    this.store = config.store ?? new SessionKeyStore();
+    this.feeStrategy = config.feeStrategy;
+  }
+
+  /**
+   * Issue a session key for an agent
+   * @param agent Agent name or ID
+   * @param permissions Permission scopes
+   * @param options Key generation and on-chain enforcement options
+   */
+  async create(
+    agent: string,
+    permissions: SessionPermissions,
+    options: CreateSessionKeyOptions = {}
+  ): Promise<SessionKey> {
+    if (!(permissions.expiresAt > Date.now())) {
+      throw new Error('Session key expiry must be in the future');
+    }
+    if (options.vault && permissions.maxValuePerDay === undefined) {
+      throw new Error(
+        'maxValuePerDay is required to enforce a session key on AgentVault'
+      );
+    }
+
+    const index = options.generate ? undefined : (await this.store.list(agent)).length;
+    const privateKey =
+      index === undefined
+        ? ethers.Wallet.createRandom().privateKey
+        : await this.deriveKey(agent, index);
+    const address = ethers.computeAddress(privateKey);
+
+    let record: SessionKeyRecord = {
+      address,
+      agent,
+      permissions: {
+        ...permissions,
+        allowedContracts: permissions.allowedContracts?.map((contract) =>
+          ethers.getAddress(contract)
+        ),
+        allowedSelectors: permissions.allowedSelectors?.map(toSelector),
+      },
+      index,
+      createdAt: Date.now(),
+      spent: { day: utcDay(Date.now()), amount: 0n },
+    };
+    await this.store.save(record);
+
+    if (options.vault) {
+      record = await this.enforceOnVault(options.vault, record);
+    }
+
+    return {
+      record,
+      signer: this.createSigner(privateKey, address),
+      privateKey: index === undefined ? privateKey : undefined,
+    };
+  }
+
+  /**
+   * Re-open a derived session key
+   * @throws If the key is unknown or was generated (not derived)
+   */
+  async open(address: string): Promise<SessionKeySigner> {
+    const record = await this.store.get(address);
+    if (!record) {
+      throw new Error(`Unknown session key: ${address}`);
+    }
+    if (record.index === undefined) {
+      throw new Error(
+        `Session key ${record.address} was generated, not derived; use its private key`
+      );
+    }
+
+    const privateKey = await this.deriveKey(record.agent, record.index);
+    if (ethers.computeAddress(privateKey) !== record.address) {
+      throw new Error(`Session key ${record.address} was derived by a different owner`);
+    }
+    return this.createSigner(privateKey, record.address);
+  }
+
+  /**
+   * Wrap a generated session key's private key in a signer
+   */
+  fromPrivateKey(privateKey: string): SessionKeySigner {
+    return this.createSigner(privateKey, ethers.computeAddress(privateKey));
+  }
+
+  /**
+   * Revoke a session key
+   * Takes effect for every SessionKeySigner using the same store; with a vault,
+   * the key's AgentVault vault is deactivated as well.
+   */
+  async revoke(address: string, vault?: AgentVault): Promise<SessionKeyRecord> {
+    const record = await this.store.update(address, (current) => ({
+      ...current,
+      revokedAt: current.revokedAt ?? Date.now(),
+    }));
+
+    if (vault && record.vaultEnforced && (await vault.isVaultActive(record.address))) {
+      await (await vault.deactivateVault(record.address)).wait();
+    }
+    return record;
+  }
+
+  /**
+   * List session keys
+   * @param agent Only keys issued to this agent (optional)
+   */
+  async list(agent?: string): Promise<SessionKeyRecord[]> {
+    return await this.store.list(agent);
+  }
+
+  /**
+   * Set maxValuePerDay as the daily limit of the key's AgentVault vault
+   * (creates the vault, or updates and re-activates an existing one)
+   */
+  async enforceOnVault(
+    vault: AgentVault,
+    record: SessionKeyRecord
+  ): Promise<SessionKeyRecord> {
+    const limit = record.permissions.maxValuePerDay;
+    if (limit === undefined) {
+      throw new Error(
+        'maxValuePerDay is required to enforce a session key on AgentVault'
+      );
+    }
+
+    if (await vault.registeredAgents(record.address)) {
+      await (await vault.updateDailyLimit(record.address, limit)).wait();
+      if (!(await vault.isVaultActive(record.address))) {
+        await (await vault.activateVault(record.address)).wait();
+      }
+    } else {
+      await (await vault.createVault(record.address, limit)).wait();
+    }
+
+    return await this.store.update(record.address, (current) => ({
+      ...current,
+      vaultEnforced: true,
+    }));
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  /**
+   * Derive a session key from an owner signature (deterministic for ECDSA signers)
+   */
+  private async deriveKey(agent: string, index: number): Promise<string> {
+    const signature = await this.owner.signMessage(
+      `Somnia Agent Kit session key\nAgent: ${agent}\nIndex: ${index}`
+    );
+    return ethers.keccak256(signature);
+  }
+
+  private createSigner(privateKey: string, address: string): SessionKeySigner {
+    const wallet = new ethers.Wallet(privateKey, this.provider);
+    return new SessionKeySigner(
+      new NonceManager(wallet, { feeStrategy: this.feeStrategy }),
+      this.store,
+      address
+    );
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+interface SessionCall {
+  to: string | null;
+  data: string;
+  value: bigint;
+}
+
+const CONTRACT_CREATION = 'contract creation is not allowed';
+
+/**
+ * Check a call against a session key's permissions
+ * @param record Session key record
+ * @param call Resolved target, calldata and value
+ * @param now Current time in milliseconds
+ */
+export function checkSessionPermissions(
+  record: SessionKeyRecord,
+  call: SessionCall,
+  now: number = Date.now()
+): SessionCheck {
+  const { permissions } = record;
+
+  if (record.revokedAt !== undefined) {
+    return { allowed: false, reason: 'session key was revoked' };
+  }
+  if (now >= permissions.expiresAt) {
+    return { allowed: false, reason: 'session key expired' };
+  }
+  if (!call.to) {
+    return { allowed: false, reason: CONTRACT_CREATION };
+  }
+
+  if (
+    permissions.allowedContracts &&
+    !permissions.allowedContracts.some(
+      (contract) => contract.toLowerCase() === call.to!.toLowerCase()
+    )
+  ) {
+    return { allowed: false, reason: `${call.to} is not an allowed contract` };
+  }
+
+  if (permissions.allowedSelectors && call.data !== '0x') {
+    const selector = call.data.slice(0, 10).toLowerCase();
+    if (!permissions.allowedSelectors.map(toSelector).includes(selector)) {
+      return { allowed: false, reason: `function ${selector} is not allowed` };
+    }
+  }
+
+  if (permissions.maxValuePerTx !== undefined && call.value > permissions.maxValuePerTx) {
+    return {
+      allowed: false,
+      reason: `value ${ethers.formatEther(call.value)} exceeds the per-transaction cap of ${ethers.formatEther(permissions.maxValuePerTx)}`,
+    };
+  }
+
+  if (permissions.maxValuePerDay !== undefined) {
+    const spent = record.spent.day === utcDay(now) ? record.spent.amount : 0n;
+    if (spent + call.value > permissions.maxValuePerDay) {
+      return {
+        allowed: false,
+        reason: `value ${ethers.formatEther(call.value)} exceeds the daily cap of ${ethers.formatEther(permissions.maxValuePerDay)} (${ethers.formatEther(spent)} spent today)`,
+      };
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Whether an error was thrown because a session key's permissions denied a transaction
+ */
+export function isSessionPermissionError(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === PERMISSION_DENIED;
+}
+
+function permissionError(address: string, reason: string): Error {
+  return Object.assign(new Error(`Session key ${address} denied: ${reason}`), {
+    code: PERMISSION_DENIED,
+  });
+}
+
+function toSelector(selector: string): string {
+  return /^0x[0-9a-fA-F]{8}$/.test(selector)
+    ? selector.toLowerCase()
+    : ethers.FunctionFragment.from(selector).selector;
+}
+
+function utcDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function addSpend(record: SessionKeyRecord, value: bigint): SessionKeyRecord {
+  const day = utcDay(Date.now());
+  const spent = record.spent.day === day ? record.spent.amount : 0n;
+  const amount = spent + value;
+  return { ...record, spent: { day, amount: amount > 0n ? amount : 0n } };
+}
+
+function serializeRecord(record: SessionKeyRecord): Record<string, any> {
+  return JSON.parse(
+    JSON.stringify(record, (_key, value) =>
+      typeof value === 'bigint' ? value.toString() : value
+    )
+  );
+}
+
+function deserializeRecord(raw: any): SessionKeyRecord {
+  const toBigInt = (value: string | undefined) =>
+    value === undefined ? undefined : BigInt(value);
+
+  return {
+    ...raw,
+    permissions: {
+      ...raw.permissions,
+      maxValuePerTx: toBigInt(raw.permissions.maxValuePerTx),
+      maxValuePerDay: toBigInt(raw.permissions.maxValuePerDay),
+    },
+    spent: { day: raw.spent.day, amount: BigInt(raw.spent.amount) },
+  };
+}
+
+export { SessionKeyManager as default };
@@ -1,15 +1,41 @@
 /**
  * Signer Management - Handles wallet and transaction signing
+ * Transactions go through a NonceManager so concurrent sends get distinct nonces,
+ * with fees from a shared FeeStrategy. With a smart account configured they are
+ * sent as ERC-4337 UserOperations instead, and with a session key they are sent
+ * from the scoped key. The key can come from a private key, a mnemonic, an
+ * encrypted keystore file or a remote signing service.
  */
 
 import { ethers } from 'ethers';
+import { NonceManager } from './nonceManager';
+import {
+  FeeStrategy,
+  type FeeEstimate,
+  type FeeSpeed,
+  type FeeStrategyConfig,
+} from './feeStrategy';
+import { SmartAccountSigner, type SmartAccountConfig } from './smartAccount';
+import { loadKeystore } from './keystore';
+import { RemoteSigner, type RemoteSignerConfig } from './remoteSigner';
+import {
+  SessionKeyManager,
+  type SessionKeySigner,
+  type SessionKeyStore,
+} from './sessionKeys';
 
 export class SignerManager {
   private signer?: ethers.Wallet | ethers.Signer;
+  private nonceManager?: NonceManager;
+  private smartAccountConfig?: SmartAccountConfig;
+  private smartAccount?: SmartAccountSigner;
+  private sessionKey?: SessionKeySigner;
   private provider: ethers.Provider;
+  private feeStrategy: FeeStrategy;
 
-  constructor(provider: ethers.Provider, privateKey?: string) {
+  constructor(provider: ethers.Provider, privateKey?: string, fees?: FeeStrategyConfig) {
     this.provider = provider;
+    this.feeStrategy = new FeeStrategy(provider, fees);
     if (privateKey) {
       this.signer = new ethers.Wallet(privateKey, provider);
     }
@@ -48,14 +74,135 @@ export class SignerManager {
     return manager;
   }
 
+  /**
+   * Create SignerManager from an encrypted JSON keystore file
+   * @param path Keystore file path
+   * @param password Keystore password
+   * @param provider Provider instance
+   * @returns SignerManager instance
+   */
+  static async fromKeystore(
+    path: string,
+    password: string,
+    provider: ethers.Provider
+  ): Promise<SignerManager> {
+    const manager = new SignerManager(provider);
+    await manager.loadKeystore(path, password);
+    return manager;
+  }
+
   /**
    * Get the current signer
+   * The session key if one is in use, then the smart account if configured,
+   * otherwise the key wrapped in the nonce manager
    */
   getSigner(): ethers.Wallet | ethers.Signer {
+    return this.sessionKey ?? this.getSmartAccount() ?? this.getNonceManager();
+  }
+
+  /**
+   * Send transactions from a session key (pass undefined to stop)
+   * @param sessionKey Session key signer from getSessionKeyManager()
+   */
+  useSessionKey(sessionKey: SessionKeySigner | undefined): void {
+    this.sessionKey = sessionKey;
+  }
+
+  /**
+   * Get the session key in use
+   * @returns Session key, or undefined when transactions are sent from the main signer
+   */
+  getSessionKey(): SessionKeySigner | undefined {
+    return this.sessionKey;
+  }
+
+  /**
+   * Get a session key manager owned by the current signer
+   * @param store Session key store (default: ~/.somnia-agent/sessions.json)
+   */
+  getSessionKeyManager(store?: SessionKeyStore): SessionKeyManager {
+    if (!this.signer) {
+      throw new Error('No signer configured. Provide a private key, mnemonic, or signer.');
+    }
+    return new SessionKeyManager(this.signer, this.provider, {
+      store,
+      feeStrategy: this.feeStrategy,
+    });
+  }
+
+  /**
+   * Send through an ERC-4337 smart account owned by the current signer
+   * @param config Smart account configuration (entryPoint is required here)
+   * @returns Smart account signer (also returned by getSigner() from now on)
+   */
+  useSmartAccount(config: SmartAccountConfig): SmartAccountSigner {
+    if (!config.entryPoint) {
+      throw new Error('Smart account requires an EntryPoint address');
+    }
+    this.smartAccountConfig = config;
+    this.smartAccount = undefined;
+    return this.getSmartAccount()!;
+  }
+
+  /**
+   * Stop using the smart account; transactions are sent from the key again
+   */
+  disableSmartAccount(): void {
+    this.smartAccountConfig = undefined;
+    this.smartAccount = undefined;
+  }
+
+  /**
+   * Get the smart account signer
+   * @returns Smart account, or undefined when none is configured
+   */
+  getSmartAccount(): SmartAccountSigner | undefined {
+    if (!this.smartAccountConfig) {
+      return undefined;
+    }
+    if (!this.signer) {
+      throw new Error('No signer configured. Provide a private key, mnemonic, or signer.');
+    }
+    if (!this.smartAccount) {
+      this.smartAccount = new SmartAccountSigner(this.signer, {
+        ...this.smartAccountConfig,
+        entryPoint: this.smartAccountConfig.entryPoint!,
+        feeStrategy: this.feeStrategy,
+      });
+    }
+    return this.smartAccount;
+  }
+
+  /**
+   * Get the nonce manager wrapping the current signer
+   * Use it to inspect pending transactions and speed up or cancel stuck ones
+   */
+  getNonceManager(): NonceManager {
     if (!this.signer) {
       throw new Error('No signer configured. Provide a private key, mnemonic, or signer.');
     }
-    return this.signer;
+    if (!this.nonceManager) {
+      this.nonceManager = new NonceManager(this.signer, {
+        feeStrategy: this.feeStrategy,
+      });
+    }
+    return this.nonceManager;
+  }
+
+  /**
+   * Get the fee strategy used for every transaction sent by this manager
+   */
+  getFeeStrategy(): FeeStrategy {
+    return this.feeStrategy;
+  }
+
+  /**
+   * Get current fees for a preset
+   * @param speed Fee preset (default: the strategy's configured speed)
+   * @returns Capped EIP-1559 fees (or gasPrice on legacy chains)
+   */
+  async getFees(speed?: FeeSpeed): Promise<FeeEstimate> {
+    return await this.feeStrategy.getFees(speed);
   }
 
   /**
@@ -98,7 +245,27 @@ export class SignerManager {
    * Set a new signer
    */
   setSigner(privateKey: string): void {
-    this.signer = new ethers.Wallet(privateKey, this.provider);
+    this.replaceSigner(new ethers.Wallet(privateKey, this.provider));
+  }
+
+  /**
+   * Sign with the key from an encrypted JSON keystore file
+   * @param path Keystore file path
+   * @param password Keystore password
+   */
+  async loadKeystore(path: string, password: string): Promise<void> {
+    this.replaceSigner(await loadKeystore(path, password, this.provider));
+  }
+
+  /**
+   * Sign through a remote signing service instead of a local key
+   * @param config Signing service configuration
+   * @returns Remote signer (wrapped by getSigner() like a local key)
+   */
+  useRemoteSigner(config: RemoteSignerConfig): RemoteSigner {
+    const signer = new RemoteSigner(config, this.provider);
+    this.replaceSigner(signer);
+    return signer;
   }
 
   /**
@@ -161,20 +328,52 @@ export class SignerManager {
   }
 
   /**
-   * Get current nonce for the signer
-   * @returns Current nonce
+   * Get the next nonce for the signer
+   * Includes nonces reserved locally for transactions sent through this manager
+   * @returns Next nonce
    */
   async getNonce(): Promise<number> {
-    const address = await this.getAddress();
-    return await this.provider.getTransactionCount(address, 'pending');
+    return await this.getNonceManager().getNonce('pending');
+  }
+
+  /**
+   * Resend a stuck transaction with the same nonce and higher fees
+   * @param txHash Hash of a pending transaction sent through this manager
+   * @param bumpPercent Fee increase in percent (default: 15)
+   * @returns Replacement transaction
+   */
+  async speedUpTx(
+    txHash: string,
+    bumpPercent?: number
+  ): Promise<ethers.TransactionResponse> {
+    return await this.getNonceManager().speedUp(txHash, bumpPercent);
+  }
+
+  /**
+   * Cancel a stuck transaction (0-value self-transfer with the same nonce and higher fees)
+   * @param txHash Hash of a pending transaction sent through this manager
+   * @param bumpPercent Fee increase in percent (default: 15)
+   * @returns Replacement transaction
+   */
+  async cancelTx(
+    txHash: string,
+    bumpPercent?: number
+  ): Promise<ethers.TransactionResponse> {
+    return await this.getNonceManager().cancel(txHash, bumpPercent);
   }
 
   /**
    * Get gas price
-   * @returns Current gas price in wei
+   * @returns Max fee per gas from the fee strategy (gas price on legacy chains) in wei
    */
   async getGasPrice(): Promise<bigint> {
-    const feeData = await this.provider.getFeeData();
-    return feeData.gasPrice || 0n;
+    return await this.feeStrategy.getMaxFeePerGas();
+  }
+
+  private replaceSigner(signer: ethers.Wallet | ethers.Signer): void {
+    this.signer = signer;
+    this.nonceManager = undefined;
+    this.smartAccount = undefined;
+    this.sessionKey = undefined;
   }
 }
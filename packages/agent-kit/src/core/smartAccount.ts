@@ -0,0 +1,536 @@
+/**
+ * Smart Account Signer
+ *
+ * ERC-4337 signer for a SimpleAccount-compatible smart account owned by the agent key.
+ * `sendTransaction` wraps the call in a UserOperation (`execute(to, value, data)`),
+ * estimates it with the bundler, signs the EntryPoint v0.7 UserOperation hash with
+ * the owner key and submits it. It resolves once the operation is included, with
+ * the bundle transaction, so contracts, token managers and the executor can use
+ * it like any other signer.
+ *
+ * The first operation deploys the account through the factory. An optional
+ * paymaster (static fields or an ERC-7677 service) sponsors gas.
+ *
+ * @example
+ * ```typescript
+ * const account = new SmartAccountSigner(wallet, {
+ *   bundlerUrl: 'https://bundler.example/rpc',
+ *   entryPoint: SOMNIA_NETWORKS.testnet.entryPoint,
+ *   factory: '0x...', // SimpleAccountFactory
+ *   paymaster: { url: 'https://paymaster.example/rpc' },
+ * });
+ *
+ * const tx = await account.sendTransaction({ to, value: ethers.parseEther('0.1') });
+ * ```
+ */
+
+import { ethers } from 'ethers';
+import {
+  BundlerClient,
+  PaymasterClient,
+  type PaymasterResult,
+  type UserOperation,
+  type UserOperationReceipt,
+} from './bundler';
+import type { FeeStrategy } from './feeStrategy';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+
+/**
+ * Paymaster sponsoring UserOperations
+ * - static: fixed paymaster address and data (gas limits estimated by the bundler)
+ * - service: ERC-7677 paymaster service URL
+ */
+export type PaymasterConfig =
+  | {
+      address: string;
+      data?: string;
+      verificationGasLimit?: bigint;
+      postOpGasLimit?: bigint;
+    }
+  | {
+      url: string;
+      /** Service-specific context (e.g. a sponsorship policy id) */
+      context?: Record<string, any>;
+    };
+
+/**
+ * Smart account configuration
+ */
+export interface SmartAccountConfig {
+  /** Bundler RPC URL */
+  bundlerUrl: string;
+
+  /** EntryPoint v0.7 address (default: the network's entryPoint) */
+  entryPoint?: string;
+
+  /** SimpleAccountFactory address (needed to derive and deploy the account) */
+  factory?: string;
+
+  /** Factory salt (default: 0) */
+  salt?: bigint;
+
+  /** Address of an already deployed account (skips the factory lookup) */
+  address?: string;
+
+  /** Paymaster for sponsored gas (optional) */
+  paymaster?: PaymasterConfig;
+
+  /** Receipt polling interval in milliseconds (default: 1000) */
+  pollInterval?: number;
+
+  /** How long to wait for inclusion in milliseconds (default: 60000) */
+  timeout?: number;
+}
+
+/**
+ * Options for SmartAccountSigner
+ */
+export interface SmartAccountSignerOptions extends SmartAccountConfig {
+  entryPoint: string;
+
+  /** Fills in (and caps) UserOperation fees */
+  feeStrategy?: FeeStrategy;
+}
+
+const ACCOUNT_ABI = ['function execute(address dest, uint256 value, bytes func)'];
+const FACTORY_ABI = [
+  'function createAccount(address owner, uint256 salt) returns (address)',
+  'function getAddress(address owner, uint256 salt) view returns (address)',
+];
+const ENTRY_POINT_ABI = [
+  'function getNonce(address sender, uint192 key) view returns (uint256)',
+];
+
+/** ECDSA-shaped placeholder so account validation runs its normal path during estimation */
+const DUMMY_SIGNATURE =
+  '0xfffffffffffffffffffffffffffffff0000000000000000000000000000000007aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa1c';
+
+// =============================================================================
+// SmartAccountSigner Class
+// =============================================================================
+
+/**
+ * ERC-4337 smart account signer
+ */
+export class SmartAccountSigner extends ethers.AbstractSigner {
+  readonly owner: ethers.Signer;
+  readonly bundler: BundlerClient;
+  private options: SmartAccountSignerOptions;
+  private paymasterClient?: PaymasterClient;
+  private address?: string;
+  private nextNonce?: bigint;
+  private syncing?: Promise<bigint>;
+
+  constructor(owner: ethers.Signer, options: SmartAccountSignerOptions) {
+    super(owner.provider);
+    if (!options.address && !options.factory) {
+      throw new Error('Smart account requires an account address or a factory');
+    }
+
+    this.owner = owner;
+    this.options = options;
+    this.bundler = new BundlerClient(options.bundlerUrl);
+    if (options.paymaster && 'url' in options.paymaster) {
+      this.paymasterClient = new PaymasterClient(
+        options.paymaster.url,
+        options.paymaster.context
+      );
+    }
+  }
+
+  /**
+   * Get the smart account address (counterfactual until deployed)
+   */
+  async getAddress(): Promise<string> {
+    if (!this.address) {
+      if (this.options.address) {
+        this.address = ethers.getAddress(this.options.address);
+      } else {
+        const factory = new ethers.Interface(FACTORY_ABI);
+        const result = await this.requireProvider().call({
+          to: this.options.factory,
+          data: factory.encodeFunctionData('getAddress', [
+            await this.owner.getAddress(),
+            this.options.salt ?? 0n,
+          ]),
+        });
+        this.address = factory.decodeFunctionResult('getAddress', result)[0] as string;
+      }
+    }
+    return this.address;
+  }
+
+  connect(provider: ethers.Provider | null): SmartAccountSigner {
+    return new SmartAccountSigner(this.owner.connect(provider), this.options);
+  }
+
+  /**
+   * Check whether the account contract is deployed
+   */
+  async isDeployed(): Promise<boolean> {
+    const code = await this.requireProvider().getCode(await this.getAddress());
+    return code !== '0x';
+  }
+
+  /**
+   * Get the next EntryPoint nonce (without reserving it)
+   */
+  async getNonce(): Promise<number> {
+    if (this.nextNonce === undefined) {
+      this.nextNonce = await this.fetchNonce();
+    }
+    return Number(this.nextNonce);
+  }
+
+  /**
+   * Build an unsigned, fully estimated UserOperation for a call from the account
+   * @param tx Call to make (to, value, data); tx.gasLimit overrides the call gas limit
+   * @returns UserOperation with gas limits, fees and paymaster fields (no signature)
+   */
+  async buildUserOperation(tx: ethers.TransactionRequest): Promise<UserOperation> {
+    const provider = this.requireProvider();
+    if (!tx.to) {
+      throw new Error(
+        'Smart accounts cannot send contract creation transactions; deploy through a CREATE2 factory'
+      );
+    }
+
+    const account = new ethers.Interface(ACCOUNT_ABI);
+    const [sender, to, deployed, fees, chainId] = await Promise.all([
+      this.getAddress(),
+      ethers.resolveAddress(tx.to, provider),
+      this.isDeployed(),
+      this.getFees(tx),
+      this.getChainId(),
+    ]);
+
+    const userOp: UserOperation = {
+      sender,
+      nonce: await this.reserveNonce(),
+      callData: account.encodeFunctionData('execute', [
+        to,
+        tx.value ?? 0n,
+        tx.data ?? '0x',
+      ]),
+      callGasLimit: 0n,
+      verificationGasLimit: 0n,
+      preVerificationGas: 0n,
+      ...fees,
+      signature: DUMMY_SIGNATURE,
+    };
+
+    try {
+      if (!deployed) {
+        if (!this.options.factory) {
+          throw new Error(
+            `Smart account ${sender} is not deployed and no factory is set`
+          );
+        }
+        userOp.factory = this.options.factory;
+        userOp.factoryData = new ethers.Interface(FACTORY_ABI).encodeFunctionData(
+          'createAccount',
+          [await this.owner.getAddress(), this.options.salt ?? 0n]
+        );
+      }
+
+      const paymaster = this.options.paymaster;
+      if (this.paymasterClient) {
+        applyPaymaster(
+          userOp,
+          await this.paymasterClient.getPaymasterStubData(
+            userOp,
+            this.options.entryPoint,
+            chainId
+          )
+        );
+      } else if (paymaster && 'address' in paymaster) {
+        applyPaymaster(userOp, {
+          paymaster: paymaster.address,
+          paymasterData: paymaster.data ?? '0x',
+          paymasterVerificationGasLimit: paymaster.verificationGasLimit,
+          paymasterPostOpGasLimit: paymaster.postOpGasLimit,
+        });
+      }
+
+      const gas = await this.bundler.estimateUserOperationGas(
+        userOp,
+        this.options.entryPoint
+      );
+      userOp.preVerificationGas = gas.preVerificationGas;
+      userOp.verificationGasLimit = gas.verificationGasLimit;
+      userOp.callGasLimit =
+        tx.gasLimit != null ? ethers.toBigInt(tx.gasLimit) : gas.callGasLimit;
+      if (userOp.paymaster) {
+        userOp.paymasterVerificationGasLimit ??= gas.paymasterVerificationGasLimit ?? 0n;
+        userOp.paymasterPostOpGasLimit ??= gas.paymasterPostOpGasLimit ?? 0n;
+      }
+
+      if (this.paymasterClient) {
+        applyPaymaster(
+          userOp,
+          await this.paymasterClient.getPaymasterData(
+            userOp,
+            this.options.entryPoint,
+            chainId
+          )
+        );
+      }
+    } catch (error) {
+      this.resync();
+      throw error;
+    }
+
+    userOp.signature = '0x';
+    return userOp;
+  }
+
+  /**
+   * Sign a UserOperation with the owner key
+   * @returns Copy of the UserOperation with its signature set
+   */
+  async signUserOperation(userOp: UserOperation): Promise<UserOperation> {
+    const hash = getUserOperationHash(
+      userOp,
+      this.options.entryPoint,
+      await this.getChainId()
+    );
+    return { ...userOp, signature: await this.owner.signMessage(ethers.getBytes(hash)) };
+  }
+
+  /**
+   * Build, sign and submit a UserOperation
+   * @returns UserOperation hash
+   */
+  async sendUserOperation(tx: ethers.TransactionRequest): Promise<string> {
+    const userOp = await this.signUserOperation(await this.buildUserOperation(tx));
+
+    try {
+      return await this.bundler.sendUserOperation(userOp, this.options.entryPoint);
+    } catch (error) {
+      this.resync();
+      throw error;
+    }
+  }
+
+  /**
+   * Poll the bundler until a UserOperation is included
+   * @throws If it is not included within the configured timeout
+   */
+  async waitForUserOperation(userOpHash: string): Promise<UserOperationReceipt> {
+    const timeout = this.options.timeout ?? 60000;
+    const deadline = Date.now() + timeout;
+
+    for (;;) {
+      const receipt = await this.bundler.getUserOperationReceipt(userOpHash);
+      if (receipt) {
+        return receipt;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`UserOperation ${userOpHash} not included after ${timeout}ms`);
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, this.options.pollInterval ?? 1000)
+      );
+    }
+  }
+
+  /**
+   * Send a call from the smart account
+   * Resolves once the UserOperation is included, with the bundle transaction.
+   * @throws If the account's call reverted
+   */
+  async sendTransaction(
+    tx: ethers.TransactionRequest
+  ): Promise<ethers.TransactionResponse> {
+    const userOpHash = await this.sendUserOperation(tx);
+    const receipt = await this.waitForUserOperation(userOpHash);
+
+    if (!receipt.success) {
+      throw new Error(
+        `UserOperation ${userOpHash} reverted${receipt.reason ? `: ${receipt.reason}` : ''}`
+      );
+    }
+
+    const response = await this.requireProvider().getTransaction(receipt.transactionHash);
+    if (!response) {
+      throw new Error(`Bundle transaction ${receipt.transactionHash} not found`);
+    }
+    return response;
+  }
+
+  async signTransaction(): Promise<string> {
+    throw new Error('Smart accounts cannot sign raw transactions; use sendTransaction');
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    return await this.owner.signMessage(message);
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, Array<ethers.TypedDataField>>,
+    value: Record<string, any>
+  ): Promise<string> {
+    return await this.owner.signTypedData(domain, types, value);
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  private async reserveNonce(): Promise<bigint> {
+    if (this.nextNonce === undefined) {
+      const fetched = await this.fetchNonce();
+      if (this.nextNonce === undefined) {
+        this.nextNonce = fetched;
+      }
+    }
+    return this.nextNonce++;
+  }
+
+  private resync(): void {
+    this.nextNonce = undefined;
+  }
+
+  /**
+   * Read the account's EntryPoint nonce (key 0), sharing one request between callers
+   */
+  private async fetchNonce(): Promise<bigint> {
+    if (!this.syncing) {
+      this.syncing = (async () => {
+        const entryPoint = new ethers.Interface(ENTRY_POINT_ABI);
+        const result = await this.requireProvider().call({
+          to: this.options.entryPoint,
+          data: entryPoint.encodeFunctionData('getNonce', [await this.getAddress(), 0]),
+        });
+        return entryPoint.decodeFunctionResult('getNonce', result)[0] as bigint;
+      })().finally(() => {
+        this.syncing = undefined;
+      });
+    }
+    return await this.syncing;
+  }
+
+  /**
+   * UserOperation fees: explicit tx fees, else the fee strategy, else the provider
+   */
+  private async getFees(
+    tx: ethers.TransactionRequest
+  ): Promise<Pick<UserOperation, 'maxFeePerGas' | 'maxPriorityFeePerGas'>> {
+    const request = this.options.feeStrategy
+      ? await this.options.feeStrategy.applyFees(tx)
+      : tx;
+
+    if (request.maxFeePerGas != null) {
+      const maxFeePerGas = ethers.toBigInt(request.maxFeePerGas);
+      return {
+        maxFeePerGas,
+        maxPriorityFeePerGas: ethers.toBigInt(
+          request.maxPriorityFeePerGas ?? maxFeePerGas
+        ),
+      };
+    }
+    if (request.gasPrice != null) {
+      const gasPrice = ethers.toBigInt(request.gasPrice);
+      return { maxFeePerGas: gasPrice, maxPriorityFeePerGas: gasPrice };
+    }
+
+    const feeData = await this.requireProvider().getFeeData();
+    return {
+      maxFeePerGas: feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n,
+      maxPriorityFeePerGas: feeData.maxPriorityFeePerGas ?? feeData.gasPrice ?? 0n,
+    };
+  }
+
+  private async getChainId(): Promise<bigint> {
+    return (await this.requireProvider().getNetwork()).chainId;
+  }
+
+  private requireProvider(): ethers.Provider {
+    if (!this.provider) {
+      throw new Error('SmartAccountSigner owner has no provider');
+    }
+    return this.provider;
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Compute the EntryPoint v0.7 UserOperation hash (what the owner signs)
+ */
+export function getUserOperationHash(
+  userOp: UserOperation,
+  entryPoint: string,
+  chainId: bigint
+): string {
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const initCode = userOp.factory
+    ? ethers.concat([userOp.factory, userOp.factoryData ?? '0x'])
+    : '0x';
+  const paymasterAndData = userOp.paymaster
+    ? ethers.concat([
+        userOp.paymaster,
+        packUint128(
+          userOp.paymasterVerificationGasLimit ?? 0n,
+          userOp.paymasterPostOpGasLimit ?? 0n
+        ),
+        userOp.paymasterData ?? '0x',
+      ])
+    : '0x';
+
+  const packed = coder.encode(
+    [
+      'address',
+      'uint256',
+      'bytes32',
+      'bytes32',
+      'bytes32',
+      'uint256',
+      'bytes32',
+      'bytes32',
+    ],
+    [
+      userOp.sender,
+      userOp.nonce,
+      ethers.keccak256(initCode),
+      ethers.keccak256(userOp.callData),
+      packUint128(userOp.verificationGasLimit, userOp.callGasLimit),
+      userOp.preVerificationGas,
+      packUint128(userOp.maxPriorityFeePerGas, userOp.maxFeePerGas),
+      ethers.keccak256(paymasterAndData),
+    ]
+  );
+
+  return ethers.keccak256(
+    coder.encode(
+      ['bytes32', 'address', 'uint256'],
+      [ethers.keccak256(packed), entryPoint, chainId]
+    )
+  );
+}
+
+function packUint128(high: bigint, low: bigint): string {
+  return ethers.concat([
+    ethers.zeroPadValue(ethers.toBeHex(high), 16),
+    ethers.zeroPadValue(ethers.toBeHex(low), 16),
+  ]);
+}
+
+function applyPaymaster(userOp: UserOperation, result: PaymasterResult): void {
+  userOp.paymaster = result.paymaster;
+  userOp.paymasterData = result.paymasterData;
+  if (result.paymasterVerificationGasLimit !== undefined) {
+    userOp.paymasterVerificationGasLimit = result.paymasterVerificationGasLimit;
+  }
+  if (result.paymasterPostOpGasLimit !== undefined) {
+    userOp.paymasterPostOpGasLimit = result.paymasterPostOpGasLimit;
+  }
+}
+
+export { SmartAccountSigner as default };
@@ -21,6 +21,7 @@
 
 import { ContractFactory, ethers } from 'ethers';
 import type { ChainClient } from '../core/chainClient';
+import type { FeeSpeed } from '../core/feeStrategy';
 
 // =============================================================================
 // Types & Interfaces
@@ -40,6 +41,8 @@ export interface DeployContractParams {
   gasLimit?: bigint;
   /** Value to send with deployment (optional) */
   value?: bigint;
+  /** Fee preset (optional, defaults to the fee strategy's speed) */
+  speed?: FeeSpeed;
 }
 
 /**
@@ -118,7 +121,7 @@ export class ContractDeployer {
    * ```
    */
   async deployContract(params: DeployContractParams): Promise<DeploymentResult> {
-    const { abi, bytecode, constructorArgs = [], gasLimit, value } = params;
+    const { abi, bytecode, constructorArgs = [], gasLimit, value, speed } = params;
 
     // Validate bytecode
     if (!bytecode || bytecode.length < 3) {
@@ -132,11 +135,9 @@ export class ContractDeployer {
     const signer = this.chainClient.getSigner();
     const factory = new ContractFactory(abi, cleanBytecode, signer);
 
-    // Deploy contract
-    const deployTx: any = {
-      gasLimit,
-      value,
-    };
+    // Deploy contract (fees from the fee strategy, capped)
+    const feeStrategy = this.chainClient.getSignerManager().getFeeStrategy();
+    const deployTx: any = await feeStrategy.applyFees({ gasLimit, value }, speed);
 
     const contract = await factory.deploy(...constructorArgs, deployTx);
 
@@ -345,7 +346,7 @@ export class ContractDeployer {
    * Calculate deployment cost
    *
    * @param gasUsed - Gas used for deployment
-   * @param gasPrice - Gas price (optional, fetches current if not provided)
+   * @param gasPrice - Gas price (optional, defaults to the fee strategy's max fee)
    * @returns Deployment cost in wei
    *
    * @example
@@ -356,8 +357,7 @@ export class ContractDeployer {
    */
   async calculateDeploymentCost(gasUsed: bigint, gasPrice?: bigint): Promise<bigint> {
     if (!gasPrice) {
-      const feeData = await this.chainClient.getProvider().getFeeData();
-      gasPrice = feeData.gasPrice || 0n;
+      gasPrice = await this.chainClient.getSignerManager().getGasPrice();
     }
 
     return gasUsed * gasPrice;
@@ -0,0 +1,8 @@
+/**
+ * DEX module
+ * Swap provider interface and DEX integrations
+ */
+
+export * from './provider';
+export { UniswapV2Provider } from './uniswapV2';
+export type { UniswapV2Config } from './uniswapV2';
@@ -0,0 +1,136 @@
+/**
+ * Swap Provider Interface
+ *
+ * Common interface for DEX integrations used by the Executor's
+ * `get_quote` and `execute_swap` handlers. Amounts are raw token units.
+ *
+ * @example
+ * ```typescript
+ * const provider: SwapProvider = new UniswapV2Provider(chainClient, {
+ *   router: routerAddress,
+ * });
+ *
+ * const quote = await provider.getQuote({ tokenIn, tokenOut, amountIn: 10n ** 18n });
+ * const result = await provider.swap({ tokenIn, tokenOut, amountIn: 10n ** 18n });
+ * ```
+ */
+
+import type { ethers } from 'ethers';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+
+/**
+ * Parameters for a swap quote
+ */
+export interface SwapQuoteParams {
+  /** Input token address */
+  tokenIn: string;
+  /** Output token address */
+  tokenOut: string;
+  /** Input amount (raw units) */
+  amountIn: bigint;
+  /** Max slippage in basis points (provider default if omitted) */
+  slippageBps?: number;
+  /** Explicit route (token addresses, tokenIn first and tokenOut last) */
+  path?: string[];
+}
+
+/**
+ * Swap quote
+ */
+export interface SwapQuote {
+  /** Provider name */
+  provider: string;
+  /** Input token address */
+  tokenIn: string;
+  /** Output token address */
+  tokenOut: string;
+  /** Route used for the quote */
+  path: string[];
+  /** Input amount (raw units) */
+  amountIn: bigint;
+  /** Expected output amount (raw units) */
+  amountOut: bigint;
+  /** Minimum output after slippage (raw units) */
+  amountOutMin: bigint;
+  /** Slippage tolerance used for amountOutMin */
+  slippageBps: number;
+  /** Price impact against the pool mid price, in basis points */
+  priceImpactBps: number;
+}
+
+/**
+ * Parameters for executing a swap
+ */
+export interface SwapParams extends SwapQuoteParams {
+  /** Minimum output (raw units); computed from slippage if omitted */
+  amountOutMin?: bigint;
+  /** Recipient of the output tokens (default: signer) */
+  recipient?: string;
+  /** Seconds until the swap expires (provider default if omitted) */
+  deadlineSeconds?: number;
+}
+
+/**
+ * Result of an executed swap
+ */
+export interface SwapResult {
+  /** Quote the swap was executed against */
+  quote: SwapQuote;
+  /** Minimum output enforced on-chain */
+  amountOutMin: bigint;
+  /** Unix timestamp (seconds) after which the swap would have reverted */
+  deadline: number;
+  /** Swap transaction hash */
+  txHash: string;
+  /** Swap transaction receipt */
+  receipt: ethers.TransactionReceipt;
+  /** Approval receipt, if an approval was needed */
+  approvalReceipt?: ethers.TransactionReceipt;
+}
+
+/**
+ * DEX integration used by the Executor swap handlers
+ */
+export interface SwapProvider {
+  /** Provider name (e.g. 'uniswap-v2') */
+  readonly name: string;
+
+  /** Address that must be approved to spend the input token */
+  readonly spender: string;
+
+  /**
+   * Quote a swap without sending transactions
+   */
+  getQuote(params: SwapQuoteParams): Promise<SwapQuote>;
+
+  /**
+   * Approve the input token if needed, then execute the swap
+   */
+  swap(params: SwapParams): Promise<SwapResult>;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Apply a slippage tolerance to an output amount
+ *
+ * @param amountOut - Expected output (raw units)
+ * @param slippageBps - Slippage tolerance in basis points (50 = 0.5%)
+ * @returns Minimum acceptable output
+ *
+ * @example
+ * ```typescript
+ * applySlippage(1000n, 50); // 995n
+ * ```
+ */
+export function applySlippage(amountOut: bigint, slippageBps: number): bigint {
+  if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > 10000) {
+    throw new Error(`Invalid slippage: ${slippageBps} bps (expected 0-10000)`);
+  }
+  return (amountOut * BigInt(10000 - slippageBps)) / 10000n;
+}
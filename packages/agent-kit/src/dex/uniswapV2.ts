@@ -0,0 +1,378 @@
+/**
+ * Uniswap V2 Swap Provider
+ *
+ * Swaps through any Uniswap-V2-style router (same router/factory/pair ABI).
+ * Pool reserves are read in batches via MultiCall and quotes are computed
+ * locally with the constant-product formula.
+ *
+ * @example
+ * ```typescript
+ * const dex = new UniswapV2Provider(chainClient, {
+ *   router: '0x...',
+ *   slippageBps: 50, // 0.5%
+ * });
+ *
+ * const quote = await dex.getQuote({
+ *   tokenIn: usdc,
+ *   tokenOut: weth,
+ *   amountIn: ERC20Manager.parseAmount('100', 6),
+ * });
+ * console.log('Expected out:', quote.amountOut, 'min:', quote.amountOutMin);
+ *
+ * // Approves the router if needed, then swaps
+ * const result = await dex.swap({ tokenIn: usdc, tokenOut: weth, amountIn: quote.amountIn });
+ * console.log('Swap tx:', result.txHash);
+ * ```
+ */
+
+import { ethers } from 'ethers';
+import type { ChainClient } from '../core/chainClient';
+import { MultiCall } from '../core/multicall';
+import { ERC20Manager } from '../tokens/erc20';
+import { applySlippage } from './provider';
+import type {
+  SwapParams,
+  SwapProvider,
+  SwapQuote,
+  SwapQuoteParams,
+  SwapResult,
+} from './provider';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+
+/**
+ * Uniswap V2 provider configuration
+ */
+export interface UniswapV2Config {
+  /** Router contract address */
+  router: string;
+  /** Factory address (default: read from router.factory()) */
+  factory?: string;
+  /** Wrapped native token used to route pairs without a direct pool (default: router.WETH()) */
+  wrappedNative?: string;
+  /** Multicall3 address (default: network config) */
+  multicallAddress?: string;
+  /** Default slippage tolerance in basis points (default: 50) */
+  slippageBps?: number;
+  /** Default seconds until a swap expires (default: 1200) */
+  deadlineSeconds?: number;
+  /** Pool fee in basis points (default: 30) */
+  feeBps?: number;
+  /** Provider name (default: 'uniswap-v2') */
+  name?: string;
+}
+
+// =============================================================================
+// Uniswap V2 ABIs (Minimal)
+// =============================================================================
+
+const ROUTER_ABI = [
+  'function factory() view returns (address)',
+  'function WETH() view returns (address)',
+  'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)',
+];
+
+const FACTORY_ABI = [
+  'function getPair(address tokenA, address tokenB) view returns (address pair)',
+];
+
+const PAIR_ABI = [
+  'function token0() view returns (address)',
+  'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+];
+
+// =============================================================================
+// UniswapV2Provider Class
+// =============================================================================
+
+/**
+ * Swap provider for Uniswap-V2-style routers
+ */
+export class UniswapV2Provider implements SwapProvider {
+  readonly name: string;
+  readonly spender: string;
+
+  private chainClient: ChainClient;
+  private config: UniswapV2Config & {
+    slippageBps: number;
+    deadlineSeconds: number;
+    feeBps: number;
+  };
+  private multicall: MultiCall;
+  private erc20: ERC20Manager;
+  private factoryInterface = new ethers.Interface(FACTORY_ABI);
+  private pairInterface = new ethers.Interface(PAIR_ABI);
+
+  /**
+   * Create a new UniswapV2Provider instance
+   *
+   * @param chainClient - ChainClient instance for blockchain interaction
+   * @param config - Router address and swap defaults
+   */
+  constructor(chainClient: ChainClient, config: UniswapV2Config) {
+    if (!ethers.isAddress(config.router)) {
+      throw new Error(`Invalid router address: ${config.router}`);
+    }
+
+    this.chainClient = chainClient;
+    this.config = {
+      ...config,
+      slippageBps: config.slippageBps ?? 50,
+      deadlineSeconds: config.deadlineSeconds ?? 1200,
+      feeBps: config.feeBps ?? 30,
+    };
+    this.name = config.name || 'uniswap-v2';
+    this.spender = config.router;
+    this.multicall = new MultiCall(chainClient, config.multicallAddress);
+    this.erc20 = new ERC20Manager(chainClient);
+  }
+
+  /**
+   * Quote a swap from current pool reserves
+   *
+   * @param params - Tokens, input amount and optional slippage/route
+   * @returns Quote with expected and minimum output
+   * @throws Error if no pool exists for the route or a pool has no liquidity
+   */
+  async getQuote(params: SwapQuoteParams): Promise<SwapQuote> {
+    if (params.amountIn <= 0n) {
+      throw new Error('Swap amount must be greater than zero');
+    }
+
+    const slippageBps = params.slippageBps ?? this.config.slippageBps;
+    const route = params.path
+      ? { path: params.path, pairs: await this.getPairs(params.path) }
+      : await this.findRoute(params.tokenIn, params.tokenOut);
+
+    const { path, pairs } = route;
+    if (
+      path.length < 2 ||
+      !sameAddress(path[0], params.tokenIn) ||
+      !sameAddress(path[path.length - 1], params.tokenOut)
+    ) {
+      throw new Error('Swap path must start with tokenIn and end with tokenOut');
+    }
+
+    const missing = pairs.findIndex((pair) => pair === ethers.ZeroAddress);
+    if (missing !== -1) {
+      throw new Error(`No ${this.name} pool for ${path[missing]}/${path[missing + 1]}`);
+    }
+
+    const reserves = await this.getReserves(path, pairs);
+    const feeFactor = BigInt(10000 - this.config.feeBps);
+
+    let amountOut = params.amountIn;
+    let midAmountOut = params.amountIn;
+    for (const [reserveIn, reserveOut] of reserves) {
+      amountOut = this.getAmountOut(amountOut, reserveIn, reserveOut);
+      // Output at the pool mid price (fee included, no depth)
+      midAmountOut = (midAmountOut * reserveOut * feeFactor) / (reserveIn * 10000n);
+    }
+
+    const priceImpactBps =
+      midAmountOut > amountOut
+        ? Number(((midAmountOut - amountOut) * 10000n) / midAmountOut)
+        : 0;
+
+    return {
+      provider: this.name,
+      tokenIn: params.tokenIn,
+      tokenOut: params.tokenOut,
+      path,
+      amountIn: params.amountIn,
+      amountOut,
+      amountOutMin: applySlippage(amountOut, slippageBps),
+      slippageBps,
+      priceImpactBps,
+    };
+  }
+
+  /**
+   * Approve the router if needed, then swap exact input tokens
+   *
+   * The deadline is counted from the latest block timestamp, so swaps also
+   * work on forked networks whose clock differs from the local one.
+   *
+   * @param params - Swap parameters
+   * @returns Swap result with receipts
+   */
+  async swap(params: SwapParams): Promise<SwapResult> {
+    const quote = await this.getQuote(params);
+    const amountOutMin = params.amountOutMin ?? quote.amountOutMin;
+    const recipient =
+      params.recipient || (await this.chainClient.getSigner().getAddress());
+
+    const block = await this.chainClient.getProvider().getBlock('latest');
+    const now = block?.timestamp ?? Math.floor(Date.now() / 1000);
+    const deadline = now + (params.deadlineSeconds ?? this.config.deadlineSeconds);
+
+    const approvalReceipt = await this.erc20.ensureApproval(
+      params.tokenIn,
+      this.config.router,
+      params.amountIn
+    );
+
+    const router = this.chainClient.getContract(this.config.router, ROUTER_ABI);
+    const tx = await router.swapExactTokensForTokens(
+      params.amountIn,
+      amountOutMin,
+      quote.path,
+      recipient,
+      deadline
+    );
+    const receipt = await tx.wait();
+
+    if (!receipt) {
+      throw new Error('Swap transaction failed');
+    }
+
+    return {
+      quote,
+      amountOutMin,
+      deadline,
+      txHash: receipt.hash,
+      receipt,
+      approvalReceipt,
+    };
+  }
+
+  /**
+   * Compute output for an exact input against one pool (constant product with fee)
+   */
+  private getAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint): bigint {
+    if (reserveIn === 0n || reserveOut === 0n) {
+      throw new Error(`Insufficient ${this.name} liquidity`);
+    }
+
+    const amountInWithFee = amountIn * BigInt(10000 - this.config.feeBps);
+    return (amountInWithFee * reserveOut) / (reserveIn * 10000n + amountInWithFee);
+  }
+
+  /**
+   * Find a route: the direct pool, or through the wrapped native token
+   */
+  private async findRoute(
+    tokenIn: string,
+    tokenOut: string
+  ): Promise<{ path: string[]; pairs: string[] }> {
+    const wrapped = await this.getWrappedNative();
+    const canHop =
+      wrapped && !sameAddress(wrapped, tokenIn) && !sameAddress(wrapped, tokenOut);
+
+    const pairs = await this.getPairs(
+      canHop ? [tokenIn, tokenOut, wrapped] : [tokenIn, tokenOut],
+      canHop
+        ? [
+            [0, 1],
+            [0, 2],
+            [2, 1],
+          ]
+        : undefined
+    );
+
+    if (pairs[0] !== ethers.ZeroAddress || !canHop) {
+      return { path: [tokenIn, tokenOut], pairs: [pairs[0]] };
+    }
+
+    return { path: [tokenIn, wrapped, tokenOut], pairs: [pairs[1], pairs[2]] };
+  }
+
+  /**
+   * Look up pair addresses via MultiCall
+   * @param tokens - Token addresses
+   * @param hops - Index pairs into tokens (default: consecutive tokens along a path)
+   */
+  private async getPairs(
+    tokens: string[],
+    hops?: Array<[number, number]>
+  ): Promise<string[]> {
+    const factory = await this.getFactory();
+    const lookups =
+      hops ?? tokens.slice(0, -1).map((_, index): [number, number] => [index, index + 1]);
+
+    const results = await this.multicall.aggregate(
+      lookups.map(([a, b]) => ({
+        target: factory,
+        callData: this.factoryInterface.encodeFunctionData('getPair', [
+          tokens[a],
+          tokens[b],
+        ]),
+      }))
+    );
+
+    return results.map(
+      (data) => this.factoryInterface.decodeFunctionResult('getPair', data)[0] as string
+    );
+  }
+
+  /**
+   * Read [reserveIn, reserveOut] for each hop of a path via MultiCall
+   */
+  private async getReserves(
+    path: string[],
+    pairs: string[]
+  ): Promise<Array<[bigint, bigint]>> {
+    const results = await this.multicall.aggregate(
+      pairs.flatMap((pair) => [
+        { target: pair, callData: this.pairInterface.encodeFunctionData('token0') },
+        { target: pair, callData: this.pairInterface.encodeFunctionData('getReserves') },
+      ])
+    );
+
+    return pairs.map((_, index) => {
+      const token0 = this.pairInterface.decodeFunctionResult(
+        'token0',
+        results[index * 2]
+      )[0];
+      const [reserve0, reserve1] = this.pairInterface.decodeFunctionResult(
+        'getReserves',
+        results[index * 2 + 1]
+      );
+      return sameAddress(token0, path[index])
+        ? [reserve0 as bigint, reserve1 as bigint]
+        : [reserve1 as bigint, reserve0 as bigint];
+    });
+  }
+
+  /**
+   * Get the factory address (configured or read from the router)
+   */
+  private async getFactory(): Promise<string> {
+    if (!this.config.factory) {
+      const router = this.chainClient.getReadOnlyContract(this.config.router, ROUTER_ABI);
+      this.config.factory = (await router.factory()) as string;
+    }
+    return this.config.factory;
+  }
+
+  /**
+   * Get the wrapped native token (configured or read from the router)
+   * Routers without WETH() simply don't route through it
+   */
+  private async getWrappedNative(): Promise<string | undefined> {
+    if (this.config.wrappedNative === undefined) {
+      const router = this.chainClient.getReadOnlyContract(this.config.router, ROUTER_ABI);
+      try {
+        this.config.wrappedNative = (await router.WETH()) as string;
+      } catch {
+        this.config.wrappedNative = '';
+      }
+    }
+    return this.config.wrappedNative || undefined;
+  }
+}
+
+/**
+ * Compare addresses case-insensitively
+ */
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+// =============================================================================
+// Exports
+// =============================================================================
+
+export { UniswapV2Provider as default };
@@ -4,6 +4,7 @@
  */
 
 import { ethers } from 'ethers';
+import { AgentDiscovery, type AgentDiscoveryConfig } from './core/agentDiscovery';
 import { ChainClient } from './core/chainClient';
 import { AgentKitConfig, loadConfig } from './core/config';
 import { SomniaContracts } from './core/contracts';
@@ -25,7 +26,7 @@ import {
 } from './monitor';
 import { Agent } from './runtime';
 import { IPFSManager, type IPFSManagerConfig } from './storage';
-import { ERC20Manager, ERC721Manager, NativeTokenManager } from './tokens';
+import { ERC20Manager, ERC721Manager, NativeTokenManager, VaultManager } from './tokens';
 import { MetaMaskConnector } from './wallets';
 
 /**
@@ -42,6 +43,8 @@ export class SomniaAgentKit {
   private _erc20Manager: ERC20Manager | null = null;
   private _erc721Manager: ERC721Manager | null = null;
   private _nativeTokenManager: NativeTokenManager | null = null;
+  private _vaultManager: VaultManager | null = null;
+  private _agentDiscovery: AgentDiscovery | null = null;
   private _ipfsManager: IPFSManager | null = null;
   private _webSocketClient: WebSocketClient | null = null;
   private _contractDeployer: ContractDeployer | null = null;
@@ -235,6 +238,51 @@ export class SomniaAgentKit {
     return this._nativeTokenManager;
   }
 
+  /**
+   * Get AgentVault manager
+   * @returns VaultManager instance for the configured agentVault contract
+   * @example
+   * ```typescript
+   * const vault = kit.getVaultManager();
+   * const info = await vault.getVault(agentAddress);
+   * ```
+   */
+  getVaultManager(): VaultManager {
+    if (!this.config.contracts.agentVault) {
+      throw new Error(
+        'AgentVault contract not configured. Add agentVault address to contract configuration.'
+      );
+    }
+    if (!this._vaultManager) {
+      this._vaultManager = new VaultManager(
+        this.chainClient,
+        this.config.contracts.agentVault
+      );
+    }
+    return this._vaultManager;
+  }
+
+  /**
+   * Get agent discovery index over the AgentRegistry
+   * @param config - Optional discovery configuration (used on first call)
+   * @returns AgentDiscovery instance
+   * @example
+   * ```typescript
+   * const discovery = kit.getAgentDiscovery({ cachePath: './data/agents.json' });
+   * const peer = await discovery.findPeer('price-oracle');
+   * ```
+   */
+  getAgentDiscovery(config?: AgentDiscoveryConfig): AgentDiscovery {
+    if (!this._agentDiscovery) {
+      this._agentDiscovery = new AgentDiscovery(
+        this.chainClient,
+        this.config.contracts.agentRegistry,
+        { ipfs: this.getIPFSManager(), ...config }
+      );
+    }
+    return this._agentDiscovery;
+  }
+
   /**
    * Get IPFS storage manager
    * @param config - Optional IPFS configuration
@@ -532,9 +580,15 @@ export {
 export {
   bytesToHex,
   createLogger,
+  // Cron scheduling
+  CronExpression,
+  parseCron,
   delay,
   // Event emitter
   EventEmitter,
+  // Token estimation
+  estimateTokens,
+  estimateValueTokens,
   // Ether and token utilities
   formatEther,
   formatUnits,
@@ -555,10 +609,19 @@ export {
   timeout,
   // Hex and data conversion
   toHex,
+  toJsonValue,
   toUtf8Bytes,
   toUtf8String,
+  // Schema conversion
+  zodToJsonSchema,
+} from './utils';
+export type {
+  CronOptions,
+  EventListener,
+  JsonSchema,
+  LogEntry,
+  LoggerConfig,
 } from './utils';
-export type { EventListener, LogEntry, LoggerConfig } from './utils';
 
 // Core blockchain layer
 export { ChainClient } from './core/chainClient';
@@ -567,10 +630,21 @@ export type { ContractInstances } from './core/contracts';
 export * from './core/multicall';
 export * from './core/rpcProvider';
 export { SignerManager } from './core/signerManager';
+export * from './core/nonceManager';
+export * from './core/feeStrategy';
+export * from './core/bundler';
+export * from './core/smartAccount';
+export * from './core/sessionKeys';
+export * from './core/keystore';
+export * from './core/remoteSigner';
+export * from './core/agentDiscovery';
 
 // Token management
 export * from './tokens';
 
+// DEX swaps
+export * from './dex';
+
 // Contract deployment
 export * from './deployment';
 
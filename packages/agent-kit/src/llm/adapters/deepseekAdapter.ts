@@ -10,6 +10,12 @@ import type {
   Message,
   TokenUsage,
 } from '../../types/llm';
+import {
+  parseWireToolCalls,
+  toWireMessages,
+  toWireToolChoice,
+  toWireTools,
+} from './toolFormat';
 
 export interface DeepSeekConfig {
   apiKey: string;
@@ -86,6 +92,7 @@ export class DeepSeekAdapter implements LLMAdapter {
 
   /**
    * Chat completion with message history
+   * Pass `options.tools` to let the model call tools; calls are returned in `toolCalls`
    */
   async chat(messages: Message[], options?: GenerateOptions): Promise<LLMResponse> {
     const model = options?.model || this.config.defaultModel || 'deepseek-chat';
@@ -101,13 +108,16 @@ export class DeepSeekAdapter implements LLMAdapter {
         },
         body: JSON.stringify({
           model,
-          messages: messages.map((msg) => ({
-            role: msg.role,
-            content: msg.content,
-          })),
+          messages: toWireMessages(messages),
           temperature,
           max_tokens: maxTokens,
           stream: false,
+          ...(options?.tools?.length
+            ? {
+                tools: toWireTools(options.tools),
+                tool_choice: toWireToolChoice(options.toolChoice || 'auto'),
+              }
+            : {}),
         }),
       });
 
@@ -120,6 +130,7 @@ export class DeepSeekAdapter implements LLMAdapter {
 
       const data = (await response.json()) as any;
       const content = data.choices[0]?.message?.content || '';
+      const toolCalls = parseWireToolCalls(data.choices[0]?.message?.tool_calls);
 
       const usage: TokenUsage = {
         promptTokens: data.usage?.prompt_tokens || 0,
@@ -127,11 +138,14 @@ export class DeepSeekAdapter implements LLMAdapter {
         totalTokens: data.usage?.total_tokens || 0,
       };
 
+      const finishReason = data.choices[0]?.finish_reason;
       return {
         content,
+        toolCalls,
         model,
         usage,
-        finishReason: data.choices[0]?.finish_reason === 'stop' ? 'stop' : undefined,
+        finishReason:
+          finishReason === 'stop' || finishReason === 'tool_calls' ? finishReason : undefined,
       };
     } catch (error) {
       throw new Error(
@@ -12,6 +12,7 @@ import type {
   LLMLogger,
 } from '../../types/llm';
 import { ConsoleLogger } from '../../types/llm';
+import { parseWireToolCalls, toWireMessages, toWireTools } from './toolFormat';
 
 export interface OllamaConfig {
   baseURL?: string;
@@ -105,6 +106,8 @@ export class OllamaAdapter implements LLMAdapter {
 
   /**
    * Chat completion with message history
+   * Pass `options.tools` to let the model call tools (requires a tool-capable model).
+   * Ollama has no tool_choice; 'none' omits the tools from the request.
    */
   async chat(messages: Message[], options?: GenerateOptions): Promise<LLMResponse> {
     const startTime = Date.now();
@@ -115,9 +118,12 @@ export class OllamaAdapter implements LLMAdapter {
         messageCount: messages.length,
       });
 
+      const useTools = !!options?.tools?.length && options.toolChoice !== 'none';
+
       const response = await this.makeRequestWithRetry('/api/chat', {
         model: options?.model || this.config.defaultModel || 'llama2',
-        messages,
+        messages: toWireMessages(messages, false),
+        tools: useTools ? toWireTools(options!.tools!) : undefined,
         stream: false,
         options: {
           temperature: options?.temperature || 0.7,
@@ -128,23 +134,26 @@ export class OllamaAdapter implements LLMAdapter {
       });
 
       const content = response.message?.content || '';
+      const toolCalls = parseWireToolCalls(response.message?.tool_calls);
       const duration = Date.now() - startTime;
 
       this.logger.info('Chat success', {
         model: response.model,
         tokens: response.prompt_eval_count + response.eval_count,
+        toolCalls: toolCalls?.length,
         duration,
       });
 
       return {
         content,
+        toolCalls,
         model: response.model,
         usage: {
           promptTokens: response.prompt_eval_count || 0,
           completionTokens: response.eval_count || 0,
           totalTokens: (response.prompt_eval_count || 0) + (response.eval_count || 0),
         },
-        finishReason: response.done ? 'stop' : 'length',
+        finishReason: toolCalls ? 'tool_calls' : response.done ? 'stop' : 'length',
         metadata: {
           duration,
           eval_duration: response.eval_duration,
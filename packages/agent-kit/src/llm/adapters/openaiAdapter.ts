@@ -12,6 +12,14 @@ import type {
   LLMLogger,
 } from '../../types/llm';
 import { ConsoleLogger } from '../../types/llm';
+import { estimateTokens } from '../../utils/tokens';
+import {
+  parseWireFinishReason,
+  parseWireToolCalls,
+  toWireMessages,
+  toWireToolChoice,
+  toWireTools,
+} from './toolFormat';
 
 export interface OpenAIConfig {
   apiKey: string;
@@ -87,7 +95,7 @@ export class OpenAIAdapter implements LLMAdapter {
               totalTokens: response.usage.total_tokens,
             }
           : undefined,
-        finishReason: response.choices[0]?.finish_reason || 'stop',
+        finishReason: parseWireFinishReason(response.choices[0]?.finish_reason),
         metadata: {
           id: response.id,
           duration,
@@ -101,6 +109,7 @@ export class OpenAIAdapter implements LLMAdapter {
 
   /**
    * Chat completion with message history
+   * Pass `options.tools` to let the model call tools; calls are returned in `toolCalls`
    */
   async chat(messages: Message[], options?: GenerateOptions): Promise<LLMResponse> {
     const startTime = Date.now();
@@ -113,26 +122,35 @@ export class OpenAIAdapter implements LLMAdapter {
 
       const response = await this.makeRequestWithRetry('/chat/completions', {
         model: options?.model || this.config.defaultModel || 'gpt-3.5-turbo',
-        messages,
+        messages: toWireMessages(messages),
         temperature: options?.temperature || 0.7,
         max_tokens: options?.maxTokens || 1000,
         top_p: options?.topP || 1.0,
         frequency_penalty: options?.frequencyPenalty || 0,
         presence_penalty: options?.presencePenalty || 0,
         stop: options?.stop,
+        ...(options?.tools?.length
+          ? {
+              tools: toWireTools(options.tools),
+              tool_choice: toWireToolChoice(options.toolChoice || 'auto'),
+            }
+          : {}),
       });
 
       const content = response.choices[0]?.message?.content || '';
+      const toolCalls = parseWireToolCalls(response.choices[0]?.message?.tool_calls);
       const duration = Date.now() - startTime;
 
       this.logger.info('Chat success', {
         model: response.model,
         tokens: response.usage?.total_tokens,
+        toolCalls: toolCalls?.length,
         duration,
       });
 
       return {
         content,
+        toolCalls,
         model: response.model,
         usage: response.usage
           ? {
@@ -141,7 +159,7 @@ export class OpenAIAdapter implements LLMAdapter {
               totalTokens: response.usage.total_tokens,
             }
           : undefined,
-        finishReason: response.choices[0]?.finish_reason || 'stop',
+        finishReason: parseWireFinishReason(response.choices[0]?.finish_reason),
         metadata: {
           id: response.id,
           duration,
@@ -316,11 +334,10 @@ export class OpenAIAdapter implements LLMAdapter {
   }
 
   /**
-   * Count tokens (rough estimate)
+   * Count tokens (estimate)
    */
   countTokens(text: string): number {
-    // Rough estimate: ~4 characters per token
-    return Math.ceil(text.length / 4);
+    return estimateTokens(text);
   }
 
   /**
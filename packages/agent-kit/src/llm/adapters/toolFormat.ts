@@ -0,0 +1,136 @@
+/**
+ * Tool Calling Wire Format
+ * Converts normalized tool types to and from the OpenAI-compatible
+ * chat format (used by OpenAI, DeepSeek and Ollama)
+ */
+
+import type {
+  LLMResponse,
+  Message,
+  ToolCall,
+  ToolChoice,
+  ToolDefinition,
+} from '../../types/llm';
+
+/**
+ * Convert tool definitions to the `tools` request field
+ */
+export function toWireTools(tools: ToolDefinition[]): any[] {
+  return tools.map((tool) => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  }));
+}
+
+/**
+ * Convert a tool choice to the `tool_choice` request field
+ */
+export function toWireToolChoice(choice: ToolChoice): any {
+  if (typeof choice === 'string') {
+    return choice;
+  }
+  return { type: 'function', function: { name: choice.name } };
+}
+
+/**
+ * Convert messages to OpenAI-compatible chat messages
+ * @param messages Normalized messages
+ * @param stringArguments Encode tool call arguments as JSON strings (OpenAI) or objects (Ollama)
+ */
+export function toWireMessages(messages: Message[], stringArguments: boolean = true): any[] {
+  return messages.map((message) => {
+    if (message.role === 'tool') {
+      return {
+        role: 'tool',
+        content: message.content,
+        tool_call_id: message.toolCallId,
+        name: message.name,
+      };
+    }
+
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: {
+            name: call.name,
+            arguments: stringArguments ? JSON.stringify(call.arguments) : call.arguments,
+          },
+        })),
+      };
+    }
+
+    return { role: message.role, content: message.content };
+  });
+}
+
+/**
+ * Parse `tool_calls` from a response message into normalized tool calls
+ * @param rawCalls Provider tool calls (arguments as JSON string or object)
+ * @returns Tool calls, or undefined if the model called no tools
+ * @throws Error if tool call arguments are not valid JSON
+ */
+export function parseWireToolCalls(rawCalls: any[] | undefined): ToolCall[] | undefined {
+  if (!Array.isArray(rawCalls) || rawCalls.length === 0) {
+    return undefined;
+  }
+
+  return rawCalls.map((call, index) => {
+    const name = call.function?.name;
+    if (!name) {
+      throw new Error(`Tool call ${index} is missing a function name`);
+    }
+
+    return {
+      id: call.id || `call_${index}_${Math.random().toString(36).substr(2, 9)}`,
+      name,
+      arguments: parseToolArguments(name, call.function?.arguments),
+    };
+  });
+}
+
+/**
+ * Normalize a `finish_reason` to LLMResponse.finishReason
+ * The legacy 'function_call' counts as 'tool_calls'; other reasons
+ * (e.g. 'content_filter') are left undefined.
+ */
+export function parseWireFinishReason(reason: unknown): LLMResponse['finishReason'] {
+  if (reason === 'function_call') {
+    return 'tool_calls';
+  }
+  return reason === 'stop' || reason === 'length' || reason === 'tool_calls'
+    ? reason
+    : undefined;
+}
+
+/**
+ * Parse tool call arguments (JSON string, object or empty)
+ */
+function parseToolArguments(name: string, raw: unknown): Record<string, any> {
+  if (raw === undefined || raw === null || raw === '') {
+    return {};
+  }
+
+  if (typeof raw === 'object') {
+    return raw as Record<string, any>;
+  }
+
+  try {
+    const parsed = JSON.parse(String(raw));
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('arguments must be a JSON object');
+    }
+    return parsed;
+  } catch (error) {
+    throw new Error(
+      `Invalid arguments for tool call ${name}: ${(error as Error).message}`
+    );
+  }
+}
@@ -5,7 +5,7 @@
  */
 
 import type { ChainClient } from '../core/chainClient';
-import type { IStorage, ActionEntry } from '../types/storage';
+import type { IStorage, ActionEntry, ActionFilter } from '../types/storage';
 import type { Memory } from '../runtime/memoryManager';
 import type { AgentConfig } from '../types/agent';
 
@@ -43,9 +43,18 @@ export interface AgentContext {
 export interface ContextBuildOptions {
   maxMemoryTokens?: number;
   maxActions?: number;
+  /** Only include matching actions (e.g. { status: 'failed' }) */
+  actionFilter?: ActionFilter;
   includeChainState?: boolean;
   includeActions?: boolean;
   includeMemory?: boolean;
+  /**
+   * How memory entries are picked: most recent first, or by relevance to
+   * memoryQuery mixed with recency (needs a Memory with an embedder;
+   * falls back to recent otherwise)
+   */
+  memoryMode?: 'recent' | 'hybrid';
+  memoryQuery?: string;
   metadata?: Record<string, any>;
 }
 
@@ -98,10 +107,13 @@ export class ContextBuilder {
         ? this.getChainState()
         : this.getEmptyChainState(),
       opts.includeActions && this.storage
-        ? this.getRecentActions(opts.maxActions)
+        ? this.getRecentActions(opts.maxActions, opts.actionFilter)
         : Promise.resolve([]),
       opts.includeMemory && this.memory
-        ? this.getMemoryContext(opts.maxMemoryTokens)
+        ? this.getMemoryContext(
+            opts.maxMemoryTokens,
+            opts.memoryMode === 'hybrid' ? opts.memoryQuery : undefined
+          )
         : Promise.resolve(''),
     ]);
 
@@ -157,17 +169,21 @@ export class ContextBuilder {
   }
 
   /**
-   * Get recent actions from storage
+   * Get recent actions from storage, oldest first
+   * @param filter Only include matching actions
    */
-  async getRecentActions(limit: number = 10): Promise<ActionEntry[]> {
+  async getRecentActions(
+    limit: number = 10,
+    filter?: ActionFilter
+  ): Promise<ActionEntry[]> {
     if (!this.storage) {
       return [];
     }
 
     try {
-      const actions = await this.storage.getActions();
-      // Return most recent N actions
-      return actions.slice(-limit);
+      // Most recent N actions, queried newest first
+      const actions = await this.storage.getActions({ ...filter, limit, order: 'desc' });
+      return actions.reverse();
     } catch (error) {
       return [];
     }
@@ -175,15 +191,20 @@ export class ContextBuilder {
 
   /**
    * Get memory context as formatted string
+   * @param query Pick entries relevant to this query (hybrid mode)
    */
-  async getMemoryContext(maxTokens?: number): Promise<string> {
+  async getMemoryContext(maxTokens?: number, query?: string): Promise<string> {
     if (!this.memory) {
       return '';
     }
 
     try {
-      return await this.memory.getContext(maxTokens);
+      return await this.memory.getContext(maxTokens, query);
     } catch (error) {
+      if (query) {
+        // Embedding failed, fall back to recent entries
+        return this.getMemoryContext(maxTokens);
+      }
       return '';
     }
   }
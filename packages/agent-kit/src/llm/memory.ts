@@ -186,7 +186,12 @@ export class FileBackend implements MemoryBackend {
 export class Memory {
   private backend: MemoryBackend;
   private sessionId: string;
-  private config: Required<MemoryConfig>;
+  private config: Required<
+    Pick<
+      MemoryConfig,
+      'backend' | 'sessionId' | 'maxTokens' | 'maxEntries' | 'summarizeOld'
+    >
+  >;
 
   constructor(config: MemoryConfig = {}) {
     this.backend = config.backend || new InMemoryBackend();
@@ -31,8 +31,27 @@ Please analyze the situation and determine the best course of action.`,
   ],
 };
 
+/**
+ * Built-in action list used by the action planner when no executor catalogue is given
+ */
+export const DEFAULT_PLANNER_ACTIONS = `- validate_address: Validate blockchain address
+- check_balance: Check account balance
+- execute_transfer: Transfer tokens/ETH
+- get_quote: Get swap quote
+- approve_token: Approve token spending
+- execute_swap: Execute token swap
+- validate_contract: Validate contract address
+- estimate_gas: Estimate transaction gas
+- call_contract: Call smart contract method
+- deploy_contract: Deploy smart contract
+- data_fetch: Fetch data from blockchain or API
+- no_action: No action needed (observation only)
+- query_data: Query blockchain data
+- execute: Generic execution`;
+
 /**
  * Action planner prompt for breaking down goals
+ * `actions` lists the available actions (see DEFAULT_PLANNER_ACTIONS)
  */
 export const ACTION_PLANNER_PROMPT: PromptTemplate = {
   name: 'action_planner',
@@ -44,31 +63,20 @@ IMPORTANT: You MUST respond with valid JSON only. No markdown, no explanations,
 Output format:
 [
   {
+    "id": "step-1",
     "type": "action_type",
     "target": "optional_target_address",
     "params": {
       "param1": "value1",
       "param2": "value2"
     },
-    "reason": "Why this action is needed"
+    "reason": "Why this action is needed",
+    "dependencies": []
   }
 ]
 
 Available action types:
-- validate_address: Validate blockchain address
-- check_balance: Check account balance
-- execute_transfer: Transfer tokens/ETH
-- get_quote: Get swap quote
-- approve_token: Approve token spending
-- execute_swap: Execute token swap
-- validate_contract: Validate contract address
-- estimate_gas: Estimate transaction gas
-- call_contract: Call smart contract method
-- deploy_contract: Deploy smart contract
-- data_fetch: Fetch data from blockchain or API
-- no_action: No action needed (observation only)
-- query_data: Query blockchain data
-- execute: Generic execution
+{{actions}}
 
 Goal: {{goal}}
 
@@ -80,7 +88,37 @@ Break down the goal into simple, sequential actions. For each action, provide:
 - type: The action type from the list above
 - target: Target address if applicable (contract, recipient, etc.)
 - params: Parameters needed for the action
-- reason: Clear explanation of why this action is necessary`,
+- reason: Clear explanation of why this action is necessary
+- id: Optional short step ID (e.g. "quote")
+- dependencies: Optional IDs of steps that must succeed first; steps without dependencies may run in parallel
+
+A param can use the output of an earlier step with {{steps.<id>.<field>}}, e.g. "{{steps.quote.amountOut}}".`,
+  variables: ['goal', 'context', 'actions'],
+  examples: [
+    {
+      goal: 'Send 1 ETH to Alice',
+      context: 'My balance: 5 ETH, Alice address: 0xabc...',
+    },
+  ],
+};
+
+/**
+ * Tool-calling planner prompt (used with native tool calling)
+ */
+export const TOOL_PLANNER_PROMPT: PromptTemplate = {
+  name: 'tool_planner',
+  description: 'Plans actions from user goals by calling tools',
+  template: `You are an AI agent planner. Your job is to break down user goals into executable actions.
+
+Each available tool is an action the agent can execute. Call one tool per action,
+in the order the actions should run, with the parameters each action needs.
+If nothing needs to be done, call no_action (if available) or reply without tool calls.
+
+Goal: {{goal}}
+
+{{#if context}}
+Context: {{context}}
+{{/if}}`,
   variables: ['goal', 'context'],
   examples: [
     {
@@ -333,6 +371,7 @@ Assess the risk level (low/medium/high) and provide recommendations.`,
 export const PROMPT_TEMPLATES: Record<string, PromptTemplate> = {
   basic_agent: BASIC_AGENT_PROMPT,
   action_planner: ACTION_PLANNER_PROMPT,
+  tool_planner: TOOL_PLANNER_PROMPT,
   blockchain_analyzer: BLOCKCHAIN_ANALYZER_PROMPT,
   event_handler: EVENT_HANDLER_PROMPT,
   tool_executor: TOOL_EXECUTOR_PROMPT,
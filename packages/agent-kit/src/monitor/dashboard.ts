@@ -1,22 +1,36 @@
 /**
  * Dashboard Module - Development Monitoring UI
  * Simple Express-based dashboard for real-time agent monitoring
- * Dev mode only - view logs, metrics, and agent status in browser
+ * View logs, metrics, and agent status in browser; listens on localhost by default.
+ * Approval and storage routes require the authToken as a bearer token.
  */
 
-import express, { type Express, type Request, type Response } from 'express';
+import { timingSafeEqual } from 'crypto';
+import express, {
+  type Express,
+  type NextFunction,
+  type Request,
+  type Response,
+} from 'express';
 import cors from 'cors';
 import type { Server } from 'http';
 import type { Logger, LogEntry } from './logger';
 import type { Metrics } from './metrics';
+import type { ApprovalQueue } from '../runtime/approval';
+import { ApprovalStatus } from '../types/approval';
+import type { IStorage, ActionFilter } from '../types/storage';
 
 export interface DashboardConfig {
   port?: number; // Default: 3001
+  host?: string; // Listen address (default: 127.0.0.1)
+  authToken?: string; // Bearer token for approval and storage routes (disabled without it)
   enableUI?: boolean; // HTML UI (default: true)
-  enableCORS?: boolean; // CORS (default: true)
+  enableCORS?: boolean; // CORS for read-only status routes (default: true)
   logger?: Logger; // Logger instance
   metrics?: Metrics; // Metrics instance
   agent?: any; // Agent instance for status
+  approvals?: ApprovalQueue; // Approval queue (default: agent's queue)
+  storage?: IStorage; // Event/action storage (default: agent's storage)
   onError?: (error: Error) => void; // Error callback
 }
 
@@ -32,11 +46,15 @@ export class Dashboard {
   constructor(config: DashboardConfig = {}) {
     this.config = {
       port: config.port || 3001,
+      host: config.host || '127.0.0.1',
+      authToken: config.authToken as any,
       enableUI: config.enableUI !== false,
       enableCORS: config.enableCORS !== false,
       logger: config.logger as any,
       metrics: config.metrics as any,
       agent: config.agent,
+      approvals: config.approvals || config.agent?.getApprovalQueue?.(),
+      storage: config.storage || config.agent?.getStorageModule?.(),
       onError: config.onError || ((error) => console.error('[Dashboard Error]', error)),
     };
 
@@ -52,9 +70,9 @@ export class Dashboard {
     // JSON parsing
     this.app.use(express.json());
 
-    // CORS support
+    // CORS support (read-only routes; approvals and storage stay same-origin)
     if (this.config.enableCORS) {
-      this.app.use(cors());
+      this.app.use(['/health', '/metrics', '/logs', '/status'], cors());
     }
 
     // Error handling
@@ -127,6 +145,109 @@ export class Dashboard {
       }
     });
 
+    // Storage endpoints
+    // e.g. /actions?status=failed&type=execute_transfer&since=3600000
+    this.app.get('/actions', this.requireAuth, async (req, res) => {
+      if (!this.config.storage) {
+        return res.status(503).json({ error: 'Storage not configured' });
+      }
+
+      try {
+        const filter = this.parseStorageFilter(req.query);
+        const actions = await this.config.storage.getActions(filter);
+        res.json({
+          actions,
+          total: actions.length,
+          nextCursor: nextCursor(actions, filter),
+        });
+      } catch (error) {
+        res.status(400).json({ error: (error as Error).message });
+      }
+    });
+
+    this.app.get('/events', this.requireAuth, async (req, res) => {
+      if (!this.config.storage) {
+        return res.status(503).json({ error: 'Storage not configured' });
+      }
+
+      try {
+        const filter = this.parseStorageFilter(req.query);
+        const events = await this.config.storage.getEvents(filter);
+        res.json({
+          events,
+          total: events.length,
+          nextCursor: nextCursor(events, filter),
+        });
+      } catch (error) {
+        res.status(400).json({ error: (error as Error).message });
+      }
+    });
+
+    // Approval queue endpoints
+    this.app.get('/approvals', this.requireAuth, (req, res) => {
+      if (!this.config.approvals) {
+        return res.status(503).json({ error: 'Approvals not configured' });
+      }
+
+      const status = req.query.status as ApprovalStatus | undefined;
+      if (status && !Object.values(ApprovalStatus).includes(status)) {
+        return res.status(400).json({ error: `Invalid status: ${status}` });
+      }
+
+      const approvals = this.config.approvals.list(status);
+      res.json({ approvals, total: approvals.length });
+    });
+
+    this.app.get('/approvals/:id', this.requireAuth, (req, res) => {
+      if (!this.config.approvals) {
+        return res.status(503).json({ error: 'Approvals not configured' });
+      }
+
+      const approval = this.config.approvals.get(req.params.id);
+      if (!approval) {
+        return res.status(404).json({ error: `Approval request not found: ${req.params.id}` });
+      }
+      res.json(approval);
+    });
+
+    this.app.post('/approvals/:id/approve', this.requireAuth, async (req, res) => {
+      if (!this.config.approvals) {
+        return res.status(503).json({ error: 'Approvals not configured' });
+      }
+
+      try {
+        const approval = await this.config.approvals.approve(
+          req.params.id,
+          req.body?.decidedBy
+        );
+        res.json(approval);
+      } catch (error) {
+        this.sendApprovalError(res, error as Error);
+      }
+    });
+
+    this.app.post('/approvals/:id/reject', this.requireAuth, (req, res) => {
+      if (!this.config.approvals) {
+        return res.status(503).json({ error: 'Approvals not configured' });
+      }
+
+      const reason = req.body?.reason;
+      if (!reason) {
+        return res.status(400).json({ error: 'Rejection reason is required' });
+      }
+
+      try {
+        const approval = this.config.approvals.reject(
+          req.params.id,
+          reason,
+          req.body?.decidedBy
+        );
+        res.json(approval);
+      } catch (error) {
+        this.sendApprovalError(res, error as Error);
+      }
+    });
+
     // HTML UI
     if (this.config.enableUI) {
       this.app.get('/', (req, res) => {
@@ -135,6 +256,73 @@ export class Dashboard {
     }
   }
 
+  /**
+   * Require the configured authToken as a bearer token
+   * Routes behind it are disabled when no token is configured.
+   */
+  private requireAuth = (req: Request, res: Response, next: NextFunction): void => {
+    if (!this.config.authToken) {
+      res.status(403).json({ error: 'Set authToken to enable this route' });
+      return;
+    }
+
+    const header = req.headers.authorization || '';
+    const token = Buffer.from(header.startsWith('Bearer ') ? header.slice(7) : '');
+    const expected = Buffer.from(this.config.authToken);
+    if (token.length !== expected.length || !timingSafeEqual(token, expected)) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+    next();
+  };
+
+  /**
+   * Map approval queue errors to HTTP responses
+   */
+  private sendApprovalError(res: Response, error: Error): void {
+    const status = error.message.includes('not found') ? 404 : 409;
+    res.status(status).json({ error: error.message });
+  }
+
+  /**
+   * Build a storage filter from query parameters
+   * Lists are comma-separated; since is a window in ms before now
+   */
+  private parseStorageFilter(query: Request['query']): ActionFilter {
+    const text = (name: string) =>
+      typeof query[name] === 'string' ? (query[name] as string) : undefined;
+    const list = (name: string) => text(name)?.split(',');
+    const number = (name: string) => {
+      const value = text(name);
+      if (value === undefined) {
+        return undefined;
+      }
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed) || parsed < 0) {
+        throw new Error(`Invalid ${name}: ${value}`);
+      }
+      return parsed;
+    };
+
+    const order = text('order');
+    if (order !== undefined && order !== 'asc' && order !== 'desc') {
+      throw new Error(`Invalid order: ${order}`);
+    }
+
+    const since = number('since');
+    return {
+      agentId: text('agentId'),
+      status: list('status') as ActionFilter['status'],
+      type: list('type'),
+      fromTimestamp: since !== undefined ? Date.now() - since : number('from'),
+      toTimestamp: number('to'),
+      limit: number('limit') ?? 50,
+      offset: number('offset'),
+      cursor: text('cursor'),
+      order,
+    };
+  }
+
   /**
    * Get embedded HTML UI
    */
@@ -412,7 +600,7 @@ export class Dashboard {
   async start(): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
-        this.server = this.app.listen(this.config.port, () => {
+        this.server = this.app.listen(this.config.port, this.config.host, () => {
           console.log(`📊 Dashboard running on ${this.getURL()}`);
           resolve();
         });
@@ -447,7 +635,7 @@ export class Dashboard {
    * Get dashboard URL
    */
   getURL(): string {
-    return `http://localhost:${this.config.port}`;
+    return `http://${this.config.host}:${this.config.port}`;
   }
 
   /**
@@ -466,3 +654,12 @@ export function startDashboard(config: DashboardConfig): Dashboard {
   dashboard.start().catch(config.onError || console.error);
   return dashboard;
 }
+
+/**
+ * Cursor for the next page, when the page is full
+ */
+function nextCursor(entries: { id: string }[], filter: ActionFilter): string | undefined {
+  return entries.length > 0 && entries.length === filter.limit
+    ? entries[entries.length - 1].id
+    : undefined;
+}
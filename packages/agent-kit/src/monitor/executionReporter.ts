@@ -0,0 +1,399 @@
+/**
+ * On-chain Execution Reporter
+ * Batches agent execution outcomes and records them with
+ * AgentRegistry.recordExecution, so on-chain metrics and reputation reflect
+ * what the agent actually did. Opt-in: attach it to an Agent or call record().
+ *
+ * recordExecution must be sent by the agent owner and takes one outcome per
+ * call, so a batch is flushed as consecutive transactions. Flushes happen on a
+ * timer, or early once batchSize outcomes are queued, and stop when the daily
+ * cost budget or the gas price cap would be exceeded (the rest stays queued).
+ * Only sending is retried: a report whose transaction was broadcast is waited on
+ * again by the next flush, and reports the registry reverts (e.g. "Not agent
+ * owner") are dropped instead of blocking the queue.
+ * The registry stores success and duration; gas used is tracked locally.
+ *
+ * @example
+ * ```typescript
+ * const reporter = new ExecutionReporter(kit.contracts.registry, {
+ *   flushInterval: 10 * 60 * 1000,
+ *   maxCostPerDay: ethers.parseEther('0.5'),
+ * });
+ * reporter.attach(agent, 1n);
+ * reporter.start();
+ *
+ * const metrics = await reporter.getAgentMetrics(1n);
+ * console.log(`${metrics.successRate}% of ${metrics.totalExecutions} executions succeeded`);
+ * ```
+ */
+
+import { ethers } from 'ethers';
+import { EventEmitter } from '../utils/logger';
+import { retry } from '../utils/retry';
+import type { Logger } from './logger';
+import type { SomniaContracts } from '../core/contracts';
+import type { Agent } from '../runtime/agent';
+
+type AgentRegistry = SomniaContracts['AgentRegistry'];
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * One agent execution to report
+ */
+export interface ExecutionOutcome {
+  agentId: bigint;
+  success: boolean;
+  /** Execution time in ms */
+  duration: number;
+  /** Gas used by the execution's transactions */
+  gasUsed?: bigint;
+  timestamp: number;
+}
+
+export interface ExecutionReporterConfig {
+  /** How often to flush queued outcomes in ms (default: 300000) */
+  flushInterval?: number;
+
+  /** Flush early once this many outcomes are queued (default: 10) */
+  batchSize?: number;
+
+  /** Max queued outcomes; the oldest are dropped beyond this (default: 1000) */
+  maxQueueSize?: number;
+
+  /** Max wei spent on report transactions per UTC day (default: unlimited) */
+  maxCostPerDay?: bigint;
+
+  /** Defer flushing while the gas price is above this, in wei (default: no cap) */
+  maxGasPrice?: bigint;
+
+  /** Attempts to send each report transaction (default: 3) */
+  maxRetries?: number;
+
+  /** Initial retry delay in ms, doubled per attempt (default: 1000) */
+  retryDelay?: number;
+
+  logger?: Logger;
+}
+
+/**
+ * Agent metrics as stored by AgentRegistry
+ */
+export interface OnChainAgentMetrics {
+  agentId: bigint;
+  totalExecutions: number;
+  successfulExecutions: number;
+  failedExecutions: number;
+  /** Success rate in percent (0 when there are no executions) */
+  successRate: number;
+  /** Rolling average execution time in ms */
+  averageExecutionTime: number;
+  /** Time of the last recorded execution (ms), or null if none */
+  lastExecutionTime: number | null;
+}
+
+/**
+ * Local reporter statistics
+ */
+export interface ExecutionReporterStats {
+  queued: number;
+  reported: number;
+  dropped: number;
+  /** Wei spent on report transactions today (UTC) */
+  spentToday: bigint;
+  /** Gas used by the reported executions */
+  gasUsed: bigint;
+}
+
+export interface ExecutionReporterEvents {
+  reported: { outcome: ExecutionOutcome; txHash: string; cost: bigint };
+  deferred: { reason: string; queued: number };
+  dropped: { outcome: ExecutionOutcome; reason: string };
+  error: { error: any; outcome?: ExecutionOutcome };
+}
+
+// =============================================================================
+// ExecutionReporter Class
+// =============================================================================
+
+export class ExecutionReporter extends EventEmitter<ExecutionReporterEvents> {
+  private registry: AgentRegistry;
+  private config: ExecutionReporterConfig;
+  private queue: ExecutionOutcome[] = [];
+  /** Broadcast transaction of the outcome at the head of the queue */
+  private sent?: { outcome: ExecutionOutcome; tx: ethers.ContractTransactionResponse };
+  private timer?: NodeJS.Timeout;
+  private flushing: Promise<void> | null = null;
+  private reported: number = 0;
+  private dropped: number = 0;
+  private gasUsed: bigint = 0n;
+  private spent: { day: string; amount: bigint } = { day: '', amount: 0n };
+
+  /**
+   * @param registry AgentRegistry contract connected to the agent owner's signer
+   * @param config Reporter options
+   */
+  constructor(registry: AgentRegistry, config: ExecutionReporterConfig = {}) {
+    super();
+    this.registry = registry;
+    this.config = config;
+  }
+
+  /**
+   * Start flushing on the configured interval
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(
+      () => void this.flush(),
+      this.config.flushInterval ?? 300000
+    );
+  }
+
+  /**
+   * Stop the flush timer and flush what is queued
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    await this.flush();
+  }
+
+  /**
+   * Queue an execution outcome
+   */
+  record(outcome: Omit<ExecutionOutcome, 'timestamp'> & { timestamp?: number }): void {
+    this.queue.push({ ...outcome, timestamp: outcome.timestamp ?? Date.now() });
+
+    if (this.queue.length > (this.config.maxQueueSize ?? 1000)) {
+      const oldest = this.queue.shift()!;
+      this.dropped++;
+      this.emit('dropped', { outcome: oldest, reason: 'Queue full' });
+    }
+
+    if (this.queue.length >= (this.config.batchSize ?? 10)) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Report every event an agent executes as one execution: it succeeded if
+   * all its actions did, and its duration and gas are the sums over the actions.
+   * Actions executed once approved are reported as their own executions.
+   * @param agent Agent to observe
+   * @param agentId Registry ID of the agent
+   * @returns Function that detaches the reporter
+   */
+  attach(agent: Agent, agentId: bigint | number | string): () => void {
+    const id = BigInt(agentId);
+    const report = (results: any[]) => {
+      if (results.length === 0) {
+        return;
+      }
+
+      this.record({
+        agentId: id,
+        success: results.every((result) => result.success),
+        duration: results.reduce((sum, result) => sum + (result.duration ?? 0), 0),
+        gasUsed: results.reduce(
+          (sum, result) => sum + BigInt(result.txReceipt?.gasUsed ?? 0),
+          0n
+        ),
+      });
+    };
+
+    const detach = [
+      agent.on('tasks:executed', ({ results }) => report(results)),
+      agent.on('action:approved', ({ result }) => report([result])),
+    ];
+    return () => detach.forEach((off) => off());
+  }
+
+  /**
+   * Submit queued outcomes in order, within the cost budget
+   * Outcomes that fail after all retries stay queued for the next flush; reverted
+   * ones are dropped.
+   */
+  async flush(): Promise<void> {
+    if (this.flushing) {
+      return await this.flushing;
+    }
+
+    this.flushing = this.flushQueue().finally(() => {
+      this.flushing = null;
+    });
+    return await this.flushing;
+  }
+
+  /**
+   * Read an agent's metrics back from AgentRegistry
+   */
+  async getAgentMetrics(agentId: bigint | number | string): Promise<OnChainAgentMetrics> {
+    const id = BigInt(agentId);
+    const metrics = await this.registry.agentMetrics(id);
+
+    const total = Number(metrics.totalExecutions);
+    const successful = Number(metrics.successfulExecutions);
+    const last = Number(metrics.lastExecutionTime);
+
+    return {
+      agentId: id,
+      totalExecutions: total,
+      successfulExecutions: successful,
+      failedExecutions: Number(metrics.failedExecutions),
+      successRate: total > 0 ? (successful / total) * 100 : 0,
+      averageExecutionTime: Number(metrics.averageExecutionTime),
+      lastExecutionTime: last > 0 ? last * 1000 : null,
+    };
+  }
+
+  getStats(): ExecutionReporterStats {
+    return {
+      queued: this.queue.length,
+      reported: this.reported,
+      dropped: this.dropped,
+      spentToday: this.spentToday(),
+      gasUsed: this.gasUsed,
+    };
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  private async flushQueue(): Promise<void> {
+    while (this.queue.length > 0) {
+      const outcome = this.queue[0];
+
+      try {
+        let tx = this.sent?.outcome === outcome ? this.sent.tx : undefined;
+        if (!tx) {
+          const deferReason = await this.checkBudget(outcome);
+          if (deferReason) {
+            this.emit('deferred', { reason: deferReason, queued: this.queue.length });
+            this.config.logger?.info('Execution reports deferred', {
+              reason: deferReason,
+              queued: this.queue.length,
+            });
+            return;
+          }
+
+          tx = await retry<ethers.ContractTransactionResponse>(
+            () =>
+              this.registry.recordExecution(
+                outcome.agentId,
+                outcome.success,
+                Math.round(outcome.duration)
+              ),
+            this.config.maxRetries ?? 3,
+            this.config.retryDelay ?? 1000
+          );
+          this.sent = { outcome, tx };
+        }
+
+        const receipt = await tx.wait();
+        if (!receipt) {
+          throw new Error('recordExecution transaction failed');
+        }
+        this.sent = undefined;
+
+        const cost = receiptCost(receipt);
+        this.addSpent(cost);
+        this.queue.shift();
+        this.reported++;
+        this.gasUsed += outcome.gasUsed ?? 0n;
+        this.emit('reported', { outcome, txHash: receipt.hash, cost });
+      } catch (error) {
+        // A revert will not change on the next flush
+        if (ethers.isError(error, 'CALL_EXCEPTION')) {
+          this.sent = undefined;
+          if (error.receipt) {
+            this.addSpent(receiptCost(error.receipt));
+          }
+          this.queue.shift();
+          this.dropped++;
+          const reason = `Reverted: ${error.reason || error.shortMessage}`;
+          this.emit('dropped', { outcome, reason });
+          this.config.logger?.warn('Execution report dropped', {
+            agentId: outcome.agentId.toString(),
+            reason,
+          });
+          continue;
+        }
+
+        this.emit('error', { error, outcome });
+        this.config.logger?.error('Execution report failed', {
+          agentId: outcome.agentId.toString(),
+          error,
+        });
+        return;
+      }
+    }
+  }
+
+  /**
+   * Check the gas price cap and daily budget before sending a report
+   * @returns Reason to defer, or null to send
+   */
+  private async checkBudget(outcome: ExecutionOutcome): Promise<string | null> {
+    const { maxCostPerDay, maxGasPrice } = this.config;
+    if (maxCostPerDay === undefined && maxGasPrice === undefined) {
+      return null;
+    }
+
+    const provider = this.registry.runner?.provider;
+    if (!provider) {
+      throw new Error('AgentRegistry contract is not connected to a provider');
+    }
+
+    const feeData = await provider.getFeeData();
+    const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+    if (maxGasPrice !== undefined && gasPrice > maxGasPrice) {
+      return `Gas price ${gasPrice} is above the cap of ${maxGasPrice}`;
+    }
+
+    if (maxCostPerDay !== undefined) {
+      const gas = await this.registry.recordExecution.estimateGas(
+        outcome.agentId,
+        outcome.success,
+        Math.round(outcome.duration)
+      );
+      if (this.spentToday() + BigInt(gas) * gasPrice > maxCostPerDay) {
+        return 'Daily reporting budget reached';
+      }
+    }
+
+    return null;
+  }
+
+  private spentToday(): bigint {
+    return this.spent.day === utcDay() ? this.spent.amount : 0n;
+  }
+
+  private addSpent(cost: bigint): void {
+    this.spent = { day: utcDay(), amount: this.spentToday() + cost };
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function utcDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Wei paid for a mined transaction
+ */
+function receiptCost(receipt: ethers.TransactionReceipt): bigint {
+  return BigInt(receipt.fee ?? receipt.gasUsed * (receipt.gasPrice ?? 0n));
+}
+
+export { ExecutionReporter as default };
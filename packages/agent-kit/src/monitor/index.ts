@@ -1,6 +1,6 @@
 /**
  * Monitor module exports
- * Logging, metrics, event recording, telemetry, and dashboard
+ * Logging, metrics, event recording, telemetry, dashboard, and on-chain execution reports
  */
 
 // Main API exports (explicit for clarity and documentation)
@@ -9,6 +9,7 @@ export { Metrics, type MetricsConfig, type Metric, type MetricSummary } from './
 export { telemetry, Telemetry, createTelemetry, sendTelemetry, type TelemetryConfig, type TelemetryData } from './telemetry';
 export { startDashboard, Dashboard, type DashboardConfig } from './dashboard';
 export { EventRecorder } from './eventRecorder';
+export { ExecutionReporter } from './executionReporter';
 
 // Re-export all other types and utilities
 export * from './logger';
@@ -16,3 +17,4 @@ export * from './metrics';
 export * from './eventRecorder';
 export * from './telemetry';
 export * from './dashboard';
+export * from './executionReporter';
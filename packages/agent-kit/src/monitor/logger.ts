@@ -29,6 +29,7 @@ export interface LoggerConfig {
   filePath?: string;
   format?: 'json' | 'pretty'; // JSON for production, pretty for development
   enableMemoryStorage?: boolean; // For testing
+  maxMemoryLogs?: number; // Max logs kept in memory, oldest dropped first (default: 1000)
   telemetry?: any; // TelemetryConfig - avoid circular dependency
 }
 
@@ -50,6 +51,7 @@ export class Logger {
       filePath: config.filePath || './logs/agent.log',
       format: config.format || (process.env.NODE_ENV === 'production' ? 'json' : 'pretty'),
       enableMemoryStorage: config.enableMemoryStorage || false,
+      maxMemoryLogs: config.maxMemoryLogs || 1000,
       telemetry: config.telemetry,
     };
 
@@ -198,6 +200,9 @@ export class Logger {
     // Store in memory if enabled (for testing)
     if (this.config.enableMemoryStorage) {
       this.logs.push(entry);
+      if (this.logs.length > this.config.maxMemoryLogs!) {
+        this.logs.shift();
+      }
     }
 
     // Send to telemetry if enabled
@@ -308,6 +313,13 @@ export class Logger {
     return checkLevelIndex <= currentLevelIndex;
   }
 
+  /**
+   * Get the log file path (undefined when file logging is disabled)
+   */
+  getFilePath(): string | undefined {
+    return this.config.enableFile ? this.config.filePath : undefined;
+  }
+
   /**
    * Get pino logger instance (for advanced usage)
    */
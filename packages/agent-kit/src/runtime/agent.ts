@@ -4,29 +4,64 @@
  * Orchestrates Trigger → Planner → Executor → Storage → Policy flow
  */
 
+import * as path from 'path';
 import { ethers } from 'ethers';
 import type { AgentRegistry, AgentExecutor } from '../../../../contracts/typechain-types';
 import { Trigger, TriggerConfig } from './trigger';
 import { Planner } from './planner';
+import type { Action } from './planner';
 import { Executor } from './executor';
+import {
+  assignStepIds,
+  findStepReferences,
+  resolveStepReferences,
+} from './scheduler';
 import { IStorage, MemoryStorage, FileStorage } from './storage';
 import { Policy } from './policy';
+import { ApprovalQueue } from './approval';
+import type { ApprovalRequest, ApprovalRequester } from './approval';
 import { Memory, MemoryBackend, InMemoryBackend, FileBackend } from './memoryManager';
+import type { MemorySearchResult } from './memoryManager';
+import { FileVectorStore } from './vectorStore';
+import { SqliteStorage, SqliteMemoryBackend } from './sqlite';
+import { RetentionManager } from './retention';
 import { ContextBuilder } from '../llm/context';
 import { EventEmitter } from '../utils/logger';
 import type { Logger } from '../monitor/logger';
 import type { ChainClient } from '../core/chainClient';
+import type { ExecutionResult } from '../types/action';
+import type { RetentionResult } from '../types/storage';
 import type {
   AgentConfig,
   AgentTask,
   AgentOptions,
   AgentEvents,
+  EventOutcome,
+  PauseBehavior,
 } from '../types/agent';
 import { AgentState } from '../types/agent'; // Enum must be imported as value
 import { StorageBackend } from '../types/storage';
 
 // Re-export types for backward compatibility
-export { AgentState, AgentConfig, AgentTask, AgentOptions, AgentEvents };
+export {
+  AgentState,
+  AgentConfig,
+  AgentTask,
+  AgentOptions,
+  AgentEvents,
+  EventOutcome,
+  PauseBehavior,
+};
+
+/**
+ * Planned actions split by the operational policy
+ */
+interface PolicyOutcome {
+  /** Actions cleared for execution, with policy metadata for storage */
+  approved: Array<{ action: Action; metadata?: Record<string, any> }>;
+  blocked: Array<{ action: Action; reason: string }>;
+  approvals: ApprovalRequest[];
+}
 
 /**
  * Agent class for managing autonomous agent lifecycle
@@ -47,17 +82,29 @@ export class Agent extends EventEmitter<AgentEvents> {
   private executor: Executor;
   private storage: IStorage;
   private policy: Policy;
+  private approvals: ApprovalQueue;
   private memory: Memory;
   private contextBuilder: ContextBuilder;
+  private retention?: RetentionManager;
   private logger?: Logger;
   private enableMemory: boolean;
+  private semanticMemory: boolean;
   private chainClient?: ChainClient;
 
+  // Event loop state
+  private subscribed: boolean = false;
+  private pauseBehavior: PauseBehavior;
+  private maxPausedEvents: number;
+  private pausedEvents: Array<{ key: string; event: any }> = [];
+  private draining: boolean = false;
+
   constructor(config: AgentConfig, options?: AgentOptions) {
     super();
     this.config = config;
     this.logger = options?.logger;
     this.enableMemory = options?.enableMemory !== false;
+    this.pauseBehavior = options?.pauseBehavior || 'queue';
+    this.maxPausedEvents = options?.maxPausedEvents || 1000;
 
     // Initialize runtime modules
     this.trigger = new Trigger();
@@ -66,23 +113,66 @@ export class Agent extends EventEmitter<AgentEvents> {
 
     // Initialize storage based on backend type
     const backend = options?.storageBackend || StorageBackend.Memory;
+    const storagePath = options?.storagePath || './data';
     this.storage = backend === StorageBackend.File
-      ? new FileStorage(options?.storagePath || './data')
-      : new MemoryStorage();
+      ? new FileStorage(storagePath)
+      : backend === StorageBackend.Sqlite
+        ? new SqliteStorage(path.join(storagePath, 'agent.db'))
+        : new MemoryStorage();
 
     this.policy = new Policy();
 
+    // Actions requiring approval wait here; approved ones run through the executor
+    this.approvals = new ApprovalQueue({ ttlMs: options?.approvalTtlMs });
+    this.approvals.setHandler((request) => this.executeApproved(request));
+    this.approvals.on('rejected', (request) => {
+      void this.closeApproval(request, request.rejectReason || 'Rejected');
+    });
+    this.approvals.on('expired', (request) => {
+      void this.closeApproval(request, 'Approval expired');
+    });
+
     // Initialize memory
     const memoryBackendType = options?.memoryBackend || 'memory';
+    const memoryPath = options?.memoryPath || './data/memory';
     const memoryBackend = memoryBackendType === 'file'
-      ? new FileBackend(options?.memoryPath || './data/memory')
-      : new InMemoryBackend();
-
+      ? new FileBackend(memoryPath)
+      : memoryBackendType === 'sqlite'
+        ? new SqliteMemoryBackend(path.join(memoryPath, 'memory.db'))
+        : new InMemoryBackend();
+
+    // Embeddings persist next to persistent memory (default store is in-process)
+    this.semanticMemory = !!options?.memoryEmbedder;
+    const vectorStore =
+      options?.vectorStore ||
+      (memoryBackendType !== 'memory'
+        ? new FileVectorStore(path.join(memoryPath, 'vectors'))
+        : undefined);
     this.memory = new Memory({
       backend: memoryBackend,
       sessionId: options?.sessionId,
+      embedder: options?.memoryEmbedder,
+      llm: options?.memorySummarizer,
+      summarizeOld: !!options?.memorySummarizer,
+      vectorStore,
     });
 
+    // Retention runs while the agent is active
+    if (options?.retention) {
+      this.retention = new RetentionManager({
+        policy: options.retention,
+        storage: this.storage,
+        memoryBackend,
+        vectorStore,
+        logFile: this.logger?.getFilePath?.(),
+      });
+      this.retention.on('pruned', (result) => {
+        this.emit('storage:pruned', result);
+        this.logger?.info('Storage pruned', { ...result });
+      });
+      this.retention.on('error', ({ error }) => this.emit('error', { error }));
+    }
+
     // Initialize context builder
     this.contextBuilder = new ContextBuilder(
       this.config,
@@ -156,9 +246,14 @@ export class Agent extends EventEmitter<AgentEvents> {
 
   /**
    * Start agent execution
+   * Starting a paused agent is equivalent to resume()
    */
   async start(): Promise<void> {
-    if (this.state !== AgentState.Registered && this.state !== AgentState.Paused) {
+    if (this.state === AgentState.Paused) {
+      return this.resume();
+    }
+
+    if (this.state !== AgentState.Registered) {
       throw new Error(`Cannot start agent in state: ${this.state}`);
     }
 
@@ -168,17 +263,18 @@ export class Agent extends EventEmitter<AgentEvents> {
 
   /**
    * Main event processing loop
-   * Subscribes to trigger events and processes them
+   * Subscribes to trigger events once; the handler routes events by state
    */
   private async run(): Promise<void> {
     if (!this.isActive()) {
       throw new Error('Agent must be active to run');
     }
 
-    // Subscribe to trigger events
-    this.trigger.on('triggered', async (data: any) => {
-      await this.onEvent(data);
-    });
+    if (!this.subscribed) {
+      this.trigger.on('triggered', (data: any) => this.dispatchEvent(data));
+      this.subscribed = true;
+    }
+    this.retention?.start();
 
     this.emit('started', { agentId: this.agentAddress });
     this.logger?.info('Agent started', {
@@ -188,72 +284,443 @@ export class Agent extends EventEmitter<AgentEvents> {
   }
 
   /**
-   * Event handler - orchestrates the event → plan → execute flow
+   * Route a trigger event according to the agent state
+   * Active: process now (after any buffered events); Paused: buffer per pauseBehavior
+   */
+  private async dispatchEvent(event: any): Promise<void> {
+    if (this.state === AgentState.Paused) {
+      if (this.pauseBehavior === 'drop') {
+        this.emit('event:dropped', { event, reason: 'Agent is paused' });
+        this.logger?.debug('Event dropped while paused', { event });
+        return;
+      }
+
+      this.bufferEvent(event);
+      return;
+    }
+
+    if (!this.isActive()) {
+      this.emit('event:dropped', { event, reason: `Agent is ${this.state}` });
+      return;
+    }
+
+    // Keep ordering: events arriving mid-drain wait behind the buffer
+    if (this.draining) {
+      this.bufferEvent(event);
+      return;
+    }
+
+    await this.onEvent(event);
+  }
+
+  /**
+   * Buffer an event for later processing
+   */
+  private bufferEvent(event: any): void {
+    const key = event?.triggerId || 'default';
+
+    if (this.pauseBehavior === 'coalesce') {
+      // Replace the pending event from the same trigger with the newer one
+      const index = this.pausedEvents.findIndex((entry) => entry.key === key);
+      if (index !== -1) {
+        const [replaced] = this.pausedEvents.splice(index, 1);
+        this.emit('event:dropped', { event: replaced.event, reason: 'Coalesced' });
+      }
+    }
+
+    if (this.pausedEvents.length >= this.maxPausedEvents) {
+      const oldest = this.pausedEvents.shift();
+      this.emit('event:dropped', { event: oldest?.event, reason: 'Pause buffer full' });
+      this.logger?.warn('Pause buffer full, dropping oldest event', {
+        maxPausedEvents: this.maxPausedEvents,
+      });
+    }
+
+    this.pausedEvents.push({ key, event });
+    this.emit('event:queued', { event, queueSize: this.pausedEvents.length });
+  }
+
+  /**
+   * Process buffered events in arrival order
+   * Stops early if the agent is paused or stopped mid-drain
+   */
+  private async drainPausedEvents(): Promise<void> {
+    if (this.draining) {
+      return;
+    }
+
+    this.draining = true;
+    try {
+      while (this.isActive() && this.pausedEvents.length > 0) {
+        const { event } = this.pausedEvents.shift()!;
+        await this.onEvent(event);
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  /**
+   * Event handler for trigger events; pipeline errors are emitted as 'error'
    * @param event Event data from trigger
    */
   private async onEvent(event: any): Promise<void> {
     try {
-      this.emit('event:received', event);
-      this.logger?.debug('Event received', { event });
+      await this.processEvent(event);
+    } catch (error) {
+      this.emit('error', { error, event });
+      this.logger?.error('Event processing failed', { error, event });
+    }
+  }
+
+  /**
+   * Run an event through the plan → policy → execute → store flow
+   * Used by trigger events and by callers that need the results (e.g. TaskWorker)
+   * @param event Event data ({ goal } or { data }, optional sender and context)
+   * @returns Executed actions and results, plus actions the policy blocked or queued
+   * for approval; null if policy rules are set and none allows the sender
+   * @throws If planning, execution or storage fails
+   */
+  async processEvent(event: any): Promise<EventOutcome | null> {
+    this.emit('event:received', event);
+    this.logger?.debug('Event received', { event });
+
+    // Add event to memory as input
+    if (this.enableMemory) {
+      await this.memory.addInput(event, { agentId: this.agentAddress });
+    }
+
+    // 1. Check policy permissions (senders are only restricted once rules are added)
+    if (
+      event.sender &&
+      this.policy.getAllRules().length > 0 &&
+      !this.policy.checkPermission(event.sender, 'execute')
+    ) {
+      this.logger?.warn('Permission denied', { sender: event.sender });
+      return null;
+    }
+
+    // 2. Build unified context using ContextBuilder
+    const agentContext = await this.contextBuilder.buildContext({
+      maxMemoryTokens: 1000,
+      maxActions: 10,
+      includeChainState: !!this.chainClient,
+      includeActions: true,
+      includeMemory: this.enableMemory,
+      memoryMode: this.semanticMemory ? 'hybrid' : 'recent',
+      memoryQuery: event.goal || JSON.stringify(event.data),
+    });
+
+    // Format context for planner
+    const contextString = this.contextBuilder.formatContext(agentContext);
+    const fullContext = event.context
+      ? `${event.context}\n\n${contextString}`
+      : contextString;
+
+    // 3. Plan tasks using planner with context
+    // (step IDs are fixed before policy filtering so dependencies stay valid)
+    const tasks = assignStepIds(
+      await this.planner.plan(event.goal || event.data, fullContext)
+    );
+    this.emit('tasks:planned', { tasks });
+    this.logger?.info('Tasks planned', { taskCount: tasks.length });
+
+    // 4. Apply operational policy guards to each planned action
+    const { approved, blocked, approvals } = await this.applyPolicy(tasks, {
+      agentId: this.agentAddress,
+      agentName: this.config.name,
+      eventId: event.id,
+    });
+    const approvedTasks = approved.map((entry) => entry.action);
+
+    // 5. Execute approved tasks using executor
+    const results = await this.executor.executeAll(approvedTasks);
+    this.emit('tasks:executed', { results });
+    this.logger?.info('Tasks executed', { resultCount: results.length });
+
+    // Add results to memory as output
+    if (this.enableMemory) {
+      await this.memory.addOutput(
+        { tasks: approvedTasks, results },
+        { agentId: this.agentAddress }
+      );
+    }
+
+    // 6. Store event and actions (blocked actions were stored by applyPolicy)
+    await this.storage.saveEvent(event, this.storageMetadata());
+    for (let i = 0; i < approved.length; i++) {
+      await this.storage.saveAction(
+        approved[i].action,
+        results[i],
+        this.storageMetadata(approved[i].metadata)
+      );
+    }
+    const taskId = event.id || `event-${Date.now()}`;
+    this.emit('results:stored', { taskId });
+    this.logger?.debug('Results stored', { taskId });
 
-      // Add event to memory as input
-      if (this.enableMemory) {
-        await this.memory.addInput(event, { agentId: this.agentAddress });
+    return { actions: approvedTasks, results, blocked, pendingApprovals: approvals };
+  }
+
+  /**
+   * Run planned actions through the operational policy
+   * Order per action: shouldDelay → checkAction → overrideAction → recordAction
+   * Actions that need approval are queued after overrides and not executed here;
+   * later actions that depend on them are held on the approval request
+   * @param actions Planned actions (with step IDs)
+   * @param requestedBy Requester metadata for approval requests
+   * @returns Actions cleared for execution, blocked actions and queued approvals
+   */
+  private async applyPolicy(
+    actions: Action[],
+    requestedBy: ApprovalRequester = {}
+  ): Promise<PolicyOutcome> {
+    const outcome: PolicyOutcome = { approved: [], blocked: [], approvals: [] };
+    // Step ID → approval request that step is waiting on
+    const waiting = new Map<string, ApprovalRequest>();
+
+    for (const action of actions) {
+      const notes: string[] = [];
+
+      // Dependents of an action awaiting approval wait with it
+      const approval = dependenciesOf(action)
+        .map((id) => waiting.get(id))
+        .find((request) => request !== undefined);
+      if (approval) {
+        approval.dependents = [...(approval.dependents || []), action];
+        waiting.set(action.id!, approval);
+        this.logger?.info('Action held until its dependency is approved', {
+          type: action.type,
+          approvalId: approval.id,
+        });
+        continue;
       }
 
-      // 1. Check policy permissions
-      if (event.sender && !this.policy.checkPermission(event.sender, 'execute')) {
-        this.logger?.warn('Permission denied', { sender: event.sender });
-        return;
+      // Rate-limited actions are not executed; callers can retry them after retryAt
+      const delayMs = this.policy.shouldDelay(action);
+      if (delayMs !== false) {
+        const retryAt = Date.now() + delayMs;
+        const retryTime = new Date(retryAt).toISOString();
+        const reason = `Rate limit reached, retry after ${retryTime}`;
+        this.emit('action:delayed', { action, delayMs, retryAt, reason });
+        this.logger?.info('Action delayed by policy', { type: action.type, delayMs });
+        outcome.blocked.push({ action, reason });
+        await this.storage.saveAction(
+          action,
+          { success: false, error: reason },
+          this.storageMetadata({ status: 'blocked', reason, retryAt })
+        );
+        continue;
       }
 
-      // 2. Build unified context using ContextBuilder
-      const agentContext = await this.contextBuilder.buildContext({
-        maxMemoryTokens: 1000,
-        maxActions: 10,
-        includeChainState: !!this.chainClient,
-        includeActions: true,
-        includeMemory: this.enableMemory,
-      });
+      const decision = this.policy.checkAction(action);
+      if (!decision.allowed && !decision.requiresApproval) {
+        const reason = decision.reason || 'Blocked by policy';
+        this.emit('action:blocked', { action, reason });
+        this.logger?.warn('Action blocked by policy', { type: action.type, reason });
+        outcome.blocked.push({ action, reason });
+        await this.storage.saveAction(
+          action,
+          { success: false, error: reason },
+          this.storageMetadata({ status: 'blocked', reason })
+        );
+        continue;
+      }
 
-      // Format context for planner
-      const contextString = this.contextBuilder.formatContext(agentContext);
-      const fullContext = event.context
-        ? `${event.context}\n\n${contextString}`
-        : contextString;
-
-      // 3. Plan tasks using planner with context
-      const tasks = await this.planner.plan(event.goal || event.data, fullContext);
-      this.emit('tasks:planned', { tasks });
-      this.logger?.info('Tasks planned', { taskCount: tasks.length });
-
-      // 4. Execute tasks using executor
-      const results = await this.executor.executeAll(tasks);
-      this.emit('tasks:executed', { results });
-      this.logger?.info('Tasks executed', { resultCount: results.length });
-
-      // Add results to memory as output
-      if (this.enableMemory) {
-        await this.memory.addOutput({ tasks, results }, { agentId: this.agentAddress });
+      const overridden = this.policy.overrideAction(action);
+      const changes = this.diffParams(action.params, overridden.params);
+      if (Object.keys(changes).length > 0) {
+        const reason = `Policy overrode params: ${Object.keys(changes).join(', ')}`;
+        notes.push(reason);
+        this.emit('action:overridden', { original: action, action: overridden, changes });
+        this.logger?.info('Action params overridden by policy', {
+          type: action.type,
+          changes,
+        });
       }
 
-      // 5. Store event and actions
-      await this.storage.saveEvent(event);
-      for (let i = 0; i < tasks.length; i++) {
-        await this.storage.saveAction(tasks[i], results[i]);
+      if (decision.requiresApproval) {
+        const approval = this.approvals.request(overridden, requestedBy, decision.reason);
+        waiting.set(overridden.id!, approval);
+        outcome.approvals.push(approval);
+        this.emit('action:pending_approval', { approval });
+        this.logger?.info('Action awaiting approval', {
+          type: overridden.type,
+          approvalId: approval.id,
+          expiresAt: approval.expiresAt,
+        });
+        continue;
       }
-      const taskId = event.id || `event-${Date.now()}`;
-      this.emit('results:stored', { taskId });
-      this.logger?.debug('Results stored', { taskId });
 
+      this.policy.recordAction(overridden.type);
+      outcome.approved.push({
+        action: overridden,
+        metadata: notes.length > 0 ? { reason: notes.join('; ') } : undefined,
+      });
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Execute an approved action and store its result
+   * The policy is checked again (it may have changed while the request waited),
+   * then actions held on the request run with the approved action's output.
+   * @param request Approved request
+   * @returns Execution result
+   */
+  private async executeApproved(request: ApprovalRequest): Promise<ExecutionResult> {
+    // Requests approved after stop() (e.g. from the dashboard) are not executed
+    if (this.state === AgentState.Stopped || this.state === AgentState.Terminated) {
+      const reason = `Agent is ${this.state}`;
+      await this.closeApproval(request, reason);
+      return { success: false, error: reason };
+    }
+
+    const decision = this.policy.checkAction(request.action);
+    if (!decision.allowed && !decision.requiresApproval) {
+      const reason = decision.reason || 'Blocked by policy';
+      this.emit('action:blocked', { action: request.action, reason });
+      this.logger?.warn('Approved action blocked by policy', {
+        type: request.action.type,
+        approvalId: request.id,
+        reason,
+      });
+      await this.storage.saveAction(
+        request.action,
+        { success: false, error: reason },
+        this.storageMetadata({ status: 'blocked', reason, approvalId: request.id })
+      );
+      await this.releaseDependents(
+        request,
+        `Dependency ${request.action.id} was blocked`
+      );
+      return { success: false, error: reason };
+    }
+
+    const action = this.policy.overrideAction(request.action);
+    this.policy.recordAction(action.type);
+    const result = await this.executor.execute(action);
+
+    await this.storage.saveAction(
+      action,
+      result,
+      this.storageMetadata({ approvalId: request.id, approvedBy: request.decidedBy })
+    );
+
+    this.emit('action:approved', { approval: request, result });
+    this.logger?.info('Approved action executed', {
+      type: action.type,
+      approvalId: request.id,
+      success: result.success,
+    });
+
+    if (result.success) {
+      await this.resumeDependents(request, result.data);
+    } else {
+      await this.releaseDependents(request, `Dependency ${action.id} did not succeed`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Run the actions held on an approved request through policy and the executor
+   * @param request Approved request whose action succeeded
+   * @param output Output of the approved action, for `{{steps.<id>...}}` references
+   */
+  private async resumeDependents(request: ApprovalRequest, output: any): Promise<void> {
+    const id: string | undefined = request.action.id;
+    const dependents: Action[] = (request.dependents || []).map((action: Action) => ({
+      ...action,
+      params: id
+        ? resolveStepReferences(action.params, { [id]: output }, { strict: false })
+        : action.params,
+      dependencies: action.dependencies?.filter((dependency) => dependency !== id),
+    }));
+    if (dependents.length === 0) {
+      return;
+    }
+
+    const { approved } = await this.applyPolicy(dependents, request.requestedBy);
+    const results = await this.executor.executeAll(approved.map((entry) => entry.action));
+    for (let i = 0; i < approved.length; i++) {
+      await this.storage.saveAction(
+        approved[i].action,
+        results[i],
+        this.storageMetadata(approved[i].metadata)
+      );
+    }
+    this.emit('tasks:executed', { results });
+  }
+
+  /**
+   * Store the actions held on a request as skipped when it will not run
+   */
+  private async releaseDependents(
+    request: ApprovalRequest,
+    reason: string
+  ): Promise<void> {
+    for (const action of request.dependents || []) {
+      await this.storage.saveAction(
+        action,
+        { success: false, status: 'skipped', error: `Skipped: ${reason}` },
+        this.storageMetadata({ reason })
+      );
+    }
+  }
+
+  /**
+   * Record a rejected or expired approval request as a blocked action
+   */
+  private async closeApproval(request: ApprovalRequest, reason: string): Promise<void> {
+    try {
+      await this.storage.saveAction(
+        request.action,
+        { success: false, error: reason },
+        this.storageMetadata({ status: 'blocked', reason, approvalId: request.id })
+      );
+      await this.releaseDependents(
+        request,
+        `Dependency ${request.action?.id} was not approved`
+      );
+      this.emit('action:rejected', { approval: request, reason });
+      this.logger?.warn('Action not approved', {
+        type: request.action?.type,
+        approvalId: request.id,
+        reason,
+      });
     } catch (error) {
-      this.emit('error', { error, event });
-      this.logger?.error('Event processing failed', { error, event });
+      this.emit('error', { error });
     }
   }
 
+  /**
+   * Get params changed between two param objects
+   */
+  private diffParams(
+    before: Record<string, any>,
+    after: Record<string, any>
+  ): Record<string, { from: any; to: any }> {
+    const changes: Record<string, { from: any; to: any }> = {};
+    for (const key of Object.keys(after)) {
+      if (before[key] !== after[key]) {
+        changes[key] = { from: before[key], to: after[key] };
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Storage metadata tagged with this agent's address for agentId filters
+   */
+  private storageMetadata(metadata?: Record<string, any>): Record<string, any> {
+    return { ...metadata, agentId: this.agentAddress ?? undefined };
+  }
+
   /**
    * Pause agent execution
+   * Incoming events are queued, dropped or coalesced per pauseBehavior
    */
   async pause(): Promise<void> {
     if (this.state !== AgentState.Active) {
@@ -261,18 +728,65 @@ export class Agent extends EventEmitter<AgentEvents> {
     }
 
     this.state = AgentState.Paused;
+
+    this.emit('paused', { agentId: this.agentAddress });
+    this.logger?.info('Agent paused', {
+      agentId: this.agentAddress,
+      pauseBehavior: this.pauseBehavior,
+    });
+  }
+
+  /**
+   * Resume a paused agent and process events buffered while paused
+   */
+  async resume(): Promise<void> {
+    if (this.state !== AgentState.Paused) {
+      throw new Error(`Cannot resume agent in state: ${this.state}`);
+    }
+
+    this.state = AgentState.Active;
+
+    this.emit('resumed', {
+      agentId: this.agentAddress,
+      pendingEvents: this.pausedEvents.length,
+    });
+    this.logger?.info('Agent resumed', {
+      agentId: this.agentAddress,
+      pendingEvents: this.pausedEvents.length,
+    });
+
+    await this.drainPausedEvents();
+  }
+
+  /**
+   * Get number of events buffered while paused
+   */
+  getPendingEventCount(): number {
+    return this.pausedEvents.length;
   }
 
   /**
    * Stop agent execution
+   * Events buffered while paused are discarded and pending approvals are rejected
    */
   async stop(): Promise<void> {
     if (this.state === AgentState.Terminated) {
       throw new Error('Agent is already terminated');
     }
 
-    // Cleanup triggers
+    // Cleanup triggers (also removes the event loop subscription)
     this.trigger.cleanup();
+    this.subscribed = false;
+    await this.retention?.stop();
+
+    for (const { event } of this.pausedEvents) {
+      this.emit('event:dropped', { event, reason: 'Agent stopped' });
+    }
+    this.pausedEvents = [];
+
+    for (const request of this.approvals.getPending()) {
+      this.approvals.reject(request.id, 'Agent stopped');
+    }
 
     this.emit('stopped', { agentId: this.agentAddress });
     this.logger?.info('Agent stopped', { agentId: this.agentAddress });
@@ -298,6 +812,8 @@ export class Agent extends EventEmitter<AgentEvents> {
 
     this.state = AgentState.Terminated;
     this.tasks.clear();
+    this.approvals.cleanup();
+    await this.retention?.stop();
   }
 
   /**
@@ -458,6 +974,17 @@ export class Agent extends EventEmitter<AgentEvents> {
     return this.storage;
   }
 
+  /**
+   * Apply the retention policy now
+   * @throws If the agent has no retention option
+   */
+  async runRetention(): Promise<RetentionResult> {
+    if (!this.retention) {
+      throw new Error('Retention not configured. Pass the retention option.');
+    }
+    return this.retention.run();
+  }
+
   /**
    * Get policy module (for advanced usage)
    * @returns Policy instance
@@ -466,6 +993,43 @@ export class Agent extends EventEmitter<AgentEvents> {
     return this.policy;
   }
 
+  /**
+   * Get approval queue (for dashboards and custom review flows)
+   * @returns ApprovalQueue instance
+   */
+  getApprovalQueue(): ApprovalQueue {
+    return this.approvals;
+  }
+
+  /**
+   * Get actions waiting for approval
+   * @returns Pending approval requests
+   */
+  getPendingApprovals(): ApprovalRequest[] {
+    return this.approvals.getPending();
+  }
+
+  /**
+   * Approve a pending action and execute it
+   * @param approvalId Approval ID
+   * @param decidedBy Who approved the action
+   * @returns Updated request with the execution result
+   */
+  async approveAction(approvalId: string, decidedBy?: string): Promise<ApprovalRequest> {
+    return this.approvals.approve(approvalId, decidedBy);
+  }
+
+  /**
+   * Reject a pending action
+   * @param approvalId Approval ID
+   * @param reason Rejection reason
+   * @param decidedBy Who rejected the action
+   * @returns Updated request
+   */
+  rejectAction(approvalId: string, reason: string, decidedBy?: string): ApprovalRequest {
+    return this.approvals.reject(approvalId, reason, decidedBy);
+  }
+
   /**
    * Get memory module (for advanced usage)
    * @returns Memory instance
@@ -515,6 +1079,16 @@ export class Agent extends EventEmitter<AgentEvents> {
     return this.memory.getContext(maxTokens);
   }
 
+  /**
+   * Search memory by meaning (requires the memoryEmbedder option)
+   * @param query Text to search for
+   * @param k Max results
+   * @returns Most similar entries first
+   */
+  async searchMemory(query: string, k?: number): Promise<MemorySearchResult[]> {
+    return this.memory.search(query, k);
+  }
+
   /**
    * Get memory history
    * @param limit Max entries to return
@@ -550,3 +1124,14 @@ export class Agent extends EventEmitter<AgentEvents> {
     this.memory.setSessionId(sessionId);
   }
 }
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Step IDs an action waits on: declared dependencies and output references
+ */
+function dependenciesOf(action: Action): string[] {
+  return [...(action.dependencies || []), ...findStepReferences(action.params)];
+}
@@ -0,0 +1,249 @@
+/**
+ * Human-in-the-loop Approval Queue
+ * Holds actions that require approval under the operational policy
+ * until a human approves, rejects, or the request expires
+ */
+
+import type { Action } from './planner';
+import { EventEmitter } from '../utils/logger';
+import type { ExecutionResult } from '../types/action';
+import type {
+  ApprovalRequest,
+  ApprovalRequester,
+  ApprovalQueueConfig,
+  ApprovalEvents,
+} from '../types/approval';
+import { ApprovalStatus } from '../types/approval'; // Enum must be imported as value
+
+// Re-export types for convenience
+export { ApprovalStatus };
+export type { ApprovalRequest, ApprovalRequester, ApprovalQueueConfig, ApprovalEvents };
+
+/**
+ * Runs an approved action and returns its result
+ */
+export type ApprovalHandler = (request: ApprovalRequest) => Promise<ExecutionResult>;
+
+/**
+ * ApprovalQueue class for pending action approvals
+ * Approved requests are passed to the registered handler (the Agent's executor)
+ *
+ * @example
+ * const queue = new ApprovalQueue({ ttlMs: 15 * 60 * 1000 });
+ * const request = queue.request(action, { agentId: '0x...' }, 'Approval required');
+ * await queue.approve(request.id, 'alice');
+ */
+export class ApprovalQueue extends EventEmitter<ApprovalEvents> {
+  private requests: Map<string, ApprovalRequest> = new Map();
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private handler?: ApprovalHandler;
+  private ttlMs: number;
+  private maxHistory: number;
+
+  constructor(config: ApprovalQueueConfig = {}) {
+    super();
+    this.ttlMs = config.ttlMs || 60 * 60 * 1000;
+    this.maxHistory = config.maxHistory || 100;
+  }
+
+  /**
+   * Set the handler that runs approved actions
+   * @param handler Approval handler
+   */
+  setHandler(handler: ApprovalHandler): void {
+    this.handler = handler;
+  }
+
+  /**
+   * Queue an action for approval
+   * @param action Action awaiting approval
+   * @param requestedBy Requester metadata
+   * @param reason Why approval is required
+   * @param ttlMs Override the default time-to-live
+   * @returns Pending approval request
+   */
+  request(
+    action: Action,
+    requestedBy: ApprovalRequester = {},
+    reason?: string,
+    ttlMs: number = this.ttlMs
+  ): ApprovalRequest {
+    const now = Date.now();
+    const request: ApprovalRequest = {
+      id: `approval-${now}-${Math.random().toString(36).substr(2, 9)}`,
+      action,
+      status: ApprovalStatus.Pending,
+      reason,
+      requestedBy,
+      requestedAt: now,
+      expiresAt: now + ttlMs,
+    };
+
+    this.requests.set(request.id, request);
+
+    const timer = setTimeout(() => this.expire(request.id), ttlMs);
+    // Pending approvals should not keep the process alive
+    timer.unref?.();
+    this.timers.set(request.id, timer);
+
+    this.emit('requested', request);
+    return request;
+  }
+
+  /**
+   * Approve a pending request and run it through the handler
+   * @param id Approval ID
+   * @param decidedBy Who approved the request
+   * @returns Updated request, including the execution result when a handler is set
+   * @throws Error if the request does not exist or is no longer pending
+   */
+  async approve(id: string, decidedBy?: string): Promise<ApprovalRequest> {
+    const request = this.decide(id, ApprovalStatus.Approved, decidedBy);
+    this.emit('approved', request);
+
+    if (this.handler) {
+      try {
+        request.result = await this.handler(request);
+      } catch (error) {
+        request.result = { success: false, error: (error as Error).message };
+      }
+    }
+
+    return request;
+  }
+
+  /**
+   * Reject a pending request
+   * @param id Approval ID
+   * @param reason Rejection reason
+   * @param decidedBy Who rejected the request
+   * @returns Updated request
+   * @throws Error if the request does not exist or is no longer pending
+   */
+  reject(id: string, reason: string, decidedBy?: string): ApprovalRequest {
+    const request = this.decide(id, ApprovalStatus.Rejected, decidedBy);
+    request.rejectReason = reason;
+    this.emit('rejected', request);
+    return request;
+  }
+
+  /**
+   * Get a request by ID
+   */
+  get(id: string): ApprovalRequest | undefined {
+    this.expireStale();
+    return this.requests.get(id);
+  }
+
+  /**
+   * List requests, optionally filtered by status
+   * @param status Status filter
+   * @returns Requests sorted by request time (oldest first)
+   */
+  list(status?: ApprovalStatus): ApprovalRequest[] {
+    this.expireStale();
+    return Array.from(this.requests.values())
+      .filter((request) => !status || request.status === status)
+      .sort((a, b) => a.requestedAt - b.requestedAt);
+  }
+
+  /**
+   * Get pending requests
+   */
+  getPending(): ApprovalRequest[] {
+    return this.list(ApprovalStatus.Pending);
+  }
+
+  /**
+   * Expire all pending requests and clear timers
+   */
+  cleanup(): void {
+    for (const request of this.getPending()) {
+      this.expire(request.id);
+    }
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Move a pending request to a decided status
+   */
+  private decide(
+    id: string,
+    status: ApprovalStatus,
+    decidedBy?: string
+  ): ApprovalRequest {
+    this.expireStale();
+
+    const request = this.requests.get(id);
+    if (!request) {
+      throw new Error(`Approval request not found: ${id}`);
+    }
+    if (request.status !== ApprovalStatus.Pending) {
+      throw new Error(`Approval request ${id} is already ${request.status}`);
+    }
+
+    request.status = status;
+    request.decidedAt = Date.now();
+    request.decidedBy = decidedBy;
+    this.clearTimer(id);
+    this.pruneHistory();
+
+    return request;
+  }
+
+  /**
+   * Expire a request if it is still pending
+   */
+  private expire(id: string): void {
+    const request = this.requests.get(id);
+    this.clearTimer(id);
+
+    if (!request || request.status !== ApprovalStatus.Pending) {
+      return;
+    }
+
+    request.status = ApprovalStatus.Expired;
+    request.decidedAt = Date.now();
+    this.pruneHistory();
+    this.emit('expired', request);
+  }
+
+  /**
+   * Expire requests past their expiry (timers can fire late)
+   */
+  private expireStale(): void {
+    const now = Date.now();
+    for (const request of this.requests.values()) {
+      if (request.status === ApprovalStatus.Pending && request.expiresAt <= now) {
+        this.expire(request.id);
+      }
+    }
+  }
+
+  /**
+   * Drop the oldest decided requests beyond maxHistory
+   */
+  private pruneHistory(): void {
+    const decided = Array.from(this.requests.values())
+      .filter((request) => request.status !== ApprovalStatus.Pending)
+      .sort((a, b) => (a.decidedAt || 0) - (b.decidedAt || 0));
+
+    while (decided.length > this.maxHistory) {
+      this.requests.delete(decided.shift()!.id);
+    }
+  }
+
+  /**
+   * Clear the expiry timer for a request
+   */
+  private clearTimer(id: string): void {
+    const timer = this.timers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(id);
+    }
+  }
+}
@@ -4,8 +4,11 @@
  * Supports both on-chain and off-chain actions
  */
 
+import fs from 'fs/promises';
 import { ethers } from 'ethers';
+import { z } from 'zod';
 import type { Action } from './planner';
+import { AgentDiscovery } from '../core/agentDiscovery';
 import type { ChainClient } from '../core/chainClient';
 import type { SomniaContracts } from '../core/contracts';
 import type {
@@ -14,12 +17,36 @@ import type {
   ExecutionContext,
   ExecutorConfig,
   ActionHandler,
+  ActionHandlerOptions,
+  ActionDefinition,
 } from '../types/action';
 import { ExecutionStatus } from '../types/action'; // Import enum as value
+import type { ToolDefinition } from '../types/llm';
+import { ERC20Manager } from '../tokens/erc20';
+import { VaultManager } from '../tokens/vault';
+import type { SwapProvider, SwapQuote, SwapQuoteParams } from '../dex/provider';
+import { ContractVerifier } from '../deployment/verifier';
+import { toJsonValue } from '../utils/encode';
+import { zodToJsonSchema } from '../utils/schema';
+import { isSessionPermissionError } from '../core/sessionKeys';
+import {
+  assignStepIds,
+  findStepReferences,
+  resolveStepReferences,
+  runSteps,
+  type ScheduledStep,
+} from './scheduler';
 
 // Re-export types for backward compatibility
 export { ExecutionStatus, ExecutorConfig };
-export type { ExecutionResult, DetailedExecutionResult, ExecutionContext, ActionHandler };
+export type {
+  ExecutionResult,
+  DetailedExecutionResult,
+  ExecutionContext,
+  ActionHandler,
+  ActionHandlerOptions,
+  ActionDefinition,
+};
 
 // Type alias for transaction receipt
 export type TxReceipt = ethers.TransactionReceipt;
@@ -44,6 +71,15 @@ export interface ExecutionPlan {
   status: string;
 }
 
+// Calls sent by the built-in handlers, encoded to check session key scopes
+const SCOPED_CALLS = new ethers.Interface([
+  'function approve(address spender, uint256 amount)',
+  'function depositNative(address agent) payable',
+  'function depositToken(address agent, address token, uint256 amount)',
+  'function withdrawNative(address agent, address recipient, uint256 amount)',
+  'function withdrawToken(address agent, address token, address recipient, uint256 amount)',
+]);
+
 /**
  * Executor class for task execution
  */
@@ -51,8 +87,11 @@ export class Executor {
   private config: ExecutorConfig;
   private contexts: Map<string, ExecutionContext> = new Map();
   private handlers: Map<string, (params: any) => Promise<any>> = new Map();
+  private handlerOptions: Map<string, ActionHandlerOptions> = new Map();
+  private abiCache: Map<string, ethers.InterfaceAbi> = new Map();
   private chainClient?: ChainClient;
   private contracts?: SomniaContracts;
+  private discovery?: AgentDiscovery;
 
   constructor(
     chainClient?: ChainClient,
@@ -66,7 +105,9 @@ export class Executor {
       retryDelay: config.retryDelay || 1000,
       timeout: config.timeout || 30000,
       enableParallel: config.enableParallel !== false,
+      maxConcurrent: config.maxConcurrent || 5,
       dryRun: config.dryRun || false,
+      swapProvider: config.swapProvider,
     };
 
     // Register default handlers
@@ -75,12 +116,48 @@ export class Executor {
 
   /**
    * Register action handler
+   * @param action Action type
+   * @param handler Handler function
+   * @param options Optional params schema and description
    */
   registerHandler(
     action: string,
-    handler: (params: any) => Promise<any>
+    handler: (params: any) => Promise<any>,
+    options: ActionHandlerOptions = {}
   ): void {
     this.handlers.set(action, handler);
+    this.handlerOptions.set(action, options);
+  }
+
+  /**
+   * Set the DEX used by the get_quote and execute_swap handlers
+   * @param provider Swap provider (e.g. UniswapV2Provider)
+   */
+  setSwapProvider(provider: SwapProvider): void {
+    this.config.swapProvider = provider;
+  }
+
+  /**
+   * Validate action params against the handler's schema
+   * @returns Parsed params (schema defaults applied), or the validation error
+   */
+  validateParams(
+    action: Action
+  ): { valid: true; params: Record<string, any> } | { valid: false; error: string } {
+    const schema = this.handlerOptions.get(action.type)?.schema;
+    if (!schema) {
+      return { valid: true, params: action.params };
+    }
+
+    const parsed = schema.safeParse(action.params ?? {});
+    if (parsed.success) {
+      return { valid: true, params: parsed.data };
+    }
+
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join('.') || 'params'}: ${issue.message}`)
+      .join('; ');
+    return { valid: false, error: `Invalid params for ${action.type}: ${issues}` };
   }
 
   /**
@@ -89,8 +166,23 @@ export class Executor {
    * @returns Detailed execution result with status and metadata
    */
   async execute(action: Action): Promise<DetailedExecutionResult> {
+    const actionId =
+      action.id || `action-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    return this.runAction(action, actionId, this.config.maxRetries || 0);
+  }
+
+  /**
+   * Execute a single action under a step ID
+   * @param action Action to execute
+   * @param actionId Step ID reported in the result
+   * @param maxRetries Retry attempts after the first failure (ignored if not retryable)
+   */
+  private async runAction(
+    action: Action,
+    actionId: string,
+    maxRetries: number
+  ): Promise<DetailedExecutionResult> {
     const startTime = Date.now();
-    const actionId = `action-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
     try {
       // Get handler for this action type
@@ -106,9 +198,53 @@ export class Executor {
         };
       }
 
+      // Validate params before executing (validation errors are not retried)
+      const validation = this.validateParams(action);
+      if (!validation.valid) {
+        return {
+          stepId: actionId,
+          status: ExecutionStatus.Failed,
+          success: false,
+          error: validation.error,
+          duration: Date.now() - startTime,
+          dryRun: this.config.dryRun,
+        };
+      }
+      const params = validation.params;
+      const retries =
+        this.handlerOptions.get(action.type)?.retryable === false ? 0 : maxRetries;
+
       // Dry-run mode: simulate without executing
       if (this.config.dryRun) {
-        console.log(`[DRY-RUN] Would execute ${action.type} with params:`, action.params);
+        console.log(`[DRY-RUN] Would execute ${action.type} with params:`, params);
+
+        const simulate = this.handlerOptions.get(action.type)?.simulate;
+        if (simulate) {
+          try {
+            const simulation = await this.executeWithTimeout(
+              simulate(params),
+              this.config.timeout!
+            );
+            return {
+              stepId: actionId,
+              status: ExecutionStatus.Success,
+              success: true,
+              data: { simulated: true, action, ...simulation },
+              duration: Date.now() - startTime,
+              dryRun: true,
+            };
+          } catch (error) {
+            return {
+              stepId: actionId,
+              status: ExecutionStatus.Failed,
+              success: false,
+              error: (error as Error).message,
+              duration: Date.now() - startTime,
+              dryRun: true,
+            };
+          }
+        }
+
         return {
           stepId: actionId,
           status: ExecutionStatus.Success,
@@ -119,14 +255,26 @@ export class Executor {
         };
       }
 
+      // Reject actions outside the session key's scopes before they run
+      const denied = await this.checkSessionScopes(action.type, params);
+      if (denied) {
+        return {
+          stepId: actionId,
+          status: ExecutionStatus.Failed,
+          success: false,
+          error: denied,
+          duration: Date.now() - startTime,
+        };
+      }
+
       // Execute with timeout and retry logic
       let retryCount = 0;
       let lastError: Error | null = null;
 
-      while (retryCount <= (this.config.maxRetries || 0)) {
+      while (retryCount <= retries) {
         try {
           const result = await this.executeWithTimeout(
-            handler(action.params),
+            handler(params),
             this.config.timeout!
           );
 
@@ -142,7 +290,8 @@ export class Executor {
         } catch (error) {
           lastError = error as Error;
 
-          if (retryCount >= (this.config.maxRetries || 0)) {
+          // A session key denial will not change on retry
+          if (retryCount >= retries || isSessionPermissionError(error)) {
             break;
           }
 
@@ -171,39 +320,42 @@ export class Executor {
   }
 
   /**
-   * Execute multiple actions (batch execution)
-   * @param actions Array of actions to execute
-   * @returns Array of execution results
+   * Execute multiple actions as a dependency graph
+   * Actions run once their `dependencies` (and any steps referenced as
+   * `{{steps.<id>.<path>}}` in params) succeeded. Independent actions run in parallel
+   * (up to maxConcurrent) when enableParallel is set; dependents of a failed action
+   * are skipped and other branches continue. Without declared dependencies,
+   * sequential mode chains the actions so the first failure skips the rest.
+   * @param actions Array of actions to execute (IDs default to `step-<n>`)
+   * @returns Execution results, in the same order as actions
+   * @throws On duplicate action IDs or dependency cycles (nothing is executed)
    */
-  async executeAll(actions: Action[]): Promise<ExecutionResult[]> {
+  async executeAll(actions: Action[]): Promise<DetailedExecutionResult[]> {
     if (actions.length === 0) {
       return [];
     }
 
-    // Parallel execution if enabled
-    if (this.config.enableParallel) {
-      return await Promise.all(
-        actions.map((action) => this.execute(action))
-      );
-    }
-
-    // Sequential execution
-    const results: ExecutionResult[] = [];
-    for (const action of actions) {
-      const result = await this.execute(action);
-      results.push(result);
+    const steps = assignStepIds(actions).map((action) => ({
+      id: action.id,
+      dependencies: Array.from(
+        new Set([...(action.dependencies || []), ...findStepReferences(action.params)])
+      ),
+      action,
+    }));
 
-      // Stop on first failure if not in parallel mode
-      if (result.status === ExecutionStatus.Failed) {
-        break;
-      }
+    if (!this.config.enableParallel && steps.every((step) => step.dependencies.length === 0)) {
+      steps.forEach((step, index) => {
+        step.dependencies = index > 0 ? [steps[index - 1].id] : [];
+      });
     }
 
-    return results;
+    const results = await this.runGraph(steps);
+    return steps.map((step) => results.get(step.id)!);
   }
 
   /**
    * Execute a plan (legacy method for backward compatibility)
+   * Steps are scheduled by their dependencies like executeAll; only retryable steps are retried
    * @deprecated Use execute(action) or executeAll(actions) instead
    */
   async executePlan(plan: ExecutionPlan): Promise<ExecutionContext> {
@@ -217,22 +369,22 @@ export class Executor {
     this.contexts.set(plan.taskId, context);
 
     try {
-      for (const step of plan.steps) {
-        context.currentStep = step.id;
-
-        // Check if dependencies are completed
-        const dependenciesCompleted = this.checkDependencies(step, context);
-        if (!dependenciesCompleted) {
-          throw new Error(`Dependencies not met for step ${step.id}`);
-        }
+      const results = await this.runGraph(
+        plan.steps.map((step) => ({
+          id: step.id,
+          dependencies: step.dependencies,
+          action: { type: step.action, params: step.params },
+          maxRetries: step.retryable ? undefined : 0,
+        }))
+      );
 
-        // Execute step
-        const result = await this.executeStep(step);
-        context.results.set(step.id, result);
+      for (const step of plan.steps) {
+        context.results.set(step.id, results.get(step.id)!);
+      }
 
-        if (result.status === ExecutionStatus.Failed) {
-          throw new Error(`Step ${step.id} failed: ${result.error}`);
-        }
+      const failed = plan.steps.find((step) => !results.get(step.id)!.success);
+      if (failed) {
+        throw new Error(`Step ${failed.id} failed: ${results.get(failed.id)!.error}`);
       }
 
       context.status = ExecutionStatus.Success;
@@ -253,58 +405,57 @@ export class Executor {
   }
 
   /**
-   * Execute a single step
+   * Run steps through the DAG scheduler, resolving output references before each step
+   * In dry-run mode unresolvable references are left as-is
+   * @returns Result for every step, by step ID
    */
-  private async executeStep(step: PlanStep): Promise<DetailedExecutionResult> {
-    const startTime = Date.now();
-    let retryCount = 0;
-
-    while (retryCount <= (this.config.maxRetries || 0)) {
-      try {
-        const handler = this.handlers.get(step.action);
-        if (!handler) {
-          throw new Error(`No handler registered for action: ${step.action}`);
-        }
-
-        // Execute with timeout
-        const result = await this.executeWithTimeout(
-          handler(step.params),
-          this.config.timeout!
-        );
-
-        return {
-          stepId: step.id,
-          status: ExecutionStatus.Success,
-          success: true,
-          data: result,
-          retryCount,
-          duration: Date.now() - startTime,
-        };
-      } catch (error) {
-        if (!step.retryable || retryCount >= (this.config.maxRetries || 0)) {
+  private async runGraph(
+    steps: Array<ScheduledStep & { action: Action; maxRetries?: number }>
+  ): Promise<Map<string, DetailedExecutionResult>> {
+    const outputs: Record<string, any> = {};
+    const ids = new Set(steps.map((step) => step.id));
+
+    return runSteps(steps, {
+      concurrency: this.config.enableParallel ? this.config.maxConcurrent : 1,
+      succeeded: (result) => result.success,
+      skip: (step, dependency) => ({
+        stepId: step.id,
+        status: ExecutionStatus.Skipped,
+        success: false,
+        error: ids.has(dependency)
+          ? `Skipped: dependency ${dependency} did not succeed`
+          : `Skipped: dependency ${dependency} is not in the plan`,
+        duration: 0,
+        dryRun: this.config.dryRun,
+      }),
+      run: async (step) => {
+        let params: Record<string, any>;
+        try {
+          params = resolveStepReferences(step.action.params, outputs, {
+            strict: !this.config.dryRun,
+          });
+        } catch (error) {
           return {
             stepId: step.id,
             status: ExecutionStatus.Failed,
             success: false,
             error: (error as Error).message,
-            retryCount,
-            duration: Date.now() - startTime,
+            duration: 0,
+            dryRun: this.config.dryRun,
           };
         }
 
-        retryCount++;
-        await this.sleep(this.config.retryDelay! * retryCount);
-      }
-    }
-
-    return {
-      stepId: step.id,
-      status: ExecutionStatus.Failed,
-      success: false,
-      error: 'Max retries exceeded',
-      retryCount,
-      duration: Date.now() - startTime,
-    };
+        const result = await this.runAction(
+          { ...step.action, params },
+          step.id,
+          step.maxRetries ?? (this.config.maxRetries || 0)
+        );
+        if (result.success) {
+          outputs[step.id] = result.data;
+        }
+        return result;
+      },
+    });
   }
 
   /**
@@ -323,18 +474,63 @@ export class Executor {
   }
 
   /**
-   * Check if step dependencies are completed
+   * Get registered action types
    */
-  private checkDependencies(
-    step: PlanStep,
-    context: ExecutionContext
-  ): boolean {
-    return step.dependencies.every((depId) => {
-      const result = context.results.get(depId);
-      return result && result.status === ExecutionStatus.Success;
+  getRegisteredActions(): string[] {
+    return Array.from(this.handlers.keys());
+  }
+
+  /**
+   * Get the action catalogue: every registered action with its params JSON Schema
+   * Handlers registered without a schema accept any params object
+   * @returns One definition per action type
+   */
+  getActionCatalogue(): ActionDefinition[] {
+    return this.getRegisteredActions().map((name) => {
+      const options = this.handlerOptions.get(name) || {};
+      return {
+        name,
+        description: options.description,
+        parameters: options.schema
+          ? zodToJsonSchema(options.schema)
+          : { type: 'object', additionalProperties: true },
+      };
     });
   }
 
+  /**
+   * Export the action catalogue as a single JSON Schema document
+   * Matches any valid `{ type, params }` action
+   * @returns JSON Schema
+   */
+  getActionJsonSchema(): Record<string, any> {
+    return {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      title: 'Action',
+      oneOf: this.getActionCatalogue().map((entry) => ({
+        type: 'object',
+        description: entry.description,
+        properties: {
+          type: { const: entry.name },
+          params: entry.parameters,
+        },
+        required: ['type', 'params'],
+      })),
+    };
+  }
+
+  /**
+   * Describe registered handlers as tools for native LLM tool calling
+   * @returns One tool definition per action type
+   */
+  getToolDefinitions(): ToolDefinition[] {
+    return this.getActionCatalogue().map((entry) => ({
+      name: entry.name,
+      description: entry.description || `Execute the ${entry.name} action`,
+      parameters: entry.parameters,
+    }));
+  }
+
   /**
    * Get execution context
    */
@@ -353,6 +549,15 @@ export class Executor {
    * Register default handlers with real blockchain integration
    */
   private registerDefaultHandlers(): void {
+    const addressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid address');
+    const amountSchema = z.union([z.string(), z.number()]);
+    const abiSchema = z
+      .union([z.string(), z.array(z.any())])
+      .describe(
+        'ABI (array or JSON string) or path to an ABI/artifact JSON file; ' +
+          'defaults to the verified ABI from the explorer'
+      );
+
     // Validation handlers
     this.registerHandler('validate_address', async (params) => {
       const valid = ethers.isAddress(params.address);
@@ -360,6 +565,9 @@ export class Executor {
         throw new Error(`Invalid address: ${params.address}`);
       }
       return { valid: true, address: params.address };
+    }, {
+      description: 'Check that a value is a valid EVM address',
+      schema: z.object({ address: z.string().describe('Address to validate') }).passthrough(),
     });
 
     this.registerHandler('validate_contract', async (params) => {
@@ -378,6 +586,11 @@ export class Executor {
       }
 
       return { valid: true, address: params.address };
+    }, {
+      description: 'Check that an address is a deployed contract',
+      schema: z
+        .object({ address: addressSchema.describe('Contract address') })
+        .passthrough(),
     });
 
     // Balance handlers
@@ -400,6 +613,14 @@ export class Executor {
         required: required.toString(),
         sufficient: balance >= required,
       };
+    }, {
+      description: 'Get the native balance of an address and whether it covers an amount',
+      schema: z
+        .object({
+          address: addressSchema.optional().describe('Address to check (default: signer)'),
+          amount: amountSchema.optional().describe('Required amount in ether'),
+        })
+        .passthrough(),
     });
 
     // Transfer handlers
@@ -423,6 +644,18 @@ export class Executor {
         to: params.to,
         amount: params.amount,
       };
+    }, {
+      retryable: false,
+      transactions: async (params) => [
+        { to: params.to, value: ethers.parseEther(String(params.amount)) },
+      ],
+      description: 'Transfer native tokens from the signer',
+      schema: z
+        .object({
+          to: addressSchema.describe('Recipient address'),
+          amount: amountSchema.describe('Amount in ether'),
+        })
+        .passthrough(),
     });
 
     // Gas estimation
@@ -431,14 +664,18 @@ export class Executor {
         throw new Error('ChainClient not configured');
       }
 
-      const provider = this.chainClient.getProvider();
       let gasEstimate: bigint;
 
       if (params.contract && params.method) {
-        // Estimate for contract call (placeholder - needs contract instance)
-        gasEstimate = 100000n;
+        const call = await this.resolveContractCall(params);
+        try {
+          gasEstimate = await call.method.estimateGas(...call.args, call.overrides);
+        } catch (error) {
+          throw this.contractError(call, error);
+        }
       } else {
         // Estimate for simple transfer
+        const provider = this.chainClient.getProvider();
         gasEstimate = await provider.estimateGas({
           to: params.to || ethers.ZeroAddress,
           value: params.value ? ethers.parseEther(String(params.value)) : 0n,
@@ -449,64 +686,790 @@ export class Executor {
         gasLimit: gasEstimate.toString(),
         gasLimitNumber: Number(gasEstimate),
       };
+    }, {
+      description: 'Estimate gas for a native transfer or contract call',
+      schema: z
+        .object({
+          to: addressSchema.optional().describe('Recipient address'),
+          value: amountSchema.optional().describe('Value in ether'),
+          contract: addressSchema.optional().describe('Contract address'),
+          method: z.string().optional().describe('Contract method name or signature'),
+          args: z.array(z.any()).optional().describe('Method arguments'),
+          abi: abiSchema.optional(),
+        })
+        .passthrough(),
     });
 
     // Token operations
     this.registerHandler('approve_token', async (params) => {
-      // Placeholder - needs ERC20 contract integration
+      const approval = await this.resolveApproval(params);
+
+      // ensureApproval only sends a transaction when the allowance is too low
+      const receipt = params.force
+        ? await approval.erc20.approve(params.token, approval.spender, approval.amount)
+        : await approval.erc20.ensureApproval(params.token, approval.spender, approval.amount);
+
       return {
-        action: 'approve_token',
+        approved: !!receipt,
+        txHash: receipt?.hash,
+        txReceipt: receipt,
         token: params.token,
-        spender: params.spender,
-        amount: params.amount,
+        owner: approval.owner,
+        spender: approval.spender,
+        amount: String(params.amount),
+        amountRaw: approval.amount.toString(),
+        decimals: approval.decimals,
+        previousAllowance: approval.allowance.toString(),
       };
+    }, {
+      retryable: false,
+      transactions: async (params) => {
+        const approval = await this.resolveApproval(params);
+        if (!params.force && approval.allowance >= approval.amount) {
+          return [];
+        }
+        return [
+          this.approvalTransaction(params.token, approval.spender, approval.amount),
+        ];
+      },
+      description:
+        'Approve a spender to use ERC20 tokens (skipped if the allowance already covers the amount)',
+      schema: z
+        .object({
+          token: addressSchema.describe('Token contract address'),
+          spender: addressSchema
+            .optional()
+            .describe('Spender address (default: the swap provider router)'),
+          amount: amountSchema.describe('Amount in token units, or "max"/"unlimited"'),
+          force: z.boolean().optional().describe('Approve even if the allowance is sufficient'),
+        })
+        .passthrough(),
+      simulate: async (params) => {
+        const approval = await this.resolveApproval(params);
+        const wouldApprove = params.force || approval.allowance < approval.amount;
+
+        return {
+          wouldApprove,
+          token: params.token,
+          owner: approval.owner,
+          spender: approval.spender,
+          decimals: approval.decimals,
+          currentAllowance: approval.allowance.toString(),
+          currentAllowanceFormatted: ERC20Manager.formatAmount(
+            approval.allowance,
+            approval.decimals
+          ),
+          requestedAllowance: approval.amount.toString(),
+          newAllowance: (wouldApprove ? approval.amount : approval.allowance).toString(),
+        };
+      },
     });
 
-    // Swap operations
+    // Swap operations (routed through the configured swap provider)
+    const swapSchema = z
+      .object({
+        tokenIn: addressSchema.describe('Input token address'),
+        tokenOut: addressSchema.describe('Output token address'),
+        amountIn: amountSchema.describe('Input amount in token units'),
+        slippageBps: z
+          .number()
+          .int()
+          .min(0)
+          .max(10000)
+          .optional()
+          .describe('Max slippage in basis points (50 = 0.5%)'),
+        path: z.array(addressSchema).optional().describe('Explicit route of token addresses'),
+      })
+      .passthrough();
+
     this.registerHandler('get_quote', async (params) => {
-      // Placeholder - needs DEX integration
+      const swap = await this.resolveSwap(params);
+      const quote = await swap.provider.getQuote(swap.request);
+      return this.formatQuote(quote, swap.decimalsIn, swap.decimalsOut);
+    }, {
+      description: 'Get a swap quote from current pool reserves',
+      schema: swapSchema,
+    });
+
+    this.registerHandler('execute_swap', async (params) => {
+      const swap = await this.resolveSwap(params);
+      const result = await swap.provider.swap({
+        ...swap.request,
+        amountOutMin:
+          params.amountOutMin !== undefined
+            ? ERC20Manager.parseAmount(String(params.amountOutMin), swap.decimalsOut)
+            : undefined,
+        recipient: params.recipient,
+        deadlineSeconds: params.deadlineSeconds,
+      });
+
       return {
-        tokenIn: params.tokenIn,
-        tokenOut: params.tokenOut,
-        amountIn: params.amountIn,
-        amountOut: params.amountIn, // 1:1 mock rate
-        rate: 1.0,
+        ...this.formatQuote(result.quote, swap.decimalsIn, swap.decimalsOut),
+        amountOutMin: ERC20Manager.formatAmount(result.amountOutMin, swap.decimalsOut),
+        amountOutMinRaw: result.amountOutMin.toString(),
+        deadline: result.deadline,
+        approvalTxHash: result.approvalReceipt?.hash,
+        txHash: result.txHash,
+        txReceipt: result.receipt,
       };
+    }, {
+      retryable: false,
+      transactions: async (params) => {
+        const swap = await this.resolveSwap(params);
+        const owner = await this.chainClient!.getSignerManager().getAddress();
+        const spender = swap.provider.spender;
+        const allowance = await swap.erc20.allowance(params.tokenIn, owner, spender);
+
+        // The provider builds the swap calldata, so only its target is known here
+        return [
+          ...(allowance < swap.request.amountIn
+            ? [this.approvalTransaction(params.tokenIn, spender, swap.request.amountIn)]
+            : []),
+          { to: spender },
+        ];
+      },
+      description: 'Swap tokens (approves the router first if needed)',
+      schema: swapSchema.extend({
+        amountOutMin: amountSchema
+          .optional()
+          .describe('Minimum output in token units (default: from slippage)'),
+        recipient: addressSchema.optional().describe('Output recipient (default: signer)'),
+        deadlineSeconds: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe('Seconds until the swap expires'),
+      }),
+      simulate: async (params) => {
+        const swap = await this.resolveSwap(params);
+        const quote = await swap.provider.getQuote(swap.request);
+        const owner = await this.chainClient!.getSignerManager().getAddress();
+        const allowance = await swap.erc20.allowance(
+          params.tokenIn,
+          owner,
+          swap.provider.spender
+        );
+
+        return {
+          wouldSwap: true,
+          needsApproval: allowance < quote.amountIn,
+          currentAllowance: allowance.toString(),
+          ...this.formatQuote(quote, swap.decimalsIn, swap.decimalsOut),
+        };
+      },
     });
 
-    this.registerHandler('execute_swap', async (params) => {
-      // Placeholder - needs DEX integration
+    // AgentVault operations (spending is capped by the vault's on-chain daily limit)
+    const vaultSchema = z
+      .object({
+        agent: addressSchema.optional().describe('Vault agent address (default: signer)'),
+        token: addressSchema
+          .optional()
+          .describe('ERC20 token address (default: native STT)'),
+      })
+      .passthrough();
+
+    this.registerHandler('vault_info', async (params) => {
+      const vault = await this.resolveVault(params);
+      const info = await vault.manager.getVault(vault.agent);
+
       return {
-        action: 'execute_swap',
-        tokenIn: params.tokenIn,
-        tokenOut: params.tokenOut,
-        amountIn: params.amountIn,
-        amountOut: params.amountOut,
+        agent: info.agent,
+        active: info.active,
+        balance: ethers.formatEther(info.nativeBalance),
+        withdrawable: ethers.formatEther(info.withdrawable),
+        dailyLimit: ethers.formatEther(info.dailyLimit.limit),
+        spentToday: ethers.formatEther(info.dailyLimit.spent),
+        remainingToday: ethers.formatEther(info.dailyLimit.remaining),
+        resetsAt: info.dailyLimit.resetsAt,
+        allowedTokens: info.allowedTokens,
+        tokenBalance: params.token
+          ? ERC20Manager.formatAmount(
+              await vault.manager.getTokenBalance(vault.agent, params.token),
+              await new ERC20Manager(this.chainClient!).decimals(params.token)
+            )
+          : undefined,
+      };
+    }, {
+      description: 'Get an AgentVault balance and how much can still be withdrawn today',
+      schema: vaultSchema,
+    });
+
+    this.registerHandler('vault_withdraw', async (params) => {
+      const vault = await this.resolveVault(params);
+      const to = params.to || (await this.chainClient!.getSignerManager().getAddress());
+
+      const receipt = params.token
+        ? await vault.manager.withdrawToken(vault.agent, params.token, to, vault.amount)
+        : await vault.manager.withdrawNative(vault.agent, to, vault.amount);
+
+      return {
+        txHash: receipt.hash,
+        txReceipt: receipt,
+        agent: vault.agent,
+        to,
+        token: params.token,
+        amount: String(params.amount),
+      };
+    }, {
+      retryable: false,
+      transactions: async (params) => {
+        const vault = await this.resolveVault(params);
+        const to = params.to || (await this.chainClient!.getSignerManager().getAddress());
+        const data = params.token
+          ? SCOPED_CALLS.encodeFunctionData('withdrawToken', [
+              vault.agent,
+              params.token,
+              to,
+              vault.amount,
+            ])
+          : SCOPED_CALLS.encodeFunctionData('withdrawNative', [
+              vault.agent,
+              to,
+              vault.amount,
+            ]);
+        return [{ to: vault.manager.address, data }];
+      },
+      description:
+        'Withdraw from an AgentVault (native withdrawals count towards its daily limit)',
+      schema: vaultSchema.extend({
+        amount: amountSchema.describe('Amount in ether or token units'),
+        to: addressSchema.optional().describe('Recipient address (default: signer)'),
+      }),
+      simulate: async (params) => {
+        const vault = await this.resolveVault(params);
+        if (params.token) {
+          const balance = await vault.manager.getTokenBalance(vault.agent, params.token);
+          return { wouldWithdraw: balance >= vault.amount, balance: balance.toString() };
+        }
+
+        const info = await vault.manager.getVault(vault.agent);
+        return {
+          wouldWithdraw: info.active && vault.amount <= info.withdrawable,
+          active: info.active,
+          balance: ethers.formatEther(info.nativeBalance),
+          remainingToday: ethers.formatEther(info.dailyLimit.remaining),
+          withdrawable: ethers.formatEther(info.withdrawable),
+        };
+      },
+    });
+
+    this.registerHandler('vault_deposit', async (params) => {
+      const vault = await this.resolveVault(params);
+      const receipt = params.token
+        ? await vault.manager.depositToken(vault.agent, params.token, vault.amount)
+        : await vault.manager.depositNative(vault.agent, vault.amount);
+
+      return {
+        txHash: receipt.hash,
+        txReceipt: receipt,
+        agent: vault.agent,
+        token: params.token,
+        amount: String(params.amount),
       };
+    }, {
+      retryable: false,
+      transactions: async (params) => {
+        const vault = await this.resolveVault(params);
+        const address = vault.manager.address;
+        if (!params.token) {
+          return [
+            {
+              to: address,
+              data: SCOPED_CALLS.encodeFunctionData('depositNative', [vault.agent]),
+              value: vault.amount,
+            },
+          ];
+        }
+
+        // The vault is approved first (skipped at send time if already allowed)
+        return [
+          this.approvalTransaction(params.token, address, vault.amount),
+          {
+            to: address,
+            data: SCOPED_CALLS.encodeFunctionData('depositToken', [
+              vault.agent,
+              params.token,
+              vault.amount,
+            ]),
+          },
+        ];
+      },
+      description: 'Deposit native or ERC20 funds into an AgentVault',
+      schema: vaultSchema.extend({
+        amount: amountSchema.describe('Amount in ether or token units'),
+      }),
+    });
+
+    // Peer discovery in AgentRegistry
+    this.registerHandler('find_agents', async (params) => {
+      const discovery = this.getDiscovery();
+      await discovery.sync();
+      const agents = await discovery.find({
+        capability: params.capability,
+        active: true,
+        minSuccessRate: params.minSuccessRate,
+        sortBy: 'successRate',
+        limit: params.limit ?? 5,
+      });
+
+      return {
+        agents: agents.map((agent) => ({
+          id: agent.id.toString(),
+          name: agent.name,
+          owner: agent.owner,
+          capabilities: agent.capabilities,
+          successRate: agent.successRate,
+          totalExecutions: agent.totalExecutions,
+        })),
+      };
+    }, {
+      description: 'Find active agents in AgentRegistry with a capability, best first',
+      schema: z.object({
+        capability: z
+          .union([z.string(), z.array(z.string())])
+          .describe('Required capability (an array requires all)'),
+        minSuccessRate: z.number().optional().describe('Minimum success rate in percent'),
+        limit: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe('Max results (default: 5)'),
+      }),
     });
 
     // Contract calls
     this.registerHandler('call_contract', async (params) => {
-      if (!this.chainClient) {
-        throw new Error('ChainClient not configured');
+      const call = await this.resolveContractCall(params);
+      const method = call.fragment.format();
+
+      try {
+        // View/pure functions are read with eth_call
+        if (call.fragment.constant) {
+          const result = await call.method.staticCallResult(...call.args, call.overrides);
+          return {
+            contract: params.contract,
+            method,
+            view: true,
+            result: this.decodeOutputs(call.fragment, result),
+          };
+        }
+
+        const tx = await call.method.send(...call.args, call.overrides);
+        const receipt = await tx.wait();
+        if (!receipt) {
+          throw new Error('Contract call transaction failed');
+        }
+
+        const events = receipt.logs
+          .map((log) => call.contract.interface.parseLog(log))
+          .filter((event): event is ethers.LogDescription => event !== null)
+          .map((event) => ({ name: event.name, args: toJsonValue(event.args) }));
+
+        return {
+          contract: params.contract,
+          method,
+          view: false,
+          txHash: receipt.hash,
+          txReceipt: receipt,
+          status: receipt.status,
+          gasUsed: receipt.gasUsed.toString(),
+          events,
+        };
+      } catch (error) {
+        throw this.contractError(call, error);
       }
+    }, {
+      retryable: false,
+      transactions: async (params) => {
+        const call = await this.resolveContractCall(params);
+        if (call.fragment.constant) {
+          return [];
+        }
+        return [
+          {
+            to: params.contract,
+            data: call.contract.interface.encodeFunctionData(call.fragment, call.args),
+            value: (call.overrides as { value?: bigint }).value,
+          },
+        ];
+      },
+      description:
+        'Call a smart contract method (view methods are read, others send a transaction)',
+      schema: z
+        .object({
+          contract: addressSchema.describe('Contract address'),
+          method: z
+            .string()
+            .describe('Method name or signature, e.g. "transfer(address,uint256)"'),
+          args: z.array(z.any()).optional().describe('Method arguments'),
+          abi: abiSchema.optional(),
+          value: amountSchema
+            .optional()
+            .describe('Native value to send in ether (payable methods)'),
+          gasLimit: amountSchema.optional().describe('Gas limit override'),
+        })
+        .passthrough(),
+      simulate: async (params) => {
+        const call = await this.resolveContractCall(params);
 
-      // Placeholder - needs specific contract integration
-      return {
-        action: 'call_contract',
-        contract: params.contract,
-        method: params.method,
-        args: params.args,
-      };
+        try {
+          // eth_call runs state-changing methods without sending a transaction
+          const result = await call.method.staticCallResult(...call.args, call.overrides);
+          const gasEstimate = call.fragment.constant
+            ? undefined
+            : await call.method.estimateGas(...call.args, call.overrides);
+
+          return {
+            contract: params.contract,
+            method: call.fragment.format(),
+            view: call.fragment.constant,
+            result: this.decodeOutputs(call.fragment, result),
+            gasEstimate: gasEstimate?.toString(),
+          };
+        } catch (error) {
+          throw this.contractError(call, error);
+        }
+      },
     });
 
     // Generic execute handler
     this.registerHandler('execute', async (params) => {
       // Generic execution - just return params
       return { executed: true, params };
+    }, {
+      description: 'Generic execution (returns the params as-is)',
+      schema: z.record(z.any()),
     });
   }
 
+  /**
+   * Load the ABI for a contract call
+   * Accepts an inline ABI (array or JSON string) or a path to a JSON file
+   * (plain ABI or build artifact); without one, the verified ABI is fetched
+   * from the explorer and cached per address
+   */
+  private async loadAbi(
+    contract: string,
+    abi?: string | any[]
+  ): Promise<ethers.InterfaceAbi> {
+    if (Array.isArray(abi)) {
+      return abi;
+    }
+
+    if (typeof abi === 'string') {
+      const trimmed = abi.trim();
+      const inline = trimmed.startsWith('[') || trimmed.startsWith('{');
+      const parsed = JSON.parse(inline ? trimmed : await fs.readFile(trimmed, 'utf-8'));
+      const entries = Array.isArray(parsed) ? parsed : parsed?.abi;
+      if (!Array.isArray(entries)) {
+        throw new Error(`No ABI found in ${inline ? 'inline JSON' : trimmed}`);
+      }
+      return entries;
+    }
+
+    const key = contract.toLowerCase();
+    const cached = this.abiCache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    if (!this.chainClient) {
+      throw new Error('ChainClient not configured');
+    }
+
+    const verifier = new ContractVerifier(this.chainClient);
+    const source = await verifier.getVerifiedSource(contract);
+    let entries: unknown;
+    try {
+      entries = JSON.parse(source?.ABI);
+    } catch {
+      entries = undefined;
+    }
+    if (!Array.isArray(entries)) {
+      throw new Error(`No verified ABI for ${contract}; pass the abi param`);
+    }
+
+    this.abiCache.set(key, entries);
+    return entries;
+  }
+
+  /**
+   * Resolve the contract, method fragment, args and overrides for a contract call
+   */
+  private async resolveContractCall(params: Record<string, any>): Promise<{
+    contract: ethers.Contract;
+    method: ethers.BaseContractMethod;
+    fragment: ethers.FunctionFragment;
+    args: any[];
+    overrides: ethers.Overrides;
+  }> {
+    if (!this.chainClient) {
+      throw new Error('ChainClient not configured');
+    }
+
+    const abi = await this.loadAbi(params.contract, params.abi);
+    const contract = this.chainClient.getContract(params.contract, abi);
+    const fragment = contract.interface.getFunction(params.method);
+    if (!fragment) {
+      throw new Error(`Method ${params.method} not found in ABI of ${params.contract}`);
+    }
+
+    const overrides: ethers.Overrides & { value?: bigint } = {};
+    if (params.value !== undefined) {
+      overrides.value = ethers.parseEther(String(params.value));
+    }
+    if (params.gasLimit !== undefined) {
+      overrides.gasLimit = BigInt(params.gasLimit);
+    }
+
+    return {
+      contract,
+      method: contract.getFunction(fragment),
+      fragment,
+      args: params.args || [],
+      overrides,
+    };
+  }
+
+  /**
+   * Check the transactions an action would send against the session key in use
+   * @returns Why the session key denies the action, or undefined if it is allowed
+   */
+  private async checkSessionScopes(
+    type: string,
+    params: Record<string, any>
+  ): Promise<string | undefined> {
+    const transactions = this.handlerOptions.get(type)?.transactions;
+    const sessionKey = this.chainClient?.getSignerManager().getSessionKey();
+    if (!transactions || !sessionKey) {
+      return undefined;
+    }
+
+    for (const tx of await transactions(params)) {
+      const check = await sessionKey.checkTransaction(tx);
+      if (!check.allowed) {
+        return `Session key ${sessionKey.address} denied: ${check.reason}`;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * ERC20 approve transaction for scope checks
+   */
+  private approvalTransaction(
+    token: string,
+    spender: string,
+    amount: bigint
+  ): ethers.TransactionRequest {
+    return {
+      to: token,
+      data: SCOPED_CALLS.encodeFunctionData('approve', [spender, amount]),
+    };
+  }
+
+  /**
+   * Decode call outputs: a single value, an object keyed by output names, or an array
+   */
+  private decodeOutputs(fragment: ethers.FunctionFragment, result: ethers.Result): any {
+    if (fragment.outputs.length === 1) {
+      return toJsonValue(result[0]);
+    }
+    if (fragment.outputs.length > 0 && fragment.outputs.every((output) => output.name)) {
+      return Object.fromEntries(
+        fragment.outputs.map((output, index) => [output.name, toJsonValue(result[index])])
+      );
+    }
+    return toJsonValue(result);
+  }
+
+  /**
+   * Turn a failed contract call into an error with the decoded revert reason
+   * Custom errors are decoded with the contract ABI when the provider left them undecoded
+   */
+  private contractError(
+    call: { contract: ethers.Contract; fragment: ethers.FunctionFragment },
+    error: unknown
+  ): Error {
+    const callError = error as ethers.CallExceptionError;
+    if (callError?.code !== 'CALL_EXCEPTION') {
+      return error instanceof Error ? error : new Error(String(error));
+    }
+
+    let revert = callError.revert;
+    if (!revert && callError.data) {
+      const parsed = call.contract.interface.parseError(callError.data);
+      if (parsed) {
+        revert = { name: parsed.name, signature: parsed.signature, args: parsed.args };
+      }
+    }
+
+    let reason = callError.reason || 'execution reverted';
+    if (!callError.reason && revert) {
+      const args = Array.from(revert.args, (arg) => String(arg)).join(', ');
+      reason = `${revert.name}(${args})`;
+    }
+    return new Error(`${call.fragment.name} reverted: ${reason}`);
+  }
+
+  /**
+   * Resolve the swap provider and raw amounts for a swap action
+   * Amounts are parsed with the input token's decimals
+   */
+  private async resolveSwap(params: Record<string, any>): Promise<{
+    provider: SwapProvider;
+    erc20: ERC20Manager;
+    decimalsIn: number;
+    decimalsOut: number;
+    request: SwapQuoteParams;
+  }> {
+    if (!this.chainClient) {
+      throw new Error('ChainClient not configured');
+    }
+    const provider = this.config.swapProvider;
+    if (!provider) {
+      throw new Error('Swap provider not configured (see Executor.setSwapProvider)');
+    }
+
+    const erc20 = new ERC20Manager(this.chainClient);
+    const [decimalsIn, decimalsOut] = await Promise.all([
+      erc20.decimals(params.tokenIn),
+      erc20.decimals(params.tokenOut),
+    ]);
+
+    return {
+      provider,
+      erc20,
+      decimalsIn,
+      decimalsOut,
+      request: {
+        tokenIn: params.tokenIn,
+        tokenOut: params.tokenOut,
+        amountIn: ERC20Manager.parseAmount(String(params.amountIn), decimalsIn),
+        slippageBps: params.slippageBps,
+        path: params.path,
+      },
+    };
+  }
+
+  /**
+   * Format a swap quote with token-unit and raw amounts
+   */
+  private formatQuote(
+    quote: SwapQuote,
+    decimalsIn: number,
+    decimalsOut: number
+  ): Record<string, any> {
+    const amountIn = ERC20Manager.formatAmount(quote.amountIn, decimalsIn);
+    const amountOut = ERC20Manager.formatAmount(quote.amountOut, decimalsOut);
+
+    return {
+      provider: quote.provider,
+      tokenIn: quote.tokenIn,
+      tokenOut: quote.tokenOut,
+      path: quote.path,
+      amountIn,
+      amountInRaw: quote.amountIn.toString(),
+      amountOut,
+      amountOutRaw: quote.amountOut.toString(),
+      amountOutMin: ERC20Manager.formatAmount(quote.amountOutMin, decimalsOut),
+      amountOutMinRaw: quote.amountOutMin.toString(),
+      rate: Number(amountOut) / Number(amountIn),
+      slippageBps: quote.slippageBps,
+      priceImpactBps: quote.priceImpactBps,
+    };
+  }
+
+  /**
+   * Read the state an approve_token action depends on
+   * Amounts are parsed with the token's decimals; "max"/"unlimited" approve MaxUint256
+   */
+  private async resolveApproval(params: Record<string, any>): Promise<{
+    erc20: ERC20Manager;
+    owner: string;
+    spender: string;
+    decimals: number;
+    amount: bigint;
+    allowance: bigint;
+  }> {
+    if (!this.chainClient) {
+      throw new Error('ChainClient not configured');
+    }
+
+    const spender = params.spender || this.config.swapProvider?.spender;
+    if (!spender) {
+      throw new Error('Spender is required when no swap provider is configured');
+    }
+
+    const erc20 = new ERC20Manager(this.chainClient);
+    const owner = await this.chainClient.getSignerManager().getAddress();
+    const [decimals, allowance] = await Promise.all([
+      erc20.decimals(params.token),
+      erc20.allowance(params.token, owner, spender),
+    ]);
+
+    const amount = ['max', 'unlimited'].includes(String(params.amount).toLowerCase())
+      ? ethers.MaxUint256
+      : ERC20Manager.parseAmount(String(params.amount), decimals);
+
+    return { erc20, owner, spender, decimals, amount, allowance };
+  }
+
+  /**
+   * Resolve the vault manager, agent and raw amount for a vault action
+   * Native amounts are in ether, token amounts are parsed with the token's decimals
+   */
+  private async resolveVault(params: Record<string, any>): Promise<{
+    manager: VaultManager;
+    agent: string;
+    amount: bigint;
+  }> {
+    if (!this.chainClient) {
+      throw new Error('ChainClient not configured');
+    }
+    const address = this.contracts?.getAddresses().agentVault;
+    if (!address) {
+      throw new Error('AgentVault contract not configured');
+    }
+
+    const manager = new VaultManager(this.chainClient, address);
+    const agent =
+      params.agent || (await this.chainClient.getSignerManager().getAddress());
+
+    let amount = 0n;
+    if (params.amount !== undefined) {
+      amount = params.token
+        ? ERC20Manager.parseAmount(
+            String(params.amount),
+            await new ERC20Manager(this.chainClient).decimals(params.token)
+          )
+        : ethers.parseEther(String(params.amount));
+    }
+
+    return { manager, agent, amount };
+  }
+
+  /**
+   * Discovery index over the configured AgentRegistry (kept in memory)
+   */
+  private getDiscovery(): AgentDiscovery {
+    if (!this.chainClient) {
+      throw new Error('ChainClient not configured');
+    }
+    const address = this.contracts?.getAddresses().agentRegistry;
+    if (!address) {
+      throw new Error('AgentRegistry contract not configured');
+    }
+
+    if (!this.discovery) {
+      this.discovery = new AgentDiscovery(this.chainClient, address);
+    }
+    return this.discovery;
+  }
+
   /**
    * Sleep utility
    */
@@ -1,12 +1,18 @@
 /**
  * Runtime module exports
- * Agent lifecycle, planning, execution, triggers, storage, policies, memory, and context
+ * Agent lifecycle, planning, execution, scheduling, triggers, storage, retention, policies, approvals, memory, vector stores, context, and task workers
  */
 
 export * from './agent';
 export * from './planner';
 export * from './executor';
+export * from './scheduler';
 export * from './trigger';
 export * from './policy';
+export * from './approval';
 export * from './memoryManager';
 export * from './storage';
+export * from './retention';
+export * from './taskWorker';
+export * from './vectorStore';
+export * from './sqlite';
@@ -12,10 +12,18 @@ import type {
   MemoryBackend,
   MemoryFilter,
   MemoryConfig,
+  MemorySearchResult,
+  Embedder,
+  VectorMatch,
+  VectorStore,
 } from '../types/memory';
+import type { LLMAdapter } from '../types/llm';
+import { estimateValueTokens } from '../utils/tokens';
+import { InMemoryVectorStore } from './vectorStore';
 
 // Re-export types for backward compatibility
 export { MemoryType, MemoryEntry, MemoryBackend, MemoryFilter, MemoryConfig };
+export { MemorySearchResult, Embedder };
 
 // =============================================================================
 // In-Memory Backend
@@ -67,6 +75,22 @@ export class InMemoryBackend implements MemoryBackend {
     const entries = this.storage.get(sessionId) || [];
     return entries.length;
   }
+
+  async listSessions(): Promise<string[]> {
+    return [...this.storage.keys()];
+  }
+
+  async delete(sessionId: string, ids: string[]): Promise<void> {
+    const removed = new Set(ids);
+    const entries = (this.storage.get(sessionId) ?? []).filter(
+      (entry) => !removed.has(entry.id)
+    );
+    if (entries.length > 0) {
+      this.storage.set(sessionId, entries);
+    } else {
+      this.storage.delete(sessionId);
+    }
+  }
 }
 
 // =============================================================================
@@ -79,6 +103,7 @@ export class InMemoryBackend implements MemoryBackend {
 export class FileBackend implements MemoryBackend {
   private basePath: string;
   private initialized: boolean = false;
+  private updates: Map<string, Promise<void>> = new Map();
 
   constructor(basePath: string = './data/memory') {
     this.basePath = basePath;
@@ -94,22 +119,57 @@ export class FileBackend implements MemoryBackend {
     return path.join(this.basePath, `${sessionId}.json`);
   }
 
-  async save(entry: MemoryEntry): Promise<void> {
+  /**
+   * Read-modify-write a session file
+   * Updates of one session run one at a time, and the file is replaced atomically.
+   */
+  private async update(
+    sessionId: string,
+    change: (entries: MemoryEntry[]) => MemoryEntry[]
+  ): Promise<void> {
+    const run = () => this.rewrite(sessionId, change);
+    const previous = this.updates.get(sessionId) ?? Promise.resolve();
+    const next = previous.then(run, run);
+
+    this.updates.set(sessionId, next);
+    try {
+      await next;
+    } finally {
+      if (this.updates.get(sessionId) === next) {
+        this.updates.delete(sessionId);
+      }
+    }
+  }
+
+  private async rewrite(
+    sessionId: string,
+    change: (entries: MemoryEntry[]) => MemoryEntry[]
+  ): Promise<void> {
     await this.init();
-    const filePath = this.getFilePath(entry.sessionId);
+    const filePath = this.getFilePath(sessionId);
 
     let entries: MemoryEntry[] = [];
     try {
-      const data = await fs.readFile(filePath, 'utf-8');
-      entries = JSON.parse(data);
+      entries = JSON.parse(await fs.readFile(filePath, 'utf-8'));
     } catch (error: any) {
       if (error.code !== 'ENOENT') {
         throw error;
       }
     }
 
-    entries.push(entry);
-    await fs.writeFile(filePath, JSON.stringify(entries, null, 2), 'utf-8');
+    entries = change(entries);
+    if (entries.length === 0) {
+      await fs.rm(filePath, { force: true });
+      return;
+    }
+
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(entries, null, 2), 'utf-8');
+    await fs.rename(tmpPath, filePath);
+  }
+
+  async save(entry: MemoryEntry): Promise<void> {
+    await this.update(entry.sessionId, (entries) => [...entries, entry]);
   }
 
   async load(sessionId: string, filter?: MemoryFilter): Promise<MemoryEntry[]> {
@@ -173,6 +233,21 @@ export class FileBackend implements MemoryBackend {
     const entries = await this.load(sessionId);
     return entries.length;
   }
+
+  async listSessions(): Promise<string[]> {
+    await this.init();
+    const files = await fs.readdir(this.basePath);
+    return files
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => file.slice(0, -'.json'.length));
+  }
+
+  async delete(sessionId: string, ids: string[]): Promise<void> {
+    const removed = new Set(ids);
+    await this.update(sessionId, (entries) =>
+      entries.filter((entry) => !removed.has(entry.id))
+    );
+  }
 }
 
 // =============================================================================
@@ -186,17 +261,27 @@ export class FileBackend implements MemoryBackend {
 export class Memory {
   private backend: MemoryBackend;
   private sessionId: string;
-  private config: Required<MemoryConfig>;
+  private config: Required<Omit<MemoryConfig, 'embedder' | 'vectorStore' | 'llm'>>;
+  private embedder?: Embedder;
+  private vectorStore: VectorStore;
+  private llm?: LLMAdapter;
 
   constructor(config: MemoryConfig = {}) {
     this.backend = config.backend || new InMemoryBackend();
     this.sessionId = config.sessionId || this.generateSessionId();
+    this.embedder = config.embedder;
+    this.vectorStore = config.vectorStore || new InMemoryVectorStore();
+    this.llm = config.llm;
+    const maxEntries = config.maxEntries || 100;
     this.config = {
       backend: this.backend,
       sessionId: this.sessionId,
       maxTokens: config.maxTokens || 4000,
-      maxEntries: config.maxEntries || 100,
+      maxEntries,
       summarizeOld: config.summarizeOld || false,
+      recencyWeight: config.recencyWeight ?? 0.3,
+      keepRecent: config.keepRecent ?? Math.max(1, Math.floor(maxEntries / 2)),
+      summaryMaxTokens: config.summaryMaxTokens || 500,
     };
   }
 
@@ -227,6 +312,11 @@ export class Memory {
 
     await this.backend.save(entry);
 
+    // Entries that fail to embed are embedded by the next search instead
+    if (this.embedder) {
+      await this.embedEntry(entry).catch(() => undefined);
+    }
+
     // Check if we need to cleanup old entries
     const count = await this.backend.count(this.sessionId);
     if (count > this.config.maxEntries) {
@@ -259,12 +349,18 @@ export class Memory {
 
   /**
    * Get context for LLM
-   * Builds a context string from recent memories within token limit
+   * Builds a context string from recent memories within token limit.
+   * With a query (and an embedder), entries are picked by a mix of relevance to
+   * the query and recency instead, and listed in chronological order.
    */
-  async getContext(maxTokens?: number): Promise<string> {
+  async getContext(maxTokens?: number, query?: string): Promise<string> {
     const limit = maxTokens || this.config.maxTokens;
     const entries = await this.getHistory();
 
+    if (query && this.embedder && entries.length > 0) {
+      return this.getHybridContext(entries, query, limit);
+    }
+
     const contextParts: string[] = [];
     let totalTokens = 0;
 
@@ -298,6 +394,23 @@ export class Memory {
     return `[${timestamp}] [${entry.type.toUpperCase()}]\n${content}`;
   }
 
+  /**
+   * Search memories by meaning
+   * Entries not embedded yet are embedded first.
+   * @param query Text to search for
+   * @param k Max results
+   * @returns Most similar entries first
+   */
+  async search(query: string, k: number = 5): Promise<MemorySearchResult[]> {
+    const entries = await this.getHistory();
+    const byId = new Map(entries.map((entry) => [entry.id, entry]));
+    const matches = await this.searchVectors(entries, query, k);
+
+    return matches
+      .filter((match) => byId.has(match.id))
+      .map((match) => ({ entry: byId.get(match.id)!, score: match.score }));
+  }
+
   /**
    * Get memory history
    */
@@ -324,6 +437,8 @@ export class Memory {
    */
   async clear(): Promise<void> {
     await this.backend.clear(this.sessionId);
+    await this.backend.clear(this.getArchiveSessionId());
+    await this.vectorStore.clear(this.sessionId);
   }
 
   /**
@@ -331,6 +446,7 @@ export class Memory {
    */
   async clearAll(): Promise<void> {
     await this.backend.clear();
+    await this.vectorStore.clear();
   }
 
   /**
@@ -354,33 +470,258 @@ export class Memory {
     this.sessionId = sessionId;
   }
 
+  /**
+   * Compact memory
+   * Summarizes all but the keepRecent newest entries with the LLM, in chunks that
+   * fit maxTokens. Summaries are 'system' entries whose metadata.summarizes lists
+   * the IDs of the entries they replace; those move to the session archive.
+   * @returns Created summary entries
+   */
+  async compact(): Promise<MemoryEntry[]> {
+    if (!this.llm) {
+      throw new Error('Memory compaction requires an LLM adapter');
+    }
+
+    const entries = await this.getHistory();
+    const old = entries.slice(0, Math.max(0, entries.length - this.config.keepRecent));
+    if (old.length === 0) {
+      return [];
+    }
+
+    const summaries: MemoryEntry[] = [];
+    for (const chunk of this.chunkByTokens(old, this.config.maxTokens)) {
+      summaries.push(await this.summarizeEntries(chunk));
+    }
+
+    // Archive originals, then replace them with their summaries
+    const archiveId = this.getArchiveSessionId();
+    for (const entry of old) {
+      await this.backend.save({ ...entry, sessionId: archiveId });
+    }
+    await this.backend.clear(this.sessionId);
+    await this.vectorStore.delete(
+      this.sessionId,
+      old.map((entry) => entry.id)
+    );
+    for (const entry of [...summaries, ...entries.slice(old.length)]) {
+      await this.backend.save(entry);
+    }
+
+    if (this.embedder) {
+      for (const summary of summaries) {
+        await this.embedEntry(summary).catch(() => undefined);
+      }
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Get the original entries a summary replaced
+   * @param summaryId ID of a summary entry (current or archived)
+   * @returns Archived originals in chronological order
+   */
+  async getOriginals(summaryId: string): Promise<MemoryEntry[]> {
+    const archived = await this.backend.load(this.getArchiveSessionId());
+    const summary = [...(await this.getHistory()), ...archived].find(
+      (entry) => entry.id === summaryId
+    );
+    const ids = new Set<string>(summary?.metadata?.summarizes ?? []);
+
+    return archived.filter((entry) => ids.has(entry.id));
+  }
+
   /**
    * Cleanup old entries
-   * Keeps only the most recent maxEntries
+   * Compacts them into summaries when summarizeOld is set and an LLM is configured,
+   * otherwise keeps only the most recent maxEntries
    */
   private async cleanup(): Promise<void> {
     const entries = await this.getHistory();
+
+    if (this.config.summarizeOld && this.llm) {
+      try {
+        await this.compact();
+        return;
+      } catch (error) {
+        // Retried on the next add; entries are only dropped once far past the limit
+        if (entries.length <= this.config.maxEntries * 2) {
+          return;
+        }
+      }
+    }
+
     const toKeep = entries.slice(-this.config.maxEntries);
+    const removed = entries.slice(0, entries.length - toKeep.length);
 
-    // Clear and re-add
-    await this.clear();
+    // Clear and re-add (embeddings of kept entries stay)
+    await this.backend.clear(this.sessionId);
+    await this.vectorStore.delete(
+      this.sessionId,
+      removed.map((entry) => entry.id)
+    );
     for (const entry of toKeep) {
       await this.backend.save(entry);
     }
   }
 
+  /**
+   * Pick entries by relevance and recency within the token limit
+   */
+  private async getHybridContext(
+    entries: MemoryEntry[],
+    query: string,
+    limit: number
+  ): Promise<string> {
+    const matches = await this.searchVectors(entries, query, entries.length);
+    const relevance = new Map(matches.map((match) => [match.id, match.score]));
+    const weight = this.config.recencyWeight;
+
+    // Recency goes linearly from 0 (oldest) to 1 (newest)
+    const ranked = entries
+      .map((entry, index) => ({
+        entry,
+        index,
+        score:
+          (1 - weight) * (relevance.get(entry.id) ?? 0) +
+          weight * (entries.length > 1 ? index / (entries.length - 1) : 1),
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    const selected: typeof ranked = [];
+    let totalTokens = 0;
+    for (const item of ranked) {
+      const entryTokens = item.entry.tokens || this.estimateTokens(item.entry.content);
+      if (totalTokens + entryTokens > limit) {
+        continue; // A smaller, less relevant entry may still fit
+      }
+      selected.push(item);
+      totalTokens += entryTokens;
+    }
+
+    return selected
+      .sort((a, b) => a.index - b.index)
+      .map((item) => this.formatEntry(item.entry))
+      .join('\n\n');
+  }
+
+  /**
+   * Embed the query and missing entries, then search the vector store
+   */
+  private async searchVectors(
+    entries: MemoryEntry[],
+    query: string,
+    k: number
+  ): Promise<VectorMatch[]> {
+    if (!this.embedder) {
+      throw new Error('Semantic memory search requires an embedder');
+    }
+
+    for (const entry of entries) {
+      if (!(await this.vectorStore.has(this.sessionId, entry.id))) {
+        await this.embedEntry(entry);
+      }
+    }
+
+    const vector = await this.embedder.embed(query);
+    return this.vectorStore.search(this.sessionId, vector, k);
+  }
+
+  /**
+   * Summarize entries into one 'system' entry linking back to them
+   */
+  private async summarizeEntries(entries: MemoryEntry[]): Promise<MemoryEntry> {
+    const prompt = [
+      'Summarize these agent memory entries for long-term recall.',
+      'Keep facts, decisions, amounts, addresses, transaction hashes and outcomes.',
+      'Leave out small talk and repeated information.',
+      '',
+      entries.map((entry) => this.formatEntry(entry)).join('\n\n'),
+    ].join('\n');
+
+    const response = await this.llm!.generate(prompt, {
+      maxTokens: this.config.summaryMaxTokens,
+      temperature: 0.2,
+    });
+    const content = response.content.trim();
+    if (!content) {
+      throw new Error('LLM returned an empty memory summary');
+    }
+
+    const first = entries[0];
+    const last = entries[entries.length - 1];
+    return {
+      id: `mem-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      sessionId: this.sessionId,
+      type: 'system',
+      content,
+      timestamp: last.timestamp,
+      tokens: this.estimateTokens(content),
+      metadata: {
+        summary: true,
+        summarizes: entries.map((entry) => entry.id),
+        fromTimestamp: first.timestamp,
+        toTimestamp: last.timestamp,
+      },
+    };
+  }
+
+  /**
+   * Split entries into consecutive chunks of at most maxTokens
+   * (an entry larger than that gets a chunk of its own)
+   */
+  private chunkByTokens(entries: MemoryEntry[], maxTokens: number): MemoryEntry[][] {
+    const chunks: MemoryEntry[][] = [];
+    let chunk: MemoryEntry[] = [];
+    let chunkTokens = 0;
+
+    for (const entry of entries) {
+      const entryTokens = entry.tokens || this.estimateTokens(entry.content);
+      if (chunk.length > 0 && chunkTokens + entryTokens > maxTokens) {
+        chunks.push(chunk);
+        chunk = [];
+        chunkTokens = 0;
+      }
+      chunk.push(entry);
+      chunkTokens += entryTokens;
+    }
+    if (chunk.length > 0) {
+      chunks.push(chunk);
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Session holding entries replaced by summaries
+   */
+  private getArchiveSessionId(): string {
+    return `${this.sessionId}.archive`;
+  }
+
+  private async embedEntry(entry: MemoryEntry): Promise<void> {
+    const text =
+      typeof entry.content === 'string' ? entry.content : JSON.stringify(entry.content);
+
+    await this.vectorStore.upsert({
+      id: entry.id,
+      sessionId: entry.sessionId,
+      vector: await this.embedder!.embed(text),
+      timestamp: entry.timestamp,
+    });
+  }
+
   /**
    * Estimate token count
-   * Rough estimate: ~4 characters per token
    */
   private estimateTokens(content: any): number {
-    const text = typeof content === 'string' ? content : JSON.stringify(content);
-    return Math.ceil(text.length / 4);
+    return estimateValueTokens(content);
   }
 
   /**
    * Summarize memory
-   * Returns a summary of the conversation history
+   * Returns an LLM summary of the history when an LLM is configured, otherwise
+   * session statistics
    */
   async summarize(): Promise<string> {
     const entries = await this.getHistory();
@@ -389,6 +730,10 @@ export class Memory {
       return 'No memory entries to summarize.';
     }
 
+    if (this.llm) {
+      return (await this.summarizeEntries(entries)).content;
+    }
+
     const summary: string[] = [
       `Session: ${this.sessionId}`,
       `Total entries: ${entries.length}`,
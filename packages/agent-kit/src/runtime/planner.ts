@@ -4,16 +4,24 @@
  * Includes rule-based and LLM-based planning strategies
  */
 
-import type { OpenAIAdapter } from '../llm/adapters/openaiAdapter';
-import type { OllamaAdapter } from '../llm/adapters/ollamaAdapter';
-import { ACTION_PLANNER_PROMPT, buildPrompt } from '../llm/prompt';
+import {
+  ACTION_PLANNER_PROMPT,
+  DEFAULT_PLANNER_ACTIONS,
+  TOOL_PLANNER_PROMPT,
+  buildPrompt,
+} from '../llm/prompt';
 import { z } from 'zod';
-import type { PlanStep, ExecutionPlan } from './executor';
+import type { Executor, PlanStep, ExecutionPlan } from './executor';
+import { orderSteps } from './scheduler';
 
 // Import types from centralized location
 import type {
   Action,
   ActionPlan,
+  LLMAdapter,
+  LLMResponse,
+  Message,
+  ToolDefinition,
 } from '../types/llm';
 import { ActionType, TaskPriority, TaskStatus } from '../types/llm';
 
@@ -34,12 +42,15 @@ export { ActionType, TaskPriority, TaskStatus };
 export const ActionSchema = z.object({
   type: z.string(),
   params: z.record(z.any()),
+  id: z.string().optional(),
+  dependencies: z.array(z.string()).optional(),
 });
 
 /**
  * Zod schema for ActionPlan validation
  */
 export const ActionPlanSchema = z.object({
+  id: z.string().optional(),
   type: z.union([
     z.nativeEnum(ActionType),
     z.string(),
@@ -122,9 +133,11 @@ export function validateActionPlans(actionPlans: any[]): actionPlans is ActionPl
  */
 export function actionToActionPlan(action: Action, reason: string = 'Action from plan'): ActionPlan {
   return {
+    ...(action.id && { id: action.id }),
     type: action.type,
     params: action.params,
     reason,
+    ...(action.dependencies && { dependencies: action.dependencies }),
   };
 }
 
@@ -135,6 +148,8 @@ export function actionPlanToAction(actionPlan: ActionPlan): Action {
   return {
     type: actionPlan.type,
     params: actionPlan.params,
+    ...(actionPlan.id && { id: actionPlan.id }),
+    ...(actionPlan.dependencies && { dependencies: actionPlan.dependencies }),
   };
 }
 
@@ -244,13 +259,21 @@ export class Planner {
         steps.push({
           id: 'step-1',
           action: 'get_quote',
-          params: { from: taskData.tokenIn, to: taskData.tokenOut },
+          params: {
+            tokenIn: taskData.tokenIn,
+            tokenOut: taskData.tokenOut,
+            amountIn: taskData.amountIn,
+          },
           dependencies: [],
         });
         steps.push({
           id: 'step-2',
           action: 'approve_token',
-          params: { token: taskData.tokenIn, amount: taskData.amountIn },
+          params: {
+            token: taskData.tokenIn,
+            spender: taskData.spender || taskData.router,
+            amount: taskData.amountIn,
+          },
           dependencies: ['step-1'],
         });
         steps.push({
@@ -272,7 +295,13 @@ export class Planner {
         steps.push({
           id: 'step-2',
           action: 'estimate_gas',
-          params: { contract: taskData.contract, method: taskData.method },
+          params: {
+            contract: taskData.contract,
+            method: taskData.method,
+            args: taskData.args,
+            abi: taskData.abi,
+            value: taskData.value,
+          },
           dependencies: ['step-1'],
         });
         steps.push({
@@ -367,39 +396,8 @@ export class Planner {
       throw new Error(`Plan exceeds maximum steps: ${this.config.maxSteps}`);
     }
 
-    // Check for circular dependencies
-    const visited = new Set<string>();
-    const recursionStack = new Set<string>();
-
-    const hasCycle = (stepId: string): boolean => {
-      if (recursionStack.has(stepId)) {
-        return true;
-      }
-      if (visited.has(stepId)) {
-        return false;
-      }
-
-      visited.add(stepId);
-      recursionStack.add(stepId);
-
-      const step = steps.find((s) => s.id === stepId);
-      if (step) {
-        for (const dep of step.dependencies) {
-          if (hasCycle(dep)) {
-            return true;
-          }
-        }
-      }
-
-      recursionStack.delete(stepId);
-      return false;
-    };
-
-    for (const step of steps) {
-      if (hasCycle(step.id)) {
-        throw new Error('Circular dependency detected in plan');
-      }
-    }
+    // Check for duplicate IDs and circular dependencies
+    orderSteps(steps);
   }
 
   /**
@@ -465,6 +463,8 @@ export class Planner {
     return steps.map((step) => ({
       type: step.action,
       params: step.params,
+      id: step.id,
+      dependencies: step.dependencies,
     }));
   }
 }
@@ -545,7 +545,11 @@ export class RulePlanner implements IPlanner {
         });
         actions.push({
           type: 'approve_token',
-          params: { token: taskData.tokenIn, amount: taskData.amountIn },
+          params: {
+            token: taskData.tokenIn,
+            spender: taskData.spender || taskData.router,
+            amount: taskData.amountIn,
+          },
         });
         actions.push({
           type: 'execute_swap',
@@ -564,6 +568,8 @@ export class RulePlanner implements IPlanner {
             contract: taskData.contract,
             method: taskData.method,
             args: taskData.args,
+            abi: taskData.abi,
+            value: taskData.value,
           },
         });
         actions.push({
@@ -612,23 +618,45 @@ export interface LLMPlannerOptions {
   maxTokens?: number;
   strictValidation?: boolean;  // Throw error on invalid actions (default: false)
   returnActionPlan?: boolean;  // Return ActionPlan[] instead of Action[] (default: false)
+  executor?: Executor;  // Offer the executor's registered handlers as tools
+  tools?: ToolDefinition[];  // Explicit tools (takes precedence over executor)
+}
+
+/**
+ * Short type label for a JSON Schema (e.g. "string", "string | number", "array")
+ */
+function describeSchemaType(schema: Record<string, any>): string {
+  if (schema.anyOf) {
+    return schema.anyOf.map(describeSchemaType).join(' | ');
+  }
+  if (schema.enum) {
+    return schema.enum.map((value: any) => JSON.stringify(value)).join(' | ');
+  }
+  if (schema.const !== undefined) {
+    return JSON.stringify(schema.const);
+  }
+  return schema.type || 'any';
 }
 
 /**
  * LLM-based planner that uses AI to generate action plans
  */
 export class LLMPlanner implements IPlanner {
-  private llm: OpenAIAdapter | OllamaAdapter;
+  private llm: LLMAdapter;
   private systemPrompt: string;
-  private options: Required<LLMPlannerOptions>;
+  private customSystemPrompt: boolean;
+  private options: Required<Omit<LLMPlannerOptions, 'executor' | 'tools'>>;
+  private executor?: Executor;
+  private tools?: ToolDefinition[];
 
   constructor(
-    llm: OpenAIAdapter | OllamaAdapter,
+    llm: LLMAdapter,
     options?: LLMPlannerOptions
   ) {
     this.llm = llm;
     // Use ACTION_PLANNER_PROMPT template by default
     this.systemPrompt = options?.systemPrompt || ACTION_PLANNER_PROMPT.template;
+    this.customSystemPrompt = !!options?.systemPrompt;
     this.options = {
       systemPrompt: this.systemPrompt,
       temperature: options?.temperature ?? 0.3,
@@ -636,13 +664,29 @@ export class LLMPlanner implements IPlanner {
       strictValidation: options?.strictValidation ?? false,
       returnActionPlan: options?.returnActionPlan ?? false,
     };
+    this.executor = options?.executor;
+    this.tools = options?.tools;
   }
 
   /**
    * Plan actions using LLM
+   * Uses native tool calling when tools are configured and the adapter supports chat
    */
   async plan(goal: any, context?: any): Promise<Action[]> {
     try {
+      const tools = this.getTools();
+      if (tools.length > 0 && this.llm.chat) {
+        const response = await this.chatWithTools(goal, context, tools);
+        if (response.toolCalls?.length) {
+          return this.parseToolCalls(response, tools).map(({ type, params }) => ({
+            type,
+            params,
+          }));
+        }
+        // Model answered in text; fall back to JSON extraction
+        return this.parseResponse(response.content);
+      }
+
       // Build prompt
       const prompt = this.buildPrompt(goal, context);
 
@@ -674,6 +718,15 @@ export class LLMPlanner implements IPlanner {
    */
   async planWithReason(goal: any, context?: any): Promise<ActionPlan[]> {
     try {
+      const tools = this.getTools();
+      if (tools.length > 0 && this.llm.chat) {
+        const response = await this.chatWithTools(goal, context, tools);
+        if (response.toolCalls?.length) {
+          return this.parseToolCalls(response, tools);
+        }
+        return this.parseResponseToActionPlan(response.content);
+      }
+
       // Build prompt
       const prompt = this.buildPrompt(goal, context);
 
@@ -701,21 +754,105 @@ export class LLMPlanner implements IPlanner {
   }
 
   /**
-   * Build prompt for LLM
+   * Get tools to offer the model (explicit tools, else executor handlers)
    */
-  private buildPrompt(goal: any, context?: any): string {
-    let prompt = `${this.systemPrompt}\n\n`;
+  private getTools(): ToolDefinition[] {
+    return this.tools || this.executor?.getToolDefinitions() || [];
+  }
 
-    // Add goal
-    if (typeof goal === 'string') {
-      prompt += `Goal: ${goal}\n`;
-    } else {
-      prompt += `Goal: ${JSON.stringify(goal, null, 2)}\n`;
+  /**
+   * Ask the model to plan by calling tools
+   */
+  private async chatWithTools(
+    goal: any,
+    context: any,
+    tools: ToolDefinition[]
+  ): Promise<LLMResponse> {
+    const messages: Message[] = [];
+
+    // The default JSON-array prompt conflicts with tool calling; only send custom prompts
+    if (this.customSystemPrompt) {
+      messages.push({ role: 'system', content: this.systemPrompt });
+    }
+
+    messages.push({
+      role: 'user',
+      content: buildPrompt(
+        TOOL_PLANNER_PROMPT.template,
+        {
+          goal: typeof goal === 'string' ? goal : JSON.stringify(goal, null, 2),
+          context: context ? JSON.stringify(context, null, 2) : undefined,
+        },
+        { sanitize: false }
+      ),
+    });
+
+    return this.llm.chat!(messages, {
+      temperature: this.options.temperature,
+      maxTokens: this.options.maxTokens,
+      tools,
+      toolChoice: 'auto',
+    });
+  }
+
+  /**
+   * Convert tool calls into ActionPlans, in call order
+   * Calls to tools that were not offered are skipped (or throw in strict mode)
+   */
+  private parseToolCalls(response: LLMResponse, tools: ToolDefinition[]): ActionPlan[] {
+    const toolNames = new Set(tools.map((tool) => tool.name));
+    const reason = response.content?.trim() || 'Tool call from LLM';
+    const actionPlans: ActionPlan[] = [];
+
+    for (const call of response.toolCalls || []) {
+      if (!toolNames.has(call.name)) {
+        const message = `Unknown tool called, skipping: ${call.name}`;
+        if (this.options.strictValidation) {
+          throw new Error(message);
+        }
+        console.warn(message);
+        continue;
+      }
+
+      const actionPlan: ActionPlan = {
+        type: call.name,
+        params: call.arguments,
+        reason,
+        metadata: { toolCallId: call.id },
+      };
+
+      if (validateActionPlan(actionPlan)) {
+        actionPlans.push(actionPlan);
+      } else if (this.options.strictValidation) {
+        throw new Error(`Invalid tool call arguments: ${JSON.stringify(call)}`);
+      }
     }
 
-    // Add context if provided
-    if (context) {
-      prompt += `\nContext: ${JSON.stringify(context, null, 2)}\n`;
+    return actionPlans;
+  }
+
+  /**
+   * Build prompt for LLM
+   */
+  private buildPrompt(goal: any, context?: any): string {
+    const goalText = typeof goal === 'string' ? goal : JSON.stringify(goal, null, 2);
+    const contextText = context ? JSON.stringify(context, null, 2) : undefined;
+
+    // Fill template placeholders ({{actions}}, {{goal}}, {{context}})
+    let prompt = buildPrompt(
+      this.systemPrompt,
+      { goal: goalText, context: contextText, actions: this.describeActions() },
+      { sanitize: false }
+    );
+    prompt += '\n\n';
+
+    // Custom prompts without placeholders get goal and context appended
+    if (!this.systemPrompt.includes('{{goal}}')) {
+      prompt += `Goal: ${goalText}\n`;
+
+      if (contextText) {
+        prompt += `\nContext: ${contextText}\n`;
+      }
     }
 
     prompt += `\nGenerate the action plan as a JSON array:`;
@@ -723,6 +860,38 @@ export class LLMPlanner implements IPlanner {
     return prompt;
   }
 
+  /**
+   * Describe available actions and their params for the prompt
+   * Uses the executor catalogue (or explicit tools), else the built-in list
+   */
+  private describeActions(): string {
+    const tools = this.getTools();
+    if (tools.length === 0) {
+      return DEFAULT_PLANNER_ACTIONS;
+    }
+
+    return tools
+      .map((tool) => {
+        const properties: Record<string, any> = tool.parameters?.properties || {};
+        const required: string[] = tool.parameters?.required || [];
+        const params = Object.entries(properties).map(([name, schema]) => {
+          const optional = required.includes(name) ? '' : '?';
+          const description = schema.description ? ` (${schema.description})` : '';
+          return `${name}${optional}: ${describeSchemaType(schema)}${description}`;
+        });
+
+        let line = `- ${tool.name}`;
+        if (tool.description) {
+          line += `: ${tool.description}`;
+        }
+        if (params.length > 0) {
+          line += `\n  params: ${params.join(', ')}`;
+        }
+        return line;
+      })
+      .join('\n');
+  }
+
   /**
    * Parse LLM response into actions with zod validation
    */
@@ -771,6 +940,8 @@ export class LLMPlanner implements IPlanner {
           const action: Action = {
             type: String(item.type),
             params: item.params || {},
+            ...(item.id !== undefined && { id: String(item.id) }),
+            ...(item.dependencies !== undefined && { dependencies: item.dependencies }),
           };
 
           // Validate with zod
@@ -869,6 +1040,7 @@ export class LLMPlanner implements IPlanner {
       for (const item of parsed) {
         if (item && typeof item === 'object' && item.type) {
           const actionPlan: ActionPlan = {
+            ...(item.id !== undefined && { id: String(item.id) }),
             type: String(item.type),
             target: item.target,
             params: item.params || {},
@@ -4,6 +4,7 @@
  * Includes both access control (enterprise) and operational policies (guards)
  */
 
+import { ethers } from 'ethers';
 import type { Action } from './planner';
 
 // =============================================================================
@@ -16,8 +17,14 @@ import type { Action } from './planner';
 export interface OperationalPolicy {
   maxGasLimit?: bigint;
   maxRetries?: number;
+  /** Transfer limits in wei, compared with native amounts (see amountDecimals) */
   maxTransferAmount?: bigint;
   minTransferAmount?: bigint;
+  /**
+   * Decimals of params.amount per action type, used to convert it to wei
+   * (merged over DEFAULT_AMOUNT_DECIMALS); other actions' amounts are integers in wei
+   */
+  amountDecimals?: Record<string, number>;
   allowedActions?: string[];
   blockedActions?: string[];
   rateLimit?: {
@@ -27,6 +34,26 @@ export interface OperationalPolicy {
   requireApproval?: boolean;
 }
 
+/**
+ * Built-in actions whose params.amount is in ether
+ * Token amounts (actions with a token param) are not compared with transfer limits
+ */
+export const DEFAULT_AMOUNT_DECIMALS: Record<string, number> = {
+  execute_transfer: 18,
+  vault_deposit: 18,
+  vault_withdraw: 18,
+};
+
+/**
+ * Result of checking an action against the operational policy
+ */
+export interface PolicyDecision {
+  allowed: boolean;
+  reason?: string;
+  /** True when the action passed every other check but needs human approval */
+  requiresApproval?: boolean;
+}
+
 // =============================================================================
 // Access Control Types
 // =============================================================================
@@ -349,49 +376,71 @@ export class Policy {
    * @returns true if should execute, false otherwise
    */
   shouldExecute(action: Action): boolean {
+    return this.checkAction(action).allowed;
+  }
+
+  /**
+   * Check action against the operational policy, with the reason if blocked
+   * @param action Action to check
+   * @returns Decision with a human-readable reason when not allowed
+   */
+  checkAction(action: Action): PolicyDecision {
     const policy = this.operationalPolicy;
 
     // Check if action type is allowed
     if (policy.allowedActions && policy.allowedActions.length > 0) {
       if (!policy.allowedActions.includes(action.type)) {
-        return false;
+        return { allowed: false, reason: `Action not in allowed list: ${action.type}` };
       }
     }
 
     // Check if action type is blocked
     if (policy.blockedActions && policy.blockedActions.includes(action.type)) {
-      return false;
+      return { allowed: false, reason: `Action is blocked: ${action.type}` };
     }
 
-    // Check transfer amount limits
-    if (action.params?.amount) {
-      const amount = typeof action.params.amount === 'string'
-        ? BigInt(action.params.amount)
-        : BigInt(action.params.amount);
+    // Check transfer amount limits (in wei, after converting the action's units)
+    const hasAmountLimits = policy.minTransferAmount || policy.maxTransferAmount;
+    const amount = hasAmountLimits ? this.getNativeAmount(action) : undefined;
+    if (amount !== undefined) {
+      if (amount === null) {
+        return { allowed: false, reason: `Invalid amount: ${action.params.amount}` };
+      }
 
       if (policy.minTransferAmount && amount < policy.minTransferAmount) {
-        return false;
+        const min = this.formatAmount(action, policy.minTransferAmount);
+        return {
+          allowed: false,
+          reason: `Amount ${action.params.amount} below minimum ${min}`,
+        };
       }
 
       if (policy.maxTransferAmount && amount > policy.maxTransferAmount) {
-        return false;
+        const max = this.formatAmount(action, policy.maxTransferAmount);
+        return {
+          allowed: false,
+          reason: `Amount ${action.params.amount} exceeds maximum ${max}`,
+        };
       }
     }
 
     // Check rate limit
     if (policy.rateLimit) {
       if (!this.checkRateLimit()) {
-        return false;
+        const { maxActions, windowMs } = policy.rateLimit;
+        return {
+          allowed: false,
+          reason: `Rate limit exceeded: ${maxActions} actions per ${windowMs}ms`,
+        };
       }
     }
 
-    // Check if approval is required
+    // Check if approval is required (the Agent queues these for a human decision)
     if (policy.requireApproval) {
-      // In production, this would check an approval queue
-      return false;
+      return { allowed: false, requiresApproval: true, reason: 'Approval required' };
     }
 
-    return true;
+    return { allowed: true };
   }
 
   /**
@@ -430,24 +479,20 @@ export class Policy {
     const policy = this.operationalPolicy;
     const overridden = { ...action, params: { ...action.params } };
 
-    // Cap transfer amount if needed
-    if (action.params?.amount && policy.maxTransferAmount) {
-      const amount = typeof action.params.amount === 'string'
-        ? BigInt(action.params.amount)
-        : BigInt(action.params.amount);
+    // Cap transfer amount if needed (written back in the action's units)
+    if (policy.maxTransferAmount) {
+      const amount = this.getNativeAmount(action);
 
-      if (amount > policy.maxTransferAmount) {
-        overridden.params.amount = policy.maxTransferAmount.toString();
+      if (amount && amount > policy.maxTransferAmount) {
+        overridden.params.amount = this.formatAmount(action, policy.maxTransferAmount);
       }
     }
 
     // Cap gas limit if needed
     if (action.params?.gasLimit && policy.maxGasLimit) {
-      const gasLimit = typeof action.params.gasLimit === 'string'
-        ? BigInt(action.params.gasLimit)
-        : BigInt(action.params.gasLimit);
+      const gasLimit = this.parseAmount(action.params.gasLimit);
 
-      if (gasLimit > policy.maxGasLimit) {
+      if (gasLimit !== null && gasLimit > policy.maxGasLimit) {
         overridden.params.gasLimit = policy.maxGasLimit.toString();
       }
     }
@@ -485,6 +530,8 @@ export class Policy {
 
   /**
    * Set transfer limits
+   * @param min Minimum in wei
+   * @param max Maximum in wei
    */
   setTransferLimit(min: bigint, max: bigint): void {
     this.operationalPolicy.minTransferAmount = min;
@@ -533,6 +580,60 @@ export class Policy {
     this.cleanupOldActions();
   }
 
+  /**
+   * Native amount of an action in wei
+   * @returns Amount in wei, null if it cannot be parsed, or undefined if the action
+   * has no native amount (no amount param, or a token amount)
+   */
+  private getNativeAmount(action: Action): bigint | null | undefined {
+    const amount = action.params?.amount;
+    if (amount === undefined || amount === null || action.params?.token) {
+      return undefined;
+    }
+
+    const decimals = this.getAmountDecimals(action.type);
+    if (decimals === undefined) {
+      return this.parseAmount(amount);
+    }
+    try {
+      return ethers.parseUnits(String(amount), decimals);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Format an amount in wei in the units of an action's params.amount
+   */
+  private formatAmount(action: Action, amount: bigint): string {
+    const decimals = this.getAmountDecimals(action.type);
+    return decimals === undefined
+      ? amount.toString()
+      : ethers.formatUnits(amount, decimals);
+  }
+
+  private getAmountDecimals(type: string): number | undefined {
+    return { ...DEFAULT_AMOUNT_DECIMALS, ...this.operationalPolicy.amountDecimals }[type];
+  }
+
+  /**
+   * Parse an integer amount (bigint, number or numeric string)
+   * @returns Parsed amount, or null if not an integer value
+   */
+  private parseAmount(value: unknown): bigint | null {
+    try {
+      if (typeof value === 'bigint') {
+        return value;
+      }
+      if (typeof value === 'number' || typeof value === 'string') {
+        return BigInt(value);
+      }
+    } catch {
+      // Non-integer strings/numbers (e.g. "0.5") throw in BigInt()
+    }
+    return null;
+  }
+
   /**
    * Check if within rate limit
    */
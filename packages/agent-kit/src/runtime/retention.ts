@@ -0,0 +1,353 @@
+/**
+ * Storage Retention
+ * Applies a RetentionPolicy to agent storage: removes the oldest events, actions
+ * and memory entries past their age, count and size limits, and rotates the log
+ * file. Removed entries can be written to dated archive files (optionally
+ * gzip-compressed) before they are deleted. The Agent runs this on a timer when
+ * given the retention option; it can also be used on its own.
+ *
+ * @example
+ * ```typescript
+ * const DAY = 24 * 60 * 60 * 1000;
+ * const retention = new RetentionManager({
+ *   storage: new FileStorage('./data'),
+ *   memoryBackend: new FileBackend('./data/memory'),
+ *   logFile: './logs/agent.log',
+ *   policy: {
+ *     actions: { maxAge: 30 * DAY, maxCount: 100000 },
+ *     memory: { maxAge: 30 * DAY },
+ *     logs: { maxBytes: 10 * 1024 * 1024, maxCount: 10 },
+ *     archiveDir: './data/archive',
+ *     compress: true,
+ *   },
+ * });
+ *
+ * const result = await retention.run();
+ * console.log(`Removed ${result.actions} actions`);
+ * ```
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { gzip } from 'zlib';
+import { EventEmitter } from '../utils/logger';
+import type {
+  IStorage,
+  RetentionPolicy,
+  RetentionResult,
+  RetentionRule,
+} from '../types/storage';
+import type { MemoryBackend, VectorStore } from '../types/memory';
+
+const gzipAsync = promisify(gzip);
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RetentionManagerConfig {
+  policy: RetentionPolicy;
+
+  /** Storage for events and actions (pruned if it implements prune) */
+  storage?: IStorage;
+
+  /** Memory backend; every session is pruned if it implements listSessions and delete */
+  memoryBackend?: MemoryBackend;
+
+  /** Vector store whose embeddings of removed memory entries are deleted */
+  vectorStore?: VectorStore;
+
+  /** Log file to rotate */
+  logFile?: string;
+}
+
+export interface RetentionManagerEvents {
+  /** A run removed, archived or rotated something */
+  pruned: RetentionResult;
+
+  /** A scheduled run failed */
+  error: { error: any };
+}
+
+// =============================================================================
+// RetentionManager Class
+// =============================================================================
+
+export class RetentionManager extends EventEmitter<RetentionManagerEvents> {
+  private config: RetentionManagerConfig;
+  private timer?: NodeJS.Timeout;
+  private running: Promise<RetentionResult> | null = null;
+
+  constructor(config: RetentionManagerConfig) {
+    super();
+    this.config = config;
+  }
+
+  /**
+   * Apply the policy on its interval
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.run().catch((error) => this.emit('error', { error }));
+    }, this.config.policy.interval ?? 3600000);
+  }
+
+  /**
+   * Stop the timer and wait for a run in progress to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    await this.running?.catch(() => undefined);
+  }
+
+  /**
+   * Apply the policy now (joins a run in progress)
+   */
+  async run(): Promise<RetentionResult> {
+    if (this.running) {
+      return await this.running;
+    }
+
+    this.running = this.runOnce().finally(() => {
+      this.running = null;
+    });
+    return await this.running;
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  private async runOnce(): Promise<RetentionResult> {
+    const { policy, storage, memoryBackend, logFile } = this.config;
+    const result: RetentionResult = {
+      events: 0,
+      actions: 0,
+      memoryEntries: 0,
+      logsRotated: 0,
+      logsDeleted: 0,
+      archives: [],
+    };
+
+    if (storage?.prune && (policy.events || policy.actions)) {
+      const removed = await storage.prune(
+        { events: policy.events, actions: policy.actions },
+        async ({ events, actions }) => {
+          await this.archive('events', events, result);
+          await this.archive('actions', actions, result);
+        }
+      );
+      result.events = removed.events;
+      result.actions = removed.actions;
+    }
+
+    if (memoryBackend?.listSessions && memoryBackend.delete && policy.memory) {
+      await this.pruneMemory(memoryBackend, policy.memory, result);
+    }
+
+    if (logFile && policy.logs) {
+      await this.rotateLogs(logFile, policy.logs, result);
+    }
+
+    if (
+      result.events + result.actions + result.memoryEntries > 0 ||
+      result.logsRotated + result.logsDeleted > 0
+    ) {
+      this.emit('pruned', result);
+    }
+    return result;
+  }
+
+  /**
+   * Prune every memory session, deleting the removed entries by ID
+   */
+  private async pruneMemory(
+    backend: MemoryBackend,
+    rule: RetentionRule,
+    result: RetentionResult
+  ): Promise<void> {
+    for (const sessionId of await backend.listSessions!()) {
+      const entries = await backend.load(sessionId);
+      const count = countExpired(entries.map(toSized), rule);
+      if (count === 0) {
+        continue;
+      }
+
+      const removed = entries.slice(0, count);
+      await this.archive(`memory-${sessionId}`, removed, result);
+
+      const ids = removed.map((entry) => entry.id);
+      await backend.delete!(sessionId, ids);
+      await this.config.vectorStore?.delete(sessionId, ids);
+      result.memoryEntries += count;
+    }
+  }
+
+  /**
+   * Rotate the log file past maxBytes and delete old rotated files
+   * Copies then truncates, since the logger keeps the file open; lines written
+   * during the copy can be lost.
+   */
+  private async rotateLogs(
+    logFile: string,
+    rule: RetentionRule,
+    result: RetentionResult
+  ): Promise<void> {
+    const dir = this.config.policy.archiveDir || path.dirname(logFile);
+    const ext = path.extname(logFile);
+    const base = path.basename(logFile, ext);
+
+    const size = await fs.stat(logFile).then(
+      (stats) => stats.size,
+      (error) => {
+        if (error.code === 'ENOENT') {
+          return 0;
+        }
+        throw error;
+      }
+    );
+    if (size > (rule.maxBytes ?? 10 * 1024 * 1024)) {
+      const rotated = await this.writeArchive(
+        `${base}-${timestamp()}${ext}`,
+        await fs.readFile(logFile),
+        dir
+      );
+      await fs.truncate(logFile, 0);
+      result.archives.push(rotated);
+      result.logsRotated++;
+    }
+
+    // Rotated files, oldest first (their names sort by date)
+    const pattern = new RegExp(
+      `^${escapeRegExp(base)}-\\d{4}-\\d{2}-\\d{2}T[\\d-]+Z${escapeRegExp(ext)}(\\.gz)?$`
+    );
+    const files = (await readDir(dir)).filter((file) => pattern.test(file)).sort();
+    const rotated = await Promise.all(
+      files.map(async (file) => ({
+        file: path.join(dir, file),
+        timestamp: (await fs.stat(path.join(dir, file))).mtimeMs,
+        bytes: 0,
+      }))
+    );
+
+    const count = countExpired(rotated, { maxAge: rule.maxAge, maxCount: rule.maxCount });
+    for (const { file } of rotated.slice(0, count)) {
+      await fs.unlink(file);
+    }
+    result.logsDeleted += count;
+  }
+
+  /**
+   * Write entries to a dated archive file, when archiving is enabled
+   */
+  private async archive(
+    name: string,
+    entries: any[],
+    result: RetentionResult
+  ): Promise<void> {
+    const dir = this.config.policy.archiveDir;
+    if (!dir || entries.length === 0) {
+      return;
+    }
+
+    const file = await this.writeArchive(
+      `${name}-${timestamp()}.json`,
+      Buffer.from(serialize(entries)),
+      dir
+    );
+    result.archives.push(file);
+  }
+
+  private async writeArchive(name: string, data: Buffer, dir: string): Promise<string> {
+    const compress = this.config.policy.compress;
+    const file = path.join(dir, compress ? `${name}.gz` : name);
+
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(file, compress ? await gzipAsync(data) : data);
+    return file;
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Number of the oldest entries outside a retention rule
+ * @param entries Entries oldest first, with their size in bytes
+ */
+export function countExpired(
+  entries: { timestamp: number; bytes: number }[],
+  rule: RetentionRule
+): number {
+  let count = 0;
+
+  if (rule.maxAge !== undefined) {
+    const cutoff = Date.now() - rule.maxAge;
+    while (count < entries.length && entries[count].timestamp < cutoff) {
+      count++;
+    }
+  }
+
+  if (rule.maxCount !== undefined) {
+    count = Math.max(count, entries.length - rule.maxCount);
+  }
+
+  if (rule.maxBytes !== undefined) {
+    let bytes = 0;
+    let keep = 0;
+    for (let i = entries.length - 1; i >= 0; i--) {
+      bytes += entries[i].bytes;
+      if (bytes > rule.maxBytes) {
+        break;
+      }
+      keep++;
+    }
+    count = Math.max(count, entries.length - keep);
+  }
+
+  return count;
+}
+
+/**
+ * Timestamp and JSON size of a stored entry, for countExpired
+ */
+export function toSized(entry: { timestamp: number }): {
+  timestamp: number;
+  bytes: number;
+} {
+  return { timestamp: entry.timestamp, bytes: Buffer.byteLength(serialize(entry)) };
+}
+
+function serialize(value: any): string {
+  return JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? v.toString() : v));
+}
+
+/**
+ * Current time for file names (sorts by date)
+ */
+function timestamp(): string {
+  return new Date().toISOString().replace(/[:.]/g, '-');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+async function readDir(dir: string): Promise<string[]> {
+  try {
+    return await fs.readdir(dir);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,290 @@
+/**
+ * Step Scheduler
+ * Dependency-aware (DAG) ordering and execution of plan steps
+ * Independent branches run in parallel up to a concurrency cap,
+ * dependents of failed steps are skipped and other branches continue
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A schedulable step: an ID and the IDs of steps that must succeed first
+ */
+export interface ScheduledStep {
+  id: string;
+  dependencies: string[];
+}
+
+/**
+ * Options for runSteps
+ */
+export interface RunStepsOptions<S extends ScheduledStep, R> {
+  /** Maximum steps running at once (default: unlimited) */
+  concurrency?: number;
+
+  /** Run a step whose dependencies all succeeded */
+  run: (step: S) => Promise<R>;
+
+  /** Whether a step result counts as success (dependents run only after success) */
+  succeeded: (result: R) => boolean;
+
+  /** Build the result for a step skipped because a dependency did not succeed */
+  skip: (step: S, dependency: string) => R;
+}
+
+/**
+ * Options for resolveStepReferences
+ */
+export interface ResolveReferencesOptions {
+  /** Throw on references to missing outputs (default: true); otherwise leave them as-is */
+  strict?: boolean;
+}
+
+// Matches {{steps.<id>.<path>}}, e.g. {{steps.quote.amountOut}}
+const STEP_REFERENCE = /\{\{\s*steps\.([\w-]+)((?:\.[\w-]+)*)\s*\}\}/g;
+const WHOLE_STEP_REFERENCE = /^\{\{\s*steps\.([\w-]+)((?:\.[\w-]+)*)\s*\}\}$/;
+
+// =============================================================================
+// Ordering
+// =============================================================================
+
+/**
+ * Give every action a step ID; actions without one get `step-<n>` (1-based position)
+ * @param actions Planned actions
+ * @returns Actions with IDs, in the same order
+ */
+export function assignStepIds<T extends { id?: string }>(
+  actions: T[]
+): Array<T & { id: string }> {
+  return actions.map((action, index) => ({
+    ...action,
+    id: action.id || `step-${index + 1}`,
+  }));
+}
+
+/**
+ * Order steps so that every step comes after its dependencies
+ * Keeps the given order where dependencies allow; dependencies on unknown IDs are ignored
+ * @param steps Steps to order
+ * @returns Steps in topological order
+ * @throws On duplicate step IDs or dependency cycles
+ */
+export function orderSteps<S extends ScheduledStep>(steps: S[]): S[] {
+  const byId = new Map<string, S>();
+  for (const step of steps) {
+    if (byId.has(step.id)) {
+      throw new Error(`Duplicate step id: ${step.id}`);
+    }
+    byId.set(step.id, step);
+  }
+
+  const ordered: S[] = [];
+  const done = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (step: S): void => {
+    if (done.has(step.id)) {
+      return;
+    }
+    const index = path.indexOf(step.id);
+    if (index !== -1) {
+      const cycle = [...path.slice(index), step.id].join(' -> ');
+      throw new Error(`Dependency cycle detected: ${cycle}`);
+    }
+
+    path.push(step.id);
+    for (const dependency of step.dependencies) {
+      const next = byId.get(dependency);
+      if (next) {
+        visit(next);
+      }
+    }
+    path.pop();
+
+    done.add(step.id);
+    ordered.push(step);
+  };
+
+  steps.forEach(visit);
+  return ordered;
+}
+
+// =============================================================================
+// Output References
+// =============================================================================
+
+/**
+ * Find the step IDs referenced as `{{steps.<id>...}}` anywhere in a value
+ * @param value Params (strings, arrays and plain objects are searched)
+ * @returns Referenced step IDs, without duplicates
+ */
+export function findStepReferences(value: any): string[] {
+  const ids = new Set<string>();
+
+  const walk = (current: any): void => {
+    if (typeof current === 'string') {
+      for (const match of current.matchAll(STEP_REFERENCE)) {
+        ids.add(match[1]);
+      }
+    } else if (Array.isArray(current)) {
+      current.forEach(walk);
+    } else if (isPlainObject(current)) {
+      Object.values(current).forEach(walk);
+    }
+  };
+
+  walk(value);
+  return Array.from(ids);
+}
+
+/**
+ * Replace `{{steps.<id>.<path>}}` references with outputs of earlier steps
+ * A string that is exactly one reference takes the raw value (number, object, ...);
+ * references inside longer strings are interpolated
+ * @param value Params to resolve
+ * @param outputs Step outputs by step ID
+ * @param options Resolution options
+ * @returns Resolved copy of value
+ */
+export function resolveStepReferences(
+  value: any,
+  outputs: Record<string, any>,
+  options: ResolveReferencesOptions = {}
+): any {
+  const strict = options.strict !== false;
+
+  const lookup = (reference: string, id: string, path: string): any => {
+    let current = Object.prototype.hasOwnProperty.call(outputs, id)
+      ? outputs[id]
+      : undefined;
+    for (const key of path.split('.').filter(Boolean)) {
+      current = current === undefined || current === null ? undefined : current[key];
+    }
+    if (current === undefined && strict) {
+      throw new Error(`Unresolved reference ${reference}`);
+    }
+    return current;
+  };
+
+  if (typeof value === 'string') {
+    const whole = value.match(WHOLE_STEP_REFERENCE);
+    if (whole) {
+      const resolved = lookup(value, whole[1], whole[2]);
+      return resolved === undefined ? value : resolved;
+    }
+
+    return value.replace(STEP_REFERENCE, (reference, id: string, path: string) => {
+      const resolved = lookup(reference, id, path);
+      if (resolved === undefined) {
+        return reference;
+      }
+      return typeof resolved === 'object' && resolved !== null
+        ? JSON.stringify(resolved, (_, v) => (typeof v === 'bigint' ? v.toString() : v))
+        : String(resolved);
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveStepReferences(item, outputs, options));
+  }
+
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        resolveStepReferences(item, outputs, options),
+      ])
+    );
+  }
+
+  return value;
+}
+
+// =============================================================================
+// Execution
+// =============================================================================
+
+/**
+ * Run steps as a DAG
+ * A step starts once all its dependencies succeeded. If a dependency fails, is skipped
+ * or is not among the steps, the step is skipped (and so are its own dependents);
+ * unrelated branches keep running.
+ * @param steps Steps to run
+ * @param options Runner, success check, skip result and concurrency cap
+ * @returns Result for every step, by step ID
+ * @throws On duplicate step IDs or dependency cycles (before anything runs)
+ */
+export function runSteps<S extends ScheduledStep, R>(
+  steps: S[],
+  options: RunStepsOptions<S, R>
+): Promise<Map<string, R>> {
+  const ordered = orderSteps(steps);
+  const concurrency = Math.max(1, options.concurrency ?? Infinity);
+  const known = new Set(ordered.map((step) => step.id));
+
+  const results = new Map<string, R>();
+  const pending = new Set(known);
+  const succeeded = new Set<string>();
+  const unsuccessful = new Set<string>();
+  let running = 0;
+
+  return new Promise((resolve, reject) => {
+    const pump = (): void => {
+      // Topological order lets skips cascade through dependents in one pass
+      for (const step of ordered) {
+        if (!pending.has(step.id)) {
+          continue;
+        }
+
+        const blocked = step.dependencies.find(
+          (dependency) => unsuccessful.has(dependency) || !known.has(dependency)
+        );
+        if (blocked !== undefined) {
+          pending.delete(step.id);
+          unsuccessful.add(step.id);
+          results.set(step.id, options.skip(step, blocked));
+          continue;
+        }
+
+        if (running >= concurrency) {
+          continue;
+        }
+        if (!step.dependencies.every((dependency) => succeeded.has(dependency))) {
+          continue;
+        }
+
+        pending.delete(step.id);
+        running++;
+        options.run(step).then(
+          (result) => {
+            results.set(step.id, result);
+            (options.succeeded(result) ? succeeded : unsuccessful).add(step.id);
+            running--;
+            pump();
+          },
+          (error) => reject(error)
+        );
+      }
+
+      if (pending.size === 0 && running === 0) {
+        resolve(results);
+      }
+    };
+
+    pump();
+  });
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
@@ -0,0 +1,608 @@
+/**
+ * SQLite Storage
+ * SQLite-backed agent storage (IStorage) and memory backend (MemoryBackend)
+ * Writes are single-row inserts and queries use indexes, instead of rewriting and
+ * scanning whole JSON files. WAL mode lets several processes share a database.
+ *
+ * Requires the optional better-sqlite3 package:
+ * npm install better-sqlite3
+ *
+ * @example
+ * ```typescript
+ * const storage = new SqliteStorage('./data/agent.db');
+ * const failed = await storage.getActions({ status: 'failed', fromTimestamp: since });
+ *
+ * const memory = new Memory({ backend: new SqliteMemoryBackend('./data/memory.db') });
+ * ```
+ */
+
+import { promises as fs, mkdirSync } from 'fs';
+import path from 'path';
+import type {
+  IStorage,
+  EventEntry,
+  ActionEntry,
+  EventFilter,
+  ActionFilter,
+  PrunedEntries,
+  RetentionRule,
+} from '../types/storage';
+import type { MemoryBackend, MemoryEntry, MemoryFilter } from '../types/memory';
+import { resolveActionStatus } from './storage';
+import { countExpired } from './retention';
+
+// =============================================================================
+// Database
+// =============================================================================
+
+/**
+ * Subset of the better-sqlite3 API used here
+ */
+export interface SqliteDatabase {
+  prepare(sql: string): {
+    run(...params: any[]): { changes: number };
+    all(...params: any[]): any[];
+    get(...params: any[]): any;
+  };
+  exec(sql: string): void;
+  pragma(source: string, options?: { simple?: boolean }): any;
+  transaction<T extends (...args: any[]) => any>(fn: T): T;
+  close(): void;
+}
+
+/**
+ * Schema migrations, applied in order and tracked with PRAGMA user_version
+ * Append new migrations; never edit released ones.
+ */
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE events (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    agent_id TEXT,
+    timestamp INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX idx_events_timestamp ON events (timestamp);
+  CREATE INDEX idx_events_agent ON events (agent_id, timestamp);
+
+  CREATE TABLE actions (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    agent_id TEXT,
+    type TEXT,
+    status TEXT,
+    timestamp INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX idx_actions_timestamp ON actions (timestamp);
+  CREATE INDEX idx_actions_agent ON actions (agent_id, timestamp);
+  CREATE INDEX idx_actions_status ON actions (status, timestamp);
+  CREATE INDEX idx_actions_type ON actions (type, timestamp);
+
+  CREATE TABLE memory (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    session_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX idx_memory_session ON memory (session_id, type, timestamp);
+  `,
+];
+
+/**
+ * Open (or create) a database and bring its schema up to date
+ * @param filename Database file
+ * @throws If better-sqlite3 is not installed
+ */
+export function openSqliteDatabase(filename: string): SqliteDatabase {
+  let Database: new (filename: string) => SqliteDatabase;
+  try {
+    Database = require('better-sqlite3');
+  } catch {
+    throw new Error(
+      'SQLite storage requires better-sqlite3. Install with: npm install better-sqlite3'
+    );
+  }
+
+  mkdirSync(path.dirname(filename), { recursive: true });
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.pragma('busy_timeout = 5000');
+  migrateDatabase(db);
+  return db;
+}
+
+/**
+ * Apply pending schema migrations
+ * @returns Schema version after migrating
+ */
+export function migrateDatabase(db: SqliteDatabase): number {
+  const version = db.pragma('user_version', { simple: true }) as number;
+
+  for (let i = version; i < MIGRATIONS.length; i++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[i]);
+      db.pragma(`user_version = ${i + 1}`);
+    })();
+  }
+
+  return MIGRATIONS.length;
+}
+
+// =============================================================================
+// SQLite Storage
+// =============================================================================
+
+/**
+ * SQLite storage for agent events and actions
+ */
+export class SqliteStorage implements IStorage {
+  private db: SqliteDatabase;
+
+  /**
+   * @param database Database file, or an open database
+   */
+  constructor(database: string | SqliteDatabase = './data/agent.db') {
+    this.db = typeof database === 'string' ? openSqliteDatabase(database) : database;
+  }
+
+  async saveEvent(event: any, metadata?: Record<string, any>): Promise<void> {
+    this.insertEvent({
+      id: `event-${Date.now()}-${Math.random()}`,
+      event,
+      timestamp: Date.now(),
+      agentId: metadata?.agentId ?? event?.agentId,
+      metadata,
+    });
+  }
+
+  async saveAction(
+    action: any,
+    result?: any,
+    metadata?: Record<string, any>
+  ): Promise<void> {
+    this.insertAction({
+      id: `action-${Date.now()}-${Math.random()}`,
+      action,
+      result,
+      status: resolveActionStatus(result, metadata),
+      timestamp: Date.now(),
+      agentId: metadata?.agentId ?? action?.agentId,
+      metadata,
+    });
+  }
+
+  async getEvents(filter: EventFilter = {}): Promise<EventEntry[]> {
+    return this.query('events', entryFilter(filter), filter);
+  }
+
+  async getActions(filter: ActionFilter = {}): Promise<ActionEntry[]> {
+    const where = entryFilter(filter);
+    where.addOneOf('status', filter.status);
+    where.addOneOf('type', filter.type);
+    return this.query('actions', where, filter);
+  }
+
+  async getHistory(): Promise<{ events: EventEntry[]; actions: ActionEntry[] }> {
+    return {
+      events: await this.getEvents(),
+      actions: await this.getActions(),
+    };
+  }
+
+  async clear(): Promise<void> {
+    this.db.exec('DELETE FROM events; DELETE FROM actions;');
+  }
+
+  async size(): Promise<{ events: number; actions: number }> {
+    return {
+      events: this.db.prepare('SELECT COUNT(*) AS n FROM events').get().n,
+      actions: this.db.prepare('SELECT COUNT(*) AS n FROM actions').get().n,
+    };
+  }
+
+  async prune(
+    rules: { events?: RetentionRule; actions?: RetentionRule },
+    archive?: (removed: PrunedEntries) => Promise<void>
+  ): Promise<{ events: number; actions: number }> {
+    // Rows up to these seqs are removed; rows inserted meanwhile come after them
+    const lastEvent = this.lastExpiredSeq('events', rules.events);
+    const lastAction = this.lastExpiredSeq('actions', rules.actions);
+    if (lastEvent === 0 && lastAction === 0) {
+      return { events: 0, actions: 0 };
+    }
+
+    if (archive) {
+      await archive({
+        events: this.query('events', upToSeq(lastEvent), {}),
+        actions: this.query('actions', upToSeq(lastAction), {}),
+      });
+    }
+
+    return this.db.transaction(() => ({
+      events: this.deleteUpTo('events', lastEvent),
+      actions: this.deleteUpTo('actions', lastAction),
+    }))();
+  }
+
+  /**
+   * Insert existing entries, keeping their IDs and timestamps
+   * Entries whose ID is already stored are skipped, so imports can be re-run.
+   * Action statuses are derived again from their results, since older JSON
+   * storage recorded failed actions as 'success'.
+   * @returns Number of entries inserted
+   */
+  async importEntries(
+    events: EventEntry[],
+    actions: ActionEntry[]
+  ): Promise<{ events: number; actions: number }> {
+    return this.db.transaction(() => ({
+      events: events.filter((entry) => this.insertEvent(entry)).length,
+      actions: actions.filter((entry) =>
+        this.insertAction({
+          ...entry,
+          status: resolveActionStatus(entry.result, entry.metadata),
+        })
+      ).length,
+    }))();
+  }
+
+  /**
+   * Close the database
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  private insertEvent(entry: EventEntry): boolean {
+    const { changes } = this.db
+      .prepare(
+        'INSERT OR IGNORE INTO events (id, agent_id, timestamp, data) VALUES (?, ?, ?, ?)'
+      )
+      .run(entry.id, entry.agentId ?? null, entry.timestamp, serialize(entry));
+    return changes > 0;
+  }
+
+  private insertAction(entry: ActionEntry): boolean {
+    const { changes } = this.db
+      .prepare(
+        `INSERT OR IGNORE INTO actions (id, agent_id, type, status, timestamp, data)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        entry.id,
+        entry.agentId ?? null,
+        entry.action?.type ?? null,
+        entry.status ?? null,
+        entry.timestamp,
+        serialize(entry)
+      );
+    return changes > 0;
+  }
+
+  private lastExpiredSeq(table: 'events' | 'actions', rule?: RetentionRule): number {
+    if (!rule) {
+      return 0;
+    }
+    const rows = this.db
+      .prepare(
+        `SELECT seq, timestamp, length(CAST(data AS BLOB)) AS bytes
+         FROM ${table} ORDER BY seq`
+      )
+      .all();
+    const count = countExpired(rows, rule);
+    return count > 0 ? rows[count - 1].seq : 0;
+  }
+
+  private deleteUpTo(table: 'events' | 'actions', seq: number): number {
+    return this.db.prepare(`DELETE FROM ${table} WHERE seq <= ?`).run(seq).changes;
+  }
+
+  private query(
+    table: 'events' | 'actions',
+    where: WhereClause,
+    filter: EventFilter
+  ): any[] {
+    const desc = filter.order === 'desc';
+
+    if (filter.cursor !== undefined) {
+      const row = this.db
+        .prepare(`SELECT seq FROM ${table} WHERE id = ?`)
+        .get(filter.cursor);
+      if (!row) {
+        throw new Error(`Unknown cursor: ${filter.cursor}`);
+      }
+      where.add(desc ? 'seq < ?' : 'seq > ?', row.seq);
+    }
+
+    return this.db
+      .prepare(
+        `SELECT data FROM ${table} ${where.sql()}
+         ORDER BY seq ${desc ? 'DESC' : 'ASC'} LIMIT ? OFFSET ?`
+      )
+      .all(...where.params, filter.limit ?? -1, filter.offset ?? 0)
+      .map((row) => JSON.parse(row.data));
+  }
+}
+
+// =============================================================================
+// SQLite Memory Backend
+// =============================================================================
+
+/**
+ * SQLite memory backend (all sessions in one table)
+ */
+export class SqliteMemoryBackend implements MemoryBackend {
+  private db: SqliteDatabase;
+
+  /**
+   * @param database Database file, or an open database
+   */
+  constructor(database: string | SqliteDatabase = './data/memory/memory.db') {
+    this.db = typeof database === 'string' ? openSqliteDatabase(database) : database;
+  }
+
+  async save(entry: MemoryEntry): Promise<void> {
+    this.insert(entry);
+  }
+
+  async load(sessionId: string, filter?: MemoryFilter): Promise<MemoryEntry[]> {
+    const where = timeRange(filter ?? {});
+    where.add('session_id = ?', sessionId);
+    if (filter?.type) {
+      where.add('type = ?', filter.type);
+    }
+
+    // The newest `limit` entries, in insertion order
+    const limit = filter?.limit ? ` LIMIT ${Math.floor(filter.limit)}` : '';
+    return this.db
+      .prepare(`SELECT data FROM memory ${where.sql()} ORDER BY seq DESC${limit}`)
+      .all(...where.params)
+      .map((row) => JSON.parse(row.data))
+      .reverse();
+  }
+
+  async clear(sessionId?: string): Promise<void> {
+    if (sessionId) {
+      this.db.prepare('DELETE FROM memory WHERE session_id = ?').run(sessionId);
+    } else {
+      this.db.exec('DELETE FROM memory');
+    }
+  }
+
+  async count(sessionId: string): Promise<number> {
+    return this.db
+      .prepare('SELECT COUNT(*) AS n FROM memory WHERE session_id = ?')
+      .get(sessionId).n;
+  }
+
+  async listSessions(): Promise<string[]> {
+    return this.db
+      .prepare('SELECT DISTINCT session_id FROM memory ORDER BY session_id')
+      .all()
+      .map((row) => row.session_id);
+  }
+
+  async delete(sessionId: string, ids: string[]): Promise<void> {
+    // Chunked to stay below SQLite's bound parameter limit
+    this.db.transaction(() => {
+      for (let i = 0; i < ids.length; i += 500) {
+        const chunk = ids.slice(i, i + 500);
+        this.db
+          .prepare(
+            `DELETE FROM memory WHERE session_id = ? AND id IN (${chunk
+              .map(() => '?')
+              .join(', ')})`
+          )
+          .run(sessionId, ...chunk);
+      }
+    })();
+  }
+
+  /**
+   * Insert existing entries, skipping IDs that are already stored
+   * @returns Number of entries inserted
+   */
+  async importEntries(entries: MemoryEntry[]): Promise<number> {
+    return this.db.transaction(
+      () => entries.filter((entry) => this.insert(entry)).length
+    )();
+  }
+
+  /**
+   * Close the database
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  private insert(entry: MemoryEntry): boolean {
+    const { changes } = this.db
+      .prepare(
+        `INSERT OR IGNORE INTO memory (id, session_id, type, timestamp, data)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .run(entry.id, entry.sessionId, entry.type, entry.timestamp, serialize(entry));
+    return changes > 0;
+  }
+}
+
+// =============================================================================
+// JSON Migration
+// =============================================================================
+
+/**
+ * Options for importing JSON file storage into SQLite
+ */
+export interface JsonMigrationOptions {
+  /** FileStorage directory with events.json and actions.json */
+  dataPath?: string;
+
+  /** Target database for events and actions (default: <dataPath>/agent.db) */
+  dbPath?: string;
+
+  /** FileBackend memory directory with one JSON file per session */
+  memoryPath?: string;
+
+  /** Target database for memory (default: <memoryPath>/memory.db) */
+  memoryDbPath?: string;
+}
+
+export interface JsonMigrationResult {
+  events: number;
+  actions: number;
+  sessions: number;
+  memoryEntries: number;
+}
+
+/**
+ * Import FileStorage and FileBackend JSON files into SQLite databases
+ * Counts are of newly inserted entries; re-running skips what was imported.
+ */
+export async function migrateJsonStorage(
+  options: JsonMigrationOptions
+): Promise<JsonMigrationResult> {
+  const result: JsonMigrationResult = {
+    events: 0,
+    actions: 0,
+    sessions: 0,
+    memoryEntries: 0,
+  };
+
+  if (options.dataPath) {
+    const storage = new SqliteStorage(
+      options.dbPath || path.join(options.dataPath, 'agent.db')
+    );
+    try {
+      const imported = await storage.importEntries(
+        await readJsonArray(path.join(options.dataPath, 'events.json')),
+        await readJsonArray(path.join(options.dataPath, 'actions.json'))
+      );
+      result.events = imported.events;
+      result.actions = imported.actions;
+    } finally {
+      storage.close();
+    }
+  }
+
+  if (options.memoryPath) {
+    const backend = new SqliteMemoryBackend(
+      options.memoryDbPath || path.join(options.memoryPath, 'memory.db')
+    );
+    try {
+      const files = (await fs.readdir(options.memoryPath)).filter((file) =>
+        file.endsWith('.json')
+      );
+      for (const file of files) {
+        const entries = await readJsonArray(path.join(options.memoryPath, file));
+        result.memoryEntries += await backend.importEntries(entries);
+        result.sessions++;
+      }
+    } finally {
+      backend.close();
+    }
+  }
+
+  return result;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Metadata keys accepted in filters (they are embedded in a JSON path) */
+const METADATA_KEY = /^[\w.-]+$/;
+
+interface WhereClause {
+  params: any[];
+  add(condition: string, ...params: any[]): void;
+  addOneOf(column: string, values?: string | string[]): void;
+  sql(): string;
+}
+
+function timeRange(filter: {
+  fromTimestamp?: number;
+  toTimestamp?: number;
+}): WhereClause {
+  const conditions: string[] = [];
+  const where: WhereClause = {
+    params: [],
+    add(condition, ...params) {
+      conditions.push(condition);
+      where.params.push(...params);
+    },
+    addOneOf(column, values) {
+      if (values === undefined) {
+        return;
+      }
+      const list = Array.isArray(values) ? values : [values];
+      where.add(`${column} IN (${list.map(() => '?').join(', ')})`, ...list);
+    },
+    sql: () => (conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''),
+  };
+
+  if (filter.fromTimestamp !== undefined) {
+    where.add('timestamp >= ?', filter.fromTimestamp);
+  }
+  if (filter.toTimestamp !== undefined) {
+    where.add('timestamp <= ?', filter.toTimestamp);
+  }
+  return where;
+}
+
+function upToSeq(seq: number): WhereClause {
+  const where = timeRange({});
+  where.add('seq <= ?', seq);
+  return where;
+}
+
+/**
+ * Conditions shared by event and action queries
+ */
+function entryFilter(filter: EventFilter): WhereClause {
+  const where = timeRange(filter);
+  if (filter.agentId) {
+    where.add('agent_id = ?', filter.agentId);
+  }
+  for (const [key, value] of Object.entries(filter.metadata ?? {})) {
+    // Keys go into a JSON path, so only plain names are accepted
+    if (!METADATA_KEY.test(key)) {
+      throw new Error(`Invalid metadata filter key: ${key}`);
+    }
+    // JSON booleans come back from json_extract as 1 / 0
+    where.add(
+      'json_extract(data, ?) = ?',
+      `$.metadata."${key}"`,
+      typeof value === 'boolean' ? Number(value) : value
+    );
+  }
+  return where;
+}
+
+function serialize(entry: any): string {
+  return JSON.stringify(entry, (_key, value) =>
+    typeof value === 'bigint' ? value.toString() : value
+  );
+}
+
+async function readJsonArray(file: string): Promise<any[]> {
+  try {
+    const data = JSON.parse(await fs.readFile(file, 'utf-8'));
+    if (!Array.isArray(data)) {
+      throw new Error(`Expected a JSON array in ${file}`);
+    }
+    return data;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
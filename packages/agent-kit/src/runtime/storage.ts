@@ -4,11 +4,69 @@
 
 import fs from 'fs/promises';
 import path from 'path';
-import type { IStorage, EventEntry, ActionEntry } from '../types/storage';
+import type {
+  IStorage,
+  EventEntry,
+  ActionEntry,
+  EventFilter,
+  ActionFilter,
+  PrunedEntries,
+  RetentionRule,
+} from '../types/storage';
+import { countExpired, toSized } from './retention';
 
 // Re-export IStorage for convenience
 export type { IStorage, EventEntry, ActionEntry };
 
+/**
+ * Derive stored action status from its result and metadata
+ * An explicit metadata.status (e.g. 'blocked') takes precedence
+ */
+export function resolveActionStatus(
+  result?: any,
+  metadata?: Record<string, any>
+): ActionEntry['status'] {
+  if (metadata?.status) {
+    return metadata.status;
+  }
+  if (!result) {
+    return 'pending';
+  }
+  if (result.status === 'skipped') {
+    return 'skipped';
+  }
+  return result.success === false ? 'failed' : 'success';
+}
+
+/**
+ * Apply an event filter (match, then cursor, offset and limit) to stored entries
+ * Entries must be in insertion order.
+ */
+export function queryEvents(
+  entries: EventEntry[],
+  filter: EventFilter = {}
+): EventEntry[] {
+  return paginate(entries, filter, (entry) => matchesEntry(entry, filter));
+}
+
+/**
+ * Apply an action filter (match, then cursor, offset and limit) to stored entries
+ * Entries must be in insertion order.
+ */
+export function queryActions(
+  entries: ActionEntry[],
+  filter: ActionFilter = {}
+): ActionEntry[] {
+  return paginate(
+    entries,
+    filter,
+    (entry) =>
+      matchesEntry(entry, filter) &&
+      isOneOf(entry.status, filter.status) &&
+      isOneOf(entry.action?.type, filter.type)
+  );
+}
+
 /**
  * In-memory storage (for testing/development)
  */
@@ -21,6 +79,7 @@ export class MemoryStorage implements IStorage {
       id: `event-${Date.now()}-${Math.random()}`,
       event,
       timestamp: Date.now(),
+      agentId: metadata?.agentId ?? event?.agentId,
       metadata,
     });
   }
@@ -30,8 +89,9 @@ export class MemoryStorage implements IStorage {
       id: `action-${Date.now()}-${Math.random()}`,
       action,
       result,
-      status: result ? 'success' : 'pending',
+      status: resolveActionStatus(result, metadata),
       timestamp: Date.now(),
+      agentId: metadata?.agentId ?? action?.agentId,
       metadata,
     });
   }
@@ -43,12 +103,12 @@ export class MemoryStorage implements IStorage {
     };
   }
 
-  async getEvents(): Promise<EventEntry[]> {
-    return [...this.events];
+  async getEvents(filter?: EventFilter): Promise<EventEntry[]> {
+    return queryEvents(this.events, filter);
   }
 
-  async getActions(): Promise<ActionEntry[]> {
-    return [...this.actions];
+  async getActions(filter?: ActionFilter): Promise<ActionEntry[]> {
+    return queryActions(this.actions, filter);
   }
 
   async clear(): Promise<void> {
@@ -62,6 +122,21 @@ export class MemoryStorage implements IStorage {
       actions: this.actions.length,
     };
   }
+
+  async prune(
+    rules: { events?: RetentionRule; actions?: RetentionRule },
+    archive?: (removed: PrunedEntries) => Promise<void>
+  ): Promise<{ events: number; actions: number }> {
+    const removed = expiredEntries(this.events, this.actions, rules);
+    if (removed.events.length > 0 || removed.actions.length > 0) {
+      await archive?.(removed);
+    }
+
+    // New entries are appended, so the removed ones are still first
+    this.events = this.events.slice(removed.events.length);
+    this.actions = this.actions.slice(removed.actions.length);
+    return { events: removed.events.length, actions: removed.actions.length };
+  }
 }
 
 /**
@@ -82,6 +157,7 @@ export class FileStorage implements IStorage {
       id: `event-${Date.now()}-${Math.random()}`,
       event,
       timestamp: Date.now(),
+      agentId: metadata?.agentId ?? event?.agentId,
       metadata,
     });
     await this.saveEvents(events);
@@ -93,8 +169,9 @@ export class FileStorage implements IStorage {
       id: `action-${Date.now()}-${Math.random()}`,
       action,
       result,
-      status: result ? 'success' : 'pending',
+      status: resolveActionStatus(result, metadata),
       timestamp: Date.now(),
+      agentId: metadata?.agentId ?? action?.agentId,
       metadata,
     });
     await this.saveActions(actions);
@@ -107,12 +184,12 @@ export class FileStorage implements IStorage {
     };
   }
 
-  async getEvents(): Promise<EventEntry[]> {
-    return this.loadEvents();
+  async getEvents(filter?: EventFilter): Promise<EventEntry[]> {
+    return queryEvents(await this.loadEvents(), filter);
   }
 
-  async getActions(): Promise<ActionEntry[]> {
-    return this.loadActions();
+  async getActions(filter?: ActionFilter): Promise<ActionEntry[]> {
+    return queryActions(await this.loadActions(), filter);
   }
 
   async clear(): Promise<void> {
@@ -129,6 +206,32 @@ export class FileStorage implements IStorage {
     };
   }
 
+  async prune(
+    rules: { events?: RetentionRule; actions?: RetentionRule },
+    archive?: (removed: PrunedEntries) => Promise<void>
+  ): Promise<{ events: number; actions: number }> {
+    const removed = expiredEntries(
+      await this.loadEvents(),
+      await this.loadActions(),
+      rules
+    );
+
+    if (removed.events.length > 0 || removed.actions.length > 0) {
+      await archive?.(removed);
+
+      // Reload to keep entries saved while archiving
+      const ids = new Set(
+        [...removed.events, ...removed.actions].map((entry) => entry.id)
+      );
+      const events = await this.loadEvents();
+      const actions = await this.loadActions();
+      await this.saveEvents(events.filter((entry) => !ids.has(entry.id)));
+      await this.saveActions(actions.filter((entry) => !ids.has(entry.id)));
+    }
+
+    return { events: removed.events.length, actions: removed.actions.length };
+  }
+
   private async loadEvents(): Promise<EventEntry[]> {
     try {
       const data = await fs.readFile(this.eventsFile, 'utf-8');
@@ -157,3 +260,78 @@ export class FileStorage implements IStorage {
     await fs.writeFile(this.actionsFile, JSON.stringify(actions, null, 2));
   }
 }
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function matchesEntry(
+  entry: Pick<EventEntry, 'agentId' | 'timestamp' | 'metadata'>,
+  filter: EventFilter
+): boolean {
+  if (filter.agentId && entry.agentId !== filter.agentId) {
+    return false;
+  }
+  if (filter.fromTimestamp !== undefined && entry.timestamp < filter.fromTimestamp) {
+    return false;
+  }
+  if (filter.toTimestamp !== undefined && entry.timestamp > filter.toTimestamp) {
+    return false;
+  }
+  return Object.entries(filter.metadata ?? {}).every(
+    ([key, value]) => entry.metadata?.[key] === value
+  );
+}
+
+function expiredEntries(
+  events: EventEntry[],
+  actions: ActionEntry[],
+  rules: { events?: RetentionRule; actions?: RetentionRule }
+): PrunedEntries {
+  return {
+    events: rules.events
+      ? events.slice(0, countExpired(events.map(toSized), rules.events))
+      : [],
+    actions: rules.actions
+      ? actions.slice(0, countExpired(actions.map(toSized), rules.actions))
+      : [],
+  };
+}
+
+function isOneOf(value: any, expected?: any): boolean {
+  if (expected === undefined) {
+    return true;
+  }
+  return Array.isArray(expected) ? expected.includes(value) : value === expected;
+}
+
+function paginate<T extends { id: string }>(
+  entries: T[],
+  filter: EventFilter,
+  matches: (entry: T) => boolean
+): T[] {
+  let start = 0;
+  let end = entries.length;
+
+  if (filter.cursor !== undefined) {
+    const index = entries.findIndex((entry) => entry.id === filter.cursor);
+    if (index === -1) {
+      throw new Error(`Unknown cursor: ${filter.cursor}`);
+    }
+    if (filter.order === 'desc') {
+      end = index;
+    } else {
+      start = index + 1;
+    }
+  }
+
+  const page = entries.slice(start, end).filter(matches);
+  if (filter.order === 'desc') {
+    page.reverse();
+  }
+
+  const offset = filter.offset ?? 0;
+  return filter.limit !== undefined
+    ? page.slice(offset, offset + filter.limit)
+    : page.slice(offset);
+}
@@ -0,0 +1,570 @@
+/**
+ * Task Worker
+ * Picks up AgentManager tasks for our agents and drives them through their
+ * on-chain lifecycle: TaskCreated → startTask → Agent pipeline → completeTask / failTask
+ *
+ * Progress is journaled to a state file before every transaction, so after a
+ * restart the worker resumes where it stopped instead of starting a task twice:
+ * - claimed, still Pending on-chain: started again
+ * - claimed, InProgress: executed (the pipeline had not run yet)
+ * - executing or failing, InProgress: failed (the pipeline may have run partially)
+ * - completing, not yet Completed: completeTask resent with the journaled result
+ *
+ * @example
+ * ```typescript
+ * const worker = new TaskWorker(agent, kit.contracts.manager, {
+ *   agentIds: [1n],
+ *   ipfs: new IPFSManager({ apiEndpoint, apiKey, apiSecret }),
+ * });
+ * worker.on('task:completed', ({ taskId, result }) => console.log(taskId, result));
+ * await worker.start();
+ * ```
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { EventEmitter } from '../utils/logger';
+import type { Logger } from '../monitor/logger';
+import type { SomniaContracts } from '../core/contracts';
+import type { IPFSManager } from '../storage/ipfs';
+import type { EventOutcome } from '../types/agent';
+import type { Agent } from './agent';
+
+type AgentManager = SomniaContracts['AgentManager'];
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for TaskWorker
+ */
+export interface TaskWorkerConfig {
+  /** Agent IDs whose tasks this worker handles */
+  agentIds: Array<bigint | number | string>;
+
+  /** Journal file (default: ./data/task-worker.json) */
+  statePath?: string;
+
+  /** Upload results larger than ipfsThreshold here and store the ipfs:// URI instead */
+  ipfs?: IPFSManager;
+
+  /** Result size in bytes above which results go to IPFS (default: 1024) */
+  ipfsThreshold?: number;
+
+  /** How often to poll for new tasks in ms (default: 5000) */
+  pollInterval?: number;
+
+  /** Block to scan from on the first run (default: latest block) */
+  fromBlock?: number;
+
+  /** Max blocks per log query (default: 1000) */
+  maxBlockRange?: number;
+
+  /** Attempts per task before giving up on transient errors (default: 3) */
+  maxAttempts?: number;
+
+  logger?: Logger;
+}
+
+/**
+ * Journaled progress of a task
+ * - claimed: startTask about to be sent
+ * - executing: started on-chain, agent pipeline running
+ * - completing / failing: completeTask / failTask about to be sent
+ * - completed / failed / skipped: done (skipped = not ours to run)
+ */
+export type TaskStage =
+  | 'claimed'
+  | 'executing'
+  | 'completing'
+  | 'failing'
+  | 'completed'
+  | 'failed'
+  | 'skipped';
+
+/**
+ * Journal entry for a task
+ */
+export interface TaskRecord {
+  taskId: string;
+  agentId: string;
+  stage: TaskStage;
+  /** Result written (or to be written) on-chain */
+  result?: string;
+  /** Failure or skip reason */
+  error?: string;
+  /** Last lifecycle transaction */
+  txHash?: string;
+  /** Attempts that ended in a transient error */
+  attempts: number;
+  updatedAt: number;
+}
+
+/**
+ * Journal file contents
+ */
+export interface TaskWorkerState {
+  /** Last block scanned for TaskCreated events */
+  lastBlock: number | null;
+  tasks: Record<string, TaskRecord>;
+}
+
+/**
+ * Events emitted by TaskWorker
+ */
+export interface TaskWorkerEvents {
+  'task:started': { taskId: string; agentId: string; txHash: string };
+  'task:completed': { taskId: string; result: string; txHash: string };
+  'task:failed': { taskId: string; error: string; txHash?: string };
+  'task:skipped': { taskId: string; reason: string };
+  error: { error: any; taskId?: string };
+}
+
+/** AgentManager TaskStatus enum */
+enum TaskStatus {
+  Pending = 0,
+  InProgress = 1,
+  Completed = 2,
+  Failed = 3,
+  Cancelled = 4,
+}
+
+const FINAL_STAGES: TaskStage[] = ['completed', 'failed', 'skipped'];
+
+// =============================================================================
+// TaskWorker Class
+// =============================================================================
+
+/**
+ * Runs AgentManager tasks for a set of agent IDs through an Agent
+ * Tasks are handled one at a time, in the order they were created.
+ */
+export class TaskWorker extends EventEmitter<TaskWorkerEvents> {
+  readonly statePath: string;
+  private agent: Agent;
+  private manager: AgentManager;
+  private config: TaskWorkerConfig;
+  private agentIds: bigint[];
+  private state: TaskWorkerState = { lastBlock: null, tasks: {} };
+  private timer?: NodeJS.Timeout;
+  private polling: Promise<void> | null = null;
+  private running: boolean = false;
+
+  /**
+   * @param agent Agent whose pipeline runs the tasks
+   * @param manager AgentManager contract connected to the agent owner's signer
+   * @param config Worker options
+   */
+  constructor(agent: Agent, manager: AgentManager, config: TaskWorkerConfig) {
+    super();
+    if (config.agentIds.length === 0) {
+      throw new Error('TaskWorker needs at least one agent ID');
+    }
+
+    this.agent = agent;
+    this.manager = manager;
+    this.config = config;
+    this.agentIds = config.agentIds.map((id) => BigInt(id));
+    this.statePath = config.statePath || path.join('data', 'task-worker.json');
+  }
+
+  /**
+   * Load the journal, resume interrupted tasks and start polling
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      throw new Error('TaskWorker is already running');
+    }
+
+    this.state = await this.readState();
+    if (this.state.lastBlock === null) {
+      const latest = await this.getProvider().getBlockNumber();
+      this.state.lastBlock = (this.config.fromBlock ?? latest + 1) - 1;
+      await this.writeState();
+    }
+
+    this.running = true;
+    this.config.logger?.info('Task worker started', {
+      agentIds: this.agentIds.map(String),
+      lastBlock: this.state.lastBlock,
+    });
+
+    await this.poll();
+    this.timer = setInterval(() => void this.poll(), this.config.pollInterval ?? 5000);
+  }
+
+  /**
+   * Stop polling and wait for the task in progress to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    await this.polling;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Get the journal entry of a task
+   */
+  getTask(taskId: bigint | string): TaskRecord | undefined {
+    return this.state.tasks[taskId.toString()];
+  }
+
+  /**
+   * Run one poll cycle: retry unfinished tasks, then handle new TaskCreated events
+   * Skipped while the agent is not active; new tasks wait on-chain until it is.
+   */
+  async poll(): Promise<void> {
+    if (this.polling) {
+      return await this.polling;
+    }
+
+    this.polling = this.pollOnce().finally(() => {
+      this.polling = null;
+    });
+    return await this.polling;
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  private async pollOnce(): Promise<void> {
+    if (!this.running || !this.agent.isActive()) {
+      return;
+    }
+
+    try {
+      for (const record of Object.values(this.state.tasks)) {
+        if (!FINAL_STAGES.includes(record.stage)) {
+          await this.processTask(BigInt(record.taskId), BigInt(record.agentId));
+        }
+      }
+
+      const latest = await this.getProvider().getBlockNumber();
+      const maxRange = this.config.maxBlockRange ?? 1000;
+
+      let from = (this.state.lastBlock ?? latest) + 1;
+      while (from <= latest && this.running && this.agent.isActive()) {
+        const to = Math.min(from + maxRange - 1, latest);
+        const logs = await this.manager.queryFilter(
+          this.manager.filters.TaskCreated(undefined, this.agentIds),
+          from,
+          to
+        );
+
+        for (const log of logs as any[]) {
+          await this.processTask(BigInt(log.args.taskId), BigInt(log.args.agentId));
+        }
+
+        this.state.lastBlock = to;
+        await this.writeState();
+        from = to + 1;
+      }
+    } catch (error) {
+      this.emit('error', { error });
+      this.config.logger?.error('Task worker poll failed', { error });
+    }
+  }
+
+  /**
+   * Move a task forward from its journaled stage and on-chain status
+   * Errors after the task was journaled are counted and retried on the next poll.
+   */
+  private async processTask(taskId: bigint, agentId: bigint): Promise<void> {
+    const key = taskId.toString();
+    const record = this.state.tasks[key];
+    if (record && FINAL_STAGES.includes(record.stage)) {
+      return;
+    }
+
+    try {
+      await this.advance(taskId, agentId, record);
+    } catch (error) {
+      // Nothing journaled yet: leave the task to the next scan of its block
+      if (!this.state.tasks[key]) {
+        throw error;
+      }
+
+      const attempts = (record?.attempts ?? 0) + 1;
+      const message = (error as Error).message;
+      this.emit('error', { error, taskId: key });
+      this.config.logger?.error('Task processing failed', {
+        taskId: key,
+        attempts,
+        error,
+      });
+
+      if (attempts >= (this.config.maxAttempts ?? 3)) {
+        await this.record(taskId, agentId, 'skipped', { error: message, attempts });
+        this.emit('task:skipped', { taskId: key, reason: message });
+      } else {
+        await this.record(taskId, agentId, this.state.tasks[key].stage, { attempts });
+      }
+    }
+  }
+
+  private async advance(
+    taskId: bigint,
+    agentId: bigint,
+    record: TaskRecord | undefined
+  ): Promise<void> {
+    const key = taskId.toString();
+    const task = await this.manager.getTask(taskId);
+    const status = Number(task.status);
+
+    // Finished on-chain (possibly by us before a crash)
+    if (status >= TaskStatus.Completed) {
+      const stage: TaskStage =
+        status === TaskStatus.Completed && record?.stage === 'completing'
+          ? 'completed'
+          : status === TaskStatus.Failed && record
+            ? 'failed'
+            : 'skipped';
+      await this.record(taskId, agentId, stage, {
+        error: stage === 'skipped' ? `Task is ${TaskStatus[status]}` : undefined,
+      });
+      if (stage === 'skipped') {
+        this.emit('task:skipped', {
+          taskId: key,
+          reason: `Task is ${TaskStatus[status]}`,
+        });
+      }
+      return;
+    }
+
+    if (record?.stage === 'completing') {
+      await this.complete(taskId, agentId, record.result ?? '');
+      return;
+    }
+
+    if (status === TaskStatus.InProgress) {
+      if (!record) {
+        const reason = 'Task was started by another worker';
+        await this.record(taskId, agentId, 'skipped', { error: reason });
+        this.emit('task:skipped', { taskId: key, reason });
+        return;
+      }
+      if (record.stage !== 'claimed') {
+        await this.fail(
+          taskId,
+          agentId,
+          record.error || 'Worker stopped while the task was executing'
+        );
+        return;
+      }
+    }
+
+    if (status === TaskStatus.Pending) {
+      await this.record(taskId, agentId, 'claimed');
+      const tx = await this.manager.startTask(taskId);
+      await tx.wait();
+      this.emit('task:started', {
+        taskId: key,
+        agentId: agentId.toString(),
+        txHash: tx.hash,
+      });
+      this.config.logger?.info('Task started', { taskId: key, txHash: tx.hash });
+    }
+
+    await this.record(taskId, agentId, 'executing');
+
+    let outcome: EventOutcome | null;
+    try {
+      const payload = await this.parsePayload(task.taskData);
+      outcome = await this.agent.processEvent({
+        data: payload,
+        ...payload,
+        id: `task-${key}`,
+        type: 'task',
+        taskId: key,
+        agentId: agentId.toString(),
+        sender: task.requester,
+      });
+    } catch (error) {
+      await this.fail(taskId, agentId, (error as Error).message);
+      return;
+    }
+
+    if (!outcome) {
+      await this.fail(taskId, agentId, `Requester ${task.requester} is not permitted`);
+      return;
+    }
+
+    // Actions that did not run mean the task was not done
+    const [blocked] = outcome.blocked;
+    if (blocked) {
+      await this.fail(
+        taskId,
+        agentId,
+        `Action ${blocked.action.type} blocked: ${blocked.reason}`
+      );
+      return;
+    }
+
+    // The worker handles one task at a time and cannot wait for approvals; reject
+    // them so the actions do not run after the task was failed
+    if (outcome.pendingApprovals.length > 0) {
+      const reason = `Task ${key} cannot wait for approval`;
+      for (const approval of outcome.pendingApprovals) {
+        this.agent.rejectAction(approval.id, reason, 'task-worker');
+      }
+      const [approval] = outcome.pendingApprovals;
+      await this.fail(
+        taskId,
+        agentId,
+        `Action ${approval.action.type} requires approval (${approval.id})`
+      );
+      return;
+    }
+
+    const failed = outcome.results.find((result) => !result.success);
+    if (failed) {
+      await this.fail(taskId, agentId, failed.error || 'Action failed');
+      return;
+    }
+
+    await this.complete(taskId, agentId, await this.formatResult(outcome));
+  }
+
+  private async complete(taskId: bigint, agentId: bigint, result: string): Promise<void> {
+    await this.record(taskId, agentId, 'completing', { result });
+    const tx = await this.manager.completeTask(taskId, result);
+    await tx.wait();
+    await this.record(taskId, agentId, 'completed', { txHash: tx.hash });
+
+    this.emit('task:completed', { taskId: taskId.toString(), result, txHash: tx.hash });
+    this.config.logger?.info('Task completed', {
+      taskId: taskId.toString(),
+      txHash: tx.hash,
+    });
+  }
+
+  private async fail(taskId: bigint, agentId: bigint, error: string): Promise<void> {
+    await this.record(taskId, agentId, 'failing', { error });
+    const tx = await this.manager.failTask(taskId);
+    await tx.wait();
+    await this.record(taskId, agentId, 'failed', { txHash: tx.hash });
+
+    this.emit('task:failed', { taskId: taskId.toString(), error, txHash: tx.hash });
+    this.config.logger?.warn('Task failed', { taskId: taskId.toString(), error });
+  }
+
+  /**
+   * Decode the task payload: JSON, an ipfs:// URI of JSON, or plain text (as the goal)
+   */
+  private async parsePayload(taskData: string): Promise<Record<string, any>> {
+    if (this.config.ipfs && taskData.startsWith('ipfs://')) {
+      return toPayload(await this.config.ipfs.fetchJSON(taskData));
+    }
+
+    try {
+      return toPayload(JSON.parse(taskData));
+    } catch {
+      return { goal: taskData };
+    }
+  }
+
+  /**
+   * Serialize the executed actions, uploading large results to IPFS when configured
+   */
+  private async formatResult(outcome: EventOutcome): Promise<string> {
+    const summary = {
+      success: true,
+      results: outcome.actions.map((action, i) => ({
+        id: action.id,
+        type: action.type,
+        txHash: outcome.results[i]?.txHash,
+        data: outcome.results[i]?.data,
+      })),
+    };
+    const json = JSON.stringify(summary, (_key, value) =>
+      typeof value === 'bigint' ? value.toString() : value
+    );
+
+    if (
+      this.config.ipfs &&
+      Buffer.byteLength(json) > (this.config.ipfsThreshold ?? 1024)
+    ) {
+      const upload = await this.config.ipfs.uploadJSON(JSON.parse(json));
+      return upload.uri;
+    }
+    return json;
+  }
+
+  private async record(
+    taskId: bigint,
+    agentId: bigint,
+    stage: TaskStage,
+    fields: Partial<TaskRecord> = {}
+  ): Promise<void> {
+    const key = taskId.toString();
+    const previous = this.state.tasks[key];
+    this.state.tasks[key] = {
+      ...previous,
+      ...Object.fromEntries(
+        Object.entries(fields).filter(([, value]) => value !== undefined)
+      ),
+      taskId: key,
+      agentId: agentId.toString(),
+      stage,
+      attempts: fields.attempts ?? previous?.attempts ?? 0,
+      updatedAt: Date.now(),
+    };
+    await this.writeState();
+  }
+
+  private getProvider() {
+    const provider = this.manager.runner?.provider;
+    if (!provider) {
+      throw new Error('AgentManager contract is not connected to a provider');
+    }
+    return provider;
+  }
+
+  private async readState(): Promise<TaskWorkerState> {
+    try {
+      return JSON.parse(await fs.readFile(this.statePath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { lastBlock: null, tasks: {} };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Write the journal via a temp file so a crash never leaves it half-written
+   */
+  private async writeState(): Promise<void> {
+    const tmp = `${this.statePath}.tmp`;
+    await fs.mkdir(path.dirname(this.statePath), { recursive: true });
+    await fs.writeFile(tmp, JSON.stringify(this.state, null, 2));
+    await fs.rename(tmp, this.statePath);
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Wrap non-object JSON payloads: strings become the goal, anything else the data
+ */
+function toPayload(value: any): Record<string, any> {
+  if (typeof value === 'string') {
+    return { goal: value };
+  }
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? value
+    : { data: value };
+}
+
+export { TaskWorker as default };
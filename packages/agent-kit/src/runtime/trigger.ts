@@ -11,10 +11,11 @@ import type {
   TriggerCondition,
   TriggerConfig,
 } from '../types/trigger';
-import { TriggerType, TriggerStatus } from '../types/trigger'; // Import enums as values
+import { TriggerType, TriggerStatus, MissedRunPolicy } from '../types/trigger'; // Import enums as values
+import { CronExpression } from '../utils/cron';
 
 // Re-export types for backward compatibility
-export { TriggerType, TriggerStatus };
+export { TriggerType, TriggerStatus, MissedRunPolicy };
 export type { ITrigger, TriggerCondition, TriggerConfig };
 
 // =============================================================================
@@ -296,9 +297,20 @@ export class Trigger {
   private triggers: Map<string, TriggerConfig> = new Map();
   private listeners: Map<string, ((data: any) => void)[]> = new Map();
   private intervals: Map<string, NodeJS.Timeout> = new Map();
+  private schedules: Map<
+    string,
+    { cron: CronExpression; nextRunAt: number; timer?: NodeJS.Timeout }
+  > = new Map();
+
+  // Max delay accepted by setTimeout (~24.8 days)
+  private static readonly MAX_TIMEOUT_MS = 2_147_483_647;
+
+  // Runs fired later than this are treated as missed
+  private static readonly MISSED_RUN_TOLERANCE_MS = 60_000;
 
   /**
    * Register a trigger
+   * @throws Error if a time trigger has an invalid schedule or timezone
    */
   register(config: Omit<TriggerConfig, 'id' | 'createdAt'>): string {
     const id = `trigger-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
@@ -308,6 +320,15 @@ export class Trigger {
       ...config,
     };
 
+    // Validate schedule up front so bad cron expressions fail at registration
+    if (
+      config.type === TriggerType.Time &&
+      config.schedule &&
+      !this.parseSchedule(config.schedule)
+    ) {
+      CronExpression.parse(config.schedule, { timezone: config.timezone });
+    }
+
     this.triggers.set(id, fullConfig);
 
     // Setup trigger based on type
@@ -340,14 +361,18 @@ export class Trigger {
 
   /**
    * Setup time-based trigger
+   * Supports "interval:<seconds>" and cron expressions
    */
   private setupTimeTrigger(config: TriggerConfig): void {
-    if (!config.schedule) {
+    if (
+      !config.schedule ||
+      this.intervals.has(config.id) ||
+      this.schedules.has(config.id)
+    ) {
       return;
     }
 
-    // Simple interval parsing (e.g., "*/5 * * * *" -> every 5 minutes)
-    // In production, use a proper cron parser
+    // Legacy fixed interval format
     const intervalMs = this.parseSchedule(config.schedule);
     if (intervalMs) {
       const interval = setInterval(() => {
@@ -355,14 +380,161 @@ export class Trigger {
       }, intervalMs);
 
       this.intervals.set(config.id, interval);
+      return;
+    }
+
+    const cron = CronExpression.parse(config.schedule, { timezone: config.timezone });
+    const now = Date.now();
+
+    // Catch up on runs missed since the last fire (e.g. trigger restored or re-enabled)
+    if (config.lastTriggeredAt) {
+      const missed = cron.between(config.lastTriggeredAt, now);
+      if (missed.length > 0) {
+        this.fireScheduledRuns(config, missed, now);
+      }
+    }
+
+    const nextRunAt = cron.next(now);
+    if (nextRunAt === null || !this.triggers.has(config.id) || !config.enabled) {
+      return;
+    }
+
+    this.schedules.set(config.id, { cron, nextRunAt });
+    this.scheduleNextRun(config.id);
+  }
+
+  /**
+   * Arm the timer for the next cron run of a trigger
+   */
+  private scheduleNextRun(triggerId: string): void {
+    const schedule = this.schedules.get(triggerId);
+    const config = this.triggers.get(triggerId);
+    if (!schedule || !config) {
+      return;
+    }
+
+    if (config.expiresAt && schedule.nextRunAt > config.expiresAt) {
+      this.expireTrigger(triggerId);
+      return;
+    }
+
+    const delay = Math.max(0, schedule.nextRunAt - Date.now());
+
+    // Long delays are chained because setTimeout overflows past MAX_TIMEOUT_MS
+    if (delay > Trigger.MAX_TIMEOUT_MS) {
+      schedule.timer = setTimeout(
+        () => this.scheduleNextRun(triggerId),
+        Trigger.MAX_TIMEOUT_MS
+      );
+      return;
+    }
+
+    schedule.timer = setTimeout(() => this.onScheduleTimer(triggerId), delay);
+  }
+
+  /**
+   * Handle a cron timer firing
+   * Collects every run due since the armed time (timers can fire late)
+   */
+  private onScheduleTimer(triggerId: string): void {
+    const schedule = this.schedules.get(triggerId);
+    const config = this.triggers.get(triggerId);
+    if (!schedule || !config) {
+      return;
+    }
+
+    const now = Date.now();
+    const due = [schedule.nextRunAt, ...schedule.cron.between(schedule.nextRunAt, now)];
+
+    this.fireScheduledRuns(config, due, now);
+
+    // Trigger may have been disabled, expired or deleted while firing
+    if (!this.schedules.has(triggerId)) {
+      return;
+    }
+
+    const nextRunAt = schedule.cron.next(now);
+    if (nextRunAt === null) {
+      this.schedules.delete(triggerId);
+      return;
+    }
+
+    schedule.nextRunAt = nextRunAt;
+    this.scheduleNextRun(triggerId);
+  }
+
+  /**
+   * Fire due cron runs according to the trigger's missed-run policy
+   * @param config Trigger configuration
+   * @param due Due run times in ascending order
+   * @param now Current time
+   */
+  private fireScheduledRuns(config: TriggerConfig, due: number[], now: number): void {
+    const onTime = due.filter((time) => now - time <= Trigger.MISSED_RUN_TOLERANCE_MS);
+    const missed = due.filter((time) => now - time > Trigger.MISSED_RUN_TOLERANCE_MS);
+    const policy = config.missedRunPolicy || MissedRunPolicy.Skip;
+
+    let runs: Array<{ scheduledAt: number; missed: boolean; missedCount?: number }> = [];
+
+    if (missed.length > 0) {
+      switch (policy) {
+        case MissedRunPolicy.FireAll:
+          runs = missed.map((scheduledAt) => ({ scheduledAt, missed: true }));
+          break;
+        case MissedRunPolicy.FireOnce:
+          // A single catch-up run is redundant if an on-time run follows
+          if (onTime.length === 0) {
+            runs = [
+              {
+                scheduledAt: missed[missed.length - 1],
+                missed: true,
+                missedCount: missed.length,
+              },
+            ];
+          }
+          break;
+        case MissedRunPolicy.Skip:
+          break;
+      }
+    }
+
+    runs.push(...onTime.map((scheduledAt) => ({ scheduledAt, missed: false })));
+
+    for (const run of runs) {
+      this.fireTrigger(config.id, run);
+    }
+  }
+
+  /**
+   * Mark a trigger as expired and stop it
+   */
+  private expireTrigger(triggerId: string): void {
+    const config = this.triggers.get(triggerId);
+    if (!config) {
+      return;
     }
+
+    this.disable(triggerId);
+    this.emit('expired', {
+      triggerId,
+      status: TriggerStatus.Expired,
+      expiresAt: config.expiresAt,
+    });
   }
 
   /**
-   * Parse schedule string to milliseconds
+   * Get next scheduled fire time of a cron trigger
+   * @param triggerId Trigger ID
+   * @returns Next fire time in ms, or null if not scheduled
+   */
+  getNextRunTime(triggerId: string): number | null {
+    return this.schedules.get(triggerId)?.nextRunAt ?? null;
+  }
+
+  /**
+   * Parse legacy "interval:<seconds>" schedule to milliseconds
    */
   private parseSchedule(schedule: string): number | null {
-    // Simplified schedule parsing
     // Format: "interval:seconds" (e.g., "interval:60" for every 60 seconds)
     const match = schedule.match(/^interval:(\d+)$/);
     if (match) {
@@ -449,6 +621,11 @@ export class Trigger {
       return;
     }
 
+    if (config.expiresAt && Date.now() >= config.expiresAt) {
+      this.expireTrigger(triggerId);
+      return;
+    }
+
     config.lastTriggeredAt = Date.now();
 
     // Emit trigger event
@@ -520,6 +697,13 @@ export class Trigger {
         clearInterval(interval);
         this.intervals.delete(triggerId);
       }
+
+      // Clear cron timer if exists
+      const schedule = this.schedules.get(triggerId);
+      if (schedule) {
+        clearTimeout(schedule.timer);
+        this.schedules.delete(triggerId);
+      }
     }
   }
 
@@ -554,6 +738,10 @@ export class Trigger {
       clearInterval(interval);
     }
     this.intervals.clear();
+    for (const schedule of this.schedules.values()) {
+      clearTimeout(schedule.timer);
+    }
+    this.schedules.clear();
     this.listeners.clear();
     this.triggers.clear();
   }
@@ -0,0 +1,195 @@
+/**
+ * Memory Vector Stores
+ * Embedding indexes behind Memory.search and hybrid memory context
+ * Ships an in-process cosine index and a file-persisted index
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { VectorMatch, VectorRecord, VectorStore } from '../types/memory';
+
+// Re-export types for convenience
+export { VectorMatch, VectorRecord, VectorStore };
+
+// =============================================================================
+// In-Memory Vector Store
+// =============================================================================
+
+/**
+ * In-process cosine similarity index (brute force, fine for agent-sized memories)
+ */
+export class InMemoryVectorStore implements VectorStore {
+  private sessions: Map<string, Map<string, VectorRecord>> = new Map();
+
+  async upsert(record: VectorRecord): Promise<void> {
+    const records = this.sessions.get(record.sessionId) || new Map();
+    records.set(record.id, record);
+    this.sessions.set(record.sessionId, records);
+  }
+
+  async search(sessionId: string, vector: number[], k: number): Promise<VectorMatch[]> {
+    return rankRecords(this.sessions.get(sessionId)?.values() ?? [], vector, k);
+  }
+
+  async has(sessionId: string, id: string): Promise<boolean> {
+    return this.sessions.get(sessionId)?.has(id) ?? false;
+  }
+
+  async delete(sessionId: string, ids: string[]): Promise<void> {
+    const records = this.sessions.get(sessionId);
+    for (const id of ids) {
+      records?.delete(id);
+    }
+  }
+
+  async clear(sessionId?: string): Promise<void> {
+    if (sessionId) {
+      this.sessions.delete(sessionId);
+    } else {
+      this.sessions.clear();
+    }
+  }
+}
+
+// =============================================================================
+// File-based Vector Store
+// =============================================================================
+
+/**
+ * File-persisted index (one JSON file per session, loaded on first use)
+ */
+export class FileVectorStore implements VectorStore {
+  private basePath: string;
+  private sessions: Map<string, Map<string, VectorRecord>> = new Map();
+
+  constructor(basePath: string = './data/vectors') {
+    this.basePath = basePath;
+  }
+
+  async upsert(record: VectorRecord): Promise<void> {
+    const records = await this.loadSession(record.sessionId);
+    records.set(record.id, record);
+    await this.saveSession(record.sessionId);
+  }
+
+  async search(sessionId: string, vector: number[], k: number): Promise<VectorMatch[]> {
+    return rankRecords((await this.loadSession(sessionId)).values(), vector, k);
+  }
+
+  async has(sessionId: string, id: string): Promise<boolean> {
+    return (await this.loadSession(sessionId)).has(id);
+  }
+
+  async delete(sessionId: string, ids: string[]): Promise<void> {
+    const records = await this.loadSession(sessionId);
+    for (const id of ids) {
+      records.delete(id);
+    }
+    await this.saveSession(sessionId);
+  }
+
+  async clear(sessionId?: string): Promise<void> {
+    const files = sessionId
+      ? [this.getFilePath(sessionId)]
+      : await fs
+          .readdir(this.basePath)
+          .then((names) =>
+            names
+              .filter((name) => name.endsWith('.json'))
+              .map((name) => path.join(this.basePath, name))
+          )
+          .catch(() => [] as string[]);
+
+    for (const file of files) {
+      await fs.rm(file, { force: true });
+    }
+
+    if (sessionId) {
+      this.sessions.delete(sessionId);
+    } else {
+      this.sessions.clear();
+    }
+  }
+
+  private getFilePath(sessionId: string): string {
+    return path.join(this.basePath, `${sessionId}.json`);
+  }
+
+  private async loadSession(sessionId: string): Promise<Map<string, VectorRecord>> {
+    let records = this.sessions.get(sessionId);
+    if (records) {
+      return records;
+    }
+
+    records = new Map();
+    try {
+      const data = await fs.readFile(this.getFilePath(sessionId), 'utf-8');
+      for (const record of JSON.parse(data) as VectorRecord[]) {
+        records.set(record.id, record);
+      }
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    this.sessions.set(sessionId, records);
+    return records;
+  }
+
+  /**
+   * Write a session atomically (temp file + rename)
+   */
+  private async saveSession(sessionId: string): Promise<void> {
+    const records = [...(this.sessions.get(sessionId)?.values() ?? [])];
+    const filePath = this.getFilePath(sessionId);
+    const tmpPath = `${filePath}.tmp`;
+
+    await fs.mkdir(this.basePath, { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(records), 'utf-8');
+    await fs.rename(tmpPath, filePath);
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Cosine similarity of two vectors (0 if either is all zeros)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Vector dimensions differ: ${a.length} vs ${b.length}`);
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Top k records by similarity (records from another embedding model, i.e. with
+ * another dimension, are skipped)
+ */
+function rankRecords(
+  records: Iterable<VectorRecord>,
+  vector: number[],
+  k: number
+): VectorMatch[] {
+  const matches: VectorMatch[] = [];
+  for (const record of records) {
+    if (record.vector.length === vector.length) {
+      matches.push({ id: record.id, score: cosineSimilarity(vector, record.vector) });
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, k);
+}
@@ -1,8 +1,9 @@
 /**
  * Token utilities module
- * ERC20, ERC721, and native token management
+ * ERC20, ERC721, native token and AgentVault management
  */
 
 export * from './erc20';
 export * from './erc721';
 export * from './native';
+export * from './vault';
@@ -18,6 +18,7 @@
 
 import { ethers } from 'ethers';
 import type { ChainClient } from '../core/chainClient';
+import type { FeeSpeed } from '../core/feeStrategy';
 
 // =============================================================================
 // Types & Interfaces
@@ -51,9 +52,11 @@ export interface BatchTransferParams {
 export interface GasEstimate {
   /** Estimated gas limit */
   gasLimit: bigint;
-  /** Gas price */
+  /** Max price per gas (maxFeePerGas, or gasPrice on legacy chains) */
   gasPrice: bigint;
-  /** Total cost in wei */
+  /** Max priority fee per gas (EIP-1559 chains) */
+  maxPriorityFeePerGas?: bigint;
+  /** Worst-case total cost in wei */
   totalCost: bigint;
 }
 
@@ -189,7 +192,8 @@ export class NativeTokenManager {
    *
    * @param to - Recipient address
    * @param amount - Amount to transfer
-   * @returns Gas estimation
+   * @param speed - Fee preset (optional, defaults to the fee strategy's speed)
+   * @returns Gas estimation with fees from the fee strategy
    *
    * @example
    * ```typescript
@@ -200,7 +204,11 @@ export class NativeTokenManager {
    * console.log('Estimated cost:', ethers.formatEther(estimate.totalCost));
    * ```
    */
-  async estimateTransferGas(to: string, amount: bigint): Promise<GasEstimate> {
+  async estimateTransferGas(
+    to: string,
+    amount: bigint,
+    speed?: FeeSpeed
+  ): Promise<GasEstimate> {
     const provider = this.chainClient.getProvider();
     const signer = this.chainClient.getSigner();
 
@@ -211,12 +219,13 @@ export class NativeTokenManager {
     };
 
     const gasLimit = await provider.estimateGas(tx);
-    const feeData = await provider.getFeeData();
-    const gasPrice = feeData.gasPrice || 0n;
+    const fees = await this.chainClient.getSignerManager().getFees(speed);
+    const gasPrice = fees.maxFeePerGas ?? fees.gasPrice ?? 0n;
 
     return {
       gasLimit,
       gasPrice,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
       totalCost: gasLimit * gasPrice,
     };
   }
@@ -224,7 +233,7 @@ export class NativeTokenManager {
   /**
    * Get current gas price
    *
-   * @returns Gas price in wei
+   * @returns Max fee per gas from the fee strategy (gas price on legacy chains) in wei
    *
    * @example
    * ```typescript
@@ -233,13 +242,13 @@ export class NativeTokenManager {
    * ```
    */
   async getGasPrice(): Promise<bigint> {
-    const feeData = await this.chainClient.getProvider().getFeeData();
-    return feeData.gasPrice || 0n;
+    return await this.chainClient.getSignerManager().getGasPrice();
   }
 
   /**
-   * Get fee data (gas price, max fee, max priority fee)
+   * Get fee data (gas price, max fee, max priority fee) from the fee strategy
    *
+   * @param speed - Fee preset (optional, defaults to the fee strategy's speed)
    * @returns Fee data
    *
    * @example
@@ -249,8 +258,13 @@ export class NativeTokenManager {
    * console.log('Max fee:', feeData.maxFeePerGas);
    * ```
    */
-  async getFeeData(): Promise<ethers.FeeData> {
-    return await this.chainClient.getProvider().getFeeData();
+  async getFeeData(speed?: FeeSpeed): Promise<ethers.FeeData> {
+    const fees = await this.chainClient.getSignerManager().getFees(speed);
+    return new ethers.FeeData(
+      fees.gasPrice ?? null,
+      fees.maxFeePerGas ?? null,
+      fees.maxPriorityFeePerGas ?? null
+    );
   }
 
   /**
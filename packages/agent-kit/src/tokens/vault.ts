@@ -0,0 +1,476 @@
+/**
+ * AgentVault Manager
+ *
+ * High-level API for the AgentVault contract, which holds native and ERC20
+ * funds per agent. Native withdrawals are capped by a daily limit over 24-hour
+ * windows. Failed calls are reported with the decoded revert reason.
+ *
+ * @example
+ * ```typescript
+ * const vault = kit.getVaultManager();
+ *
+ * // Owner: create a vault with a 1 STT daily limit and fund it
+ * await vault.createVault(agentAddress, ethers.parseEther('1'));
+ * await vault.depositNative(agentAddress, ethers.parseEther('5'));
+ *
+ * // Agent: spend within the daily limit
+ * const { remaining } = await vault.getDailyLimitInfo(agentAddress);
+ * await vault.withdrawNative(agentAddress, recipient, remaining);
+ * ```
+ */
+
+import { Contract, ethers } from 'ethers';
+import type { ChainClient } from '../core/chainClient';
+import { ERC20Manager } from './erc20';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+
+/**
+ * Daily withdrawal limit of a vault
+ */
+export interface DailyLimitInfo {
+  /** Daily limit in wei */
+  limit: bigint;
+  /** Withdrawn in the current window in wei */
+  spent: bigint;
+  /** Still withdrawable in the current window in wei */
+  remaining: bigint;
+  /**
+   * When the current window ends (ms timestamp), or null when it has already
+   * ended and the next withdrawal starts a new one
+   */
+  resetsAt: number | null;
+}
+
+/**
+ * Vault state for an agent
+ */
+export interface VaultInfo {
+  agent: string;
+  active: boolean;
+  nativeBalance: bigint;
+  allowedTokens: string[];
+  dailyLimit: DailyLimitInfo;
+  /** Native amount withdrawable right now (balance and daily limit) */
+  withdrawable: bigint;
+}
+
+// =============================================================================
+// AgentVault ABI
+// =============================================================================
+
+const AGENT_VAULT_ABI = [
+  // Read functions
+  'function registeredAgents(address agent) view returns (bool)',
+  'function getNativeBalance(address agent) view returns (uint256)',
+  'function getTokenBalance(address agent, address token) view returns (uint256)',
+  'function getAllowedTokens(address agent) view returns (address[])',
+  'function getDailyLimitInfo(address agent) view returns (uint256 limit, uint256 spent, uint256 remaining, uint256 resetTime)',
+  'function isVaultActive(address agent) view returns (bool)',
+  'function MIN_DAILY_LIMIT() view returns (uint256)',
+  'function MAX_DAILY_LIMIT() view returns (uint256)',
+
+  // Write functions
+  'function createVault(address agent, uint256 dailyLimit)',
+  'function depositNative(address agent) payable',
+  'function depositToken(address agent, address token, uint256 amount)',
+  'function withdrawNative(address agent, address recipient, uint256 amount)',
+  'function withdrawToken(address agent, address token, address recipient, uint256 amount)',
+  'function allowToken(address agent, address token)',
+  'function disallowToken(address agent, address token)',
+  'function updateDailyLimit(address agent, uint256 newLimit)',
+  'function activateVault(address agent)',
+  'function deactivateVault(address agent)',
+
+  // Errors (OpenZeppelin)
+  'error OwnableUnauthorizedAccount(address account)',
+  'error SafeERC20FailedOperation(address token)',
+  'error ReentrancyGuardReentrantCall()',
+];
+
+/** Daily limit bounds enforced by the contract */
+export const VAULT_MIN_DAILY_LIMIT = ethers.parseEther('0.01');
+export const VAULT_MAX_DAILY_LIMIT = ethers.parseEther('100');
+
+// =============================================================================
+// VaultManager Class
+// =============================================================================
+
+/**
+ * AgentVault Manager
+ *
+ * Owner operations (createVault, allowToken, updateDailyLimit, ...) must be sent
+ * by the vault contract owner; withdrawals by the agent or the owner.
+ */
+export class VaultManager {
+  readonly address: string;
+  private chainClient: ChainClient;
+
+  /**
+   * Create a new VaultManager instance
+   *
+   * @param chainClient - ChainClient instance for blockchain interaction
+   * @param address - AgentVault contract address
+   */
+  constructor(chainClient: ChainClient, address: string) {
+    this.chainClient = chainClient;
+    this.address = ethers.getAddress(address);
+  }
+
+  // ===========================================================================
+  // Owner Operations
+  // ===========================================================================
+
+  /**
+   * Create a vault for an agent
+   *
+   * @param agent - Agent address (may withdraw from the vault)
+   * @param dailyLimit - Daily native withdrawal limit in wei (0.01 - 100 STT)
+   * @returns Transaction receipt
+   */
+  async createVault(
+    agent: string,
+    dailyLimit: bigint
+  ): Promise<ethers.TransactionReceipt> {
+    assertDailyLimit(dailyLimit);
+    return await this.send('createVault', [agent, dailyLimit]);
+  }
+
+  /**
+   * Change an agent's daily limit
+   *
+   * @param agent - Agent address
+   * @param dailyLimit - New daily limit in wei (0.01 - 100 STT)
+   * @returns Transaction receipt
+   */
+  async updateDailyLimit(
+    agent: string,
+    dailyLimit: bigint
+  ): Promise<ethers.TransactionReceipt> {
+    assertDailyLimit(dailyLimit);
+    return await this.send('updateDailyLimit', [agent, dailyLimit]);
+  }
+
+  /**
+   * Allow an ERC20 token to be deposited into an agent's vault
+   *
+   * @param agent - Agent address
+   * @param token - Token contract address
+   * @returns Transaction receipt
+   */
+  async allowToken(agent: string, token: string): Promise<ethers.TransactionReceipt> {
+    return await this.send('allowToken', [agent, token]);
+  }
+
+  /**
+   * Stop allowing deposits of an ERC20 token (existing balances stay withdrawable)
+   *
+   * @param agent - Agent address
+   * @param token - Token contract address
+   * @returns Transaction receipt
+   */
+  async disallowToken(agent: string, token: string): Promise<ethers.TransactionReceipt> {
+    return await this.send('disallowToken', [agent, token]);
+  }
+
+  /**
+   * Re-enable withdrawals from an agent's vault
+   *
+   * @param agent - Agent address
+   * @returns Transaction receipt
+   */
+  async activateVault(agent: string): Promise<ethers.TransactionReceipt> {
+    return await this.send('activateVault', [agent]);
+  }
+
+  /**
+   * Block all withdrawals from an agent's vault
+   *
+   * @param agent - Agent address
+   * @returns Transaction receipt
+   */
+  async deactivateVault(agent: string): Promise<ethers.TransactionReceipt> {
+    return await this.send('deactivateVault', [agent]);
+  }
+
+  // ===========================================================================
+  // Deposits & Withdrawals
+  // ===========================================================================
+
+  /**
+   * Deposit native tokens into an agent's vault
+   *
+   * @param agent - Agent address
+   * @param amount - Amount in wei
+   * @returns Transaction receipt
+   */
+  async depositNative(agent: string, amount: bigint): Promise<ethers.TransactionReceipt> {
+    return await this.send('depositNative', [agent], { value: amount });
+  }
+
+  /**
+   * Deposit ERC20 tokens into an agent's vault
+   * Approves the vault first when the allowance is too low.
+   *
+   * @param agent - Agent address
+   * @param token - Token contract address (must be allowed for the vault)
+   * @param amount - Amount in the token's smallest unit
+   * @returns Transaction receipt
+   */
+  async depositToken(
+    agent: string,
+    token: string,
+    amount: bigint
+  ): Promise<ethers.TransactionReceipt> {
+    await new ERC20Manager(this.chainClient).ensureApproval(token, this.address, amount);
+    return await this.send('depositToken', [agent, token, amount]);
+  }
+
+  /**
+   * Withdraw native tokens from an agent's vault (counts towards the daily limit)
+   *
+   * @param agent - Agent address
+   * @param recipient - Recipient address
+   * @param amount - Amount in wei
+   * @returns Transaction receipt
+   */
+  async withdrawNative(
+    agent: string,
+    recipient: string,
+    amount: bigint
+  ): Promise<ethers.TransactionReceipt> {
+    try {
+      return await this.send('withdrawNative', [agent, recipient, amount]);
+    } catch (error) {
+      // Say how much is left when the limit is hit
+      if ((error as Error).message.endsWith('Daily limit exceeded')) {
+        const { remaining } = await this.getDailyLimitInfo(agent);
+        throw new Error(
+          `${(error as Error).message} (${ethers.formatEther(remaining)} STT remaining today)`
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Withdraw ERC20 tokens from an agent's vault
+   *
+   * @param agent - Agent address
+   * @param token - Token contract address
+   * @param recipient - Recipient address
+   * @param amount - Amount in the token's smallest unit
+   * @returns Transaction receipt
+   */
+  async withdrawToken(
+    agent: string,
+    token: string,
+    recipient: string,
+    amount: bigint
+  ): Promise<ethers.TransactionReceipt> {
+    return await this.send('withdrawToken', [agent, token, recipient, amount]);
+  }
+
+  // ===========================================================================
+  // Queries
+  // ===========================================================================
+
+  /**
+   * Check whether an agent has a vault
+   *
+   * @param agent - Agent address
+   */
+  async hasVault(agent: string): Promise<boolean> {
+    return await this.getContract().registeredAgents(agent);
+  }
+
+  /**
+   * Get the full state of an agent's vault
+   *
+   * @param agent - Agent address
+   * @returns Vault state
+   */
+  async getVault(agent: string): Promise<VaultInfo> {
+    const [active, nativeBalance, allowedTokens, dailyLimit] = await Promise.all([
+      this.isVaultActive(agent),
+      this.getNativeBalance(agent),
+      this.getAllowedTokens(agent),
+      this.getDailyLimitInfo(agent),
+    ]);
+
+    return {
+      agent: ethers.getAddress(agent),
+      active,
+      nativeBalance,
+      allowedTokens,
+      dailyLimit,
+      withdrawable: !active
+        ? 0n
+        : nativeBalance < dailyLimit.remaining
+          ? nativeBalance
+          : dailyLimit.remaining,
+    };
+  }
+
+  /**
+   * Get an agent's daily limit, with the spend reset applied when the window
+   * has already ended (the contract only resets it on the next withdrawal)
+   *
+   * @param agent - Agent address
+   * @returns Daily limit info
+   */
+  async getDailyLimitInfo(agent: string): Promise<DailyLimitInfo> {
+    const [info, block] = await Promise.all([
+      this.call('getDailyLimitInfo', [agent]),
+      this.chainClient.getProvider().getBlock('latest'),
+    ]);
+
+    return computeDailyLimit(
+      info.limit,
+      info.spent,
+      Number(info.resetTime),
+      block?.timestamp ?? Math.floor(Date.now() / 1000)
+    );
+  }
+
+  /**
+   * Get an agent's native vault balance
+   *
+   * @param agent - Agent address
+   * @returns Balance in wei
+   */
+  async getNativeBalance(agent: string): Promise<bigint> {
+    return await this.call('getNativeBalance', [agent]);
+  }
+
+  /**
+   * Get an agent's ERC20 vault balance
+   *
+   * @param agent - Agent address
+   * @param token - Token contract address
+   * @returns Balance in the token's smallest unit
+   */
+  async getTokenBalance(agent: string, token: string): Promise<bigint> {
+    return await this.call('getTokenBalance', [agent, token]);
+  }
+
+  /**
+   * Get the tokens that may be deposited into an agent's vault
+   *
+   * @param agent - Agent address
+   * @returns Token addresses
+   */
+  async getAllowedTokens(agent: string): Promise<string[]> {
+    return [...(await this.call('getAllowedTokens', [agent]))];
+  }
+
+  /**
+   * Check whether withdrawals from an agent's vault are enabled
+   *
+   * @param agent - Agent address
+   */
+  async isVaultActive(agent: string): Promise<boolean> {
+    return await this.call('isVaultActive', [agent]);
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  private getContract(): Contract {
+    return this.chainClient.getContract(this.address, AGENT_VAULT_ABI);
+  }
+
+  private async call(method: string, args: any[]): Promise<any> {
+    const contract = this.getContract();
+    try {
+      return await contract.getFunction(method)(...args);
+    } catch (error) {
+      throw decodeVaultError(contract, method, error);
+    }
+  }
+
+  private async send(
+    method: string,
+    args: any[],
+    overrides: ethers.Overrides & { value?: bigint } = {}
+  ): Promise<ethers.TransactionReceipt> {
+    const contract = this.getContract();
+    try {
+      const tx = await contract.getFunction(method)(...args, overrides);
+      const receipt = await tx.wait();
+      if (!receipt) {
+        throw new Error(`AgentVault ${method} transaction failed`);
+      }
+      return receipt;
+    } catch (error) {
+      throw decodeVaultError(contract, method, error);
+    }
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Compute the daily limit state at a given chain time
+ *
+ * @param limit - Daily limit in wei
+ * @param spent - Spent amount stored by the contract
+ * @param resetTime - Window end stored by the contract (seconds)
+ * @param now - Current chain time (seconds)
+ */
+export function computeDailyLimit(
+  limit: bigint,
+  spent: bigint,
+  resetTime: number,
+  now: number
+): DailyLimitInfo {
+  if (now >= resetTime) {
+    return { limit, spent: 0n, remaining: limit, resetsAt: null };
+  }
+
+  return {
+    limit,
+    spent,
+    remaining: limit > spent ? limit - spent : 0n,
+    resetsAt: resetTime * 1000,
+  };
+}
+
+/**
+ * Turn a failed AgentVault call into an error with the decoded revert reason
+ */
+function decodeVaultError(contract: Contract, method: string, error: unknown): Error {
+  const callError = error as ethers.CallExceptionError;
+  if (callError?.code !== 'CALL_EXCEPTION') {
+    return error instanceof Error ? error : new Error(String(error));
+  }
+
+  let reason = callError.reason;
+  if (!reason) {
+    const revert =
+      callError.revert ??
+      (callError.data ? contract.interface.parseError(callError.data) : null);
+    if (revert?.name === 'OwnableUnauthorizedAccount') {
+      reason = `${revert.args[0]} is not the vault owner`;
+    } else if (revert) {
+      reason = `${revert.name}(${Array.from(revert.args, String).join(', ')})`;
+    }
+  }
+
+  return new Error(`AgentVault ${method} reverted: ${reason || 'execution reverted'}`);
+}
+
+function assertDailyLimit(dailyLimit: bigint): void {
+  if (dailyLimit < VAULT_MIN_DAILY_LIMIT || dailyLimit > VAULT_MAX_DAILY_LIMIT) {
+    throw new Error(
+      `Daily limit must be between ${ethers.formatEther(VAULT_MIN_DAILY_LIMIT)} and ${ethers.formatEther(VAULT_MAX_DAILY_LIMIT)} STT`
+    );
+  }
+}
+
+export { VaultManager as default };
@@ -4,6 +4,9 @@
  * This is the "action language" that the runtime understands and executes
  */
 
+import type { ethers } from 'ethers';
+import type { ZodTypeAny } from 'zod';
+import type { SwapProvider } from '../dex/provider';
 import type { Hash, Timestamp } from './common';
 import { ActionType } from './llm';
 
@@ -130,6 +133,8 @@ export enum ExecutionStatus {
   Retrying = 'retrying',
   Cancelled = 'cancelled',
   Timeout = 'timeout',
+  /** Not run because a dependency did not succeed */
+  Skipped = 'skipped',
 }
 
 /**
@@ -206,6 +211,9 @@ export interface ExecutorConfig {
 
   /** Maximum concurrent executions */
   maxConcurrent?: number;
+
+  /** DEX used by the get_quote and execute_swap handlers */
+  swapProvider?: SwapProvider;
 }
 
 // =============================================================================
@@ -221,6 +229,50 @@ export type ActionHandler = (
   context?: ExecutionContext
 ) => Promise<any>;
 
+/**
+ * Options for registering an action handler
+ */
+export interface ActionHandlerOptions {
+  /** Zod schema for params; params are validated (and parsed) before the handler runs */
+  schema?: ZodTypeAny;
+
+  /** What the action does, shown to LLM planners */
+  description?: string;
+
+  /**
+   * Dry-run handler: reports what the action would do without sending transactions
+   * Used instead of the generic dry-run result when the executor runs in dry-run mode
+   */
+  simulate?: (params: any) => Promise<any>;
+
+  /**
+   * Transactions the action would send (target, calldata and value)
+   * Checked against the scopes of the session key in use before the handler runs
+   */
+  transactions?: (params: any) => Promise<ethers.TransactionRequest[]>;
+
+  /**
+   * Retry failures up to maxRetries (default: true)
+   * Set to false for handlers that send transactions: a failure after the
+   * transaction was broadcast (e.g. a receipt timeout) would send it again
+   */
+  retryable?: boolean;
+}
+
+/**
+ * Action catalogue entry (one per registered handler)
+ */
+export interface ActionDefinition {
+  /** Action type */
+  name: string;
+
+  /** Action description */
+  description?: string;
+
+  /** JSON Schema for the action params */
+  parameters: Record<string, any>;
+}
+
 /**
  * Action handler registry entry
  */
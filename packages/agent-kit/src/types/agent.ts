@@ -4,6 +4,11 @@
  */
 
 import type { Address, Timestamp } from './common';
+import type { ExecutionResult } from './action';
+import type { Embedder, VectorStore } from './memory';
+import type { LLMAdapter } from './llm';
+import type { RetentionPolicy, RetentionResult } from './storage';
+import type { ApprovalRequest } from './approval';
 
 // =============================================================================
 // Agent State
@@ -120,6 +125,14 @@ export interface AgentTask {
 // Agent Options
 // =============================================================================
 
+/**
+ * How a paused agent handles incoming trigger events
+ * - queue: buffer every event and process them in order on resume
+ * - drop: discard events received while paused
+ * - coalesce: keep only the latest event per trigger and process it on resume
+ */
+export type PauseBehavior = 'queue' | 'drop' | 'coalesce';
+
 /**
  * Agent initialization options
  */
@@ -128,15 +141,15 @@ export interface AgentOptions {
   logger?: any;
 
   /** Storage backend type */
-  storageBackend?: 'memory' | 'file';
+  storageBackend?: 'memory' | 'file' | 'sqlite';
 
-  /** Storage path for file-based storage */
+  /** Storage directory for file and SQLite storage (SQLite uses <path>/agent.db) */
   storagePath?: string;
 
   /** Memory backend type */
-  memoryBackend?: 'memory' | 'file';
+  memoryBackend?: 'memory' | 'file' | 'sqlite';
 
-  /** Memory storage path */
+  /** Memory storage directory (SQLite uses <path>/memory.db) */
   memoryPath?: string;
 
   /** Memory session ID */
@@ -144,6 +157,36 @@ export interface AgentOptions {
 
   /** Enable memory tracking */
   enableMemory?: boolean;
+
+  /**
+   * Embedding provider for semantic memory (e.g. an OpenAI or Ollama adapter)
+   * Enables Memory.search and relevance-based memory context
+   */
+  memoryEmbedder?: Embedder;
+
+  /** Vector store for memory embeddings (default: follows memoryBackend) */
+  vectorStore?: VectorStore;
+
+  /**
+   * LLM that compacts old memory entries into summaries instead of deleting them
+   * Enables long-term context for long-running agents
+   */
+  memorySummarizer?: LLMAdapter;
+
+  /** Event handling while paused (default: 'queue') */
+  pauseBehavior?: PauseBehavior;
+
+  /** Max events buffered while paused; oldest are dropped first (default: 1000) */
+  maxPausedEvents?: number;
+
+  /** Time before actions awaiting approval expire in ms (default: 3600000) */
+  approvalTtlMs?: number;
+
+  /**
+   * Retention for events, actions, memory and the logger's file, applied every
+   * policy.interval while the agent runs (default: kept forever)
+   */
+  retention?: RetentionPolicy;
 }
 
 // =============================================================================
@@ -160,22 +203,76 @@ export interface AgentEvents {
   /** Agent stopped */
   stopped: { agentId: string | null };
 
+  /** Agent paused */
+  paused: { agentId: string | null };
+
+  /** Agent resumed */
+  resumed: { agentId: string | null; pendingEvents: number };
+
+  /** Event buffered while paused */
+  'event:queued': { event: any; queueSize: number };
+
+  /** Event discarded (paused with 'drop' behavior, or buffer full) */
+  'event:dropped': { event: any; reason: string };
+
   /** Event received from trigger */
   'event:received': any;
 
   /** Tasks planned */
   'tasks:planned': { tasks: any[] };
 
+  /** Action rejected by operational policy */
+  'action:blocked': { action: any; reason: string };
+
+  /** Action not executed because of the rate limit; it can be retried at retryAt */
+  'action:delayed': { action: any; delayMs: number; retryAt: number; reason: string };
+
+  /** Action params modified by operational policy */
+  'action:overridden': {
+    original: any;
+    action: any;
+    changes: Record<string, { from: any; to: any }>;
+  };
+
+  /** Action queued for human approval (policy requireApproval) */
+  'action:pending_approval': { approval: any };
+
+  /** Approved action executed */
+  'action:approved': { approval: any; result: any };
+
+  /** Approval rejected or expired; the action was not executed */
+  'action:rejected': { approval: any; reason: string };
+
   /** Tasks executed */
   'tasks:executed': { results: any[] };
 
   /** Results stored */
   'results:stored': { taskId: string };
 
+  /** Retention policy removed, archived or rotated storage */
+  'storage:pruned': RetentionResult;
+
   /** Error occurred */
   error: { error: any; event?: any };
 }
 
+/**
+ * Outcome of running one event through the agent pipeline
+ */
+export interface EventOutcome {
+  /** Actions cleared by policy and executed (queued approvals are not included) */
+  actions: any[];
+
+  /** Execution results, in action order */
+  results: ExecutionResult[];
+
+  /** Actions the policy blocked or delayed (not executed), with the reason */
+  blocked: Array<{ action: any; reason: string }>;
+
+  /** Approval requests queued for planned actions; their dependents wait with them */
+  pendingApprovals: ApprovalRequest[];
+}
+
 // =============================================================================
 // Agent Status
 // =============================================================================
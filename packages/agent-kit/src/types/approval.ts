@@ -0,0 +1,115 @@
+/**
+ * Approval Types
+ * Types for the human-in-the-loop approval queue
+ */
+
+import type { Timestamp } from './common';
+import type { ExecutionResult } from './action';
+
+// =============================================================================
+// Approval Status
+// =============================================================================
+
+/**
+ * Approval request status
+ */
+export enum ApprovalStatus {
+  Pending = 'pending',
+  Approved = 'approved',
+  Rejected = 'rejected',
+  Expired = 'expired',
+}
+
+// =============================================================================
+// Approval Requests
+// =============================================================================
+
+/**
+ * Who asked for an action to be approved
+ */
+export interface ApprovalRequester {
+  /** Agent address or ID */
+  agentId?: string | null;
+
+  /** Agent name */
+  agentName?: string;
+
+  /** ID of the event that produced the action */
+  eventId?: string;
+
+  /** Additional metadata */
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Action held for human approval
+ */
+export interface ApprovalRequest {
+  /** Unique approval ID */
+  id: string;
+
+  /** Action awaiting approval (after policy overrides) */
+  action: any;
+
+  /** Planned actions that depend on this one; they run once it succeeds */
+  dependents?: any[];
+
+  /** Current status */
+  status: ApprovalStatus;
+
+  /** Why approval was requested */
+  reason?: string;
+
+  /** Requester metadata */
+  requestedBy: ApprovalRequester;
+
+  /** Request timestamp */
+  requestedAt: Timestamp;
+
+  /** Expiry timestamp; pending requests expire after this */
+  expiresAt: Timestamp;
+
+  /** Decision timestamp */
+  decidedAt?: Timestamp;
+
+  /** Who approved or rejected the request */
+  decidedBy?: string;
+
+  /** Rejection reason */
+  rejectReason?: string;
+
+  /** Execution result (set once an approved action has run) */
+  result?: ExecutionResult;
+}
+
+// =============================================================================
+// Approval Queue Configuration
+// =============================================================================
+
+/**
+ * Approval queue configuration
+ */
+export interface ApprovalQueueConfig {
+  /** Time before a pending request expires in ms (default: 3600000) */
+  ttlMs?: number;
+
+  /** Max decided requests kept for listing (default: 100) */
+  maxHistory?: number;
+}
+
+/**
+ * Approval queue event types
+ */
+export interface ApprovalEvents {
+  /** Action queued for approval */
+  requested: ApprovalRequest;
+
+  /** Request approved */
+  approved: ApprovalRequest;
+
+  /** Request rejected */
+  rejected: ApprovalRequest;
+
+  /** Request expired before a decision */
+  expired: ApprovalRequest;
+}
@@ -4,6 +4,11 @@
  */
 
 import type { Address } from './common';
+import type { LoadBalancingStrategy } from '../core/rpcProvider';
+import type { FeeStrategyConfig } from '../core/feeStrategy';
+import type { SmartAccountConfig } from '../core/smartAccount';
+import type { KeystoreConfig } from '../core/keystore';
+import type { RemoteSignerConfig } from '../core/remoteSigner';
 
 // =============================================================================
 // Network Configuration
@@ -16,6 +21,12 @@ export interface NetworkConfig {
   /** RPC endpoint URL */
   rpcUrl: string;
 
+  /** Additional RPC endpoints; requests fail over between rpcUrl and these (optional) */
+  rpcUrls?: string[];
+
+  /** How requests are spread across the RPC endpoints (default: 'round-robin') */
+  rpcStrategy?: LoadBalancingStrategy;
+
   /** Chain ID */
   chainId: number;
 
@@ -97,12 +108,24 @@ export interface AgentKitConfig {
   /** Private key for signing transactions */
   privateKey?: string;
 
+  /** Encrypted JSON keystore to sign with (overrides privateKey) */
+  keystore?: KeystoreConfig;
+
+  /** Remote signing service to sign with (overrides privateKey and keystore) */
+  remoteSigner?: RemoteSignerConfig;
+
   /** LLM provider configuration */
   llmProvider?: LLMProviderConfig;
 
   /** Default gas limit for transactions */
   defaultGasLimit?: bigint;
 
+  /** EIP-1559 fee preset and hard fee caps for every transaction */
+  fees?: FeeStrategyConfig;
+
+  /** Send transactions from an ERC-4337 smart account owned by privateKey (optional) */
+  smartAccount?: SmartAccountConfig;
+
   /** Log level */
   logLevel?: 'debug' | 'info' | 'warn' | 'error';
 
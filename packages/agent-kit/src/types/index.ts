@@ -43,6 +43,7 @@ export * from './action';
 export * from './storage';
 export * from './memory';
 export * from './trigger';
+export * from './approval';
 
 // =============================================================================
 // LLM & Reasoning Types
@@ -11,10 +11,60 @@
  * Standard message format for chat completion
  */
 export interface Message {
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
+
+  /** Tool calls requested by the model (assistant messages) */
+  toolCalls?: ToolCall[];
+
+  /** ID of the tool call this message answers (tool messages) */
+  toolCallId?: string;
+
+  /** Tool name (tool messages) */
+  name?: string;
 }
 
+// =============================================================================
+// Tool Calling Types
+// =============================================================================
+
+/**
+ * Tool (function) the model may call
+ */
+export interface ToolDefinition {
+  /** Tool name (e.g., an Executor action type) */
+  name: string;
+
+  /** What the tool does, shown to the model */
+  description?: string;
+
+  /** JSON Schema for the tool arguments */
+  parameters: Record<string, any>;
+}
+
+/**
+ * Tool call requested by the model, normalized across providers
+ */
+export interface ToolCall {
+  /** Tool call ID (generated when the provider does not return one) */
+  id: string;
+
+  /** Tool name */
+  name: string;
+
+  /** Parsed arguments */
+  arguments: Record<string, any>;
+}
+
+/**
+ * Tool selection mode
+ * - auto: model decides whether to call tools
+ * - none: model must not call tools
+ * - required: model must call at least one tool
+ * - { name }: model must call the named tool
+ */
+export type ToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
 // =============================================================================
 // Generation Options
 // =============================================================================
@@ -49,6 +99,12 @@ export interface GenerateOptions {
 
   /** Max retry attempts */
   retries?: number;
+
+  /** Tools the model may call (chat only) */
+  tools?: ToolDefinition[];
+
+  /** Tool selection mode (default: 'auto' when tools are given) */
+  toolChoice?: ToolChoice;
 }
 
 // =============================================================================
@@ -81,8 +137,11 @@ export interface LLMResponse {
   /** Token usage statistics */
   usage?: TokenUsage;
 
+  /** Tool calls requested by the model */
+  toolCalls?: ToolCall[];
+
   /** Reason generation stopped */
-  finishReason?: 'stop' | 'length' | 'error';
+  finishReason?: 'stop' | 'length' | 'error' | 'tool_calls';
 
   /** Additional metadata */
   metadata?: Record<string, any>;
@@ -280,6 +339,12 @@ export interface Action {
 
   /** Action parameters */
   params: Record<string, any>;
+
+  /** Step ID, referenced by dependencies and `{{steps.<id>.<path>}}` (default: step-<n>) */
+  id?: string;
+
+  /** Step IDs that must succeed before this action runs */
+  dependencies?: string[];
 }
 
 /**
@@ -327,6 +392,9 @@ export enum ActionType {
  * Structured action plan with reasoning
  */
 export interface ActionPlan {
+  /** Step ID, referenced by dependencies and `{{steps.<id>.<path>}}` */
+  id?: string;
+
   /** Action type (enum or custom string) */
   type: ActionType | string;
 
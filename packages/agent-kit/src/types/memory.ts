@@ -4,6 +4,7 @@
  */
 
 import type { Timestamp } from './common';
+import type { LLMAdapter } from './llm';
 
 // =============================================================================
 // Memory Entry Types
@@ -81,8 +82,39 @@ export interface MemoryConfig {
   /** Max entries to keep in memory */
   maxEntries?: number;
 
-  /** Summarize old memories */
+  /**
+   * Summarize old memories with llm instead of deleting them: past maxEntries,
+   * all but the keepRecent newest entries are compacted into summaries
+   */
   summarizeOld?: boolean;
+
+  /** LLM used to summarize old memories */
+  llm?: LLMAdapter;
+
+  /** Entries kept verbatim when compacting (default: half of maxEntries) */
+  keepRecent?: number;
+
+  /** Max tokens per summary (default: 500) */
+  summaryMaxTokens?: number;
+
+  /** Embedding provider for semantic search (e.g. an OpenAI or Ollama adapter) */
+  embedder?: Embedder;
+
+  /** Vector store for entry embeddings (default: in-process index) */
+  vectorStore?: VectorStore;
+
+  /** Weight of recency against relevance in hybrid context, 0-1 (default: 0.3) */
+  recencyWeight?: number;
+}
+
+/**
+ * Memory entry matched by semantic search
+ */
+export interface MemorySearchResult {
+  entry: MemoryEntry;
+
+  /** Cosine similarity to the query (-1 to 1) */
+  score: number;
 }
 
 // =============================================================================
@@ -112,4 +144,85 @@ export interface MemoryBackend {
    * Get memory count
    */
   count(sessionId: string): Promise<number>;
+
+  /**
+   * List stored session IDs
+   * Optional; retention policies skip backends without it.
+   */
+  listSessions?(): Promise<string[]>;
+
+  /**
+   * Delete entries of a session by ID, leaving entries saved meanwhile in place
+   * Optional; retention policies skip backends without it.
+   */
+  delete?(sessionId: string, ids: string[]): Promise<void>;
+}
+
+// =============================================================================
+// Vector Store Interface
+// =============================================================================
+
+/**
+ * Text embedding provider (LLM adapters with embed() satisfy this)
+ */
+export interface Embedder {
+  embed(text: string): Promise<number[]>;
+}
+
+/**
+ * Embedding of a memory entry
+ */
+export interface VectorRecord {
+  /** Memory entry ID */
+  id: string;
+
+  /** Memory session ID */
+  sessionId: string;
+
+  /** Embedding vector */
+  vector: number[];
+
+  /** Entry timestamp */
+  timestamp: Timestamp;
+}
+
+/**
+ * Vector store search match
+ */
+export interface VectorMatch {
+  /** Memory entry ID */
+  id: string;
+
+  /** Cosine similarity to the query vector */
+  score: number;
+}
+
+/**
+ * Vector store interface for memory embeddings
+ */
+export interface VectorStore {
+  /**
+   * Add or replace an embedding
+   */
+  upsert(record: VectorRecord): Promise<void>;
+
+  /**
+   * Find the k most similar embeddings in a session
+   */
+  search(sessionId: string, vector: number[], k: number): Promise<VectorMatch[]>;
+
+  /**
+   * Check whether an entry is embedded
+   */
+  has(sessionId: string, id: string): Promise<boolean>;
+
+  /**
+   * Remove embeddings
+   */
+  delete(sessionId: string, ids: string[]): Promise<void>;
+
+  /**
+   * Clear embeddings
+   */
+  clear(sessionId?: string): Promise<void>;
 }
@@ -16,6 +16,7 @@ import type { RuntimeAction, ExecutionResult } from './action';
 export enum StorageBackend {
   Memory = 'memory',
   File = 'file',
+  Sqlite = 'sqlite',
 }
 
 /**
@@ -69,8 +70,11 @@ export interface ActionEntry {
   /** Action result (can be ExecutionResult or any legacy format) */
   result?: ExecutionResult | any;
 
-  /** Action status */
-  status?: 'pending' | 'success' | 'failed';
+  /**
+   * Action status ('blocked' = rejected by policy before execution,
+   * 'skipped' = not run because a dependency did not succeed)
+   */
+  status?: 'pending' | 'success' | 'failed' | 'blocked' | 'skipped';
 
   /** Action timestamp */
   timestamp: Timestamp;
@@ -82,6 +86,163 @@ export interface ActionEntry {
   metadata?: Record<string, any>;
 }
 
+// =============================================================================
+// Storage Filters
+// =============================================================================
+
+/**
+ * Pagination and ordering for storage queries
+ * Filters are applied first, then cursor, offset and limit.
+ */
+export interface StorageQuery {
+  /** Maximum number of entries to return */
+  limit?: number;
+
+  /** Number of matching entries to skip */
+  offset?: number;
+
+  /**
+   * ID of the last entry of the previous page; results continue after it
+   * in the same order (unknown IDs throw)
+   */
+  cursor?: string;
+
+  /** Insertion order, oldest first (default) or newest first */
+  order?: 'asc' | 'desc';
+}
+
+/**
+ * Event query filter
+ */
+export interface EventFilter extends StorageQuery {
+  /** Agent that received the event */
+  agentId?: Address;
+
+  /** From timestamp (inclusive) */
+  fromTimestamp?: Timestamp;
+
+  /** To timestamp (inclusive) */
+  toTimestamp?: Timestamp;
+
+  /** Entries whose metadata has all of these values */
+  metadata?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Action query filter
+ *
+ * @example
+ * ```typescript
+ * // Failed transfers in the last hour
+ * const failed = await storage.getActions({
+ *   status: 'failed',
+ *   type: 'execute_transfer',
+ *   fromTimestamp: Date.now() - 60 * 60 * 1000,
+ * });
+ * ```
+ */
+export interface ActionFilter extends EventFilter {
+  /** Action status (any of, when an array) */
+  status?: ActionEntry['status'] | NonNullable<ActionEntry['status']>[];
+
+  /** Action type (e.g. 'execute_transfer'; any of, when an array) */
+  type?: string | string[];
+}
+
+// =============================================================================
+// Retention
+// =============================================================================
+
+/**
+ * Limits on stored entries; the oldest entries past any limit are removed
+ */
+export interface RetentionRule {
+  /** Remove entries older than this, in ms */
+  maxAge?: number;
+
+  /** Keep at most this many of the newest entries */
+  maxCount?: number;
+
+  /** Keep the newest entries up to this many bytes of JSON */
+  maxBytes?: number;
+}
+
+/**
+ * Retention policy for agent events, actions, memory and logs
+ *
+ * @example
+ * ```typescript
+ * const DAY = 24 * 60 * 60 * 1000;
+ * const policy: RetentionPolicy = {
+ *   events: { maxAge: 7 * DAY },
+ *   actions: { maxAge: 30 * DAY, maxCount: 100000 },
+ *   memory: { maxAge: 30 * DAY },
+ *   logs: { maxBytes: 10 * 1024 * 1024, maxCount: 10 },
+ *   archiveDir: './data/archive',
+ *   compress: true,
+ * };
+ * ```
+ */
+export interface RetentionPolicy {
+  /** Stored events */
+  events?: RetentionRule;
+
+  /** Stored actions */
+  actions?: RetentionRule;
+
+  /** Entries of each memory session (sessions left empty are removed) */
+  memory?: RetentionRule;
+
+  /**
+   * Log file: rotated once larger than maxBytes (default: 10 MB);
+   * maxAge and maxCount apply to the rotated files
+   */
+  logs?: RetentionRule;
+
+  /**
+   * Directory for dated archive files of removed entries and rotated logs
+   * (default: removed entries are deleted, logs rotate next to the log file)
+   */
+  archiveDir?: string;
+
+  /** Gzip archive files and rotated logs (default: false) */
+  compress?: boolean;
+
+  /** How often the Agent applies the policy, in ms (default: 3600000) */
+  interval?: number;
+}
+
+/**
+ * Entries removed by IStorage.prune
+ */
+export interface PrunedEntries {
+  events: EventEntry[];
+  actions: ActionEntry[];
+}
+
+/**
+ * Outcome of applying a retention policy
+ */
+export interface RetentionResult {
+  /** Events removed */
+  events: number;
+
+  /** Actions removed */
+  actions: number;
+
+  /** Memory entries removed, across sessions */
+  memoryEntries: number;
+
+  /** Log files rotated */
+  logsRotated: number;
+
+  /** Rotated log files deleted */
+  logsDeleted: number;
+
+  /** Archive files written (rotated logs included) */
+  archives: string[];
+}
+
 // =============================================================================
 // Storage Interface
 // =============================================================================
@@ -101,14 +262,14 @@ export interface IStorage {
   saveAction(action: any, result?: any, metadata?: Record<string, any>): Promise<void>;
 
   /**
-   * Get all events
+   * Get events, all or those matching a filter
    */
-  getEvents(filter?: any): Promise<EventEntry[]>;
+  getEvents(filter?: EventFilter): Promise<EventEntry[]>;
 
   /**
-   * Get all actions
+   * Get actions, all or those matching a filter
    */
-  getActions(filter?: any): Promise<ActionEntry[]>;
+  getActions(filter?: ActionFilter): Promise<ActionEntry[]>;
 
   /**
    * Get complete history (events + actions)
@@ -124,4 +285,16 @@ export interface IStorage {
    * Get storage size
    */
   size(): Promise<{ events: number; actions: number }>;
+
+  /**
+   * Remove the oldest events and actions outside retention rules
+   * Optional; retention policies skip storages without it.
+   * @param archive Called with the entries before they are removed; if it
+   * throws, nothing is removed
+   * @returns Number of events and actions removed
+   */
+  prune?(
+    rules: { events?: RetentionRule; actions?: RetentionRule },
+    archive?: (removed: PrunedEntries) => Promise<void>
+  ): Promise<{ events: number; actions: number }>;
 }
@@ -29,6 +29,18 @@ export enum TriggerStatus {
   Expired = 'expired',
 }
 
+/**
+ * Policy for scheduled runs missed while the process was busy, asleep or stopped
+ */
+export enum MissedRunPolicy {
+  /** Drop missed runs and wait for the next scheduled time */
+  Skip = 'skip',
+  /** Fire once to cover all missed runs */
+  FireOnce = 'fire-once',
+  /** Fire once per missed run, in order */
+  FireAll = 'fire-all',
+}
+
 // =============================================================================
 // Trigger Conditions
 // =============================================================================
@@ -67,9 +79,15 @@ export interface TriggerConfig {
   /** Trigger conditions */
   conditions?: TriggerCondition[];
 
-  /** Schedule for time-based triggers (cron expression) */
+  /** Schedule for time-based triggers (cron expression or "interval:<seconds>") */
   schedule?: string;
 
+  /** IANA timezone for cron schedules (default: 'UTC') */
+  timezone?: string;
+
+  /** How to handle missed cron runs (default: MissedRunPolicy.Skip) */
+  missedRunPolicy?: MissedRunPolicy;
+
   /** Event name for event-based triggers */
   eventName?: string;
 
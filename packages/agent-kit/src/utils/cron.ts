@@ -0,0 +1,428 @@
+/**
+ * Cron expression parsing and scheduling
+ * Supports standard 5-field and 6-field (with seconds) expressions with timezones
+ * @packageDocumentation
+ */
+
+/**
+ * Parsed cron field values
+ */
+interface CronFields {
+  seconds: Set<number>;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** True if day-of-month was restricted (not '*' or '?') */
+  domRestricted: boolean;
+  /** True if day-of-week was restricted (not '*' or '?') */
+  dowRestricted: boolean;
+}
+
+/**
+ * Options for parsing a cron expression
+ */
+export interface CronOptions {
+  /** IANA timezone name (default: 'UTC') */
+  timezone?: string;
+}
+
+const MONTH_NAMES = [
+  'JAN',
+  'FEB',
+  'MAR',
+  'APR',
+  'MAY',
+  'JUN',
+  'JUL',
+  'AUG',
+  'SEP',
+  'OCT',
+  'NOV',
+  'DEC',
+];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+// Upper bound for the next-match search (covers leap-day schedules)
+const MAX_SEARCH_YEARS = 8;
+
+/**
+ * Cron expression with next-fire-time computation
+ *
+ * Field order: `[second] minute hour day-of-month month day-of-week`.
+ * Supports `*`, `?`, lists (`1,2`), ranges (`1-5`), steps (`*\/15`, `0-30/5`),
+ * month/day names (`JAN`, `MON-FRI`) and macros (`@daily`, `@hourly`, ...).
+ * When both day-of-month and day-of-week are restricted, either may match.
+ *
+ * @example
+ * const cron = CronExpression.parse('0 9 * * MON-FRI', { timezone: 'UTC' });
+ * const next = cron.next(Date.now()); // Next weekday at 09:00 UTC
+ */
+export class CronExpression {
+  private constructor(
+    private readonly source: string,
+    private readonly fields: CronFields,
+    private readonly timezone: string
+  ) {}
+
+  /**
+   * Parse a cron expression
+   * @param expression Cron expression (5 or 6 fields, or a macro)
+   * @param options Parse options
+   * @returns CronExpression instance
+   * @throws Error if the expression or timezone is invalid
+   */
+  static parse(expression: string, options: CronOptions = {}): CronExpression {
+    const timezone = options.timezone || 'UTC';
+    if (!isValidTimezone(timezone)) {
+      throw new Error(`Invalid timezone: ${timezone}`);
+    }
+
+    const trimmed = expression.trim();
+    const expanded = MACROS[trimmed.toLowerCase()] || trimmed;
+    const parts = expanded.split(/\s+/);
+
+    if (parts.length !== 5 && parts.length !== 6) {
+      throw new Error(
+        `Invalid cron expression "${expression}": expected 5 or 6 fields, got ${parts.length}`
+      );
+    }
+
+    if (parts.length === 5) {
+      parts.unshift('0');
+    }
+
+    const [sec, min, hour, dom, month, dow] = parts;
+
+    try {
+      const daysOfWeek = parseField(dow, 0, 7, DAY_NAMES);
+      // 7 is an alias for Sunday
+      if (daysOfWeek.delete(7)) {
+        daysOfWeek.add(0);
+      }
+
+      const fields: CronFields = {
+        seconds: parseField(sec, 0, 59),
+        minutes: parseField(min, 0, 59),
+        hours: parseField(hour, 0, 23),
+        daysOfMonth: parseField(dom, 1, 31),
+        months: parseField(month, 1, 12, MONTH_NAMES),
+        daysOfWeek,
+        domRestricted: dom !== '*' && dom !== '?',
+        dowRestricted: dow !== '*' && dow !== '?',
+      };
+
+      return new CronExpression(trimmed, fields, timezone);
+    } catch (error) {
+      throw new Error(
+        `Invalid cron expression "${expression}": ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Check whether a string is a valid cron expression
+   * @param expression Expression to validate
+   * @returns True if the expression parses
+   */
+  static isValid(expression: string): boolean {
+    try {
+      CronExpression.parse(expression);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get the next fire time strictly after the given time
+   * @param after Reference time (ms timestamp or Date, default: now)
+   * @returns Next fire time in ms, or null if none within the search window
+   */
+  next(after: number | Date = Date.now()): number | null {
+    const afterMs = typeof after === 'number' ? after : after.getTime();
+
+    // Work on wall-clock time in the target timezone, represented as a UTC date
+    const wall = new Date(
+      Math.floor(toWallTime(afterMs, this.timezone) / 1000) * 1000 + 1000
+    );
+    const limit = wall.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+    while (wall.getUTCFullYear() <= limit) {
+      if (!this.fields.months.has(wall.getUTCMonth() + 1)) {
+        wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+        wall.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.matchesDay(wall)) {
+        wall.setUTCDate(wall.getUTCDate() + 1);
+        wall.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.fields.hours.has(wall.getUTCHours())) {
+        wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.fields.minutes.has(wall.getUTCMinutes())) {
+        wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+        continue;
+      }
+
+      if (!this.fields.seconds.has(wall.getUTCSeconds())) {
+        wall.setUTCSeconds(wall.getUTCSeconds() + 1, 0);
+        continue;
+      }
+
+      const candidate = fromWallTime(wall.getTime(), this.timezone);
+      if (candidate > afterMs) {
+        return candidate;
+      }
+
+      // Wall time repeated by a DST fall-back; keep searching
+      wall.setUTCSeconds(wall.getUTCSeconds() + 1, 0);
+    }
+
+    return null;
+  }
+
+  /**
+   * Get all fire times in the range (from, to]
+   * @param from Range start (exclusive)
+   * @param to Range end (inclusive)
+   * @param limit Maximum number of fire times to return (default: 1000)
+   * @returns Fire times in ascending order
+   */
+  between(from: number, to: number, limit: number = 1000): number[] {
+    const times: number[] = [];
+    let cursor = from;
+
+    while (times.length < limit) {
+      const next = this.next(cursor);
+      if (next === null || next > to) {
+        break;
+      }
+      times.push(next);
+      cursor = next;
+    }
+
+    return times;
+  }
+
+  /**
+   * Check whether the expression fires at the given time (second precision)
+   * @param time Time to check (ms timestamp or Date)
+   * @returns True if the expression matches
+   */
+  matches(time: number | Date): boolean {
+    const ms = typeof time === 'number' ? time : time.getTime();
+    const second = Math.floor(ms / 1000) * 1000;
+    return this.next(second - 1000) === second;
+  }
+
+  /**
+   * Get the timezone used for evaluation
+   */
+  getTimezone(): string {
+    return this.timezone;
+  }
+
+  /**
+   * Get the original expression
+   */
+  toString(): string {
+    return this.source;
+  }
+
+  /**
+   * Check day-of-month / day-of-week with standard cron semantics
+   */
+  private matchesDay(wall: Date): boolean {
+    const domMatch = this.fields.daysOfMonth.has(wall.getUTCDate());
+    const dowMatch = this.fields.daysOfWeek.has(wall.getUTCDay());
+
+    if (this.fields.domRestricted && this.fields.dowRestricted) {
+      return domMatch || dowMatch;
+    }
+
+    return domMatch && dowMatch;
+  }
+}
+
+/**
+ * Parse a cron expression (shorthand for CronExpression.parse)
+ * @param expression Cron expression
+ * @param options Parse options
+ * @returns CronExpression instance
+ *
+ * @example
+ * const next = parseCron('*\/5 * * * *').next();
+ */
+export function parseCron(expression: string, options?: CronOptions): CronExpression {
+  return CronExpression.parse(expression, options);
+}
+
+// =============================================================================
+// Field Parsing
+// =============================================================================
+
+/**
+ * Parse a single cron field into a set of allowed values
+ */
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  names?: string[]
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    if (part === '') {
+      throw new Error(`empty list element in "${field}"`);
+    }
+
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : parseNumber(stepPart, undefined, 0);
+    if (!Number.isInteger(step) || step <= 0) {
+      throw new Error(`invalid step "${stepPart}"`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (rangePart === '*' || rangePart === '?') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseNumber(from, names, min);
+      end = parseNumber(to, names, min);
+    } else {
+      start = parseNumber(rangePart, names, min);
+      // "5/15" means starting at 5, every 15 up to max
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`value out of range in "${part}" (allowed ${min}-${max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a numeric or named field value
+ */
+function parseNumber(value: string, names: string[] | undefined, offset: number): number {
+  if (names) {
+    const index = names.indexOf(value.toUpperCase());
+    if (index !== -1) {
+      return index + offset;
+    }
+  }
+
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`invalid value "${value}"`);
+  }
+
+  return parseInt(value, 10);
+}
+
+// =============================================================================
+// Timezone Helpers
+// =============================================================================
+
+const formatterCache: Map<string, Intl.DateTimeFormat> = new Map();
+
+/**
+ * Get a cached formatter for a timezone
+ */
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatterCache.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check if a timezone name is supported by the runtime
+ */
+function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert a UTC timestamp to wall-clock time in the timezone (as a UTC timestamp)
+ */
+function toWallTime(utcMs: number, timezone: string): number {
+  if (timezone === 'UTC') {
+    return utcMs;
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(new Date(utcMs))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+
+  return Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+    utcMs % 1000
+  );
+}
+
+/**
+ * Convert wall-clock time in the timezone (as a UTC timestamp) back to UTC
+ * Non-existent local times (DST spring-forward) resolve to the shifted instant
+ */
+function fromWallTime(wallMs: number, timezone: string): number {
+  if (timezone === 'UTC') {
+    return wallMs;
+  }
+
+  // Two passes settle the offset across DST transitions
+  let utc = wallMs - (toWallTime(wallMs, timezone) - wallMs);
+  utc = wallMs - (toWallTime(utc, timezone) - utc);
+  return utc;
+}
@@ -152,3 +152,27 @@ export function formatUnits(value: bigint | string, decimals: number): string {
 export function parseUnits(value: string, decimals: number): bigint {
   return ethers.parseUnits(value, decimals);
 }
+
+/**
+ * Convert decoded contract values to JSON-safe values
+ * Bigints become decimal strings; ethers Results become arrays
+ * @param value Decoded value (e.g. from staticCall or event args)
+ * @returns JSON-serializable value
+ *
+ * @example
+ * toJsonValue([1n, 'abc']) // ['1', 'abc']
+ */
+export function toJsonValue(value: unknown): any {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return Array.from(value, (item) => toJsonValue(item));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, toJsonValue(item)])
+    );
+  }
+  return value;
+}
@@ -1,6 +1,6 @@
 /**
  * Shared Utilities
- * Common utilities for retry logic, encoding/decoding, validation, and logging
+ * Common utilities for retry logic, encoding/decoding, validation, scheduling, schemas, token estimation, and logging
  *
  * @packageDocumentation
  *
@@ -15,6 +15,9 @@
  * // Import validation utilities
  * import { isValidAddress, shortAddress } from '@somnia/agent-kit/utils';
  *
+ * // Import cron scheduling
+ * import { CronExpression, parseCron } from '@somnia/agent-kit/utils';
+ *
  * // Import logger and event emitter
  * import { createLogger, EventEmitter } from '@somnia/agent-kit/utils';
  * ```
@@ -41,6 +44,7 @@ export {
   parseEther,
   formatUnits,
   parseUnits,
+  toJsonValue,
 } from './encode';
 
 // Validation helpers
@@ -53,6 +57,17 @@ export {
   isValidUrl,
 } from './validate';
 
+// Cron scheduling
+export { CronExpression, parseCron } from './cron';
+export type { CronOptions } from './cron';
+
+// Schema conversion
+export { zodToJsonSchema } from './schema';
+export type { JsonSchema } from './schema';
+
+// Token estimation
+export { estimateTokens, estimateValueTokens } from './tokens';
+
 // Logger and event emitter
 export {
   EventEmitter,
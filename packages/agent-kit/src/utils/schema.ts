@@ -0,0 +1,152 @@
+/**
+ * Zod to JSON Schema conversion
+ * Covers the zod types used for action parameter schemas
+ * @packageDocumentation
+ */
+
+import { z } from 'zod';
+
+/**
+ * JSON Schema object (draft 2020-12 subset)
+ */
+export type JsonSchema = Record<string, any>;
+
+/**
+ * Convert a zod schema to JSON Schema
+ * Unsupported zod types convert to `{}` (any value)
+ * @param schema Zod schema
+ * @returns JSON Schema
+ *
+ * @example
+ * zodToJsonSchema(z.object({ to: z.string(), amount: z.number().optional() }))
+ * // { type: 'object', properties: { to: { type: 'string' }, amount: { type: 'number' } }, required: ['to'] }
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const result = convert(schema);
+  if (schema.description && !result.description) {
+    result.description = schema.description;
+  }
+  return result;
+}
+
+/**
+ * Convert a zod schema without its top-level description
+ */
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodString) {
+    const result: JsonSchema = { type: 'string' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') result.minLength = check.value;
+      else if (check.kind === 'max') result.maxLength = check.value;
+      else if (check.kind === 'length') {
+        result.minLength = check.value;
+        result.maxLength = check.value;
+      } else if (check.kind === 'regex') result.pattern = check.regex.source;
+      else if (check.kind === 'email' || check.kind === 'url' || check.kind === 'uuid') {
+        result.format = check.kind === 'url' ? 'uri' : check.kind;
+      }
+    }
+    return result;
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    const result: JsonSchema = { type: 'number' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'int') result.type = 'integer';
+      else if (check.kind === 'min') {
+        result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+      } else if (check.kind === 'max') {
+        result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+      }
+    }
+    return result;
+  }
+
+  if (schema instanceof z.ZodBigInt) {
+    // JSON has no bigint; accept integer strings
+    return { type: 'string', pattern: '^-?\\d+$' };
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema._def.value };
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: [...schema._def.values] };
+  }
+
+  if (schema instanceof z.ZodNativeEnum) {
+    const values = Object.entries(schema._def.values as Record<string, string | number>)
+      // Numeric enums have reverse mappings; keep only the real values
+      .filter(([key]) => isNaN(Number(key)))
+      .map(([, value]) => value);
+    return { enum: values };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    const result: JsonSchema = { type: 'array', items: zodToJsonSchema(schema._def.type) };
+    if (schema._def.minLength) result.minItems = schema._def.minLength.value;
+    if (schema._def.maxLength) result.maxItems = schema._def.maxLength.value;
+    return result;
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = zodToJsonSchema(value);
+      if (!value.isOptional()) {
+        required.push(key);
+      }
+    }
+
+    const result: JsonSchema = { type: 'object', properties };
+    if (required.length > 0) {
+      result.required = required;
+    }
+
+    const catchall = schema._def.catchall;
+    if (catchall && !(catchall instanceof z.ZodNever)) {
+      result.additionalProperties = zodToJsonSchema(catchall);
+    } else if (schema._def.unknownKeys === 'passthrough') {
+      result.additionalProperties = true;
+    } else if (schema._def.unknownKeys === 'strict') {
+      result.additionalProperties = false;
+    }
+
+    return result;
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: zodToJsonSchema(schema._def.valueType) };
+  }
+
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: schema._def.options.map((option: z.ZodTypeAny) => zodToJsonSchema(option)) };
+  }
+
+  if (schema instanceof z.ZodOptional) {
+    return zodToJsonSchema(schema._def.innerType);
+  }
+
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [zodToJsonSchema(schema._def.innerType), { type: 'null' }] };
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(schema._def.innerType), default: schema._def.defaultValue() };
+  }
+
+  if (schema instanceof z.ZodEffects) {
+    // Refinements and transforms keep the input shape
+    return zodToJsonSchema(schema._def.schema);
+  }
+
+  return {};
+}
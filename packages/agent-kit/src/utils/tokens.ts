@@ -0,0 +1,65 @@
+/**
+ * Token Estimation
+ * Approximate token counts for budgeting LLM prompts and memory
+ */
+
+/**
+ * Pieces the way GPT-style BPE pre-tokenizers split text: contractions, words
+ * with their leading space, numbers in groups of up to 3 digits, punctuation runs
+ * and whitespace
+ */
+const PIECE_PATTERN =
+  /'(?:s|t|re|ve|m|ll|d)| ?\p{L}+| ?\p{N}{1,3}| ?[^\s\p{L}\p{N}]+|\s+/gu;
+
+/**
+ * Scripts written without spaces, where BPE vocabularies spend about a token per
+ * character
+ */
+const DENSE_SCRIPT =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u;
+
+/**
+ * Estimate how many tokens a text takes in a BPE tokenizer (GPT, Llama, DeepSeek)
+ * Splits text like the tokenizers' pre-tokenizers do, then estimates each piece:
+ * common words are one token, long words one per ~6 letters, punctuation one per
+ * ~2 characters. Much closer than length / 4 for JSON, hex data and non-Latin
+ * text; use the provider's reported usage where exact counts matter.
+ * @param text Text to estimate
+ * @returns Estimated token count
+ *
+ * @example
+ * ```typescript
+ * estimateTokens('Swap 10 USDC for STT'); // 5
+ * estimateTokens(JSON.stringify(action));
+ * ```
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+
+  for (const [piece] of text.matchAll(PIECE_PATTERN)) {
+    const word = piece.trimStart();
+
+    if (word.length === 0 || /^\p{N}+$/u.test(word)) {
+      tokens += 1; // Whitespace run or digit group
+    } else if (DENSE_SCRIPT.test(word)) {
+      tokens += word.length;
+    } else if (/^\p{L}+$/u.test(word)) {
+      tokens += Math.ceil(word.length / 6);
+    } else {
+      tokens += Math.ceil(word.length / 2);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Estimate the tokens of any value (non-strings are counted as JSON)
+ */
+export function estimateValueTokens(value: any): number {
+  const text =
+    typeof value === 'string'
+      ? value
+      : JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? v.toString() : v));
+  return estimateTokens(text ?? '');
+}
@@ -0,0 +1,76 @@
+/**
+ * Integration Tests: Uniswap V2 swaps on a local fork
+ *
+ * Runs against a Hardhat node forking a network with a deployed
+ * Uniswap-V2-style router and a funded pool. Skipped unless configured:
+ *
+ *   npx hardhat node --fork <rpc-url>
+ *   SWAP_FORK_RPC_URL=http://127.0.0.1:8545 \
+ *   SWAP_ROUTER=0x... SWAP_TOKEN_IN=0x... SWAP_TOKEN_OUT=0x... \
+ *   SWAP_AMOUNT_IN=1 pnpm vitest run tests/integration/swap-fork.test.ts
+ *
+ * The signer (SWAP_PRIVATE_KEY, default: Hardhat account #0) must hold SWAP_TOKEN_IN.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { ChainClient } from '../../src/core/chainClient';
+import { ERC20Manager } from '../../src/tokens/erc20';
+import { UniswapV2Provider } from '../../src/dex/uniswapV2';
+import { Executor } from '../../src/runtime/executor';
+
+const env = process.env;
+const HARDHAT_ACCOUNT_0 =
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+describe.skipIf(!env.SWAP_FORK_RPC_URL || !env.SWAP_ROUTER)(
+  'Uniswap V2 fork swap',
+  () => {
+    it('should quote and swap through the Executor handlers', async () => {
+      const provider = new ethers.JsonRpcProvider(env.SWAP_FORK_RPC_URL);
+      const { chainId } = await provider.getNetwork();
+
+      const chainClient = new ChainClient({
+        network: {
+          rpcUrl: env.SWAP_FORK_RPC_URL!,
+          chainId: Number(chainId),
+          name: 'Local Fork',
+          multicall: env.SWAP_MULTICALL || '0xcA11bde05977b3631167028862bE2a173976CA11',
+        },
+        privateKey: env.SWAP_PRIVATE_KEY || HARDHAT_ACCOUNT_0,
+        contracts: {
+          agentRegistry: '0x0000000000000000000000000000000000000001',
+          agentExecutor: '0x0000000000000000000000000000000000000002',
+        },
+      } as any);
+      await chainClient.connect();
+
+      const executor = new Executor(chainClient, undefined, {
+        maxRetries: 0,
+        timeout: 120000,
+        swapProvider: new UniswapV2Provider(chainClient, { router: env.SWAP_ROUTER! }),
+      });
+
+      const params = {
+        tokenIn: env.SWAP_TOKEN_IN!,
+        tokenOut: env.SWAP_TOKEN_OUT!,
+        amountIn: env.SWAP_AMOUNT_IN || '1',
+        slippageBps: 100,
+      };
+
+      const quote = await executor.execute({ type: 'get_quote', params });
+      expect(quote.success).toBe(true);
+
+      const erc20 = new ERC20Manager(chainClient);
+      const owner = await chainClient.getSigner().getAddress();
+      const before = await erc20.balanceOf(params.tokenOut, owner);
+
+      const swap = await executor.execute({ type: 'execute_swap', params });
+      expect(swap.success).toBe(true);
+      expect(swap.data.txHash).toMatch(/^0x/);
+
+      const after = await erc20.balanceOf(params.tokenOut, owner);
+      expect(after - before).toBeGreaterThanOrEqual(BigInt(swap.data.amountOutMinRaw));
+    }, 180000);
+  }
+);
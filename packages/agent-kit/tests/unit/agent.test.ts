@@ -0,0 +1,415 @@
+/**
+ * Agent Runtime Tests
+ *
+ * Tests for the Agent event loop: pause/resume handling, policy enforcement,
+ * transfer limits and the human-in-the-loop approval queue
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { Agent, AgentState } from '../../src/runtime/agent';
+import { ethers } from 'ethers';
+import { ApprovalQueue, ApprovalStatus } from '../../src/runtime/approval';
+import { Policy } from '../../src/runtime/policy';
+import type { AgentOptions } from '../../src/types/agent';
+
+const AGENT_CONFIG = {
+  name: 'LifecycleAgent',
+  description: 'Agent used for lifecycle tests',
+  owner: '0x0000000000000000000000000000000000000001',
+};
+
+function createAgent(options?: AgentOptions) {
+  const agent = new Agent(AGENT_CONFIG, { enableMemory: false, ...options });
+  // Skip on-chain registration
+  (agent as any).state = AgentState.Registered;
+
+  const processed: any[] = [];
+  agent.on('event:received', (event) => processed.push(event));
+
+  const fire = (triggerId: string, data: any) =>
+    agent.getTriggerModule().emit('triggered', { triggerId, action: 'execute', data });
+
+  return { agent, processed, fire };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('Agent pause/resume', () => {
+  it('should process each event once across start → pause → resume', async () => {
+    const { agent, processed, fire } = createAgent();
+
+    await agent.start();
+    fire('t1', 1);
+    await flush();
+    expect(processed).toHaveLength(1);
+
+    await agent.pause();
+    await agent.start(); // start() on a paused agent resumes it
+    fire('t1', 2);
+    await flush();
+
+    expect(processed).toHaveLength(2);
+    expect(agent.getState()).toBe(AgentState.Active);
+  });
+
+  it('should queue events while paused and drain them on resume', async () => {
+    const { agent, processed, fire } = createAgent({ pauseBehavior: 'queue' });
+
+    await agent.start();
+    await agent.pause();
+    fire('t1', 1);
+    fire('t1', 2);
+    fire('t2', 3);
+
+    expect(processed).toHaveLength(0);
+    expect(agent.getPendingEventCount()).toBe(3);
+
+    await agent.resume();
+    expect(processed.map((event) => event.data)).toEqual([1, 2, 3]);
+    expect(agent.getPendingEventCount()).toBe(0);
+  });
+
+  it('should drop events while paused', async () => {
+    const { agent, processed, fire } = createAgent({ pauseBehavior: 'drop' });
+    const dropped: any[] = [];
+    agent.on('event:dropped', (data) => dropped.push(data));
+
+    await agent.start();
+    await agent.pause();
+    fire('t1', 1);
+    await agent.resume();
+
+    expect(processed).toHaveLength(0);
+    expect(dropped).toHaveLength(1);
+  });
+
+  it('should coalesce events per trigger while paused', async () => {
+    const { agent, processed, fire } = createAgent({ pauseBehavior: 'coalesce' });
+
+    await agent.start();
+    await agent.pause();
+    fire('t1', 1);
+    fire('t2', 2);
+    fire('t1', 3);
+    await agent.resume();
+
+    expect(processed.map((event) => event.data)).toEqual([2, 3]);
+  });
+
+  it('should bound the pause buffer', async () => {
+    const { agent, processed, fire } = createAgent({ maxPausedEvents: 2 });
+
+    await agent.start();
+    await agent.pause();
+    fire('t1', 1);
+    fire('t1', 2);
+    fire('t1', 3);
+    await agent.resume();
+
+    expect(processed.map((event) => event.data)).toEqual([2, 3]);
+  });
+
+  it('should ignore events after stop', async () => {
+    const { agent, processed, fire } = createAgent();
+
+    await agent.start();
+    await agent.stop();
+    fire('t1', 1);
+    await flush();
+
+    expect(processed).toHaveLength(0);
+  });
+});
+
+describe('Agent policy enforcement', () => {
+  it('should block, override and persist actions per operational policy', async () => {
+    const { agent, fire } = createAgent();
+    const blocked: any[] = [];
+    const overridden: any[] = [];
+    agent.on('action:blocked', (data) => blocked.push(data));
+    agent.on('action:overridden', (data) => overridden.push(data));
+
+    const policy = agent.getPolicyModule();
+    policy.setOperationalPolicy({ blockedActions: ['check_balance'], maxGasLimit: 100000n });
+
+    agent.getPlannerModule().plan = async () => [
+      { type: 'check_balance', params: {} },
+      { type: 'execute', params: { gasLimit: '500000' } },
+    ];
+
+    await agent.start();
+    fire('t1', {});
+    await flush();
+
+    expect(blocked).toHaveLength(1);
+    expect(blocked[0].reason).toMatch(/blocked/);
+    expect(overridden).toHaveLength(1);
+    expect(overridden[0].changes.gasLimit).toEqual({ from: '500000', to: '100000' });
+
+    const actions = await agent.getStorageModule().getActions();
+    expect(actions.map((entry) => entry.status)).toEqual(['blocked', 'success']);
+    expect(actions[0].metadata?.reason).toMatch(/blocked/);
+    expect(actions[1].action.params.gasLimit).toBe('100000');
+  });
+
+  it('should reject rate-limited actions with a retry time', async () => {
+    const { agent, fire } = createAgent();
+    const delayed: any[] = [];
+    agent.on('action:delayed', (data) => delayed.push(data));
+
+    agent.getPolicyModule().setRateLimit(1, 60000);
+    agent.getPlannerModule().plan = async () => [
+      { type: 'execute', params: { step: 1 } },
+      { type: 'execute', params: { step: 2 } },
+    ];
+
+    await agent.start();
+    fire('t1', {});
+    await flush();
+
+    expect(delayed).toHaveLength(1);
+    expect(delayed[0].retryAt).toBeGreaterThan(Date.now());
+    const actions = await agent.getStorageModule().getActions();
+    expect(actions.map((entry) => entry.status)).toEqual(['blocked', 'success']);
+    expect(actions[0].metadata).toMatchObject({
+      reason: expect.stringMatching(/^Rate limit reached, retry after /),
+      retryAt: delayed[0].retryAt,
+    });
+
+    // stop() does not wait for the rate-limit window
+    await agent.stop();
+    expect(agent.getState()).toBe(AgentState.Stopped);
+  });
+
+  it('should tag stored events and actions with the agent address', async () => {
+    const { agent, fire } = createAgent();
+    const agentId = '0x' + 'aa'.repeat(20);
+    (agent as any).agentAddress = agentId;
+
+    agent.getPolicyModule().setOperationalPolicy({ blockedActions: ['check_balance'] });
+    agent.getPlannerModule().plan = async () => [
+      { type: 'check_balance', params: {} },
+      { type: 'execute', params: {} },
+    ];
+
+    await agent.start();
+    fire('t1', {});
+    await flush();
+
+    const storage = agent.getStorageModule();
+    expect(await storage.getEvents({ agentId })).toHaveLength(1);
+    const actions = await storage.getActions({ agentId });
+    expect(actions.map((entry) => entry.status)).toEqual(['blocked', 'success']);
+    expect(await storage.getActions({ agentId: '0x' + 'bb'.repeat(20) })).toEqual([]);
+  });
+});
+
+describe('Policy transfer limits', () => {
+  it('should compare ether-denominated transfers in wei', () => {
+    const policy = new Policy();
+    policy.setTransferLimit(ethers.parseEther('0.1'), ethers.parseEther('1'));
+    const transfer = (amount: any) => ({
+      type: 'execute_transfer',
+      params: { to: '0xabc', amount },
+    });
+
+    expect(policy.checkAction(transfer('0.5'))).toEqual({ allowed: true });
+    expect(policy.checkAction(transfer('50'))).toEqual({
+      allowed: false,
+      reason: 'Amount 50 exceeds maximum 1.0',
+    });
+    expect(policy.checkAction(transfer('0.01')).reason).toBe(
+      'Amount 0.01 below minimum 0.1'
+    );
+    expect(policy.checkAction(transfer('lots')).reason).toBe('Invalid amount: lots');
+
+    // Capped amounts stay in ether for the handler
+    const capped = policy.overrideAction(transfer('50'));
+    expect(ethers.parseEther(capped.params.amount)).toBe(ethers.parseEther('1'));
+  });
+
+  it('should compare other amounts as wei and skip token amounts', () => {
+    const policy = new Policy();
+    policy.setOperationalPolicy({
+      maxTransferAmount: 1000n,
+      amountDecimals: { pay: 3 },
+    });
+
+    const allowed = (type: string, params: Record<string, any>) =>
+      policy.checkAction({ type, params }).allowed;
+
+    expect(allowed('execute', { amount: '1001' })).toBe(false);
+    expect(allowed('pay', { amount: '1' })).toBe(true);
+    expect(allowed('pay', { amount: '1.001' })).toBe(false);
+    expect(allowed('approve_token', { token: '0x1', amount: 'max' })).toBe(true);
+  });
+});
+
+describe('Agent approval queue', () => {
+  const planTransfer = (agent: Agent) => {
+    agent.getPolicyModule().setOperationalPolicy({ requireApproval: true });
+    agent.getPlannerModule().plan = async () => [{ type: 'execute', params: { to: '0xabc' } }];
+  };
+
+  it('should hold actions until approved, then execute them', async () => {
+    const { agent, fire } = createAgent();
+    const executed: any[] = [];
+    agent.getExecutorModule().registerHandler('execute', async (params) => {
+      executed.push(params);
+      return { ok: true };
+    });
+    planTransfer(agent);
+
+    await agent.start();
+    fire('t1', {});
+    await flush();
+
+    const [pending] = agent.getPendingApprovals();
+    expect(pending.status).toBe(ApprovalStatus.Pending);
+    expect(pending.requestedBy.agentName).toBe('LifecycleAgent');
+    expect(executed).toHaveLength(0);
+
+    const approval = await agent.approveAction(pending.id, 'alice');
+    expect(approval.status).toBe(ApprovalStatus.Approved);
+    expect(approval.result?.success).toBe(true);
+    expect(executed).toEqual([{ to: '0xabc' }]);
+
+    const actions = await agent.getStorageModule().getActions();
+    expect(actions).toHaveLength(1);
+    expect(actions[0].metadata).toMatchObject({ approvalId: pending.id, approvedBy: 'alice' });
+    await expect(agent.approveAction(pending.id)).rejects.toThrow(/already approved/);
+  });
+
+  it('should check the policy again when an action is approved', async () => {
+    const { agent, fire } = createAgent();
+    const executed: any[] = [];
+    agent.getExecutorModule().registerHandler('execute', async (params) => {
+      executed.push(params);
+    });
+    planTransfer(agent);
+
+    await agent.start();
+    fire('t1', {});
+    await flush();
+
+    agent.getPolicyModule().addBlockedAction('execute');
+    const [pending] = agent.getPendingApprovals();
+    const approval = await agent.approveAction(pending.id, 'alice');
+
+    expect(approval.result).toMatchObject({ success: false, error: /blocked/ });
+    expect(executed).toHaveLength(0);
+    const actions = await agent.getStorageModule().getActions();
+    expect(actions.map((entry) => entry.status)).toEqual(['blocked']);
+  });
+
+  it('should hold dependents until approval, then run them with its output', async () => {
+    const { agent, fire } = createAgent();
+    const swaps: any[] = [];
+    agent.getExecutorModule().registerHandler('approve', async () => ({ allowance: 5 }));
+    agent.getExecutorModule().registerHandler('swap', async (params) => {
+      swaps.push(params);
+    });
+    agent.getPolicyModule().setOperationalPolicy({ requireApproval: true });
+    agent.getPlannerModule().plan = async () => [
+      { type: 'approve', params: {} },
+      {
+        type: 'swap',
+        params: { amount: '{{steps.step-1.allowance}}' },
+        dependencies: ['step-1'],
+      },
+    ];
+
+    await agent.start();
+    fire('t1', {});
+    await flush();
+
+    const [first] = agent.getPendingApprovals();
+    expect(agent.getPendingApprovals()).toHaveLength(1);
+    expect(first.dependents?.map((action) => action.type)).toEqual(['swap']);
+
+    // The swap needs its own approval once the approve step has run
+    await agent.approveAction(first.id);
+    const [second] = agent.getPendingApprovals();
+    expect(second.action.params).toEqual({ amount: 5 });
+
+    await agent.approveAction(second.id);
+    expect(swaps).toEqual([{ amount: 5 }]);
+    const actions = await agent.getStorageModule().getActions();
+    expect(actions.map((entry) => entry.status)).toEqual(['success', 'success']);
+  });
+
+  it('should store rejected actions as blocked', async () => {
+    const { agent, fire } = createAgent();
+    const rejected: any[] = [];
+    agent.on('action:rejected', (data) => rejected.push(data));
+    planTransfer(agent);
+
+    await agent.start();
+    fire('t1', {});
+    await flush();
+
+    const [pending] = agent.getPendingApprovals();
+    agent.rejectAction(pending.id, 'Unknown recipient');
+    await flush();
+
+    expect(rejected[0].reason).toBe('Unknown recipient');
+    const actions = await agent.getStorageModule().getActions();
+    expect(actions[0].status).toBe('blocked');
+    expect(agent.getPendingApprovals()).toHaveLength(0);
+  });
+
+  it('should not execute approvals once the agent is stopped', async () => {
+    const { agent, fire } = createAgent();
+    const executed: any[] = [];
+    agent.getExecutorModule().registerHandler('execute', async (params) => {
+      executed.push(params);
+    });
+    planTransfer(agent);
+
+    await agent.start();
+    fire('t1', {});
+    fire('t2', {});
+    await flush();
+
+    // A request decided while stop() runs, e.g. from the dashboard
+    const [late, pending] = agent.getPendingApprovals();
+    (agent as any).state = AgentState.Stopped;
+    const approval = await agent.approveAction(late.id, 'alice');
+    expect(approval.result).toEqual({ success: false, error: 'Agent is stopped' });
+
+    (agent as any).state = AgentState.Active;
+    await agent.stop();
+    await flush();
+
+    expect(executed).toHaveLength(0);
+    expect(agent.getApprovalQueue().get(pending.id)).toMatchObject({
+      status: ApprovalStatus.Rejected,
+      rejectReason: 'Agent stopped',
+    });
+    const actions = await agent.getStorageModule().getActions();
+    expect(actions.map((entry) => entry.metadata?.reason)).toEqual([
+      'Agent is stopped',
+      'Agent stopped',
+    ]);
+  });
+});
+
+describe('ApprovalQueue', () => {
+  it('should expire pending requests after their ttl', () => {
+    vi.useFakeTimers();
+    try {
+      const queue = new ApprovalQueue({ ttlMs: 1000 });
+      const expired: any[] = [];
+      queue.on('expired', (request) => expired.push(request));
+
+      const request = queue.request({ type: 'execute', params: {} }, { agentId: '0x1' });
+      vi.advanceTimersByTime(1000);
+
+      expect(expired).toHaveLength(1);
+      expect(queue.get(request.id)?.status).toBe(ApprovalStatus.Expired);
+      expect(() => queue.reject(request.id, 'too late')).toThrow(/already expired/);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Agent Discovery Tests
+ *
+ * Tests for indexing AgentRegistry and searching the index
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AgentDiscovery } from '../../src/core/agentDiscovery';
+
+const REGISTRY = '0x' + '22'.repeat(20);
+const ALICE = '0x' + 'aa'.repeat(20);
+const BOB = '0x' + 'bb'.repeat(20);
+
+const registryInterface = new ethers.Interface([
+  'function getAgent(uint256) view returns (string, string, string, address, bool, uint256, uint256)',
+  'function getAgentCapabilities(uint256) view returns (string[])',
+  'function agentMetrics(uint256) view returns (uint256, uint256, uint256, uint256, uint256)',
+  'event AgentUpdated(uint256 indexed agentId, string name, uint256 timestamp)',
+]);
+
+interface FakeAgent {
+  name: string;
+  owner: string;
+  isActive: boolean;
+  capabilities: string[];
+  executions: [number, number];
+}
+
+/**
+ * Fake chain: a registry of agents read through a multicall that decodes its calls
+ */
+function createChain() {
+  const agents: FakeAgent[] = [];
+  const logs: Array<{ blockNumber: number; topics: string[] }> = [];
+  let block = 100;
+
+  const encode = (callData: string): string => {
+    const call = registryInterface.parseTransaction({ data: callData })!;
+    const agent = agents[Number(call.args[0]) - 1];
+    const [total, successful] = agent.executions;
+    const values: Record<string, any[]> = {
+      getAgent: [
+        agent.name,
+        `${agent.name} agent`,
+        `ipfs://${agent.name}`,
+        agent.owner,
+        agent.isActive,
+        1_700_000_000,
+        total,
+      ],
+      getAgentCapabilities: [agent.capabilities],
+      agentMetrics: [total, successful, total - successful, 500, 0],
+    };
+    return registryInterface.encodeFunctionResult(call.name, values[call.name]);
+  };
+
+  const multicall = {
+    aggregate: vi.fn(async (calls: Array<{ callData: string }>) =>
+      calls.map((call) => encode(call.callData))
+    ),
+  };
+
+  const chainClient = {
+    getNetworkConfig: () => ({ chainId: 50312 }),
+    getProvider: () => ({
+      getBlockNumber: async () => block,
+      getLogs: async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) =>
+        logs.filter((log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock),
+    }),
+    getContract: () => ({ getTotalAgents: async () => BigInt(agents.length) }),
+  };
+
+  return {
+    chainClient,
+    multicall,
+    agents,
+    register(agent: FakeAgent): void {
+      agents.push(agent);
+      block++;
+    },
+    update(id: number, changes: Partial<FakeAgent>): void {
+      Object.assign(agents[id - 1], changes);
+      const topics = registryInterface.encodeEventLog('AgentUpdated', [id, '', 0]).topics;
+      logs.push({ blockNumber: ++block, topics });
+    },
+  };
+}
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-discovery-'));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('AgentDiscovery', () => {
+  it('should index all agents and search by capability, owner and track record', async () => {
+    const chain = createChain();
+    chain.register({
+      name: 'oracle-a',
+      owner: ALICE,
+      isActive: true,
+      capabilities: ['price-oracle'],
+      executions: [10, 7],
+    });
+    chain.register({
+      name: 'oracle-b',
+      owner: BOB,
+      isActive: true,
+      capabilities: ['Price-Oracle', 'trading'],
+      executions: [20, 19],
+    });
+    chain.register({
+      name: 'oracle-c',
+      owner: BOB,
+      isActive: false,
+      capabilities: ['price-oracle'],
+      executions: [5, 5],
+    });
+
+    const discovery = new AgentDiscovery(chain.chainClient as any, REGISTRY, {
+      multicall: chain.multicall as any,
+      batchSize: 2,
+    });
+    expect(await discovery.sync()).toEqual({ updated: 3, total: 3, blockNumber: 103 });
+    expect(chain.multicall.aggregate).toHaveBeenCalledTimes(2);
+
+    const peer = await discovery.findPeer('price-oracle');
+    expect(peer).toMatchObject({ id: 2n, successRate: 95, failedExecutions: 1 });
+
+    const ids = (query: object) =>
+      discovery.find(query).then((agents) => agents.map((agent) => agent.id));
+    expect(await ids({ capability: 'price-oracle' })).toEqual([1n, 2n, 3n]);
+    expect(await ids({ capability: ['price-oracle', 'trading'] })).toEqual([2n]);
+    expect(await ids({ owner: BOB.toUpperCase() })).toEqual([2n, 3n]);
+    expect(await ids({ active: true, minSuccessRate: 90 })).toEqual([2n]);
+    expect(await ids({ sortBy: 'successRate', limit: 2 })).toEqual([3n, 2n]);
+    expect(await ids({ text: 'ORACLE-A' })).toEqual([1n]);
+  });
+
+  it('should re-read only new and updated agents, resuming from the cache', async () => {
+    const chain = createChain();
+    const agent = (name: string): FakeAgent => ({
+      name,
+      owner: ALICE,
+      isActive: true,
+      capabilities: ['swap'],
+      executions: [0, 0],
+    });
+    chain.register(agent('first'));
+    chain.register(agent('second'));
+
+    const cachePath = path.join(dir, 'agents.json');
+    const config = { multicall: chain.multicall as any, cachePath };
+    await new AgentDiscovery(chain.chainClient as any, REGISTRY, config).sync();
+
+    chain.update(1, { isActive: false });
+    chain.register(agent('third'));
+    chain.multicall.aggregate.mockClear();
+
+    const discovery = new AgentDiscovery(chain.chainClient as any, REGISTRY, config);
+    expect(await discovery.sync()).toMatchObject({ updated: 2, total: 3 });
+    expect(chain.multicall.aggregate.mock.calls[0][0]).toHaveLength(6);
+    expect((await discovery.getAgent(1))?.isActive).toBe(false);
+    expect((await discovery.getAgent(3))?.name).toBe('third');
+
+    // A cache from another registry is ignored
+    const other = new AgentDiscovery(
+      chain.chainClient as any,
+      '0x' + '33'.repeat(20),
+      config
+    );
+    expect(await other.sync()).toMatchObject({ updated: 3, total: 3 });
+  });
+
+  it('should resolve and keep IPFS metadata', async () => {
+    const chain = createChain();
+    chain.register({
+      name: 'meta',
+      owner: ALICE,
+      isActive: true,
+      capabilities: [],
+      executions: [0, 0],
+    });
+    const ipfs = {
+      fetchJSON: vi.fn(async () => ({ endpoint: 'https://agent.example' })),
+    };
+    const discovery = new AgentDiscovery(chain.chainClient as any, REGISTRY, {
+      multicall: chain.multicall as any,
+      ipfs: ipfs as any,
+    });
+
+    expect(await discovery.resolveMetadata(1)).toEqual({
+      endpoint: 'https://agent.example',
+    });
+    expect(ipfs.fetchJSON).toHaveBeenCalledWith('ipfs://meta');
+
+    await discovery.sync();
+    expect((await discovery.getAgent(1))?.metadata).toEqual({
+      endpoint: 'https://agent.example',
+    });
+    await expect(discovery.resolveMetadata(2)).rejects.toThrow('Agent #2 is not indexed');
+  });
+});
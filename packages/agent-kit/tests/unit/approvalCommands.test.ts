@@ -0,0 +1,54 @@
+/**
+ * Approval Command Tests
+ *
+ * Tests for the approval CLI commands talking to the Dashboard API
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  approvalApproveCommand,
+  approvalListCommand,
+} from '../../src/cli/commands/approval';
+
+function mockFetch(body: any) {
+  const fetchMock = vi.fn(
+    async () => new Response(JSON.stringify(body), { status: 200 })
+  );
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('Approval commands', () => {
+  it('should send the dashboard token as a bearer token', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const fetchMock = mockFetch({ approvals: [] });
+
+    await approvalListCommand({ url: 'http://dashboard:3001/', token: 'secret' });
+
+    const [url, init] = fetchMock.mock.calls[0] as any[];
+    expect(url).toBe('http://dashboard:3001/approvals?status=pending');
+    expect(init.headers.Authorization).toBe('Bearer secret');
+  });
+
+  it('should fall back to DASHBOARD_TOKEN and require a token', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const fetchMock = mockFetch({ action: { type: 'execute' } });
+
+    vi.stubEnv('DASHBOARD_TOKEN', 'from-env');
+    await approvalApproveCommand({ _positional: ['approval-1'], by: 'alice' });
+    const [url, init] = fetchMock.mock.calls[0] as any[];
+    expect(url).toBe('http://localhost:3001/approvals/approval-1/approve');
+    expect(init.headers.Authorization).toBe('Bearer from-env');
+
+    vi.stubEnv('DASHBOARD_TOKEN', '');
+    await expect(approvalListCommand({})).rejects.toThrow(
+      /--token or set DASHBOARD_TOKEN/
+    );
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Cron Scheduling Tests
+ *
+ * Tests for CronExpression parsing/next-fire computation and
+ * cron-based TriggerType.Time triggers
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CronExpression } from '../../src/utils/cron';
+import { MissedRunPolicy, Trigger, TriggerType } from '../../src/runtime/trigger';
+
+const utc = (iso: string) => Date.parse(iso);
+
+describe('CronExpression', () => {
+  it('should compute the next weekday at 09:00 UTC', () => {
+    const cron = CronExpression.parse('0 9 * * MON-FRI');
+
+    // Friday 2024-03-01 10:00 UTC -> Monday 2024-03-04 09:00 UTC
+    expect(cron.next(utc('2024-03-01T10:00:00Z'))).toBe(utc('2024-03-04T09:00:00Z'));
+    // Monday before 09:00 -> same day
+    expect(cron.next(utc('2024-03-04T08:59:59Z'))).toBe(utc('2024-03-04T09:00:00Z'));
+  });
+
+  it('should support 6-field expressions with seconds', () => {
+    const cron = CronExpression.parse('*/15 * * * * *');
+    expect(cron.next(utc('2024-01-01T00:00:01Z'))).toBe(utc('2024-01-01T00:00:15Z'));
+  });
+
+  it('should support steps, lists and macros', () => {
+    expect(CronExpression.parse('*/5 * * * *').next(utc('2024-01-01T00:03:00Z'))).toBe(
+      utc('2024-01-01T00:05:00Z')
+    );
+    expect(CronExpression.parse('0 0,12 * * *').next(utc('2024-01-01T01:00:00Z'))).toBe(
+      utc('2024-01-01T12:00:00Z')
+    );
+    expect(CronExpression.parse('@monthly').next(utc('2024-01-15T00:00:00Z'))).toBe(
+      utc('2024-02-01T00:00:00Z')
+    );
+  });
+
+  it('should match either day-of-month or day-of-week when both are restricted', () => {
+    const cron = CronExpression.parse('0 0 13 * FRI');
+    // 2024-01-05 is a Friday, before the 13th
+    expect(cron.next(utc('2024-01-01T00:00:00Z'))).toBe(utc('2024-01-05T00:00:00Z'));
+  });
+
+  it('should handle leap-day schedules', () => {
+    const cron = CronExpression.parse('0 0 29 2 *');
+    expect(cron.next(utc('2024-03-01T00:00:00Z'))).toBe(utc('2028-02-29T00:00:00Z'));
+  });
+
+  it('should evaluate in the configured timezone', () => {
+    const cron = CronExpression.parse('0 9 * * *', { timezone: 'America/New_York' });
+    // EST (UTC-5) in January, EDT (UTC-4) in July
+    expect(cron.next(utc('2024-01-10T00:00:00Z'))).toBe(utc('2024-01-10T14:00:00Z'));
+    expect(cron.next(utc('2024-07-10T00:00:00Z'))).toBe(utc('2024-07-10T13:00:00Z'));
+  });
+
+  it('should list fire times in a range', () => {
+    const cron = CronExpression.parse('0 * * * *');
+    const times = cron.between(utc('2024-01-01T00:00:00Z'), utc('2024-01-01T03:00:00Z'));
+    expect(times).toEqual([
+      utc('2024-01-01T01:00:00Z'),
+      utc('2024-01-01T02:00:00Z'),
+      utc('2024-01-01T03:00:00Z'),
+    ]);
+  });
+
+  it('should reject invalid expressions and timezones', () => {
+    expect(() => CronExpression.parse('* * *')).toThrow(/expected 5 or 6 fields/);
+    expect(() => CronExpression.parse('60 * * * *')).toThrow(/out of range/);
+    expect(() => CronExpression.parse('* * * * *', { timezone: 'Mars/Base' })).toThrow(
+      /Invalid timezone/
+    );
+    expect(CronExpression.isValid('0 9 * * MON-FRI')).toBe(true);
+  });
+});
+
+describe('Trigger cron scheduling', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(utc('2024-01-01T00:00:30Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should fire on cron schedule', () => {
+    const trigger = new Trigger();
+    const fired: any[] = [];
+    trigger.on('triggered', (data) => fired.push(data));
+
+    const id = trigger.register({
+      name: 'every-minute',
+      type: TriggerType.Time,
+      schedule: '* * * * *',
+      enabled: true,
+      action: 'check',
+    });
+
+    expect(trigger.getNextRunTime(id)).toBe(utc('2024-01-01T00:01:00Z'));
+
+    vi.advanceTimersByTime(3 * 60_000);
+    expect(fired).toHaveLength(3);
+    expect(fired[0].data.scheduledAt).toBe(utc('2024-01-01T00:01:00Z'));
+    expect(fired[0].data.missed).toBe(false);
+
+    trigger.cleanup();
+  });
+
+  it('should reject invalid cron schedules at registration', () => {
+    const trigger = new Trigger();
+    expect(() =>
+      trigger.register({
+        name: 'bad',
+        type: TriggerType.Time,
+        schedule: 'not a cron',
+        enabled: true,
+        action: 'check',
+      })
+    ).toThrow(/Invalid cron expression/);
+  });
+
+  it('should apply missed-run policy when catching up', () => {
+    vi.setSystemTime(utc('2024-01-01T00:05:00Z'));
+
+    const fire = (policy: MissedRunPolicy) => {
+      const trigger = new Trigger();
+      const fired: any[] = [];
+      trigger.on('triggered', (data) => fired.push(data.data));
+
+      const id = trigger.register({
+        name: 'hourly',
+        type: TriggerType.Time,
+        schedule: '0 * * * *',
+        enabled: false,
+        action: 'check',
+        missedRunPolicy: policy,
+      });
+
+      // Simulate a trigger restored 3 hours after its last run
+      trigger.getTrigger(id)!.lastTriggeredAt = utc('2023-12-31T21:00:00Z');
+      trigger.enable(id);
+      trigger.cleanup();
+      return fired;
+    };
+
+    expect(fire(MissedRunPolicy.Skip)).toHaveLength(0);
+
+    const once = fire(MissedRunPolicy.FireOnce);
+    expect(once).toHaveLength(1);
+    expect(once[0]).toMatchObject({ missed: true, missedCount: 3 });
+
+    const all = fire(MissedRunPolicy.FireAll);
+    expect(all.map((run) => run.scheduledAt)).toEqual([
+      utc('2023-12-31T22:00:00Z'),
+      utc('2023-12-31T23:00:00Z'),
+      utc('2024-01-01T00:00:00Z'),
+    ]);
+  });
+
+  it('should expire triggers at expiresAt', () => {
+    const trigger = new Trigger();
+    const fired: any[] = [];
+    const expired: any[] = [];
+    trigger.on('triggered', (data) => fired.push(data));
+    trigger.on('expired', (data) => expired.push(data));
+
+    const id = trigger.register({
+      name: 'short-lived',
+      type: TriggerType.Time,
+      schedule: '* * * * *',
+      enabled: true,
+      action: 'check',
+      expiresAt: utc('2024-01-01T00:02:30Z'),
+    });
+
+    vi.advanceTimersByTime(10 * 60_000);
+    expect(fired).toHaveLength(2);
+    expect(expired).toHaveLength(1);
+    expect(trigger.getTrigger(id)!.enabled).toBe(false);
+    expect(trigger.getNextRunTime(id)).toBeNull();
+  });
+});
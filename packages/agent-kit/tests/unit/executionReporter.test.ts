@@ -0,0 +1,198 @@
+/**
+ * Execution Reporter Tests
+ *
+ * Tests for batching execution outcomes into AgentRegistry.recordExecution
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { ExecutionReporter } from '../../src/monitor/executionReporter';
+import { EventEmitter } from '../../src/utils/logger';
+
+const GAS = 50_000n;
+const GAS_PRICE = 10n;
+
+function createRegistry(gasPrice: bigint = GAS_PRICE) {
+  let hashes = 0;
+  const recordExecution = Object.assign(
+    vi.fn(async (..._args: any[]) => ({
+      wait: async () => ({
+        hash: `0x${(++hashes).toString(16)}`,
+        gasUsed: GAS,
+        gasPrice,
+        fee: GAS * gasPrice,
+      }),
+    })),
+    { estimateGas: vi.fn(async () => GAS) }
+  );
+
+  return {
+    recordExecution,
+    agentMetrics: async () => ({
+      totalExecutions: 4n,
+      successfulExecutions: 3n,
+      failedExecutions: 1n,
+      averageExecutionTime: 1200n,
+      lastExecutionTime: 1_700_000_000n,
+    }),
+    runner: {
+      provider: { getFeeData: async () => ({ maxFeePerGas: gasPrice, gasPrice: null }) },
+    },
+  };
+}
+
+describe('ExecutionReporter', () => {
+  it('should report executed events of an attached agent in order', async () => {
+    const registry = createRegistry();
+    const reporter = new ExecutionReporter(registry as any, { batchSize: 100 });
+    const agent = new EventEmitter();
+    reporter.attach(agent as any, 7);
+
+    agent.emit('tasks:executed', {
+      results: [
+        { success: true, duration: 100, txReceipt: { gasUsed: 21000n } },
+        { success: true, duration: 50 },
+      ],
+    });
+    agent.emit('tasks:executed', { results: [] });
+    agent.emit('tasks:executed', { results: [{ success: false, duration: 20.4 }] });
+
+    expect(reporter.getStats().queued).toBe(2);
+    await reporter.flush();
+
+    expect(registry.recordExecution.mock.calls).toEqual([
+      [7n, true, 150],
+      [7n, false, 20],
+    ]);
+    expect(reporter.getStats()).toEqual({
+      queued: 0,
+      reported: 2,
+      dropped: 0,
+      spentToday: 2n * GAS * GAS_PRICE,
+      gasUsed: 21000n,
+    });
+  });
+
+  it('should report approved actions and stop reporting once detached', async () => {
+    const registry = createRegistry();
+    const reporter = new ExecutionReporter(registry as any, { batchSize: 100 });
+    const agent = new EventEmitter();
+    const detach = reporter.attach(agent as any, 7);
+
+    agent.emit('action:approved', {
+      approval: { id: 'approval-1' },
+      result: { success: true, duration: 80, txReceipt: { gasUsed: 21000n } },
+    });
+    detach();
+    agent.emit('tasks:executed', { results: [{ success: true, duration: 10 }] });
+    agent.emit('action:approved', { approval: {}, result: { success: false } });
+    await reporter.flush();
+
+    expect(registry.recordExecution.mock.calls).toEqual([[7n, true, 80]]);
+    expect(reporter.getStats().gasUsed).toBe(21000n);
+  });
+
+  it('should defer reports beyond the daily budget or gas price cap', async () => {
+    const registry = createRegistry();
+    const reporter = new ExecutionReporter(registry as any, {
+      batchSize: 100,
+      maxCostPerDay: 2n * GAS * GAS_PRICE,
+    });
+    const deferred = vi.fn();
+    reporter.on('deferred', deferred);
+
+    for (let i = 0; i < 3; i++) {
+      reporter.record({ agentId: 1n, success: true, duration: 10 });
+    }
+    await reporter.flush();
+
+    expect(registry.recordExecution).toHaveBeenCalledTimes(2);
+    expect(reporter.getStats().queued).toBe(1);
+    expect(deferred).toHaveBeenCalledWith({
+      reason: 'Daily reporting budget reached',
+      queued: 1,
+    });
+
+    const expensive = createRegistry(100n);
+    const capped = new ExecutionReporter(expensive as any, { maxGasPrice: 50n });
+    capped.record({ agentId: 1n, success: true, duration: 10 });
+    await capped.flush();
+    expect(expensive.recordExecution).not.toHaveBeenCalled();
+  });
+
+  it('should retry failed submissions and keep them queued on final failure', async () => {
+    const registry = createRegistry();
+    const reporter = new ExecutionReporter(registry as any, {
+      maxRetries: 2,
+      retryDelay: 1,
+    });
+    const errors = vi.fn();
+    reporter.on('error', errors);
+
+    registry.recordExecution.mockRejectedValueOnce(new Error('nonce too low'));
+    reporter.record({ agentId: 1n, success: true, duration: 10 });
+    await reporter.flush();
+    expect(reporter.getStats().reported).toBe(1);
+
+    registry.recordExecution
+      .mockRejectedValueOnce(new Error('rpc down'))
+      .mockRejectedValueOnce(new Error('rpc down'));
+    reporter.record({ agentId: 1n, success: false, duration: 10 });
+    await reporter.flush();
+    expect(reporter.getStats().queued).toBe(1);
+    expect(errors).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop reverted reports and keep waiting on sent ones', async () => {
+    const registry = createRegistry();
+    const reporter = new ExecutionReporter(registry as any, {
+      maxRetries: 1,
+      retryDelay: 1,
+    });
+    const dropped = vi.fn();
+    reporter.on('dropped', dropped);
+
+    registry.recordExecution.mockRejectedValueOnce(
+      ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+        reason: 'Not agent owner',
+      } as any)
+    );
+    reporter.record({ agentId: 9n, success: true, duration: 10 });
+    reporter.record({ agentId: 1n, success: true, duration: 10 });
+    await reporter.flush();
+
+    expect(dropped).toHaveBeenCalledWith({
+      outcome: expect.objectContaining({ agentId: 9n }),
+      reason: 'Reverted: Not agent owner',
+    });
+    expect(reporter.getStats()).toMatchObject({ queued: 0, reported: 1, dropped: 1 });
+
+    // The receipt wait times out after broadcast: the next flush waits again
+    const wait = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockResolvedValueOnce({ hash: '0xabc', gasUsed: GAS, fee: GAS * GAS_PRICE });
+    registry.recordExecution.mockResolvedValueOnce({ wait } as any);
+    reporter.record({ agentId: 1n, success: false, duration: 10 });
+
+    await reporter.flush();
+    expect(reporter.getStats().queued).toBe(1);
+    await reporter.flush();
+    expect(reporter.getStats()).toMatchObject({ queued: 0, reported: 2 });
+    expect(registry.recordExecution).toHaveBeenCalledTimes(3);
+  });
+
+  it('should read on-chain metrics back', async () => {
+    const reporter = new ExecutionReporter(createRegistry() as any);
+
+    expect(await reporter.getAgentMetrics(1)).toEqual({
+      agentId: 1n,
+      totalExecutions: 4,
+      successfulExecutions: 3,
+      failedExecutions: 1,
+      successRate: 75,
+      averageExecutionTime: 1200,
+      lastExecutionTime: 1_700_000_000_000,
+    });
+  });
+});
@@ -0,0 +1,379 @@
+/**
+ * Executor Tests
+ *
+ * Tests for handler param schemas, the action catalogue, built-in handlers
+ * and planner action descriptions
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { z } from 'zod';
+import { Executor } from '../../src/runtime/executor';
+import { LLMPlanner } from '../../src/runtime/planner';
+import { zodToJsonSchema } from '../../src/utils/schema';
+import type { LLMAdapter } from '../../src/types/llm';
+
+const quoteSchema = z.object({
+  tokenIn: z.string().describe('Input token'),
+  amountIn: z.number().int().min(1),
+  slippageBps: z.number().default(50),
+});
+
+describe('Executor handler schemas', () => {
+  it('should validate and parse params before calling the handler', async () => {
+    const executor = new Executor(undefined, undefined, { maxRetries: 0, retryDelay: 1 });
+    const handler = vi.fn(async (params: any) => params);
+    executor.registerHandler('quote', handler, {
+      schema: quoteSchema,
+      description: 'Quote',
+    });
+
+    const ok = await executor.execute({
+      type: 'quote',
+      params: { tokenIn: 'STT', amountIn: 5 },
+    });
+    expect(ok.success).toBe(true);
+    expect(ok.data).toEqual({ tokenIn: 'STT', amountIn: 5, slippageBps: 50 });
+
+    const bad = await executor.execute({ type: 'quote', params: { amountIn: 0 } });
+    expect(bad.success).toBe(false);
+    expect(bad.error).toMatch(/^Invalid params for quote: tokenIn: Required; amountIn:/);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should validate default handler params', async () => {
+    const executor = new Executor(undefined, undefined, { maxRetries: 0, retryDelay: 1 });
+    const result = await executor.execute({
+      type: 'execute_transfer',
+      params: { to: 'alice', amount: '1' },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('to: Invalid address');
+  });
+
+  it('should not retry handlers registered as non-retryable', async () => {
+    const executor = new Executor(undefined, undefined, { maxRetries: 2, retryDelay: 1 });
+    const send = vi.fn(async () => {
+      throw new Error('Receipt timeout');
+    });
+    const read = vi.fn(async () => {
+      throw new Error('RPC unavailable');
+    });
+    executor.registerHandler('send', send, { retryable: false });
+    executor.registerHandler('read', read);
+
+    const [sent, readResult] = await executor.executeAll([
+      { type: 'send', params: {} },
+      { type: 'read', params: {} },
+    ]);
+    expect(sent).toMatchObject({ success: false, retryCount: 0 });
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(readResult.retryCount).toBe(2);
+    expect(read).toHaveBeenCalledTimes(3);
+  });
+
+  it('should export the action catalogue as JSON Schema', () => {
+    const executor = new Executor();
+    executor.registerHandler('quote', async () => ({}), {
+      schema: quoteSchema,
+      description: 'Get a quote',
+    });
+    executor.registerHandler('untyped', async () => ({}));
+
+    const catalogue = executor.getActionCatalogue();
+    const quote = catalogue.find((entry) => entry.name === 'quote');
+    expect(quote).toEqual({
+      name: 'quote',
+      description: 'Get a quote',
+      parameters: {
+        type: 'object',
+        properties: {
+          tokenIn: { type: 'string', description: 'Input token' },
+          amountIn: { type: 'integer', minimum: 1 },
+          slippageBps: { type: 'number', default: 50 },
+        },
+        required: ['tokenIn', 'amountIn'],
+      },
+    });
+    expect(catalogue.find((entry) => entry.name === 'untyped')?.parameters).toEqual({
+      type: 'object',
+      additionalProperties: true,
+    });
+
+    const schema = executor.getActionJsonSchema();
+    const variant = schema.oneOf.find(
+      (entry: any) => entry.properties.type.const === 'quote'
+    );
+    expect(variant.properties.params).toEqual(quote!.parameters);
+  });
+});
+
+describe('approve_token handler', () => {
+  const TOKEN = '0x' + '1'.repeat(40);
+  const SPENDER = '0x' + '2'.repeat(40);
+
+  function createChainClient(allowance: bigint) {
+    const approve = vi.fn(async () => ({ wait: async () => ({ hash: '0xapprove' }) }));
+    const token = {
+      decimals: async () => 6n,
+      allowance: vi.fn(async () => allowance),
+      approve,
+    };
+    const chainClient: any = {
+      getContract: () => token,
+      getSigner: () => ({ getAddress: async () => '0xowner' }),
+      getSignerManager: () => ({
+        getAddress: async () => '0xowner',
+        getSessionKey: () => undefined,
+      }),
+    };
+    return { chainClient, approve };
+  }
+
+  it('should approve with decimals-aware amounts when the allowance is too low', async () => {
+    const { chainClient, approve } = createChainClient(0n);
+    const executor = new Executor(chainClient, undefined, {
+      maxRetries: 0,
+      retryDelay: 1,
+    });
+
+    const result = await executor.execute({
+      type: 'approve_token',
+      params: { token: TOKEN, spender: SPENDER, amount: '1.5' },
+    });
+
+    expect(result.success).toBe(true);
+    expect(approve).toHaveBeenCalledWith(SPENDER, 1500000n);
+    expect(result.data).toMatchObject({
+      approved: true,
+      txHash: '0xapprove',
+      amountRaw: '1500000',
+      decimals: 6,
+      previousAllowance: '0',
+    });
+  });
+
+  it('should skip the transaction when the allowance already covers the amount', async () => {
+    const { chainClient, approve } = createChainClient(5000000n);
+    const executor = new Executor(chainClient, undefined, {
+      maxRetries: 0,
+      retryDelay: 1,
+    });
+
+    const result = await executor.execute({
+      type: 'approve_token',
+      params: { token: TOKEN, spender: SPENDER, amount: 2 },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data.approved).toBe(false);
+    expect(approve).not.toHaveBeenCalled();
+  });
+
+  it('should report the current allowance in dry-run mode', async () => {
+    const { chainClient, approve } = createChainClient(1000000n);
+    const executor = new Executor(chainClient, undefined, { dryRun: true });
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const result = await executor.execute({
+      type: 'approve_token',
+      params: { token: TOKEN, spender: SPENDER, amount: 'max' },
+    });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.data).toMatchObject({
+      simulated: true,
+      wouldApprove: true,
+      currentAllowance: '1000000',
+      currentAllowanceFormatted: '1.0',
+      newAllowance: (2n ** 256n - 1n).toString(),
+    });
+    expect(approve).not.toHaveBeenCalled();
+
+    log.mockRestore();
+  });
+});
+
+describe('call_contract and estimate_gas handlers', () => {
+  const CONTRACT = '0x' + '3'.repeat(40);
+  const ABI = [
+    'function balanceOf(address account) view returns (uint256)',
+    'function getReserves() view returns (uint112 reserve0, uint112 reserve1)',
+    'function withdraw(uint256 amount)',
+    'error InsufficientBalance(uint256 available)',
+  ];
+  const iface = new ethers.Interface(ABI);
+
+  function createChainClient(runner: Record<string, any>) {
+    const chainClient: any = {
+      getContract: (address: string, abi: any) =>
+        new ethers.Contract(address, abi, runner as any),
+      getSignerManager: () => ({ getSessionKey: () => undefined }),
+    };
+    return chainClient;
+  }
+
+  it('should read view methods with an inline ABI and decode the result', async () => {
+    const call = vi.fn(async (tx: any) =>
+      tx.data.startsWith(iface.getFunction('balanceOf')!.selector)
+        ? iface.encodeFunctionResult('balanceOf', [42n])
+        : iface.encodeFunctionResult('getReserves', [1n, 2n])
+    );
+    const executor = new Executor(createChainClient({ call }), undefined, {
+      maxRetries: 0,
+      retryDelay: 1,
+    });
+
+    const balance = await executor.execute({
+      type: 'call_contract',
+      params: {
+        contract: CONTRACT,
+        method: 'balanceOf',
+        args: [CONTRACT],
+        abi: JSON.stringify(ABI),
+      },
+    });
+    expect(balance.success).toBe(true);
+    expect(balance.data).toMatchObject({ view: true, result: '42' });
+
+    const reserves = await executor.execute({
+      type: 'call_contract',
+      params: { contract: CONTRACT, method: 'getReserves', abi: ABI },
+    });
+    expect(reserves.data.result).toEqual({ reserve0: '1', reserve1: '2' });
+  });
+
+  it('should load the ABI from a file and estimate gas for contract calls', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'executor-abi-'));
+    const abiPath = path.join(dir, 'Vault.json');
+    await fs.writeFile(abiPath, JSON.stringify({ abi: JSON.parse(iface.formatJson()) }));
+
+    const estimateGas = vi.fn(async () => 54321n);
+    const executor = new Executor(createChainClient({ estimateGas }), undefined, {
+      maxRetries: 0,
+      retryDelay: 1,
+    });
+
+    try {
+      const result = await executor.execute({
+        type: 'estimate_gas',
+        params: { contract: CONTRACT, method: 'withdraw', args: ['10'], abi: abiPath },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ gasLimit: '54321', gasLimitNumber: 54321 });
+      expect((estimateGas.mock.calls[0] as any[])[0].data).toBe(
+        iface.encodeFunctionData('withdraw', [10n])
+      );
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should check session key scopes before sending', async () => {
+    const runner = { provider: null, sendTransaction: vi.fn() };
+    const sessionKey = {
+      address: '0x' + 'ab'.repeat(20),
+      checkTransaction: vi.fn(async () => ({
+        allowed: false,
+        reason: 'function 0x2e1a7d4d is not allowed',
+      })),
+    };
+    const chainClient = createChainClient(runner);
+    chainClient.getSignerManager = () => ({ getSessionKey: () => sessionKey });
+    const executor = new Executor(chainClient, undefined, { maxRetries: 0 });
+
+    const result = await executor.execute({
+      type: 'call_contract',
+      params: { contract: CONTRACT, method: 'withdraw', args: [5], abi: ABI, value: '1' },
+    });
+
+    expect(result.error).toBe(
+      `Session key ${sessionKey.address} denied: function 0x2e1a7d4d is not allowed`
+    );
+    expect(sessionKey.checkTransaction).toHaveBeenCalledWith({
+      to: CONTRACT,
+      data: iface.encodeFunctionData('withdraw', [5]),
+      value: ethers.parseEther('1'),
+    });
+    expect(runner.sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('should decode custom error revert reasons', async () => {
+    const data = iface.encodeErrorResult('InsufficientBalance', [5n]);
+    const estimateGas = vi.fn(async () => {
+      throw ethers.makeError('execution reverted', 'CALL_EXCEPTION', { data } as any);
+    });
+    const executor = new Executor(createChainClient({ estimateGas }), undefined, {
+      maxRetries: 0,
+      retryDelay: 1,
+    });
+
+    const result = await executor.execute({
+      type: 'estimate_gas',
+      params: { contract: CONTRACT, method: 'withdraw', args: ['10'], abi: ABI },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('withdraw reverted: InsufficientBalance(5)');
+  });
+});
+
+describe('zodToJsonSchema', () => {
+  it('should convert common zod types', () => {
+    enum Side {
+      Buy = 'buy',
+      Sell = 'sell',
+    }
+
+    const schema = z.object({
+      side: z.nativeEnum(Side),
+      mode: z.enum(['fast', 'slow']),
+      tags: z.array(z.string()).optional(),
+      memo: z.string().nullable(),
+      amount: z.union([z.string(), z.number()]),
+      extra: z.record(z.boolean()),
+    });
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        side: { enum: ['buy', 'sell'] },
+        mode: { type: 'string', enum: ['fast', 'slow'] },
+        tags: { type: 'array', items: { type: 'string' } },
+        memo: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+        amount: { anyOf: [{ type: 'string' }, { type: 'number' }] },
+        extra: { type: 'object', additionalProperties: { type: 'boolean' } },
+      },
+      required: ['side', 'mode', 'memo', 'amount', 'extra'],
+    });
+  });
+});
+
+describe('LLMPlanner action descriptions', () => {
+  it('should describe executor actions and params in the prompt', async () => {
+    const generate = vi.fn(async () => ({ content: '[]' }));
+    const llm: LLMAdapter = { name: 'fake', generate };
+
+    const executor = new Executor();
+    executor.registerHandler('quote', async () => ({}), {
+      schema: quoteSchema,
+      description: 'Get a quote',
+    });
+
+    const planner = new LLMPlanner(llm, { executor });
+    await planner.plan('Quote 5 STT');
+
+    const prompt = (generate.mock.calls[0] as any[])[0] as string;
+    expect(prompt).toContain('- quote: Get a quote');
+    expect(prompt).toContain(
+      'tokenIn: string (Input token), amountIn: integer, slippageBps?: number'
+    );
+    expect(prompt).toContain('Goal: Quote 5 STT');
+    expect(prompt).not.toMatch(/\{\{(goal|context|actions)\}\}/);
+  });
+});
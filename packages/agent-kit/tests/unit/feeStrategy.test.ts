@@ -0,0 +1,142 @@
+/**
+ * Fee Strategy Tests
+ *
+ * Tests for feeHistory-based presets, fee caps, legacy fallback and signer integration
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { FeeStrategy } from '../../src/core/feeStrategy';
+import { NonceManager } from '../../src/core/nonceManager';
+
+const RECIPIENT = '0x' + '11'.repeat(20);
+
+/**
+ * Fake provider: next base fee 100, rewards per block at the 10/50/90 percentiles
+ */
+function createProvider() {
+  return {
+    getFeeData: vi.fn(async () => ({
+      gasPrice: 120n,
+      maxFeePerGas: 210n,
+      maxPriorityFeePerGas: 10n,
+    })),
+    send: vi.fn(async (method: string): Promise<any> => {
+      if (method !== 'eth_feeHistory') {
+        throw new Error(`Unexpected ${method}`);
+      }
+      return {
+        baseFeePerGas: ['0x50', '0x5a', '0x64'],
+        reward: [
+          ['0x1', '0x5', '0x14'],
+          ['0x2', '0x6', '0x1e'],
+          ['0x3', '0x7', '0x28'],
+        ],
+      };
+    }),
+  };
+}
+
+describe('FeeStrategy', () => {
+  it('should derive presets from fee history percentiles', async () => {
+    const provider = createProvider();
+    const strategy = new FeeStrategy(provider as any);
+
+    expect(await strategy.getFees('slow')).toEqual({
+      speed: 'slow',
+      baseFeePerGas: 100n,
+      maxPriorityFeePerGas: 2n,
+      maxFeePerGas: 202n,
+    });
+    expect(await strategy.getFees()).toMatchObject({
+      maxPriorityFeePerGas: 6n,
+      maxFeePerGas: 206n,
+    });
+    expect(await strategy.getFees('fast')).toMatchObject({
+      maxPriorityFeePerGas: 30n,
+      maxFeePerGas: 230n,
+    });
+
+    // Fee history is cached between calls
+    expect(provider.send).toHaveBeenCalledTimes(1);
+    expect(provider.send).toHaveBeenCalledWith('eth_feeHistory', [
+      '0xa',
+      'latest',
+      [10, 50, 90],
+    ]);
+  });
+
+  it('should clamp fees to the caps and reject explicit fees above them', async () => {
+    const strategy = new FeeStrategy(createProvider() as any, {
+      maxFeePerGas: 150n,
+      maxPriorityFeePerGas: 20n,
+    });
+
+    expect(await strategy.getFees('fast')).toMatchObject({
+      maxPriorityFeePerGas: 20n,
+      maxFeePerGas: 150n,
+    });
+    expect(await strategy.estimateCost(21000n, 'fast')).toBe(21000n * 150n);
+
+    await expect(
+      strategy.applyFees({ to: RECIPIENT, maxFeePerGas: 151n })
+    ).rejects.toThrow('maxFeePerGas 151 exceeds the fee cap of 150 wei');
+    await expect(
+      strategy.applyFees({ to: RECIPIENT, maxFeePerGas: 100n, maxPriorityFeePerGas: 21n })
+    ).rejects.toThrow(/maxPriorityFeePerGas/);
+  });
+
+  it('should fall back to a capped gas price on legacy chains', async () => {
+    const provider = createProvider();
+    provider.getFeeData.mockResolvedValue({
+      gasPrice: 120n,
+      maxFeePerGas: null,
+      maxPriorityFeePerGas: null,
+    } as any);
+    const strategy = new FeeStrategy(provider as any, { maxFeePerGas: 100n });
+
+    expect(await strategy.getFees()).toEqual({ speed: 'normal', gasPrice: 100n });
+    expect(await strategy.applyFees({ to: RECIPIENT })).toEqual({
+      to: RECIPIENT,
+      gasPrice: 100n,
+    });
+    expect(provider.send).not.toHaveBeenCalled();
+  });
+
+  it('should fill in fees for every send through the nonce manager', async () => {
+    const provider = createProvider();
+    const sendTransaction = vi.fn(
+      async (tx: ethers.TransactionRequest): Promise<any> => ({
+        hash: '0x1',
+        nonce: tx.nonce,
+        maxFeePerGas: tx.maxFeePerGas,
+        maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+      })
+    );
+    const signer = new NonceManager(
+      {
+        provider,
+        getNonce: async () => 0,
+        sendTransaction,
+      } as any,
+      {
+        feeStrategy: new FeeStrategy(provider as any, {
+          speed: 'fast',
+          maxFeePerGas: 220n,
+        }),
+      }
+    );
+
+    await signer.sendTransaction({ to: RECIPIENT, value: 1n });
+    expect(sendTransaction).toHaveBeenCalledWith({
+      to: RECIPIENT,
+      value: 1n,
+      nonce: 0,
+      maxFeePerGas: 220n,
+      maxPriorityFeePerGas: 30n,
+    });
+
+    // Replacement would need 253 > cap
+    await expect(signer.speedUp('0x1')).rejects.toThrow(/exceeds the fee cap/);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Keystore Tests
+ *
+ * Tests for encrypted keystore files and loading them into SignerManager
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { listKeystores, loadKeystore, saveKeystore } from '../../src/core/keystore';
+import { SignerManager } from '../../src/core/signerManager';
+
+// Cheap scrypt so the tests stay fast
+const SCRYPT_N = 1024;
+
+const wallet = new ethers.Wallet('0x' + '01'.repeat(32));
+const provider = new ethers.JsonRpcProvider('http://127.0.0.1:1', 50312, {
+  staticNetwork: true,
+});
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'keystore-'));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('keystore', () => {
+  it('should encrypt and decrypt a key', async () => {
+    const file = await saveKeystore(wallet, 'secret', { dir, scryptN: SCRYPT_N });
+
+    const content = await fs.readFile(file, 'utf-8');
+    expect(content).not.toContain(wallet.privateKey.slice(2));
+    expect((await fs.stat(file)).mode & 0o777).toBe(0o600);
+    expect(path.basename(file)).toMatch(
+      new RegExp(`^UTC--.*--${wallet.address.slice(2).toLowerCase()}$`)
+    );
+
+    const loaded = await loadKeystore(file, 'secret');
+    expect(loaded.address).toBe(wallet.address);
+    expect(await listKeystores(dir)).toEqual([{ address: wallet.address, path: file }]);
+  });
+
+  it('should reject a wrong password and existing files', async () => {
+    const file = await saveKeystore(wallet, 'secret', {
+      dir,
+      name: 'agent.json',
+      scryptN: SCRYPT_N,
+    });
+
+    await expect(loadKeystore(file, 'wrong')).rejects.toThrow(
+      /Failed to decrypt keystore .*agent\.json: incorrect password/
+    );
+    await expect(
+      saveKeystore(wallet, 'secret', { dir, name: 'agent.json', scryptN: SCRYPT_N })
+    ).rejects.toThrow(/Keystore already exists/);
+  });
+
+  it('should sign with a keystore loaded into SignerManager', async () => {
+    const file = await saveKeystore(wallet, 'secret', { dir, scryptN: SCRYPT_N });
+
+    const manager = await SignerManager.fromKeystore(file, 'secret', provider);
+    expect(await manager.getAddress()).toBe(wallet.address);
+    expect(ethers.verifyMessage('hi', await manager.signMessage('hi'))).toBe(
+      wallet.address
+    );
+  });
+});
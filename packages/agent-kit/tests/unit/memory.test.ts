@@ -0,0 +1,193 @@
+/**
+ * Semantic Memory Tests
+ *
+ * Tests for memory embeddings, vector stores, hybrid context and compaction
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Memory } from '../../src/runtime/memoryManager';
+import {
+  FileVectorStore,
+  InMemoryVectorStore,
+  cosineSimilarity,
+} from '../../src/runtime/vectorStore';
+import { ContextBuilder } from '../../src/llm/context';
+
+const VOCABULARY = ['swap', 'token', 'price', 'weather', 'rain', 'vault', 'deposit'];
+
+/**
+ * Bag-of-words embedder over a fixed vocabulary
+ */
+function createEmbedder() {
+  return {
+    embed: vi.fn(async (text: string) =>
+      VOCABULARY.map((word) => (text.toLowerCase().includes(word) ? 1 : 0))
+    ),
+  };
+}
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'memory-'));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('Semantic memory', () => {
+  it('should embed entries and search them by meaning', async () => {
+    const embedder = createEmbedder();
+    const memory = new Memory({ embedder, sessionId: 'test' });
+
+    await memory.addInput('Swap 10 USDC for the token with the best price');
+    await memory.addInput('Will it rain? Check the weather');
+    await memory.addOutput({ action: 'vault deposit', amount: '1' });
+    expect(embedder.embed).toHaveBeenCalledTimes(3);
+
+    const results = await memory.search('token price', 2);
+    expect(results).toHaveLength(2);
+    expect(results[0].entry.content).toContain('Swap 10 USDC');
+    expect(results[0].score).toBeCloseTo(2 / Math.sqrt(6));
+    expect(cosineSimilarity([1, 0], [0, 0])).toBe(0);
+
+    await expect(new Memory().search('anything')).rejects.toThrow(
+      'Semantic memory search requires an embedder'
+    );
+  });
+
+  it('should mix relevance and recency in context within the token budget', async () => {
+    const memory = new Memory({ embedder: createEmbedder(), recencyWeight: 0.3 });
+
+    await memory.addInput('Deposit 5 STT into the vault');
+    for (let i = 0; i < 5; i++) {
+      await memory.addInput(`Weather report ${i}: no rain`);
+    }
+
+    // Only room for two entries (7 tokens each)
+    const recent = await memory.getContext(20);
+    expect(recent).not.toContain('Deposit');
+
+    const hybrid = await memory.getContext(20, 'vault deposit');
+    expect(hybrid).toContain('Deposit 5 STT');
+    expect(hybrid).toContain('Weather report 4');
+    expect(hybrid.indexOf('Deposit')).toBeLessThan(hybrid.indexOf('Weather'));
+
+    const builder = new ContextBuilder(
+      { name: 'a', description: 'b' } as any,
+      undefined,
+      undefined,
+      memory
+    );
+    const context = await builder.buildContext({
+      maxMemoryTokens: 20,
+      memoryMode: 'hybrid',
+      memoryQuery: 'vault deposit',
+    });
+    expect(context.memory).toBe(hybrid);
+  });
+
+  it('should persist embeddings and embed missing entries on search', async () => {
+    const basePath = path.join(dir, 'vectors');
+    const embedder = createEmbedder();
+    const memory = new Memory({
+      sessionId: 'persisted',
+      embedder,
+      vectorStore: new FileVectorStore(basePath),
+      maxEntries: 2,
+    });
+
+    await memory.addInput('swap tokens');
+    await memory.addInput('check the weather');
+    await memory.addInput('vault deposit');
+
+    // The oldest entry was trimmed along with its embedding
+    const stored = JSON.parse(
+      await fs.readFile(path.join(basePath, 'persisted.json'), 'utf-8')
+    );
+    expect(stored).toHaveLength(2);
+
+    const reloaded = new FileVectorStore(basePath);
+    const [match] = await reloaded.search(
+      'persisted',
+      await embedder.embed('deposit'),
+      1
+    );
+    expect(match.id).toBe((await memory.getRecent(1))[0].id);
+
+    // Imported entries have no embeddings until the next search
+    const store = new InMemoryVectorStore();
+    const copy = new Memory({ sessionId: 'copy', embedder, vectorStore: store });
+    await copy.import(await memory.export());
+    embedder.embed.mockClear();
+    expect((await copy.search('weather', 1))[0].entry.content).toBe('check the weather');
+    expect(embedder.embed).toHaveBeenCalledTimes(3);
+
+    await copy.clear();
+    expect(await store.search('copy', [1, 0, 0, 0, 0, 0, 0], 5)).toEqual([]);
+  });
+});
+
+describe('Memory compaction', () => {
+  function createLLM() {
+    return {
+      name: 'fake',
+      generate: vi.fn(async (prompt: string) => ({
+        content: `Summary of ${prompt.split('[INPUT]').length - 1} inputs`,
+      })),
+    };
+  }
+
+  it('should summarize old entries past maxEntries and link to the originals', async () => {
+    const llm = createLLM();
+    const memory = new Memory({ llm, summarizeOld: true, maxEntries: 4, keepRecent: 2 });
+
+    const ids: string[] = [];
+    for (let i = 0; i < 5; i++) {
+      ids.push(await memory.addInput(`Swapped ${i} USDC`));
+    }
+
+    const history = await memory.getHistory();
+    expect(history.map((entry) => entry.type)).toEqual(['system', 'input', 'input']);
+    expect(history[0]).toMatchObject({
+      content: 'Summary of 3 inputs',
+      metadata: { summary: true, summarizes: ids.slice(0, 3) },
+    });
+    expect(history.slice(1).map((entry) => entry.id)).toEqual(ids.slice(3));
+    expect(llm.generate.mock.calls[0][0]).toContain('Swapped 2 USDC');
+
+    const originals = await memory.getOriginals(history[0].id);
+    expect(originals.map((entry) => entry.content)).toEqual([
+      'Swapped 0 USDC',
+      'Swapped 1 USDC',
+      'Swapped 2 USDC',
+    ]);
+  });
+
+  it('should keep entries when the LLM fails and delete them without summarizeOld', async () => {
+    const llm = createLLM();
+    llm.generate.mockRejectedValue(new Error('rate limited'));
+    const memory = new Memory({ llm, summarizeOld: true, maxEntries: 2 });
+
+    for (let i = 0; i < 4; i++) {
+      await memory.addInput(`entry ${i}`);
+    }
+    expect(await memory.count()).toBe(4);
+    await memory.addInput('entry 4');
+    expect(await memory.count()).toBe(2);
+
+    const plain = new Memory({ llm: createLLM(), maxEntries: 2 });
+    for (let i = 0; i < 3; i++) {
+      await plain.addInput(`entry ${i}`);
+    }
+    expect((await plain.getHistory()).map((entry) => entry.content)).toEqual([
+      'entry 1',
+      'entry 2',
+    ]);
+    expect(await plain.summarize()).toBe('Summary of 2 inputs');
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Nonce Manager Tests
+ *
+ * Tests for local nonce reservation, resync, transaction tracking and replacements
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { NonceManager } from '../../src/core/nonceManager';
+import { SignerManager } from '../../src/core/signerManager';
+
+const OWNER = '0x' + '99'.repeat(20);
+const RECIPIENT = '0x' + '11'.repeat(20);
+
+/**
+ * Fake signer and provider; sent transactions get hashes 0x1, 0x2, ...
+ */
+function createSigner(pendingNonce = 5) {
+  const provider = {
+    getTransactionReceipt: vi.fn(async (): Promise<any> => null),
+    getTransactionCount: vi.fn(async () => pendingNonce),
+    getTransaction: vi.fn(async (): Promise<any> => ({})),
+    getFeeData: vi.fn(async () => ({
+      gasPrice: null,
+      maxFeePerGas: 100n,
+      maxPriorityFeePerGas: 2n,
+    })),
+  };
+
+  let sent = 0;
+  const sendTransaction = vi.fn(async (tx: ethers.TransactionRequest): Promise<any> => {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    return {
+      hash: `0x${++sent}`,
+      nonce: tx.nonce,
+      to: tx.to,
+      data: tx.data ?? '0x',
+      value: tx.value ?? 0n,
+      gasLimit: 50000n,
+      chainId: 1n,
+      type: 2,
+      gasPrice: null,
+      maxFeePerGas: tx.maxFeePerGas ?? 80n,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas ?? 10n,
+    };
+  });
+
+  const inner: any = {
+    provider,
+    getAddress: async () => OWNER,
+    getNonce: vi.fn(async () => pendingNonce),
+    sendTransaction,
+  };
+
+  return { signer: new NonceManager(inner), inner, provider, sendTransaction };
+}
+
+describe('NonceManager', () => {
+  it('should reserve distinct nonces for concurrent sends', async () => {
+    const { signer, inner } = createSigner(5);
+
+    const responses = await Promise.all(
+      [1n, 2n, 3n].map((value) => signer.sendTransaction({ to: RECIPIENT, value }))
+    );
+
+    expect(responses.map((tx) => tx.nonce)).toEqual([5, 6, 7]);
+    expect(inner.getNonce).toHaveBeenCalledTimes(1);
+    expect(await signer.getNonce('pending')).toBe(8);
+    expect(signer.getPendingTransactions()).toHaveLength(3);
+  });
+
+  it('should resync from the pending nonce after a send error', async () => {
+    const { signer, inner, sendTransaction } = createSigner(5);
+
+    await signer.sendTransaction({ to: RECIPIENT });
+    sendTransaction.mockRejectedValueOnce(new Error('insufficient funds'));
+    await expect(signer.sendTransaction({ to: RECIPIENT })).rejects.toThrow(
+      'insufficient funds'
+    );
+
+    // Node now reports nonce 6 as next (nonce 6 was never broadcast)
+    inner.getNonce.mockResolvedValue(6);
+    const next = await signer.sendTransaction({ to: RECIPIENT });
+
+    expect(next.nonce).toBe(6);
+    expect(inner.getNonce).toHaveBeenCalledTimes(2);
+  });
+
+  it('should detect mined, replaced and dropped transactions', async () => {
+    const { signer, inner, provider } = createSigner(5);
+    const [mined, replaced, dropped, pending] = await Promise.all(
+      [0, 1, 2, 3].map(() => signer.sendTransaction({ to: RECIPIENT }))
+    );
+
+    provider.getTransactionReceipt.mockImplementation(async (hash: string) =>
+      hash === mined.hash ? { hash } : null
+    );
+    // Nonces up to 6 are confirmed, so the unmined tx with nonce 6 was replaced
+    provider.getTransactionCount.mockResolvedValue(7);
+    provider.getTransaction.mockImplementation(async (hash: string) =>
+      hash === dropped.hash ? null : { hash }
+    );
+
+    expect((await signer.checkTransaction(mined.hash)).status).toBe('mined');
+    expect((await signer.checkTransaction(replaced.hash)).status).toBe('replaced');
+    expect((await signer.checkTransaction(pending.hash)).status).toBe('pending');
+
+    inner.getNonce.mockResolvedValue(7);
+    expect((await signer.checkTransaction(dropped.hash)).status).toBe('dropped');
+    expect(await signer.getNonce('pending')).toBe(7);
+
+    expect(signer.getPendingTransactions().map((tx) => tx.hash)).toEqual([pending.hash]);
+  });
+
+  it('should settle transactions on wait() and against the confirmed nonce', async () => {
+    const { signer, provider, sendTransaction } = createSigner(5);
+    sendTransaction.mockImplementationOnce(async (tx) => ({
+      hash: '0xa',
+      nonce: tx.nonce,
+      wait: async () => ({ hash: '0xa', status: 1 }),
+    }));
+
+    const first = await signer.sendTransaction({ to: RECIPIENT });
+    await first.wait();
+    expect(signer.getPendingTransactions()).toEqual([]);
+
+    const second = await signer.sendTransaction({ to: RECIPIENT });
+    expect(signer.getPendingTransactions().map((tx) => tx.hash)).toEqual([second.hash]);
+
+    // Nonce 6 is confirmed but second has no receipt, so it was replaced
+    provider.getTransactionCount.mockResolvedValue(7);
+    const third = await signer.sendTransaction({ to: RECIPIENT });
+    expect(signer.getPendingTransactions().map((tx) => tx.hash)).toEqual([third.hash]);
+    await expect(signer.checkTransaction(second.hash)).rejects.toThrow(/No pending/);
+  });
+
+  it('should speed up and cancel with the same nonce and bumped fees', async () => {
+    const { signer, sendTransaction } = createSigner(5);
+    const original = await signer.sendTransaction({
+      to: RECIPIENT,
+      value: 1n,
+      data: '0x',
+    });
+
+    const faster = await signer.speedUp(original.hash);
+    expect(sendTransaction).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        nonce: 5,
+        to: RECIPIENT,
+        value: 1n,
+        maxPriorityFeePerGas: 11n, // 10 + 15%
+        maxFeePerGas: 100n, // network fee is above 80 + 15%
+      })
+    );
+    expect(signer.getPendingTransactions().map((tx) => tx.hash)).toEqual([faster.hash]);
+
+    await signer.cancel(faster.hash, 20);
+    expect(sendTransaction).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        nonce: 5,
+        to: OWNER,
+        value: 0n,
+        gasLimit: 21000n,
+        maxPriorityFeePerGas: 13n,
+        maxFeePerGas: 120n,
+      })
+    );
+
+    await expect(signer.speedUp(original.hash)).rejects.toThrow(/No pending transaction/);
+  });
+});
+
+describe('SignerManager nonce management', () => {
+  it('should send through the nonce manager', () => {
+    const manager = new SignerManager(
+      new ethers.JsonRpcProvider('http://127.0.0.1:1', 1, { staticNetwork: true }),
+      '0x' + '01'.repeat(32)
+    );
+
+    const signer = manager.getSigner();
+    expect(signer).toBeInstanceOf(NonceManager);
+    expect(manager.getNonceManager()).toBe(signer);
+
+    manager.setSigner('0x' + '02'.repeat(32));
+    expect(manager.getSigner()).not.toBe(signer);
+  });
+});
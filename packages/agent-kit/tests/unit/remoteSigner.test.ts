@@ -0,0 +1,193 @@
+/**
+ * Remote Signer Tests
+ *
+ * Tests for RemoteSigner against a local signing service stand-in
+ */
+
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { RemoteSigner } from '../../src/core/remoteSigner';
+
+const CHAIN_ID = 50312n;
+const RECIPIENT = ethers.getAddress('0x' + '11'.repeat(20));
+
+const key = new ethers.Wallet('0x' + '01'.repeat(32));
+const otherKey = new ethers.Wallet('0x' + '02'.repeat(32));
+
+// =============================================================================
+// Signing service stand-in
+// =============================================================================
+
+let server: Server;
+let url: string;
+let headers: IncomingHttpHeaders;
+let signingKey: ethers.Wallet;
+
+const handlers: Record<string, (params: any[]) => Promise<any> | any> = {
+  eth_accounts: () => [key.address],
+  eth_signTransaction: async ([tx]) => {
+    const { from, gas, type, ...fields } = tx;
+    expect(ethers.getAddress(from)).toBe(key.address);
+    return await signingKey.signTransaction({
+      ...fields,
+      type: Number(type),
+      gasLimit: gas,
+    });
+  },
+  personal_sign: async ([message, address]) => {
+    expect(address).toBe(key.address);
+    return await signingKey.signMessage(ethers.getBytes(message));
+  },
+  eth_signTypedData_v4: async ([address, json]) => {
+    expect(address).toBe(key.address);
+    const { domain, types, message } = JSON.parse(json);
+    delete types.EIP712Domain;
+    return await signingKey.signTypedData(domain, types, message);
+  },
+};
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', async () => {
+      headers = req.headers;
+      const { id, method, params } = JSON.parse(body);
+      res.setHeader('content-type', 'application/json');
+      try {
+        const handler = handlers[method];
+        if (!handler) {
+          throw new Error(`Method ${method} not supported`);
+        }
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, result: await handler(params) }));
+      } catch (error) {
+        res.end(
+          JSON.stringify({
+            jsonrpc: '2.0',
+            id,
+            error: { code: 4100, message: (error as Error).message },
+          })
+        );
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  signingKey = key;
+});
+
+function createProvider() {
+  return {
+    getNetwork: async () => ({ chainId: CHAIN_ID }),
+    broadcastTransaction: vi.fn(
+      async (raw: string): Promise<any> => ({
+        hash: ethers.keccak256(raw),
+      })
+    ),
+  };
+}
+
+describe('RemoteSigner', () => {
+  it('should sign transactions remotely and broadcast them locally', async () => {
+    const provider = createProvider();
+    const signer = new RemoteSigner(
+      { url, headers: { Authorization: 'Bearer agent-token' } },
+      provider as any
+    );
+
+    expect(await signer.getAddress()).toBe(key.address);
+
+    await signer.sendTransaction({
+      to: RECIPIENT,
+      value: 5n,
+      data: '0xabcd',
+      nonce: 7,
+      gasLimit: 21000n,
+      chainId: CHAIN_ID,
+      maxFeePerGas: 300n,
+      maxPriorityFeePerGas: 2n,
+    });
+
+    expect(headers.authorization).toBe('Bearer agent-token');
+    const signed = ethers.Transaction.from(
+      provider.broadcastTransaction.mock.calls[0][0]
+    );
+    const { from, to, value, data, nonce, gasLimit, chainId } = signed;
+    expect({ from, to, value, data, nonce, gasLimit, chainId }).toEqual({
+      from: key.address,
+      to: RECIPIENT,
+      value: 5n,
+      data: '0xabcd',
+      nonce: 7,
+      gasLimit: 21000n,
+      chainId: CHAIN_ID,
+    });
+    expect(signed.maxFeePerGas).toBe(300n);
+    expect(signed.maxPriorityFeePerGas).toBe(2n);
+  });
+
+  it('should sign messages and typed data', async () => {
+    const signer = new RemoteSigner({ url, address: key.address });
+
+    const signature = await signer.signMessage('hello');
+    expect(ethers.verifyMessage('hello', signature)).toBe(key.address);
+
+    const domain = { name: 'Agent', chainId: CHAIN_ID };
+    const types = { Mail: [{ name: 'contents', type: 'string' }] };
+    const typed = await signer.signTypedData(domain, types, { contents: 'hi' });
+    expect(ethers.verifyTypedData(domain, types, { contents: 'hi' }, typed)).toBe(
+      key.address
+    );
+  });
+
+  it('should reject signatures from a different key', async () => {
+    const signer = new RemoteSigner({ url });
+    signingKey = otherKey;
+
+    await expect(signer.signMessage('hello')).rejects.toThrow(
+      `Remote signer signed the message with ${otherKey.address} instead of ${key.address}`
+    );
+    await expect(
+      signer.signTransaction({
+        to: RECIPIENT,
+        nonce: 0,
+        gasLimit: 21000n,
+        chainId: CHAIN_ID,
+        gasPrice: 1n,
+      })
+    ).rejects.toThrow(/signed the transaction with/);
+  });
+
+  it('should check the configured address against the service accounts', async () => {
+    const signer = new RemoteSigner({ url, address: otherKey.address });
+
+    await expect(signer.getAddress()).rejects.toThrow(
+      `Remote signer at ${url} does not manage ${otherKey.address}`
+    );
+  });
+
+  it('should surface signing service errors', async () => {
+    const signer = new RemoteSigner({ url, address: key.address });
+    const personalSign = handlers.personal_sign;
+    handlers.personal_sign = () => {
+      throw new Error('User rejected the request');
+    };
+
+    try {
+      await expect(signer.signMessage('hello')).rejects.toThrow(
+        'personal_sign failed: User rejected the request'
+      );
+    } finally {
+      handlers.personal_sign = personalSign;
+    }
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Retention Tests
+ *
+ * Tests for retention rules, archiving, memory pruning, log rotation and the
+ * Agent's scheduled retention
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { gunzipSync } from 'zlib';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RetentionManager, countExpired } from '../../src/runtime/retention';
+import { FileStorage, MemoryStorage } from '../../src/runtime/storage';
+import { FileBackend, Memory } from '../../src/runtime/memoryManager';
+import { InMemoryVectorStore } from '../../src/runtime/vectorStore';
+import { Agent, AgentState } from '../../src/runtime/agent';
+
+const HOUR = 60 * 60 * 1000;
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'retention-'));
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('Retention rules', () => {
+  it('should remove the oldest entries past any limit', () => {
+    const now = Date.now();
+    const entries = [5, 4, 3, 2, 1].map((hours) => ({
+      timestamp: now - hours * HOUR,
+      bytes: 10,
+    }));
+
+    expect(countExpired(entries, {})).toBe(0);
+    expect(countExpired(entries, { maxAge: 2.5 * HOUR })).toBe(3);
+    expect(countExpired(entries, { maxCount: 4 })).toBe(1);
+    expect(countExpired(entries, { maxBytes: 25 })).toBe(3);
+    expect(countExpired(entries, { maxAge: 4.5 * HOUR, maxCount: 2 })).toBe(3);
+  });
+});
+
+describe('RetentionManager', () => {
+  it('should archive removed events and actions before deleting them', async () => {
+    const storage = new FileStorage(path.join(dir, 'data'));
+    for (let i = 0; i < 4; i++) {
+      await storage.saveEvent({ index: i });
+      await storage.saveAction({ type: 'execute_transfer', index: i }, { success: true });
+      vi.setSystemTime(Date.now() + HOUR);
+    }
+
+    const archiveDir = path.join(dir, 'archive');
+    const retention = new RetentionManager({
+      storage,
+      policy: { events: { maxCount: 1 }, actions: { maxAge: 2 * HOUR }, archiveDir },
+    });
+    const pruned = vi.fn();
+    retention.on('pruned', pruned);
+
+    const result = await retention.run();
+    expect(result).toMatchObject({ events: 3, actions: 2 });
+    expect(pruned).toHaveBeenCalledWith(result);
+    expect((await storage.getEvents()).map((entry) => entry.event.index)).toEqual([3]);
+    expect((await storage.getActions()).map((entry) => entry.action.index)).toEqual([
+      2, 3,
+    ]);
+
+    expect(result.archives.map((file) => path.basename(file))).toEqual([
+      'events-2026-01-01T04-00-00-000Z.json',
+      'actions-2026-01-01T04-00-00-000Z.json',
+    ]);
+    const archived = JSON.parse(await fs.readFile(result.archives[1], 'utf-8'));
+    expect(archived.map((entry: any) => entry.action.index)).toEqual([0, 1]);
+  });
+
+  it('should keep entries when archiving fails', async () => {
+    const storage = new MemoryStorage();
+    await storage.saveEvent({ index: 0 });
+    await storage.saveEvent({ index: 1 });
+
+    // The archive directory is a file, so it cannot be created
+    const archiveDir = path.join(dir, 'blocked');
+    await fs.writeFile(archiveDir, '');
+    const retention = new RetentionManager({
+      storage,
+      policy: { events: { maxCount: 1 }, archiveDir },
+    });
+
+    await expect(retention.run()).rejects.toThrow();
+    expect(await storage.size()).toEqual({ events: 2, actions: 0 });
+  });
+
+  it('should prune every memory session and its embeddings', async () => {
+    const backend = new FileBackend(path.join(dir, 'memory'));
+    const vectorStore = new InMemoryVectorStore();
+    const embedder = { embed: async (text: string) => [text.length, 1] };
+
+    const old = new Memory({ backend, vectorStore, embedder, sessionId: 'old' });
+    await old.addInput('first');
+    vi.setSystemTime(Date.now() + 2 * HOUR);
+    const recent = new Memory({ backend, vectorStore, embedder, sessionId: 'recent' });
+    await recent.addInput('second');
+
+    const retention = new RetentionManager({
+      memoryBackend: backend,
+      vectorStore,
+      policy: { memory: { maxAge: HOUR }, archiveDir: path.join(dir, 'archive') },
+    });
+
+    const result = await retention.run();
+    expect(result.memoryEntries).toBe(1);
+    expect(await backend.listSessions()).toEqual(['recent']);
+    expect(await vectorStore.search('old', [5, 1], 5)).toEqual([]);
+    expect(await recent.count()).toBe(1);
+    expect(path.basename(result.archives[0])).toMatch(/^memory-old-.*\.json$/);
+  });
+
+  it('should keep memory saved while a session is archived', async () => {
+    const backend = new FileBackend(path.join(dir, 'memory'));
+    const memory = new Memory({ backend, sessionId: 'session' });
+    await memory.addInput('first');
+    vi.setSystemTime(Date.now() + 2 * HOUR);
+
+    const retention = new RetentionManager({
+      memoryBackend: backend,
+      policy: { memory: { maxAge: HOUR }, archiveDir: path.join(dir, 'archive') },
+    });
+    const archive = (retention as any).archive.bind(retention);
+    vi.spyOn(retention as any, 'archive').mockImplementation(async (...args: any[]) => {
+      await memory.addInput('second');
+      return archive(...args);
+    });
+
+    expect((await retention.run()).memoryEntries).toBe(1);
+    expect((await backend.load('session')).map((entry) => entry.content)).toEqual([
+      'second',
+    ]);
+  });
+
+  it('should rotate the log file into gzip archives and keep maxCount', async () => {
+    const logFile = path.join(dir, 'logs', 'agent.log');
+    await fs.mkdir(path.dirname(logFile));
+    const retention = new RetentionManager({
+      logFile,
+      policy: { logs: { maxBytes: 10, maxCount: 2 }, compress: true },
+    });
+
+    for (let i = 0; i < 3; i++) {
+      await fs.appendFile(logFile, `{"msg":"line ${i}"}\n`);
+      await retention.run();
+      vi.setSystemTime(Date.now() + HOUR);
+    }
+
+    expect(await fs.readFile(logFile, 'utf-8')).toBe('');
+    const files = (await fs.readdir(path.dirname(logFile))).sort();
+    expect(files).toEqual([
+      'agent-2026-01-01T01-00-00-000Z.log.gz',
+      'agent-2026-01-01T02-00-00-000Z.log.gz',
+      'agent.log',
+    ]);
+    const rotated = gunzipSync(await fs.readFile(path.join(dir, 'logs', files[1])));
+    expect(rotated.toString()).toBe('{"msg":"line 2"}\n');
+
+    // Below maxBytes nothing is rotated
+    await fs.appendFile(logFile, 'short\n');
+    expect(await retention.run()).toMatchObject({ logsRotated: 0, logsDeleted: 0 });
+  });
+});
+
+describe('Agent retention', () => {
+  it('should apply the retention option on demand and report what it pruned', async () => {
+    const agent = new Agent(
+      { name: 'RetentionAgent', description: 'Agent used for retention tests' },
+      { enableMemory: false, retention: { actions: { maxCount: 1 } } }
+    );
+    (agent as any).state = AgentState.Registered;
+
+    const storage = agent.getStorageModule();
+    await storage.saveAction({ type: 'execute_swap' }, { success: true });
+    await storage.saveAction({ type: 'execute_swap' }, { success: false });
+
+    const pruned = vi.fn();
+    agent.on('storage:pruned', pruned);
+    await agent.start();
+
+    expect(await agent.runRetention()).toMatchObject({ actions: 1 });
+    expect(pruned).toHaveBeenCalledTimes(1);
+    expect((await storage.getActions())[0].status).toBe('failed');
+    await agent.stop();
+
+    await expect(
+      new Agent({ name: 'a', description: 'b' }).runRetention()
+    ).rejects.toThrow('Retention not configured');
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * RPC Failover Tests
+ *
+ * Tests for RPCLoadBalancer.send failover, FailoverProvider and ChainClient wiring
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { RPCLoadBalancer, FailoverProvider } from '../../src/core/rpcProvider';
+import { ChainClient } from '../../src/core/chainClient';
+
+const RPC_A = 'http://rpc-a.test/';
+const RPC_B = 'http://rpc-b.test/';
+const RPC_C = 'http://rpc-c.test/';
+
+/**
+ * Stub the HTTP layer of every JsonRpcProvider; `down` endpoints throw
+ */
+function stubEndpoints(down: string[] = []) {
+  const calls: Array<{ url: string; methods: string[] }> = [];
+
+  vi.spyOn(ethers.JsonRpcProvider.prototype, '_send').mockImplementation(async function (
+    this: ethers.JsonRpcProvider,
+    payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]
+  ) {
+    const url = this._getConnection().url;
+    const requests = Array.isArray(payload) ? payload : [payload];
+    calls.push({ url, methods: requests.map((request) => request.method) });
+
+    if (down.includes(url)) {
+      throw new Error(`connect ECONNREFUSED ${url}`);
+    }
+    return requests.map((request) => ({ id: request.id, result: '0x10' }));
+  });
+
+  return calls;
+}
+
+const payload = (method: string): ethers.JsonRpcPayload => ({
+  id: 1,
+  jsonrpc: '2.0',
+  method,
+  params: [],
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('RPCLoadBalancer.send', () => {
+  it('should fail over to the next healthy endpoint and record status', async () => {
+    const calls = stubEndpoints([RPC_A]);
+    const balancer = new RPCLoadBalancer({
+      urls: [RPC_A, RPC_B, RPC_C],
+      enableHealthCheck: false,
+    });
+
+    const result = await balancer.send(payload('eth_blockNumber'));
+
+    expect(result).toEqual([{ id: 1, result: '0x10' }]);
+    expect(calls.map((call) => call.url)).toEqual([RPC_A, RPC_B]);
+    expect(balancer.getProviderStatus(RPC_A)).toMatchObject({
+      healthy: false,
+      requestCount: 1,
+      failureCount: 1,
+    });
+    expect(balancer.getProviderStatus(RPC_B)).toMatchObject({
+      healthy: true,
+      requestCount: 1,
+      failureCount: 0,
+    });
+    expect(balancer.getProviderStatus(RPC_B)?.avgResponseTime).toBeGreaterThanOrEqual(0);
+
+    // Unhealthy endpoint is skipped by the strategy afterwards
+    await balancer.send(payload('eth_chainId'));
+    expect(calls[2].url).not.toBe(RPC_A);
+  });
+
+  it('should not retry eth_sendRawTransaction', async () => {
+    const calls = stubEndpoints([RPC_A]);
+    const balancer = new RPCLoadBalancer({
+      urls: [RPC_A, RPC_B],
+      enableHealthCheck: false,
+    });
+
+    await expect(balancer.send(payload('eth_sendRawTransaction'))).rejects.toThrow(
+      'ECONNREFUSED'
+    );
+    expect(calls.map((call) => call.url)).toEqual([RPC_A]);
+  });
+
+  it('should try unhealthy endpoints when no healthy one is left', async () => {
+    stubEndpoints([RPC_A, RPC_B]);
+    const balancer = new RPCLoadBalancer({
+      urls: [RPC_A, RPC_B],
+      enableHealthCheck: false,
+    });
+
+    await expect(balancer.send(payload('eth_blockNumber'))).rejects.toThrow(
+      'ECONNREFUSED'
+    );
+    expect(balancer.getHealthyProviders()).toEqual([]);
+
+    // Endpoint B recovers
+    vi.restoreAllMocks();
+    stubEndpoints([RPC_A]);
+    await expect(balancer.send(payload('eth_blockNumber'))).resolves.toHaveLength(1);
+    expect(balancer.getHealthyProviders()).toEqual([RPC_B]);
+  });
+});
+
+describe('FailoverProvider', () => {
+  it('should serve provider calls through the balancer', async () => {
+    const calls = stubEndpoints([RPC_A]);
+    const balancer = new RPCLoadBalancer({
+      urls: [RPC_A, RPC_B],
+      enableHealthCheck: false,
+    });
+    const provider = new FailoverProvider(balancer, 1, { staticNetwork: true });
+
+    expect(await provider.getBlockNumber()).toBe(16);
+    expect(calls.map((call) => call.url)).toEqual([RPC_A, RPC_B]);
+
+    provider.destroy();
+  });
+
+  it('should be used by ChainClient when rpcUrls are configured', () => {
+    const chainClient = new ChainClient({
+      network: { rpcUrl: RPC_A, rpcUrls: [RPC_B], chainId: 1, name: 'Test' },
+      contracts: {
+        agentRegistry: '0x0000000000000000000000000000000000000001',
+        agentExecutor: '0x0000000000000000000000000000000000000002',
+      },
+    } as any);
+
+    expect(chainClient.getProvider()).toBeInstanceOf(FailoverProvider);
+    expect(chainClient.getRpcStatus().map((status) => status.url)).toEqual([
+      RPC_A,
+      RPC_B,
+    ]);
+
+    chainClient.getLoadBalancer()?.destroy();
+  });
+});
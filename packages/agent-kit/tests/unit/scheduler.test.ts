@@ -0,0 +1,210 @@
+/**
+ * Scheduler Tests
+ *
+ * Tests for dependency ordering, output references and DAG execution in the Executor
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  orderSteps,
+  resolveStepReferences,
+  findStepReferences,
+} from '../../src/runtime/scheduler';
+import { Executor, ExecutionStatus } from '../../src/runtime/executor';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('orderSteps', () => {
+  it('should order steps after their dependencies, keeping the given order', () => {
+    const ordered = orderSteps([
+      { id: 'swap', dependencies: ['approve', 'quote'] },
+      { id: 'quote', dependencies: [] },
+      { id: 'approve', dependencies: [] },
+    ]);
+    expect(ordered.map((step) => step.id)).toEqual(['approve', 'quote', 'swap']);
+  });
+
+  it('should detect cycles and duplicate IDs', () => {
+    expect(() =>
+      orderSteps([
+        { id: 'a', dependencies: ['c'] },
+        { id: 'b', dependencies: ['a'] },
+        { id: 'c', dependencies: ['b'] },
+      ])
+    ).toThrow('Dependency cycle detected: a -> c -> b -> a');
+
+    expect(() =>
+      orderSteps([
+        { id: 'a', dependencies: [] },
+        { id: 'a', dependencies: [] },
+      ])
+    ).toThrow('Duplicate step id: a');
+  });
+});
+
+describe('resolveStepReferences', () => {
+  const outputs = { quote: { amountOut: 42n, path: ['A', 'B'] } };
+
+  it('should keep raw values for whole references and interpolate the rest', () => {
+    const params = {
+      amountIn: '{{steps.quote.amountOut}}',
+      path: '{{ steps.quote.path }}',
+      memo: 'got {{steps.quote.amountOut}} via {{steps.quote.path.1}}',
+      nested: [{ value: '{{steps.quote.amountOut}}' }],
+    };
+
+    expect(findStepReferences(params)).toEqual(['quote']);
+    expect(resolveStepReferences(params, outputs)).toEqual({
+      amountIn: 42n,
+      path: ['A', 'B'],
+      memo: 'got 42 via B',
+      nested: [{ value: 42n }],
+    });
+  });
+
+  it('should reject missing outputs unless not strict', () => {
+    expect(() => resolveStepReferences('{{steps.quote.fee}}', outputs)).toThrow(
+      'Unresolved reference {{steps.quote.fee}}'
+    );
+    expect(
+      resolveStepReferences('{{steps.swap.txHash}}', outputs, { strict: false })
+    ).toBe('{{steps.swap.txHash}}');
+  });
+});
+
+describe('Executor DAG execution', () => {
+  const createExecutor = (config: Record<string, any> = {}) =>
+    new Executor(undefined, undefined, { maxRetries: 0, retryDelay: 1, ...config });
+
+  it('should pass outputs of earlier steps to dependents', async () => {
+    const executor = createExecutor();
+    executor.registerHandler('quote', async () => ({ amountOut: '95' }));
+    executor.registerHandler('swap', async (params) => ({
+      swapped: params.amountOutMin,
+    }));
+
+    const results = await executor.executeAll([
+      { id: 'swap', type: 'swap', params: { amountOutMin: '{{steps.quote.amountOut}}' } },
+      { id: 'quote', type: 'quote', params: {} },
+    ]);
+
+    expect(results.map((result) => result.success)).toEqual([true, true]);
+    expect(results[0].data).toEqual({ swapped: '95' });
+    expect(results[0].stepId).toBe('swap');
+  });
+
+  it('should run independent branches in parallel up to maxConcurrent', async () => {
+    const executor = createExecutor({ maxConcurrent: 2 });
+    let running = 0;
+    let peak = 0;
+    executor.registerHandler('work', async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await sleep(10);
+      running--;
+      return {};
+    });
+
+    const results = await executor.executeAll(
+      Array.from({ length: 5 }, () => ({ type: 'work', params: {} }))
+    );
+
+    expect(results.every((result) => result.success)).toBe(true);
+    expect(peak).toBe(2);
+  });
+
+  it('should skip dependents of failed steps and continue other branches', async () => {
+    const executor = createExecutor();
+    const ran: string[] = [];
+    executor.registerHandler('ok', async (params) => {
+      ran.push(params.name);
+      return {};
+    });
+    executor.registerHandler('fail', async () => {
+      throw new Error('boom');
+    });
+
+    const results = await executor.executeAll([
+      { id: 'a', type: 'fail', params: {} },
+      { id: 'b', type: 'ok', params: { name: 'b' }, dependencies: ['a'] },
+      { id: 'c', type: 'ok', params: { name: 'c' }, dependencies: ['b'] },
+      { id: 'd', type: 'ok', params: { name: 'd' } },
+      { id: 'e', type: 'ok', params: { name: 'e' }, dependencies: ['blocked'] },
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual([
+      ExecutionStatus.Failed,
+      ExecutionStatus.Skipped,
+      ExecutionStatus.Skipped,
+      ExecutionStatus.Success,
+      ExecutionStatus.Skipped,
+    ]);
+    expect(results[1].error).toBe('Skipped: dependency a did not succeed');
+    expect(results[2].error).toBe('Skipped: dependency b did not succeed');
+    expect(results[4].error).toBe('Skipped: dependency blocked is not in the plan');
+    expect(ran).toEqual(['d']);
+  });
+
+  it('should stop at the first failure in sequential mode without dependencies', async () => {
+    const executor = createExecutor({ enableParallel: false });
+    executor.registerHandler('ok', async () => ({}));
+    executor.registerHandler('fail', async () => {
+      throw new Error('boom');
+    });
+
+    const results = await executor.executeAll([
+      { type: 'ok', params: {} },
+      { type: 'fail', params: {} },
+      { type: 'ok', params: {} },
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual([
+      ExecutionStatus.Success,
+      ExecutionStatus.Failed,
+      ExecutionStatus.Skipped,
+    ]);
+  });
+
+  it('should reject cyclic plans before executing anything', async () => {
+    const executor = createExecutor();
+    let calls = 0;
+    executor.registerHandler('ok', async () => {
+      calls++;
+      return {};
+    });
+
+    await expect(
+      executor.executeAll([
+        { id: 'a', type: 'ok', params: {}, dependencies: ['b'] },
+        { id: 'b', type: 'ok', params: { x: '{{steps.a.value}}' } },
+      ])
+    ).rejects.toThrow('Dependency cycle detected: a -> b -> a');
+    expect(calls).toBe(0);
+  });
+
+  it('should schedule legacy plans through the same scheduler', async () => {
+    const executor = createExecutor();
+    executor.registerHandler('ok', async () => ({ value: 1 }));
+    executor.registerHandler('fail', async () => {
+      throw new Error('boom');
+    });
+
+    const context = await executor.executePlan({
+      taskId: 'task-1',
+      steps: [
+        { id: 'step-1', action: 'ok', params: {}, dependencies: [] },
+        { id: 'step-2', action: 'fail', params: {}, dependencies: ['step-1'] },
+        { id: 'step-3', action: 'ok', params: {}, dependencies: ['step-2'] },
+      ],
+      totalSteps: 3,
+      createdAt: Date.now(),
+      priority: 1,
+      status: 'pending',
+    });
+
+    expect(context.status).toBe(ExecutionStatus.Failed);
+    expect(context.results.get('step-1')?.data).toEqual({ value: 1 });
+    expect(context.results.get('step-3')?.status).toBe(ExecutionStatus.Skipped);
+    expect(context.results.get('error')?.error).toBe('Step step-2 failed: boom');
+  });
+});
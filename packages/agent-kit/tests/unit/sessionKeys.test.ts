@@ -0,0 +1,270 @@
+/**
+ * Session Key Tests
+ *
+ * Tests for session key permissions, spend tracking and revocation
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  SessionKeyManager,
+  SessionKeySigner,
+  SessionKeyStore,
+  checkSessionPermissions,
+  isSessionPermissionError,
+  type SessionKeyRecord,
+} from '../../src/core/sessionKeys';
+
+const ROUTER = ethers.getAddress('0x' + '22'.repeat(20));
+const OTHER = ethers.getAddress('0x' + '33'.repeat(20));
+const transfer = new ethers.Interface(['function transfer(address, uint256)']);
+const approve = new ethers.Interface(['function approve(address, uint256)']);
+
+const owner = new ethers.Wallet('0x' + '01'.repeat(32));
+const provider = new ethers.JsonRpcProvider('http://127.0.0.1:1', 50312, {
+  staticNetwork: true,
+});
+
+let dir: string;
+let store: SessionKeyStore;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sessions-'));
+  store = new SessionKeyStore(path.join(dir, 'sessions.json'));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+function createRecord(overrides: Partial<SessionKeyRecord> = {}): SessionKeyRecord {
+  return {
+    address: ethers.getAddress('0x' + 'ab'.repeat(20)),
+    agent: 'trader',
+    permissions: {
+      allowedContracts: [ROUTER],
+      allowedSelectors: ['transfer(address,uint256)'],
+      maxValuePerTx: ethers.parseEther('1'),
+      maxValuePerDay: ethers.parseEther('2'),
+      expiresAt: Date.now() + 60000,
+    },
+    createdAt: Date.now(),
+    spent: { day: new Date().toISOString().slice(0, 10), amount: 0n },
+    ...overrides,
+  };
+}
+
+function createSigner(record: SessionKeyRecord) {
+  const inner = {
+    provider: null,
+    sendTransaction: vi.fn(async (): Promise<any> => ({ hash: '0x01' })),
+    connect: () => inner,
+  };
+  return {
+    inner,
+    signer: new SessionKeySigner(inner as any, store, record.address),
+  };
+}
+
+describe('checkSessionPermissions', () => {
+  const data = transfer.encodeFunctionData('transfer', [OTHER, 1n]);
+
+  it('should allow calls within scope', () => {
+    const record = createRecord();
+    expect(checkSessionPermissions(record, { to: ROUTER, data, value: 1n })).toEqual({
+      allowed: true,
+    });
+    // Plain value transfers are not restricted by selectors
+    expect(
+      checkSessionPermissions(record, { to: ROUTER, data: '0x', value: 1n }).allowed
+    ).toBe(true);
+  });
+
+  it('should deny calls outside scope', () => {
+    const record = createRecord();
+    const check = (call: Partial<Parameters<typeof checkSessionPermissions>[1]>) =>
+      checkSessionPermissions(record, { to: ROUTER, data, value: 0n, ...call }).reason;
+
+    expect(check({ to: OTHER })).toMatch(/is not an allowed contract/);
+    expect(check({ to: null })).toBe('contract creation is not allowed');
+    expect(check({ data: approve.encodeFunctionData('approve', [OTHER, 1n]) })).toBe(
+      'function 0x095ea7b3 is not allowed'
+    );
+    expect(check({ value: ethers.parseEther('1.5') })).toMatch(/per-transaction cap/);
+    expect(
+      checkSessionPermissions(
+        { ...record, spent: { ...record.spent, amount: ethers.parseEther('1.5') } },
+        { to: ROUTER, data, value: ethers.parseEther('1') }
+      ).reason
+    ).toMatch(/daily cap of 2.0 \(1.5 spent today\)/);
+  });
+
+  it('should deny revoked and expired keys', () => {
+    const call = { to: ROUTER, data: '0x', value: 0n };
+    expect(checkSessionPermissions(createRecord({ revokedAt: 1 }), call).reason).toBe(
+      'session key was revoked'
+    );
+    const record = createRecord();
+    expect(
+      checkSessionPermissions(record, call, record.permissions.expiresAt).reason
+    ).toBe('session key expired');
+  });
+
+  it('should reset the daily spend on a new day', () => {
+    const record = createRecord({
+      spent: { day: '2000-01-01', amount: ethers.parseEther('2') },
+    });
+    expect(
+      checkSessionPermissions(record, { to: ROUTER, data: '0x', value: 1n }).allowed
+    ).toBe(true);
+  });
+});
+
+describe('SessionKeyStore', () => {
+  it('should not lose updates from stores sharing a file', async () => {
+    const record = createRecord({ permissions: { expiresAt: Date.now() + 60000 } });
+    await store.save(record);
+    const other = new SessionKeyStore(store.filePath);
+    const spend = (target: SessionKeyStore) =>
+      target.update(record.address, (current) => ({
+        ...current,
+        spent: { ...current.spent, amount: current.spent.amount + 1n },
+      }));
+
+    await Promise.all([store, other, store, other].map(spend));
+    expect((await store.get(record.address))!.spent.amount).toBe(4n);
+  });
+
+  it('should keep a revocation over an older copy of the record', async () => {
+    const record = createRecord();
+    await store.save(record);
+    await new SessionKeyStore(store.filePath).update(record.address, (current) => ({
+      ...current,
+      revokedAt: Date.now(),
+    }));
+
+    await store.save(record);
+    expect((await store.get(record.address))!.revokedAt).toBeDefined();
+  });
+});
+
+describe('SessionKeySigner', () => {
+  it('should track spend and refund failed sends', async () => {
+    const record = createRecord();
+    await store.save(record);
+    const { inner, signer } = createSigner(record);
+
+    await signer.sendTransaction({ to: ROUTER, value: ethers.parseEther('1') });
+    expect(inner.sendTransaction).toHaveBeenCalledTimes(1);
+    expect((await store.get(record.address))!.spent.amount).toBe(ethers.parseEther('1'));
+
+    inner.sendTransaction.mockRejectedValueOnce(new Error('insufficient funds'));
+    await expect(
+      signer.sendTransaction({ to: ROUTER, value: ethers.parseEther('0.5') })
+    ).rejects.toThrow('insufficient funds');
+    expect((await store.get(record.address))!.spent.amount).toBe(ethers.parseEther('1'));
+
+    const denied = await signer
+      .sendTransaction({ to: ROUTER, value: ethers.parseEther('1.5') })
+      .catch((error) => error);
+    expect(isSessionPermissionError(denied)).toBe(true);
+    expect(denied.message).toMatch(/per-transaction cap/);
+    expect(inner.sendTransaction).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not raw-sign transactions', async () => {
+    const record = createRecord();
+    await store.save(record);
+    const { signer } = createSigner(record);
+
+    await expect(signer.signTransaction()).rejects.toThrow(/raw transaction signing/);
+  });
+});
+
+describe('SessionKeyManager', () => {
+  it('should derive keys that can be re-opened', async () => {
+    const manager = new SessionKeyManager(owner, provider, { store });
+    const expiresAt = Date.now() + 60000;
+
+    const first = await manager.create('trader', { expiresAt });
+    const second = await manager.create('trader', {
+      expiresAt,
+      allowedSelectors: ['transfer(address,uint256)'],
+    });
+
+    expect(first.privateKey).toBeUndefined();
+    expect(first.record.index).toBe(0);
+    expect(second.record.index).toBe(1);
+    expect(second.record.address).not.toBe(first.record.address);
+    expect(second.record.permissions.allowedSelectors).toEqual(['0xa9059cbb']);
+
+    const reopened = await manager.open(first.record.address);
+    expect(await reopened.getAddress()).toBe(first.record.address);
+    expect(await manager.list('trader')).toHaveLength(2);
+  });
+
+  it('should return generated keys once without storing them', async () => {
+    const manager = new SessionKeyManager(owner, provider, { store });
+
+    const { record, privateKey } = await manager.create(
+      'trader',
+      { expiresAt: Date.now() + 60000 },
+      { generate: true }
+    );
+
+    expect(ethers.computeAddress(privateKey!)).toBe(record.address);
+    expect(await fs.readFile(store.filePath, 'utf-8')).not.toContain(
+      privateKey!.slice(2)
+    );
+    await expect(manager.open(record.address)).rejects.toThrow(/was generated/);
+  });
+
+  it('should revoke keys for every signer sharing the store', async () => {
+    const manager = new SessionKeyManager(owner, provider, { store });
+    const { signer, record } = await manager.create('trader', {
+      expiresAt: Date.now() + 60000,
+    });
+
+    // e.g. `sak session:revoke` from another process
+    await new SessionKeyManager(owner, provider, {
+      store: new SessionKeyStore(store.filePath),
+    }).revoke(record.address);
+
+    await expect(signer.sendTransaction({ to: ROUTER })).rejects.toThrow(
+      /session key was revoked/
+    );
+    await expect(signer.signMessage('hello')).rejects.toThrow(/session key was revoked/);
+  });
+
+  it('should set the daily cap as the AgentVault limit', async () => {
+    const wait = vi.fn(async () => undefined);
+    const vault = {
+      registeredAgents: vi.fn(async () => false),
+      createVault: vi.fn(async () => ({ wait })),
+      isVaultActive: vi.fn(async () => true),
+      deactivateVault: vi.fn(async () => ({ wait })),
+    };
+    const manager = new SessionKeyManager(owner, provider, { store });
+
+    await expect(
+      manager.create('trader', { expiresAt: Date.now() + 60000 }, { vault: vault as any })
+    ).rejects.toThrow(/maxValuePerDay is required/);
+
+    const { record } = await manager.create(
+      'trader',
+      { expiresAt: Date.now() + 60000, maxValuePerDay: ethers.parseEther('5') },
+      { vault: vault as any }
+    );
+    expect(record.vaultEnforced).toBe(true);
+    expect(vault.createVault).toHaveBeenCalledWith(
+      record.address,
+      ethers.parseEther('5')
+    );
+
+    await manager.revoke(record.address, vault as any);
+    expect(vault.deactivateVault).toHaveBeenCalledWith(record.address);
+  });
+});
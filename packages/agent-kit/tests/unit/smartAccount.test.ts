@@ -0,0 +1,289 @@
+/**
+ * Smart Account Tests
+ *
+ * Tests for SmartAccountSigner against a local bundler/paymaster stand-in
+ */
+
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { SmartAccountSigner, getUserOperationHash } from '../../src/core/smartAccount';
+import { SignerManager } from '../../src/core/signerManager';
+import type { UserOperation } from '../../src/core/bundler';
+
+const ENTRY_POINT = '0x0000000071727De22E5E9d8BAf0edAc6f37da032';
+const FACTORY = '0x' + 'fa'.repeat(20);
+const ACCOUNT = ethers.getAddress('0x' + 'ac'.repeat(20));
+const PAYMASTER = ethers.getAddress('0x' + 'bb'.repeat(20));
+const RECIPIENT = ethers.getAddress('0x' + '11'.repeat(20));
+const CHAIN_ID = 50312n;
+
+const owner = new ethers.Wallet('0x' + '01'.repeat(32));
+const account = new ethers.Interface(['function execute(address, uint256, bytes)']);
+const factory = new ethers.Interface([
+  'function createAccount(address, uint256) returns (address)',
+  'function getAddress(address, uint256) view returns (address)',
+]);
+const entryPoint = new ethers.Interface([
+  'function getNonce(address, uint192) view returns (uint256)',
+]);
+
+// =============================================================================
+// Bundler stand-in
+// =============================================================================
+
+let server: Server;
+let url: string;
+let requests: Array<{ method: string; params: any[] }>;
+let handlers: Record<string, (params: any[]) => any>;
+
+function parseUserOperation(raw: Record<string, string>): UserOperation {
+  const op: any = { ...raw };
+  for (const key of Object.keys(raw)) {
+    if (key.endsWith('GasLimit') || key.endsWith('PerGas') || key === 'nonce') {
+      op[key] = BigInt(raw[key]);
+    }
+  }
+  op.preVerificationGas = BigInt(raw.preVerificationGas);
+  return op;
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', async () => {
+      const { id, method, params } = JSON.parse(body);
+      requests.push({ method, params });
+      res.setHeader('content-type', 'application/json');
+      try {
+        const handler = handlers[method];
+        if (!handler) {
+          throw new Error(`Method ${method} not supported`);
+        }
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, result: await handler(params) }));
+      } catch (error) {
+        res.end(
+          JSON.stringify({
+            jsonrpc: '2.0',
+            id,
+            error: { code: -32602, message: (error as Error).message },
+          })
+        );
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+  handlers = {
+    eth_estimateUserOperationGas: () => ({
+      preVerificationGas: '0xc350',
+      verificationGasLimit: '0x61a80',
+      callGasLimit: '0x9c40',
+      paymasterVerificationGasLimit: '0x7530',
+      paymasterPostOpGasLimit: '0x2710',
+    }),
+    eth_sendUserOperation: ([raw]) => {
+      const op = parseUserOperation(raw);
+      const hash = getUserOperationHash(op, ENTRY_POINT, CHAIN_ID);
+      // Like SimpleAccount: the owner must have signed the userOpHash
+      if (ethers.verifyMessage(ethers.getBytes(hash), op.signature) !== owner.address) {
+        throw new Error('AA24 signature error');
+      }
+      return hash;
+    },
+    eth_getUserOperationReceipt: ([userOpHash]) => ({
+      userOpHash,
+      sender: ACCOUNT,
+      nonce: '0x0',
+      success: true,
+      actualGasCost: '0x1',
+      actualGasUsed: '0x1',
+      receipt: { transactionHash: '0x' + 'ee'.repeat(32), blockNumber: '0x10' },
+    }),
+  };
+});
+
+// =============================================================================
+// Chain stand-in
+// =============================================================================
+
+function createProvider(deployed = false) {
+  return {
+    call: vi.fn(async ({ to, data }: ethers.TransactionRequest) => {
+      if (
+        to === FACTORY &&
+        data!.startsWith(factory.getFunction('getAddress')!.selector)
+      ) {
+        return factory.encodeFunctionResult('getAddress', [ACCOUNT]);
+      }
+      if (to === ENTRY_POINT) {
+        return entryPoint.encodeFunctionResult('getNonce', [0n]);
+      }
+      throw new Error(`Unexpected call to ${to}`);
+    }),
+    getCode: vi.fn(async () => (deployed ? '0x6000' : '0x')),
+    getNetwork: async () => ({ chainId: CHAIN_ID }),
+    getFeeData: async () => ({
+      gasPrice: null,
+      maxFeePerGas: 300n,
+      maxPriorityFeePerGas: 2n,
+    }),
+    getTransaction: vi.fn(async (hash: string): Promise<any> => ({ hash })),
+  };
+}
+
+function createSigner(
+  provider: any,
+  options: Partial<ConstructorParameters<typeof SmartAccountSigner>[1]> = {}
+) {
+  return new SmartAccountSigner(owner.connect(provider), {
+    bundlerUrl: url,
+    entryPoint: ENTRY_POINT,
+    factory: FACTORY,
+    pollInterval: 1,
+    ...options,
+  });
+}
+
+describe('SmartAccountSigner', () => {
+  it('should deploy the account, sign and submit the UserOperation', async () => {
+    const provider = createProvider(false);
+    const signer = createSigner(provider, {
+      paymaster: { address: PAYMASTER, data: '0x1234' },
+    });
+
+    expect(await signer.getAddress()).toBe(ACCOUNT);
+    const tx = await signer.sendTransaction({ to: RECIPIENT, value: 5n, data: '0xabcd' });
+
+    expect(tx.hash).toBe('0x' + 'ee'.repeat(32));
+    expect(requests.map((request) => request.method)).toEqual([
+      'eth_estimateUserOperationGas',
+      'eth_sendUserOperation',
+      'eth_getUserOperationReceipt',
+    ]);
+
+    const [sent, sentEntryPoint] = requests[1].params;
+    expect(sentEntryPoint).toBe(ENTRY_POINT);
+    expect(sent).toMatchObject({
+      sender: ACCOUNT,
+      nonce: '0x0',
+      factory: FACTORY,
+      factoryData: factory.encodeFunctionData('createAccount', [owner.address, 0n]),
+      callData: account.encodeFunctionData('execute', [RECIPIENT, 5n, '0xabcd']),
+      callGasLimit: '0x9c40',
+      verificationGasLimit: '0x61a80',
+      preVerificationGas: '0xc350',
+      maxFeePerGas: '0x12c',
+      maxPriorityFeePerGas: '0x2',
+      paymaster: PAYMASTER,
+      paymasterData: '0x1234',
+      paymasterVerificationGasLimit: '0x7530',
+      paymasterPostOpGasLimit: '0x2710',
+    });
+  });
+
+  it('should get sponsorship from an ERC-7677 paymaster service', async () => {
+    handlers.pm_getPaymasterStubData = ([, , chainId, context]) => {
+      expect(chainId).toBe('0xc488');
+      expect(context).toEqual({ policyId: 'agents' });
+      return {
+        paymaster: PAYMASTER,
+        paymasterData: '0x00',
+        paymasterPostOpGasLimit: '0x1',
+      };
+    };
+    handlers.pm_getPaymasterData = ([op]) => {
+      expect(op.callGasLimit).toBe('0x9c40');
+      return { paymaster: PAYMASTER, paymasterData: '0xfeed' };
+    };
+
+    const signer = createSigner(createProvider(true), {
+      paymaster: { url, context: { policyId: 'agents' } },
+    });
+    await signer.sendTransaction({ to: RECIPIENT });
+
+    expect(requests.map((request) => request.method)).toEqual([
+      'pm_getPaymasterStubData',
+      'eth_estimateUserOperationGas',
+      'pm_getPaymasterData',
+      'eth_sendUserOperation',
+      'eth_getUserOperationReceipt',
+    ]);
+    const sent = requests[3].params[0];
+    expect(sent.factory).toBeUndefined();
+    expect(sent).toMatchObject({
+      paymaster: PAYMASTER,
+      paymasterData: '0xfeed',
+      paymasterVerificationGasLimit: '0x7530',
+      paymasterPostOpGasLimit: '0x1',
+    });
+  });
+
+  it('should reserve nonces locally and resync after a bundler error', async () => {
+    const signer = createSigner(createProvider(true));
+
+    await signer.sendUserOperation({ to: RECIPIENT });
+    await signer.sendUserOperation({ to: RECIPIENT });
+    expect(
+      requests
+        .filter((r) => r.method === 'eth_sendUserOperation')
+        .map((r) => r.params[0].nonce)
+    ).toEqual(['0x0', '0x1']);
+
+    handlers.eth_estimateUserOperationGas = () => {
+      throw new Error('AA25 invalid account nonce');
+    };
+    await expect(signer.sendUserOperation({ to: RECIPIENT })).rejects.toThrow(
+      'eth_estimateUserOperationGas failed: AA25 invalid account nonce'
+    );
+    expect(await signer.getNonce()).toBe(0);
+  });
+
+  it('should throw when the account call reverted', async () => {
+    handlers.eth_getUserOperationReceipt = ([userOpHash]) => ({
+      userOpHash,
+      sender: ACCOUNT,
+      nonce: '0x0',
+      success: false,
+      reason: 'ERC20: transfer amount exceeds balance',
+      actualGasCost: '0x1',
+      actualGasUsed: '0x1',
+      receipt: { transactionHash: '0x' + 'ee'.repeat(32), blockNumber: '0x10' },
+    });
+    const signer = createSigner(createProvider(true));
+
+    await expect(signer.sendTransaction({ to: RECIPIENT })).rejects.toThrow(
+      /reverted: ERC20: transfer amount exceeds balance/
+    );
+  });
+});
+
+describe('SignerManager smart account', () => {
+  it('should send through the smart account once configured', async () => {
+    const manager = new SignerManager(
+      createProvider(true) as any,
+      '0x' + '01'.repeat(32)
+    );
+
+    manager.useSmartAccount({
+      bundlerUrl: url,
+      entryPoint: ENTRY_POINT,
+      factory: FACTORY,
+    });
+    expect(manager.getSigner()).toBeInstanceOf(SmartAccountSigner);
+    expect(await manager.getAddress()).toBe(ACCOUNT);
+
+    manager.disableSmartAccount();
+    expect(await manager.getAddress()).toBe(owner.address);
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * SQLite Storage Tests
+ *
+ * Tests for SQLite storage, the SQLite memory backend and JSON migration
+ * (skipped when the optional better-sqlite3 package is not installed)
+ */
+
+import { promises as fs } from 'fs';
+import { createRequire } from 'module';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  SqliteMemoryBackend,
+  SqliteStorage,
+  migrateJsonStorage,
+} from '../../src/runtime/sqlite';
+import { FileStorage } from '../../src/runtime/storage';
+import { FileBackend, Memory } from '../../src/runtime/memoryManager';
+
+const hasSqlite = (() => {
+  try {
+    createRequire(import.meta.url).resolve('better-sqlite3');
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sqlite-'));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('SQLite storage', () => {
+  it.skipIf(hasSqlite)('should explain how to install better-sqlite3', () => {
+    expect(() => new SqliteStorage(path.join(dir, 'agent.db'))).toThrow(
+      'npm install better-sqlite3'
+    );
+  });
+
+  it.skipIf(!hasSqlite)('should store and query events and actions', async () => {
+    const storage = new SqliteStorage(path.join(dir, 'agent.db'));
+
+    await storage.saveEvent({ goal: 'swap' }, { agentId: '0xA' });
+    await storage.saveEvent({ goal: 'pay' }, { agentId: '0xB' });
+    await storage.saveAction(
+      { type: 'execute_swap' },
+      { success: true, gasUsed: 21000n },
+      { agentId: '0xA' }
+    );
+    await storage.saveAction({ type: 'execute_transfer' }, { success: false });
+    await storage.saveAction({ type: 'execute_swap' }, undefined, { status: 'blocked' });
+
+    expect(await storage.size()).toEqual({ events: 2, actions: 3 });
+    expect((await storage.getEvents({ agentId: '0xB' }))[0].event).toEqual({
+      goal: 'pay',
+    });
+
+    const swaps = await storage.getActions({ type: 'execute_swap' });
+    expect(swaps.map((entry) => entry.status)).toEqual(['success', 'blocked']);
+    expect(swaps[0].result.gasUsed).toBe('21000');
+    expect(await storage.getActions({ status: 'failed' })).toHaveLength(1);
+    expect(await storage.getActions({ fromTimestamp: Date.now() + 1000 })).toEqual([]);
+
+    await storage.clear();
+    expect(await storage.size()).toEqual({ events: 0, actions: 0 });
+    storage.close();
+  });
+
+  it.skipIf(!hasSqlite)('should match metadata and page with cursors', async () => {
+    const storage = new SqliteStorage(path.join(dir, 'agent.db'));
+    for (let i = 0; i < 5; i++) {
+      await storage.saveAction(
+        { type: 'execute_transfer', index: i },
+        { success: i !== 2 },
+        { retried: i === 1, source: i < 3 ? 'planner' : 'cron' }
+      );
+    }
+    const indexes = (entries: any[]) => entries.map((entry) => entry.action.index);
+
+    expect(indexes(await storage.getActions({ metadata: { source: 'cron' } }))).toEqual([
+      3, 4,
+    ]);
+    expect(indexes(await storage.getActions({ metadata: { retried: true } }))).toEqual([
+      1,
+    ]);
+    expect(
+      indexes(await storage.getActions({ status: ['failed', 'blocked'], limit: 5 }))
+    ).toEqual([2]);
+
+    const page = await storage.getActions({ order: 'desc', limit: 2 });
+    expect(indexes(page)).toEqual([4, 3]);
+    expect(
+      indexes(await storage.getActions({ order: 'desc', cursor: page[1].id, offset: 1 }))
+    ).toEqual([1, 0]);
+    await expect(storage.getActions({ cursor: 'missing' })).rejects.toThrow(
+      'Unknown cursor: missing'
+    );
+    await expect(storage.getActions({ metadata: { 'a"]': 1 } })).rejects.toThrow(
+      'Invalid metadata filter key: a"]'
+    );
+    storage.close();
+  });
+
+  it.skipIf(!hasSqlite)('should archive then prune the oldest entries', async () => {
+    const storage = new SqliteStorage(path.join(dir, 'agent.db'));
+    for (let i = 0; i < 4; i++) {
+      await storage.saveEvent({ index: i });
+      await storage.saveAction({ type: 'execute_swap', index: i }, { success: true });
+    }
+
+    const archived: any[] = [];
+    const removed = await storage.prune(
+      { events: { maxCount: 3 }, actions: { maxCount: 1 } },
+      async ({ events, actions }) => {
+        archived.push(...events, ...actions);
+      }
+    );
+
+    expect(removed).toEqual({ events: 1, actions: 3 });
+    expect(archived).toHaveLength(4);
+    expect((await storage.getActions()).map((entry) => entry.action.index)).toEqual([3]);
+    await expect(
+      storage.prune({ events: { maxCount: 0 } }, async () => {
+        throw new Error('disk full');
+      })
+    ).rejects.toThrow('disk full');
+    expect(await storage.size()).toEqual({ events: 3, actions: 1 });
+    storage.close();
+  });
+
+  it.skipIf(!hasSqlite)('should back Memory sessions', async () => {
+    const backend = new SqliteMemoryBackend(path.join(dir, 'memory.db'));
+    const memory = new Memory({ backend, sessionId: 'a', maxEntries: 3 });
+
+    for (let i = 0; i < 5; i++) {
+      await memory.addInput(`input ${i}`);
+    }
+    await memory.addOutput('output');
+
+    expect(await memory.count()).toBe(3);
+    expect((await memory.getRecent(2)).map((entry) => entry.content)).toEqual([
+      'input 4',
+      'output',
+    ]);
+    expect(await memory.getByType('output')).toHaveLength(1);
+    expect(await backend.count('b')).toBe(0);
+    expect(await backend.listSessions()).toEqual(['a']);
+
+    const [first] = await backend.load('a');
+    await backend.delete('a', [first.id]);
+    expect(await memory.count()).toBe(2);
+    backend.close();
+  });
+
+  it.skipIf(!hasSqlite)('should import JSON storage once', async () => {
+    const dataPath = path.join(dir, 'data');
+    const memoryPath = path.join(dataPath, 'memory');
+    const files = new FileStorage(dataPath);
+    await files.saveEvent({ goal: 'swap' });
+    await files.saveAction({ type: 'execute_swap' }, { success: true });
+    await new Memory({ backend: new FileBackend(memoryPath), sessionId: 's1' }).addInput(
+      'hello'
+    );
+
+    const options = { dataPath, memoryPath };
+    expect(await migrateJsonStorage(options)).toEqual({
+      events: 1,
+      actions: 1,
+      sessions: 1,
+      memoryEntries: 1,
+    });
+    expect(await migrateJsonStorage(options)).toMatchObject({
+      events: 0,
+      actions: 0,
+      memoryEntries: 0,
+    });
+
+    const storage = new SqliteStorage(path.join(dataPath, 'agent.db'));
+    expect(await storage.getActions()).toEqual(await files.getActions());
+
+    // Older JSON storage recorded failed actions as 'success'
+    const failed = { success: false };
+    await storage.importEntries(
+      [],
+      [{ id: 'old', action: {}, result: failed, status: 'success', timestamp: 1 }]
+    );
+    expect((await storage.getActions({ status: 'failed' }))[0]).toMatchObject({
+      id: 'old',
+      status: 'failed',
+    });
+    storage.close();
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Storage Tests
+ *
+ * Tests for storage filters and pagination across MemoryStorage and FileStorage
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileStorage, MemoryStorage } from '../../src/runtime/storage';
+import { ContextBuilder } from '../../src/llm/context';
+import type { IStorage } from '../../src/types/storage';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-'));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+/**
+ * Save 6 actions alternating transfers and swaps; every third one fails
+ */
+async function seed(storage: IStorage): Promise<void> {
+  for (let i = 0; i < 6; i++) {
+    await storage.saveAction(
+      { type: i % 2 === 0 ? 'execute_transfer' : 'execute_swap', index: i },
+      { success: i % 3 !== 0 },
+      { agentId: i < 3 ? '0xA' : '0xB', source: i < 4 ? 'planner' : 'cron' }
+    );
+  }
+  await storage.saveEvent({ goal: 'swap' }, { agentId: '0xA', trigger: 'cron' });
+  await storage.saveEvent({ goal: 'pay' }, { agentId: '0xB', trigger: 'manual' });
+}
+
+const indexes = (entries: { action: any }[]) =>
+  entries.map((entry) => entry.action.index);
+
+describe.each([
+  ['MemoryStorage', () => new MemoryStorage()],
+  ['FileStorage', () => new FileStorage(dir)],
+])('%s filters', (_name, create) => {
+  it('should filter by status, type, agent, metadata and time', async () => {
+    const storage = create();
+    await seed(storage);
+
+    expect(indexes(await storage.getActions({ status: 'failed' }))).toEqual([0, 3]);
+    expect(
+      indexes(await storage.getActions({ status: 'failed', type: 'execute_transfer' }))
+    ).toEqual([0]);
+    expect(indexes(await storage.getActions({ type: ['execute_swap'] }))).toEqual([
+      1, 3, 5,
+    ]);
+    expect(indexes(await storage.getActions({ agentId: '0xB' }))).toEqual([3, 4, 5]);
+    expect(indexes(await storage.getActions({ metadata: { source: 'cron' } }))).toEqual([
+      4, 5,
+    ]);
+    expect(await storage.getActions({ fromTimestamp: Date.now() + 1000 })).toEqual([]);
+
+    const events = await storage.getEvents({ metadata: { trigger: 'manual' } });
+    expect(events.map((entry) => entry.event.goal)).toEqual(['pay']);
+    expect(await storage.getEvents({ agentId: '0xA' })).toHaveLength(1);
+  });
+
+  it('should page with limit, offset and cursor in either order', async () => {
+    const storage = create();
+    await seed(storage);
+
+    expect(indexes(await storage.getActions({ limit: 2, offset: 1 }))).toEqual([1, 2]);
+    expect(indexes(await storage.getActions({ order: 'desc', limit: 2 }))).toEqual([
+      5, 4,
+    ]);
+
+    const first = await storage.getActions({ type: 'execute_transfer', limit: 2 });
+    const second = await storage.getActions({
+      type: 'execute_transfer',
+      limit: 2,
+      cursor: first[1].id,
+    });
+    expect(indexes(first)).toEqual([0, 2]);
+    expect(indexes(second)).toEqual([4]);
+
+    const newest = await storage.getActions({ order: 'desc', limit: 1 });
+    const older = await storage.getActions({ order: 'desc', cursor: newest[0].id });
+    expect(indexes(older)).toEqual([4, 3, 2, 1, 0]);
+
+    await expect(storage.getActions({ cursor: 'missing' })).rejects.toThrow(
+      'Unknown cursor: missing'
+    );
+  });
+});
+
+describe('ContextBuilder recent actions', () => {
+  it('should fetch the most recent matching actions oldest first', async () => {
+    const storage = new MemoryStorage();
+    await seed(storage);
+    const builder = new ContextBuilder(
+      { name: 'a', description: 'b' } as any,
+      undefined,
+      storage
+    );
+
+    expect(indexes(await builder.getRecentActions(3))).toEqual([3, 4, 5]);
+    expect(
+      indexes(
+        await builder.getRecentActions(5, { status: 'failed', type: 'execute_swap' })
+      )
+    ).toEqual([3]);
+  });
+});
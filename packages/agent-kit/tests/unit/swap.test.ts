@@ -0,0 +1,255 @@
+/**
+ * Swap Provider Tests
+ *
+ * Tests for UniswapV2Provider quotes and swaps and the Executor swap handlers
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { UniswapV2Provider } from '../../src/dex/uniswapV2';
+import { applySlippage } from '../../src/dex/provider';
+import { Executor } from '../../src/runtime/executor';
+
+const addr = (n: number) => ethers.getAddress('0x' + n.toString(16).padStart(40, '0'));
+
+const ROUTER = addr(1);
+const FACTORY = addr(2);
+const MULTICALL = addr(3);
+const WETH = addr(4);
+const TOKEN_A = addr(10);
+const TOKEN_B = addr(11);
+const TOKEN_C = addr(12);
+const OWNER = addr(99);
+
+const multicallIface = new ethers.Interface([
+  'function aggregate(tuple(address target, bytes callData)[] calls) returns (uint256 blockNumber, bytes[] returnData)',
+]);
+const routerIface = new ethers.Interface([
+  'function factory() view returns (address)',
+  'function WETH() view returns (address)',
+]);
+const factoryIface = new ethers.Interface([
+  'function getPair(address tokenA, address tokenB) view returns (address pair)',
+]);
+const pairIface = new ethers.Interface([
+  'function token0() view returns (address)',
+  'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+]);
+
+interface Pool {
+  address: string;
+  token0: string;
+  token1: string;
+  reserve0: bigint;
+  reserve1: bigint;
+}
+
+/**
+ * Fake chain: eth_call against router, factory, pairs and Multicall3
+ */
+function createChain(pools: Pool[], allowance: bigint = 0n) {
+  const answer = (target: string, data: string): string => {
+    if (target === ROUTER) {
+      const call = routerIface.parseTransaction({ data })!;
+      return routerIface.encodeFunctionResult(call.name, [
+        call.name === 'factory' ? FACTORY : WETH,
+      ]);
+    }
+    if (target === FACTORY) {
+      const [a, b] = factoryIface.decodeFunctionData('getPair', data);
+      const pool = pools.find(
+        (p) => (p.token0 === a && p.token1 === b) || (p.token0 === b && p.token1 === a)
+      );
+      return factoryIface.encodeFunctionResult('getPair', [
+        pool?.address ?? ethers.ZeroAddress,
+      ]);
+    }
+    const pool = pools.find((p) => p.address === target)!;
+    const call = pairIface.parseTransaction({ data })!;
+    return call.name === 'token0'
+      ? pairIface.encodeFunctionResult('token0', [pool.token0])
+      : pairIface.encodeFunctionResult('getReserves', [pool.reserve0, pool.reserve1, 0]);
+  };
+
+  const runner = {
+    call: async (tx: any) => {
+      const to = ethers.getAddress(tx.to);
+      if (to !== MULTICALL) {
+        return answer(to, tx.data);
+      }
+      const [calls] = multicallIface.decodeFunctionData('aggregate', tx.data);
+      const results = calls.map((call: any) =>
+        answer(ethers.getAddress(call.target), call.callData)
+      );
+      return multicallIface.encodeFunctionResult('aggregate', [1n, results]);
+    },
+  };
+
+  const swapExactTokensForTokens = vi.fn(async () => ({
+    wait: async () => ({ hash: '0xswap' }),
+  }));
+  const approve = vi.fn(async () => ({ wait: async () => ({ hash: '0xapprove' }) }));
+  const token = {
+    decimals: async () => 18n,
+    allowance: async () => allowance,
+    approve,
+  };
+
+  const chainClient: any = {
+    getNetworkConfig: () => ({ multicall: MULTICALL }),
+    getContract: (address: string, abi: any) => {
+      if (address === ROUTER) return { swapExactTokensForTokens };
+      if (address === MULTICALL) return new ethers.Contract(address, abi, runner as any);
+      return token;
+    },
+    getReadOnlyContract: (address: string, abi: any) =>
+      new ethers.Contract(address, abi, runner as any),
+    getProvider: () => ({ getBlock: async () => ({ timestamp: 1000 }) }),
+    getSigner: () => ({ getAddress: async () => OWNER }),
+    getSignerManager: () => ({
+      getAddress: async () => OWNER,
+      getSessionKey: () => undefined,
+    }),
+  };
+
+  return { chainClient, swapExactTokensForTokens, approve };
+}
+
+const ether = (value: string) => ethers.parseEther(value);
+
+// Pool with tokens in reverse order so the reserve orientation is exercised
+const POOL_AB: Pool = {
+  address: addr(20),
+  token0: TOKEN_B,
+  token1: TOKEN_A,
+  reserve0: ether('2000'),
+  reserve1: ether('1000'),
+};
+
+describe('UniswapV2Provider', () => {
+  it('should quote from reserves with fee, slippage and price impact', async () => {
+    const { chainClient } = createChain([POOL_AB]);
+    const dex = new UniswapV2Provider(chainClient, { router: ROUTER });
+
+    const quote = await dex.getQuote({
+      tokenIn: TOKEN_A,
+      tokenOut: TOKEN_B,
+      amountIn: ether('10'),
+      slippageBps: 100,
+    });
+
+    const amountInWithFee = ether('10') * 9970n;
+    const expected =
+      (amountInWithFee * ether('2000')) / (ether('1000') * 10000n + amountInWithFee);
+
+    expect(quote.path).toEqual([TOKEN_A, TOKEN_B]);
+    expect(quote.amountOut).toBe(expected);
+    expect(quote.amountOutMin).toBe(applySlippage(expected, 100));
+    expect(quote.priceImpactBps).toBe(98);
+  });
+
+  it('should route through the wrapped native token without a direct pool', async () => {
+    const { chainClient } = createChain([
+      {
+        address: addr(21),
+        token0: TOKEN_A,
+        token1: WETH,
+        reserve0: ether('100'),
+        reserve1: ether('100'),
+      },
+      {
+        address: addr(22),
+        token0: WETH,
+        token1: TOKEN_C,
+        reserve0: ether('100'),
+        reserve1: ether('100'),
+      },
+    ]);
+    const dex = new UniswapV2Provider(chainClient, { router: ROUTER });
+
+    const quote = await dex.getQuote({
+      tokenIn: TOKEN_A,
+      tokenOut: TOKEN_C,
+      amountIn: ether('1'),
+    });
+    expect(quote.path).toEqual([TOKEN_A, WETH, TOKEN_C]);
+    expect(quote.amountOut).toBeGreaterThan(0n);
+
+    await expect(
+      dex.getQuote({ tokenIn: TOKEN_B, tokenOut: TOKEN_C, amountIn: ether('1') })
+    ).rejects.toThrow(`No uniswap-v2 pool for ${TOKEN_B}/${WETH}`);
+  });
+
+  it('should approve the router and swap with min output and deadline', async () => {
+    const { chainClient, swapExactTokensForTokens, approve } = createChain([POOL_AB]);
+    const dex = new UniswapV2Provider(chainClient, {
+      router: ROUTER,
+      deadlineSeconds: 600,
+    });
+
+    const result = await dex.swap({
+      tokenIn: TOKEN_A,
+      tokenOut: TOKEN_B,
+      amountIn: ether('10'),
+    });
+
+    expect(approve).toHaveBeenCalledWith(ROUTER, ether('10'));
+    expect(swapExactTokensForTokens).toHaveBeenCalledWith(
+      ether('10'),
+      result.quote.amountOutMin,
+      [TOKEN_A, TOKEN_B],
+      OWNER,
+      1600
+    );
+    expect(result.txHash).toBe('0xswap');
+    expect(result.approvalReceipt?.hash).toBe('0xapprove');
+  });
+});
+
+describe('Executor swap handlers', () => {
+  it('should quote through the configured swap provider', async () => {
+    const { chainClient } = createChain([POOL_AB]);
+    const executor = new Executor(chainClient, undefined, {
+      maxRetries: 0,
+      retryDelay: 1,
+    });
+
+    const missing = await executor.execute({
+      type: 'get_quote',
+      params: { tokenIn: TOKEN_A, tokenOut: TOKEN_B, amountIn: '10' },
+    });
+    expect(missing.error).toMatch(/Swap provider not configured/);
+
+    executor.setSwapProvider(new UniswapV2Provider(chainClient, { router: ROUTER }));
+    const result = await executor.execute({
+      type: 'get_quote',
+      params: { tokenIn: TOKEN_A, tokenOut: TOKEN_B, amountIn: '10', slippageBps: 100 },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      provider: 'uniswap-v2',
+      amountIn: '10.0',
+      amountInRaw: ether('10').toString(),
+      slippageBps: 100,
+    });
+    expect(result.data.rate).toBeCloseTo(1.97, 2);
+  });
+
+  it('should default approve_token spender to the swap provider router', async () => {
+    const { chainClient, approve } = createChain([POOL_AB]);
+    const executor = new Executor(chainClient, undefined, {
+      maxRetries: 0,
+      retryDelay: 1,
+      swapProvider: new UniswapV2Provider(chainClient, { router: ROUTER }),
+    });
+
+    const result = await executor.execute({
+      type: 'approve_token',
+      params: { token: TOKEN_A, amount: '5' },
+    });
+
+    expect(result.success).toBe(true);
+    expect(approve).toHaveBeenCalledWith(ROUTER, ether('5'));
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Task Worker Tests
+ *
+ * Tests for the AgentManager task lifecycle and crash recovery
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TaskWorker } from '../../src/runtime/taskWorker';
+import { Agent, AgentState } from '../../src/runtime/agent';
+import { PolicyEffect } from '../../src/runtime/policy';
+
+const REQUESTER = '0x' + '11'.repeat(20);
+
+interface FakeTask {
+  agentId: bigint;
+  requester: string;
+  taskData: string;
+  status: bigint;
+  result: string;
+}
+
+/**
+ * Fake AgentManager: tasks by ID, TaskCreated logs at the current block
+ */
+function createManager() {
+  const tasks = new Map<bigint, FakeTask>();
+  const logs: Array<{ blockNumber: number; args: { taskId: bigint; agentId: bigint } }> =
+    [];
+  let block = 100;
+  let hashes = 0;
+
+  const sent = (task: FakeTask, status: bigint, result?: string) => {
+    task.status = status;
+    task.result = result ?? task.result;
+    return { hash: `0x${(++hashes).toString(16)}`, wait: async () => ({}) };
+  };
+
+  const manager = {
+    runner: { provider: { getBlockNumber: async () => block } },
+    filters: {
+      TaskCreated: (_taskId: undefined, agentIds: bigint[]) => ({ agentIds }),
+    },
+    queryFilter: vi.fn(async (filter: { agentIds: bigint[] }, from: number, to: number) =>
+      logs.filter(
+        (log) =>
+          log.blockNumber >= from &&
+          log.blockNumber <= to &&
+          filter.agentIds.includes(log.args.agentId)
+      )
+    ),
+    getTask: async (taskId: bigint) => tasks.get(taskId)!,
+    startTask: vi.fn(async (taskId: bigint) => sent(tasks.get(taskId)!, 1n)),
+    completeTask: vi.fn(async (taskId: bigint, result: string) =>
+      sent(tasks.get(taskId)!, 2n, result)
+    ),
+    failTask: vi.fn(async (taskId: bigint) => sent(tasks.get(taskId)!, 3n)),
+  };
+
+  return {
+    manager,
+    tasks,
+    createTask(agentId: bigint, taskData: string, status: bigint = 0n): bigint {
+      const taskId = BigInt(tasks.size + 1);
+      tasks.set(taskId, { agentId, requester: REQUESTER, taskData, status, result: '' });
+      logs.push({ blockNumber: ++block, args: { taskId, agentId } });
+      return taskId;
+    },
+  };
+}
+
+function createAgent(
+  results: any[] = [{ success: true, data: { ok: true } }],
+  outcome: Record<string, any> = {}
+) {
+  return {
+    isActive: () => true,
+    processEvent: vi.fn(async () => ({
+      actions: results.map((_, i) => ({ id: `step-${i + 1}`, type: 'transfer' })),
+      results,
+      blocked: [],
+      pendingApprovals: [],
+      ...outcome,
+    })),
+    rejectAction: vi.fn(),
+  };
+}
+
+let dir: string;
+let statePath: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'task-worker-'));
+  statePath = path.join(dir, 'tasks.json');
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('TaskWorker', () => {
+  it('should run new tasks for its agents and write the result on-chain', async () => {
+    const chain = createManager();
+    const agent = createAgent();
+    const worker = new TaskWorker(agent as any, chain.manager as any, {
+      agentIds: [1n],
+      statePath,
+    });
+
+    await worker.start();
+    const taskId = chain.createTask(1n, JSON.stringify({ goal: 'Pay Bob 1 STT' }));
+    const otherAgent = chain.createTask(2n, '{"goal":"not ours"}');
+    await worker.poll();
+    await worker.stop();
+
+    expect(chain.manager.startTask).toHaveBeenCalledWith(taskId);
+    expect(agent.processEvent).toHaveBeenCalledTimes(1);
+    expect(agent.processEvent.mock.calls[0]).toEqual([
+      expect.objectContaining({
+        goal: 'Pay Bob 1 STT',
+        taskId: '1',
+        agentId: '1',
+        sender: REQUESTER,
+      }),
+    ]);
+    expect(JSON.parse(chain.tasks.get(taskId)!.result)).toEqual({
+      success: true,
+      results: [{ id: 'step-1', type: 'transfer', data: { ok: true } }],
+    });
+    expect(chain.tasks.get(otherAgent)!.status).toBe(0n);
+    expect(worker.getTask(taskId)?.stage).toBe('completed');
+
+    const journal = JSON.parse(await fs.readFile(statePath, 'utf-8'));
+    expect(journal.lastBlock).toBe(102);
+  });
+
+  it('should upload large results to IPFS and fail tasks whose actions fail', async () => {
+    const chain = createManager();
+    const ipfs = {
+      uploadJSON: vi.fn(async () => ({ uri: 'ipfs://QmResult' })),
+    };
+    const worker = new TaskWorker(
+      createAgent([{ success: true, data: 'x'.repeat(100) }]) as any,
+      chain.manager as any,
+      { agentIds: [1n], statePath, ipfs: ipfs as any, ipfsThreshold: 64, fromBlock: 1 }
+    );
+    const taskId = chain.createTask(1n, 'plain text goal');
+
+    await worker.start();
+    await worker.stop();
+    expect(chain.tasks.get(taskId)!.result).toBe('ipfs://QmResult');
+
+    const failing = new TaskWorker(
+      createAgent([{ success: false, error: 'insufficient funds' }]) as any,
+      chain.manager as any,
+      { agentIds: [1n], statePath: path.join(dir, 'failing.json'), fromBlock: 1 }
+    );
+    const failed = chain.createTask(1n, '{"goal":"spend"}');
+
+    await failing.start();
+    await failing.stop();
+    expect(chain.manager.failTask).toHaveBeenCalledWith(failed);
+    expect(failing.getTask(failed)).toMatchObject({
+      stage: 'failed',
+      error: 'insufficient funds',
+    });
+  });
+
+  it('should fail tasks whose actions were blocked or queued for approval', async () => {
+    const chain = createManager();
+    const transfer = { id: 'step-1', type: 'execute_transfer' };
+
+    const blocked = new TaskWorker(
+      createAgent([], { blocked: [{ action: transfer, reason: 'Over the cap' }] }) as any,
+      chain.manager as any,
+      { agentIds: [1n], statePath, fromBlock: 1 }
+    );
+    const first = chain.createTask(1n, 'pay alice');
+    await blocked.start();
+    await blocked.stop();
+    expect(chain.manager.completeTask).not.toHaveBeenCalled();
+    expect(blocked.getTask(first)).toMatchObject({
+      stage: 'failed',
+      error: 'Action execute_transfer blocked: Over the cap',
+    });
+
+    const agent = createAgent([], {
+      pendingApprovals: [{ id: 'approval-1', action: transfer }],
+    });
+    const waiting = new TaskWorker(agent as any, chain.manager as any, {
+      agentIds: [1n],
+      statePath: path.join(dir, 'approvals.json'),
+      fromBlock: 1,
+    });
+    const second = chain.createTask(1n, 'pay bob');
+    await waiting.start();
+    await waiting.stop();
+    expect(agent.rejectAction).toHaveBeenCalledWith(
+      'approval-1',
+      `Task ${second} cannot wait for approval`,
+      'task-worker'
+    );
+    expect(waiting.getTask(second)).toMatchObject({
+      stage: 'failed',
+      error: 'Action execute_transfer requires approval (approval-1)',
+    });
+  });
+
+  it('should resume from the journal without starting tasks twice', async () => {
+    const chain = createManager();
+    const interrupted = chain.createTask(1n, '{"goal":"a"}', 1n);
+    const unsent = chain.createTask(1n, '{"goal":"b"}', 1n);
+    const done = chain.createTask(1n, '{"goal":"c"}', 2n);
+
+    const record = (taskId: bigint, stage: string, result?: string) => ({
+      taskId: taskId.toString(),
+      agentId: '1',
+      stage,
+      result,
+      attempts: 0,
+      updatedAt: 0,
+    });
+    await fs.writeFile(
+      statePath,
+      JSON.stringify({
+        lastBlock: 103,
+        tasks: {
+          [interrupted.toString()]: record(interrupted, 'executing'),
+          [unsent.toString()]: record(unsent, 'completing', '{"saved":true}'),
+          [done.toString()]: record(done, 'completed'),
+        },
+      })
+    );
+
+    const agent = createAgent();
+    const worker = new TaskWorker(agent as any, chain.manager as any, {
+      agentIds: [1n],
+      statePath,
+    });
+    await worker.start();
+    await worker.stop();
+
+    expect(chain.manager.startTask).not.toHaveBeenCalled();
+    expect(agent.processEvent).not.toHaveBeenCalled();
+    expect(chain.manager.failTask).toHaveBeenCalledWith(interrupted);
+    expect(chain.manager.completeTask).toHaveBeenCalledWith(unsent, '{"saved":true}');
+    expect(chain.manager.completeTask).toHaveBeenCalledTimes(1);
+    expect(worker.getTask(unsent)?.stage).toBe('completed');
+  });
+
+  it('should only restrict requesters once policy rules are set', async () => {
+    const chain = createManager();
+    const agent = new Agent(
+      { name: 'TaskAgent', description: 'Runs tasks', owner: REQUESTER },
+      { enableMemory: false }
+    );
+    // Skip on-chain registration
+    (agent as any).state = AgentState.Registered;
+    agent.getPlannerModule().plan = async () => [{ type: 'execute', params: {} }];
+    await agent.start();
+
+    const worker = new TaskWorker(agent, chain.manager as any, {
+      agentIds: [1n],
+      statePath,
+    });
+    await worker.start();
+
+    const allowed = chain.createTask(1n, '{"goal":"first"}');
+    await worker.poll();
+    expect(worker.getTask(allowed)?.stage).toBe('completed');
+
+    agent.getPolicyModule().addRule({
+      name: 'Allow one requester',
+      action: 'execute',
+      effect: PolicyEffect.Allow,
+      conditions: [
+        {
+          type: 'address',
+          operator: 'in',
+          field: 'actor',
+          value: ['0x' + '22'.repeat(20)],
+        },
+      ],
+      enabled: true,
+    });
+    const denied = chain.createTask(1n, '{"goal":"second"}');
+    await worker.poll();
+    await worker.stop();
+    await agent.stop();
+
+    expect(worker.getTask(denied)).toMatchObject({
+      stage: 'failed',
+      error: `Requester ${REQUESTER} is not permitted`,
+    });
+    expect(chain.manager.failTask).toHaveBeenCalledWith(denied);
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * Token Estimation Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import { estimateTokens, estimateValueTokens } from '../../src/utils/tokens';
+
+describe('estimateTokens', () => {
+  it('should count words, number groups and punctuation like a BPE tokenizer', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('Swap 10 USDC for STT')).toBe(5);
+    expect(estimateTokens('1234567')).toBe(3);
+    expect(estimateTokens('{"a":1}')).toBe(5);
+  });
+
+  it('should count dense data and scripts higher than length / 4', () => {
+    const address = '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb0';
+    expect(estimateTokens(address)).toBeGreaterThan(address.length / 4);
+    expect(estimateTokens('你好世界')).toBe(4);
+    expect(estimateValueTokens({ amount: 10n })).toBe(estimateTokens('{"amount":"10"}'));
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Tool Calling Tests
+ *
+ * Tests for native tool calling in LLM adapters and tool-based LLMPlanner planning
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OpenAIAdapter } from '../../src/llm/adapters/openaiAdapter';
+import { OllamaAdapter } from '../../src/llm/adapters/ollamaAdapter';
+import { Executor } from '../../src/runtime/executor';
+import { LLMPlanner } from '../../src/runtime/planner';
+import type { LLMAdapter, ToolDefinition } from '../../src/types/llm';
+
+const TRANSFER_TOOL: ToolDefinition = {
+  name: 'execute_transfer',
+  description: 'Transfer native tokens',
+  parameters: {
+    type: 'object',
+    properties: { to: { type: 'string' }, amount: { type: 'string' } },
+    required: ['to', 'amount'],
+  },
+};
+
+const silentLogger = { debug() {}, info() {}, warn() {}, error() {} };
+
+function mockFetch(body: any) {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify(body), { status: 200 }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('Adapter tool calling', () => {
+  it('should send tools and normalize OpenAI tool calls', async () => {
+    const fetchMock = mockFetch({
+      id: 'chatcmpl-1',
+      model: 'gpt-4',
+      choices: [
+        {
+          finish_reason: 'tool_calls',
+          message: {
+            content: null,
+            tool_calls: [
+              {
+                id: 'call_1',
+                type: 'function',
+                function: {
+                  name: 'execute_transfer',
+                  arguments: '{"to":"0xabc","amount":"1"}',
+                },
+              },
+            ],
+          },
+        },
+      ],
+    });
+
+    const adapter = new OpenAIAdapter({ apiKey: 'test', logger: silentLogger, retries: 0 });
+    const response = await adapter.chat(
+      [
+        { role: 'user', content: 'Send 1 STT to 0xabc' },
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [{ id: 'call_0', name: 'check_balance', arguments: {} }],
+        },
+        { role: 'tool', content: '{"balance":"5"}', toolCallId: 'call_0' },
+      ],
+      { tools: [TRANSFER_TOOL] }
+    );
+
+    expect(response.finishReason).toBe('tool_calls');
+    expect(response.toolCalls).toEqual([
+      { id: 'call_1', name: 'execute_transfer', arguments: { to: '0xabc', amount: '1' } },
+    ]);
+
+    const body = JSON.parse((fetchMock.mock.calls[0] as any[])[1].body);
+    expect(body.tools[0]).toEqual({
+      type: 'function',
+      function: {
+        name: 'execute_transfer',
+        description: 'Transfer native tokens',
+        parameters: TRANSFER_TOOL.parameters,
+      },
+    });
+    expect(body.tool_choice).toBe('auto');
+    expect(body.messages[1].tool_calls[0].function.arguments).toBe('{}');
+    expect(body.messages[2]).toMatchObject({ role: 'tool', tool_call_id: 'call_0' });
+  });
+
+  it('should normalize OpenAI finish reasons', async () => {
+    const adapter = new OpenAIAdapter({ apiKey: 'test', logger: silentLogger, retries: 0 });
+    const finish = async (finish_reason?: string) => {
+      mockFetch({ model: 'gpt-4', choices: [{ finish_reason, message: {} }] });
+      return (await adapter.chat([{ role: 'user', content: 'hi' }])).finishReason;
+    };
+
+    expect(await finish('length')).toBe('length');
+    expect(await finish('function_call')).toBe('tool_calls');
+    expect(await finish('content_filter')).toBeUndefined();
+    expect(await finish()).toBeUndefined();
+  });
+
+  it('should parse Ollama tool calls with object arguments', async () => {
+    mockFetch({
+      model: 'llama3.1',
+      done: true,
+      message: {
+        role: 'assistant',
+        content: '',
+        tool_calls: [{ function: { name: 'execute_transfer', arguments: { to: '0xabc' } } }],
+      },
+    });
+
+    const adapter = new OllamaAdapter({ logger: silentLogger, retries: 0 });
+    const response = await adapter.chat([{ role: 'user', content: 'hi' }], {
+      tools: [TRANSFER_TOOL],
+    });
+
+    expect(response.finishReason).toBe('tool_calls');
+    expect(response.toolCalls?.[0].name).toBe('execute_transfer');
+    expect(response.toolCalls?.[0].arguments).toEqual({ to: '0xabc' });
+    expect(response.toolCalls?.[0].id).toBeTruthy();
+  });
+});
+
+describe('LLMPlanner tool calling', () => {
+  it('should plan actions from tool calls on executor handlers', async () => {
+    const chat = vi.fn(async () => ({
+      content: 'Check the balance, then transfer',
+      toolCalls: [
+        { id: 'c1', name: 'check_balance', arguments: { address: '0xabc' } },
+        { id: 'c2', name: 'unregistered_tool', arguments: {} },
+      ],
+    }));
+    const llm: LLMAdapter = {
+      name: 'fake',
+      generate: vi.fn(async () => ({ content: '[]' })),
+      chat,
+    };
+
+    const executor = new Executor();
+    executor.registerHandler('check_balance', async () => ({ balance: '1' }));
+
+    const planner = new LLMPlanner(llm, { executor });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const plans = await planner.planWithReason('Check my balance');
+
+    expect(plans).toEqual([
+      {
+        type: 'check_balance',
+        params: { address: '0xabc' },
+        reason: 'Check the balance, then transfer',
+        metadata: { toolCallId: 'c1' },
+      },
+    ]);
+    const options = (chat.mock.calls[0] as any[])[1];
+    expect(options.tools.map((tool: ToolDefinition) => tool.name)).toContain('check_balance');
+    expect(llm.generate).not.toHaveBeenCalled();
+
+    warn.mockRestore();
+  });
+
+  it('should fall back to JSON parsing when the model answers in text', async () => {
+    const llm: LLMAdapter = {
+      name: 'fake',
+      generate: vi.fn(),
+      chat: vi.fn(async () => ({
+        content: '[{"type":"no_action","params":{}}]',
+      })),
+    };
+
+    const planner = new LLMPlanner(llm, { tools: [TRANSFER_TOOL] });
+    const actions = await planner.plan('Nothing to do');
+
+    expect(actions).toEqual([{ type: 'no_action', params: {} }]);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Vault Tests
+ *
+ * Tests for VaultManager daily limit math and revert decoding
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { computeDailyLimit, VaultManager } from '../../src/tokens/vault';
+
+const VAULT = ethers.getAddress('0x' + 'aa'.repeat(20));
+const AGENT = ethers.getAddress('0x' + 'bb'.repeat(20));
+const RECIPIENT = ethers.getAddress('0x' + 'cc'.repeat(20));
+const OWNER = ethers.getAddress('0x' + 'dd'.repeat(20));
+
+const NOW = 1_700_000_000;
+
+const errors = new ethers.Interface([
+  'error OwnableUnauthorizedAccount(address account)',
+]);
+
+function callException(options: { reason?: string; data?: string }): Error {
+  return ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+    action: 'estimateGas',
+    data: options.data ?? null,
+    reason: options.reason ?? null,
+    transaction: { to: VAULT, data: '0x' },
+    invocation: null,
+    revert: null,
+  });
+}
+
+/**
+ * Create a VaultManager over a fake contract; `functions` maps method names to
+ * their implementations
+ */
+function createVault(functions: Record<string, (...args: any[]) => any>) {
+  const contract = {
+    interface: errors,
+    getFunction: (method: string) => {
+      if (!functions[method]) {
+        throw new Error(`Unexpected call to ${method}`);
+      }
+      return functions[method];
+    },
+  };
+  const chainClient = {
+    getContract: () => contract,
+    getProvider: () => ({ getBlock: async () => ({ timestamp: NOW }) }),
+  };
+  return new VaultManager(chainClient as any, VAULT);
+}
+
+const sent = (hash: string) => async () => ({ wait: async () => ({ hash }) });
+
+describe('computeDailyLimit', () => {
+  it('should report the remaining allowance within the window', () => {
+    expect(computeDailyLimit(10n, 4n, NOW + 60, NOW)).toEqual({
+      limit: 10n,
+      spent: 4n,
+      remaining: 6n,
+      resetsAt: (NOW + 60) * 1000,
+    });
+    expect(computeDailyLimit(10n, 12n, NOW + 60, NOW).remaining).toBe(0n);
+  });
+
+  it('should reset the spend once the window has ended', () => {
+    expect(computeDailyLimit(10n, 10n, NOW, NOW)).toEqual({
+      limit: 10n,
+      spent: 0n,
+      remaining: 10n,
+      resetsAt: null,
+    });
+  });
+});
+
+describe('VaultManager', () => {
+  const limitInfo = (limit: bigint, spent: bigint) => async () => ({
+    limit,
+    spent,
+    remaining: limit - spent,
+    resetTime: BigInt(NOW + 3600),
+  });
+
+  it('should cap the withdrawable amount by balance and daily limit', async () => {
+    const vault = createVault({
+      isVaultActive: async () => true,
+      getNativeBalance: async () => ethers.parseEther('5'),
+      getAllowedTokens: async () => [],
+      getDailyLimitInfo: limitInfo(ethers.parseEther('1'), ethers.parseEther('0.25')),
+    });
+
+    const info = await vault.getVault(AGENT);
+    expect(info.dailyLimit.remaining).toBe(ethers.parseEther('0.75'));
+    expect(info.withdrawable).toBe(ethers.parseEther('0.75'));
+
+    const inactive = createVault({
+      isVaultActive: async () => false,
+      getNativeBalance: async () => ethers.parseEther('5'),
+      getAllowedTokens: async () => [],
+      getDailyLimitInfo: limitInfo(ethers.parseEther('1'), 0n),
+    });
+    expect((await inactive.getVault(AGENT)).withdrawable).toBe(0n);
+  });
+
+  it('should withdraw and report the remaining allowance when the limit is hit', async () => {
+    const withdrawNative = vi.fn(sent('0x01'));
+    const vault = createVault({
+      withdrawNative,
+      getDailyLimitInfo: limitInfo(ethers.parseEther('1'), ethers.parseEther('0.9')),
+    });
+
+    await expect(vault.withdrawNative(AGENT, RECIPIENT, 5n)).resolves.toEqual({
+      hash: '0x01',
+    });
+    expect(withdrawNative).toHaveBeenCalledWith(AGENT, RECIPIENT, 5n, {});
+
+    withdrawNative.mockRejectedValueOnce(
+      callException({ reason: 'Daily limit exceeded' })
+    );
+    await expect(
+      vault.withdrawNative(AGENT, RECIPIENT, ethers.parseEther('0.5'))
+    ).rejects.toThrow(
+      'AgentVault withdrawNative reverted: Daily limit exceeded (0.1 STT remaining today)'
+    );
+  });
+
+  it('should decode custom errors and validate the daily limit', async () => {
+    const createVaultFn = vi.fn(async () => {
+      throw callException({
+        data: errors.encodeErrorResult('OwnableUnauthorizedAccount', [OWNER]),
+      });
+    });
+    const vault = createVault({ createVault: createVaultFn });
+
+    await expect(vault.createVault(AGENT, ethers.parseEther('1'))).rejects.toThrow(
+      `AgentVault createVault reverted: ${OWNER} is not the vault owner`
+    );
+
+    await expect(vault.createVault(AGENT, ethers.parseEther('101'))).rejects.toThrow(
+      'Daily limit must be between 0.01 and 100.0 STT'
+    );
+    expect(createVaultFn).toHaveBeenCalledTimes(1);
+  });
+});